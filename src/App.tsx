@@ -17,12 +17,16 @@ import AddProviderModal from './components/AddProviderModal';
 import { useUIState } from './state/useUIState';
 import DenialModal from './components/DenialModal';
 import EquipmentModal from './components/EquipmentModal';
+import RequiredDocsModal from './components/RequiredDocsModal';
 import OnboardingTour from './components/OnboardingTour';
 import HelpButton from './components/HelpButton';
 import { useTourState } from './state/useTourState';
 import HelpMenuModal from './components/HelpMenuModal';
 import QuickNoteModal from './components/QuickNoteModal';
 import { useStartupCheck } from './hooks/useStartupCheck';
+import { useWorkflowDefinitions } from './hooks/useWorkflowDefinitions';
+import { useOutboxProcessor } from './hooks/useOutboxProcessor';
+import { useInboundFolderWatcher } from './hooks/useInboundFolderWatcher';
 import SplashScreen from './components/system/SplashScreen';
 import FatalScreen from './components/system/FatalScreen';
 import ConvertLeadModal from './components/ConvertLeadModal';
@@ -30,12 +34,15 @@ import ConvertLeadModal from './components/ConvertLeadModal';
 // Lazy-loaded pages & components
 const Dashboard = React.lazy(() => import('./pages/Dashboard'));
 const Referrals = React.lazy(() => import('./pages/Referrals'));
+const ReferralInbox = React.lazy(() => import('./pages/ReferralInbox'));
 const Patients = React.lazy(() => import('./pages/Patients'));
 const PatientDetailPage = React.lazy(() => import('./pages/PatientDetailPage'));
 const Marketing = React.lazy(() => import('./pages/Marketing'));
 const Trends = React.lazy(() => import('./pages/Trends'));
+const CycleTime = React.lazy(() => import('./pages/CycleTime'));
 const Settings = React.lazy(() => import('./pages/Settings'));
 const AuditLog = React.lazy(() => import('./pages/AuditLog'));
+const ImportHistory = React.lazy(() => import('./pages/ImportHistory'));
 const MyAccounts = React.lazy(() => import('./pages/MyAccounts'));
 const Archived = React.lazy(() => import('./pages/Archived'));
 const LoginPage = React.lazy(() => import('./pages/LoginPage'));
@@ -55,6 +62,8 @@ const AppLayout: React.FC<{ safeMode: boolean }> = ({ safeMode }) => {
   const isBulkActionsVisible = useUIState(state => state.isBulkActionsVisible);
   const isOverlayVisible = useUIState(state => state.isOverlayVisible);
   const { startTour } = useTourState();
+  useOutboxProcessor(!safeMode);
+  useInboundFolderWatcher(!safeMode);
 
   useEffect(() => {
     const hasSeenTour = localStorage.getItem('hasSeenTour');
@@ -87,6 +96,7 @@ const AppLayout: React.FC<{ safeMode: boolean }> = ({ safeMode }) => {
       <AddProviderModal />
       <DenialModal />
       <EquipmentModal />
+      <RequiredDocsModal />
       <QuickNoteModal />
       <OnboardingTour />
       <HelpButton />
@@ -102,10 +112,14 @@ const AppLayout: React.FC<{ safeMode: boolean }> = ({ safeMode }) => {
 
 const ProtectedRoute: React.FC<{ safeMode: boolean }> = ({ safeMode }) => {
   const { session, loading } = useAuth();
+  const { isLoaded: isWorkflowLoaded } = useWorkflowDefinitions(!!session);
   if (loading) {
     return <SplashScreen text="Authenticating..." />;
   }
   if (!session) return <Navigate to="/login" replace />;
+  if (!isWorkflowLoaded) {
+    return <SplashScreen text="Loading workflow..." />;
+  }
   return <AppLayout safeMode={safeMode} />;
 };
 
@@ -133,12 +147,15 @@ const App: React.FC = () => {
                   <Route index element={<Dashboard />} />
                   <Route path="/referrals" element={<Referrals />} />
                   <Route path="/referrals/:id" element={<Referrals />} />
+                  <Route path="/inbox" element={<ReferralInbox />} />
                   <Route path="/patients" element={<Patients />} />
                   <Route path="/patient/:id" element={<PatientDetailPage />} />
                   <Route path="/marketing" element={<Marketing />} />
                   <Route path="/trends" element={<Trends />} />
+                  <Route path="/cycle-time" element={<CycleTime />} />
                   <Route path="/settings" element={<Settings />} />
                   <Route path="/audit-log" element={<AuditLog />} />
+                  <Route path="/import-history" element={<ImportHistory />} />
                   <Route path="/my-accounts" element={<MyAccounts />} />
                   <Route path="/archived" element={<Archived />} />
                   
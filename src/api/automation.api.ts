@@ -0,0 +1,61 @@
+import { supabase } from '@/lib/supabaseClient';
+import type { AutomationRule, AutomationRun, AutomationTrigger } from '@/lib/types';
+
+export type AutomationRuleInput = Omit<AutomationRule, 'id' | 'created_at' | 'updated_at' | 'created_by'>;
+export type AutomationRunInput = Omit<AutomationRun, 'id' | 'created_at' | 'patients'>;
+
+export async function listAutomationRules() {
+  const { data, error } = await supabase
+    .from('automation_rules')
+    .select('*')
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []) as AutomationRule[];
+}
+
+export async function listEnabledRules(trigger: AutomationTrigger) {
+  const { data, error } = await supabase
+    .from('automation_rules')
+    .select('*')
+    .eq('trigger_type', trigger)
+    .eq('is_enabled', true)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []) as AutomationRule[];
+}
+
+export async function createAutomationRule(input: AutomationRuleInput, createdBy: string | null) {
+  const { data, error } = await supabase
+    .from('automation_rules')
+    .insert({ ...input, created_by: createdBy })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as AutomationRule;
+}
+
+export async function updateAutomationRule(id: string, input: Partial<AutomationRuleInput>) {
+  const { data, error } = await supabase.from('automation_rules').update(input).eq('id', id).select().single();
+  if (error) throw error;
+  return data as AutomationRule;
+}
+
+export async function deleteAutomationRule(id: string) {
+  const { error } = await supabase.from('automation_rules').delete().eq('id', id);
+  if (error) throw error;
+}
+
+export async function logAutomationRun(input: AutomationRunInput) {
+  const { error } = await supabase.from('automation_runs').insert(input);
+  if (error) throw error;
+}
+
+export async function listAutomationRuns(limit = 100) {
+  const { data, error } = await supabase
+    .from('automation_runs')
+    .select('*, patients(name)')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []) as AutomationRun[];
+}
@@ -0,0 +1,20 @@
+import { supabase } from '@/lib/supabaseClient';
+import type { DigestSubscription } from '@/lib/types';
+
+export type DigestSubscriptionInput = Omit<DigestSubscription, 'id' | 'last_sent_at' | 'created_at' | 'updated_at'>;
+
+export async function getDigestSubscription(userId: string) {
+  const { data, error } = await supabase.from('digest_subscriptions').select('*').eq('user_id', userId).maybeSingle();
+  if (error) throw error;
+  return data as DigestSubscription | null;
+}
+
+export async function saveDigestSubscription(input: DigestSubscriptionInput) {
+  const { data, error } = await supabase
+    .from('digest_subscriptions')
+    .upsert(input, { onConflict: 'user_id' })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as DigestSubscription;
+}
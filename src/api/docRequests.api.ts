@@ -0,0 +1,52 @@
+import { supabase } from '@/lib/supabaseClient';
+import type { DocRequest, PracticeSettings } from '@/lib/types';
+
+export type DocRequestInput = Pick<DocRequest, 'order_id' | 'patient_id' | 'doctor_id' | 'doc_keys' | 'due_date' | 'format' | 'batch_id' | 'sent_by'>;
+
+export async function getPracticeSettings() {
+  const { data, error } = await supabase.from('practice_settings').select('*').eq('id', 1).maybeSingle();
+  if (error) throw error;
+  return data as PracticeSettings | null;
+}
+
+export async function updatePracticeSettings(settings: PracticeSettings) {
+  const { updated_at, ...values } = settings;
+  const { error } = await supabase.from('practice_settings').update(values).eq('id', 1);
+  if (error) throw error;
+}
+
+export async function logDocRequests(inputs: DocRequestInput[]) {
+  if (inputs.length === 0) return;
+  const { error } = await supabase.from('doc_requests').insert(inputs);
+  if (error) throw error;
+}
+
+export async function listDocRequests(orderId: string) {
+  const { data, error } = await supabase
+    .from('doc_requests')
+    .select('*, doctors(name)')
+    .eq('order_id', orderId)
+    .order('sent_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as DocRequest[];
+}
+
+/** Requests sent since `since` plus any still open, newest first, for the responsiveness figures. */
+export async function listDocRequestsSince(since: Date) {
+  const { data, error } = await supabase
+    .from('doc_requests')
+    .select('*, patients(name)')
+    .or(`sent_at.gte.${since.toISOString()},received_at.is.null`)
+    .order('sent_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as DocRequest[];
+}
+
+/** Counts a reminder against the request and moves its due date to the reminder's. */
+export async function recordDocRequestReminder(request: Pick<DocRequest, 'id' | 'reminder_count'>, dueDate: string) {
+  const { error } = await supabase
+    .from('doc_requests')
+    .update({ reminder_count: request.reminder_count + 1, last_reminded_at: new Date().toISOString(), due_date: dueDate })
+    .eq('id', request.id);
+  if (error) throw error;
+}
@@ -0,0 +1,21 @@
+import { supabase } from '@/lib/supabaseClient';
+import type { DocRuleSet } from '@/lib/types';
+
+export async function listDocRuleSets() {
+  const { data, error } = await supabase.from('doc_rule_sets').select('*').order('name');
+  if (error) throw error;
+  return (data || []) as DocRuleSet[];
+}
+
+export async function saveDocRuleSet(ruleSet: Omit<DocRuleSet, 'id'> & { id?: string }) {
+  const { id, created_at, updated_at, ...values } = ruleSet;
+  const { error } = id
+    ? await supabase.from('doc_rule_sets').update(values).eq('id', id)
+    : await supabase.from('doc_rule_sets').insert(values);
+  if (error) throw error;
+}
+
+export async function deleteDocRuleSet(id: string) {
+  const { error } = await supabase.from('doc_rule_sets').delete().eq('id', id);
+  if (error) throw error;
+}
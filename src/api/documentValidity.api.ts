@@ -0,0 +1,20 @@
+import { supabase } from '@/lib/supabaseClient';
+import { canonicalDocKey } from '@/lib/docMapping';
+import type { DocumentValidityRule } from '@/lib/types';
+
+export async function listValidityRules() {
+  const { data, error } = await supabase.from('document_validity_rules').select('*').order('doc_key');
+  if (error) throw error;
+  return (data || []) as DocumentValidityRule[];
+}
+
+export async function saveValidityRule(rule: DocumentValidityRule) {
+  const { updated_at, ...values } = rule;
+  const { error } = await supabase.from('document_validity_rules').upsert({ ...values, doc_key: canonicalDocKey(values.doc_key) });
+  if (error) throw error;
+}
+
+export async function deleteValidityRule(docKey: string) {
+  const { error } = await supabase.from('document_validity_rules').delete().eq('doc_key', docKey);
+  if (error) throw error;
+}
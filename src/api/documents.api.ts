@@ -0,0 +1,68 @@
+import { supabase } from '@/lib/supabaseClient';
+import type { OrderDocument } from '@/lib/types';
+
+const BUCKET = 'documents';
+/** Signed preview links only need to outlive the preview dialog. */
+const SIGNED_URL_SECONDS = 10 * 60;
+
+export async function listOrderDocuments(orderId: string) {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('uploaded_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as OrderDocument[];
+}
+
+export async function uploadOrderDocument(input: { orderId: string; patientId: string | null; docKey: string; file: File; uploadedBy: string | null }) {
+  const safeName = input.file.name.replace(/[^\w.-]+/g, '_');
+  const filePath = `${input.orderId}/${input.docKey}/${Date.now()}-${safeName}`;
+  const { error: uploadError } = await supabase.storage.from(BUCKET).upload(filePath, input.file, { contentType: input.file.type || undefined });
+  if (uploadError) throw uploadError;
+
+  try {
+    return await recordOrderDocument({
+      order_id: input.orderId,
+      patient_id: input.patientId,
+      doc_key: input.docKey,
+      file_name: input.file.name,
+      file_path: filePath,
+      mime_type: input.file.type || null,
+      size_bytes: input.file.size,
+      uploaded_by: input.uploadedBy,
+    });
+  } catch (error) {
+    // Don't leave an orphaned file behind when the row can't be written.
+    await supabase.storage.from(BUCKET).remove([filePath]);
+    throw error;
+  }
+}
+
+/** Records a file that is already in the bucket, such as an inbound email attachment, as an order document. */
+export async function recordOrderDocument(input: Pick<OrderDocument, 'order_id' | 'patient_id' | 'doc_key' | 'file_name' | 'file_path' | 'mime_type' | 'size_bytes' | 'uploaded_by'>) {
+  const { data, error } = await supabase.from('documents').insert(input).select().single();
+  if (error) throw error;
+  return data as OrderDocument;
+}
+
+export async function verifyOrderDocument(id: string, verifiedBy: string | null) {
+  const { error } = await supabase
+    .from('documents')
+    .update({ verified: true, verified_by: verifiedBy, verified_at: new Date().toISOString() })
+    .eq('id', id);
+  if (error) throw error;
+}
+
+export async function deleteOrderDocument(document: Pick<OrderDocument, 'id' | 'file_path'>) {
+  const { error } = await supabase.from('documents').delete().eq('id', document.id);
+  if (error) throw error;
+  const { error: storageError } = await supabase.storage.from(BUCKET).remove([document.file_path]);
+  if (storageError) console.error('Failed to remove document file:', storageError);
+}
+
+export async function getDocumentUrl(filePath: string) {
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(filePath, SIGNED_URL_SECONDS);
+  if (error) throw error;
+  return data.signedUrl;
+}
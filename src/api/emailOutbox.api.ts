@@ -0,0 +1,90 @@
+import { supabase } from '@/lib/supabaseClient';
+import type { OutboxEmail, OutboxEmailStatus, VendorLog } from '@/lib/types';
+
+export type OutboxEmailInput = Pick<OutboxEmail, 'to_address' | 'subject' | 'body' | 'order_id' | 'patient_id' | 'rule_id' | 'created_by'> &
+  Partial<Pick<OutboxEmail, 'reply_to'>>;
+
+export type OutboxAttachmentInput = {
+  filename: string;
+  /** Base64-encoded file content. */
+  content: string;
+  content_type?: string;
+};
+
+const OUTBOX_SELECT = '*, patients(name), email_outbox_attachments(id, filename, content_type, size_bytes)';
+
+/** Queues an email with its attachments. It is sent by the next outbox run. */
+export async function queueEmail(input: OutboxEmailInput, attachments: OutboxAttachmentInput[] = []) {
+  const { data, error } = await supabase.from('email_outbox').insert(input).select().single();
+  if (error) throw error;
+  const email = data as OutboxEmail;
+
+  if (attachments.length > 0) {
+    const { error: attachmentError } = await supabase.from('email_outbox_attachments').insert(
+      attachments.map(a => ({
+        email_id: email.id,
+        filename: a.filename,
+        content_type: a.content_type || null,
+        size_bytes: Math.floor((a.content.length * 3) / 4),
+        content: a.content,
+      })),
+    );
+    if (attachmentError) {
+      // Never leave an email queued without the attachments it was meant to carry.
+      await supabase.from('email_outbox').delete().eq('id', email.id);
+      throw attachmentError;
+    }
+  }
+  return email;
+}
+
+export async function getOutboxEmail(id: string) {
+  const { data, error } = await supabase.from('email_outbox').select(OUTBOX_SELECT).eq('id', id).single();
+  if (error) throw error;
+  return data as OutboxEmail;
+}
+
+export async function listOutbox(statuses: OutboxEmailStatus[] = ['queued', 'sending', 'failed']) {
+  const { data, error } = await supabase
+    .from('email_outbox')
+    .select(OUTBOX_SELECT)
+    .in('status', statuses)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []) as OutboxEmail[];
+}
+
+/**
+ * Makes a queued or failed email due now. An email that used up its attempts
+ * gets one more; if that fails too it goes back to failed.
+ */
+export async function retryOutboxEmail(email: OutboxEmail) {
+  const { error } = await supabase
+    .from('email_outbox')
+    .update({
+      status: 'queued',
+      next_attempt_at: new Date().toISOString(),
+      max_attempts: Math.max(email.max_attempts, email.attempts + 1),
+    })
+    .eq('id', email.id)
+    .in('status', ['queued', 'failed']);
+  if (error) throw error;
+}
+
+export async function cancelOutboxEmail(id: string) {
+  const { error } = await supabase
+    .from('email_outbox')
+    .update({ status: 'cancelled', next_attempt_at: null })
+    .eq('id', id)
+    .in('status', ['queued', 'failed']);
+  if (error) throw error;
+}
+
+export async function listVendorLog() {
+  const { data, error } = await supabase
+    .from('vendor_log')
+    .select(`*, email_outbox(${OUTBOX_SELECT})`)
+    .order('sent_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as VendorLog[];
+}
@@ -0,0 +1,29 @@
+import { supabase } from '@/lib/supabaseClient';
+import type { DevMailboxMessage, EmailSettings } from '@/lib/types';
+
+export async function getEmailSettings() {
+  const { data, error } = await supabase.from('email_settings').select('*').eq('id', 1).maybeSingle();
+  if (error) throw error;
+  return data as EmailSettings | null;
+}
+
+export async function updateEmailSettings(settings: EmailSettings) {
+  const { updated_at, ...values } = settings;
+  const { error } = await supabase.from('email_settings').update(values).eq('id', 1);
+  if (error) throw error;
+}
+
+export async function listDevMailbox(limit = 25) {
+  const { data, error } = await supabase
+    .from('dev_mailbox')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []) as DevMailboxMessage[];
+}
+
+export async function clearDevMailbox() {
+  const { error } = await supabase.from('dev_mailbox').delete().not('id', 'is', null);
+  if (error) throw error;
+}
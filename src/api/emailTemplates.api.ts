@@ -0,0 +1,25 @@
+import { supabase } from '@/lib/supabaseClient';
+import type { EmailTemplateOverride } from '@/lib/types';
+
+export async function listEmailTemplateOverrides() {
+  const { data, error } = await supabase.from('email_templates').select('*');
+  if (error) throw error;
+  return (data || []) as EmailTemplateOverride[];
+}
+
+export async function getEmailTemplateOverride(key: string) {
+  const { data, error } = await supabase.from('email_templates').select('*').eq('key', key).maybeSingle();
+  if (error) throw error;
+  return data as EmailTemplateOverride | null;
+}
+
+export async function saveEmailTemplate(template: Omit<EmailTemplateOverride, 'updated_at'>) {
+  const { error } = await supabase.from('email_templates').upsert(template, { onConflict: 'key' });
+  if (error) throw error;
+}
+
+/** Deletes the edited copy so the template goes back to its built-in wording. */
+export async function resetEmailTemplate(key: string) {
+  const { error } = await supabase.from('email_templates').delete().eq('key', key);
+  if (error) throw error;
+}
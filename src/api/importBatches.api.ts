@@ -0,0 +1,53 @@
+import { supabase } from '@/lib/supabaseClient';
+import type { ImportBatch, ImportBatchItem } from '@/lib/types';
+
+export type ImportBatchInput = Pick<ImportBatch, 'file_name' | 'profile_id' | 'profile_name' | 'rep_name' | 'created_by' | 'created_by_email'>;
+export type ImportBatchItemInput = Omit<ImportBatchItem, 'id' | 'batch_id' | 'created_at'>;
+
+export async function createImportBatch(input: ImportBatchInput) {
+  const { data, error } = await supabase.from('import_batches').insert(input).select().single();
+  if (error) throw error;
+  return data as ImportBatch;
+}
+
+export async function recordImportBatchItems(batchId: string, items: ImportBatchItemInput[]) {
+  if (items.length === 0) return;
+  const { error } = await supabase
+    .from('import_batch_items')
+    .insert(items.map(item => ({ ...item, batch_id: batchId })));
+  if (error) throw error;
+}
+
+export async function finalizeImportBatch(batchId: string, counts: Pick<ImportBatch, 'imported_count' | 'updated_count' | 'skipped_count'>) {
+  const { error } = await supabase.from('import_batches').update(counts).eq('id', batchId);
+  if (error) throw error;
+}
+
+export async function listImportBatches() {
+  const { data, error } = await supabase
+    .from('import_batches')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as ImportBatch[];
+}
+
+export async function listImportBatchItems(batchId: string) {
+  const { data, error } = await supabase
+    .from('import_batch_items')
+    .select('*')
+    .eq('batch_id', batchId)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as ImportBatchItem[];
+}
+
+export async function rollbackImportBatch(batchId: string, rolledBackBy?: string | null) {
+  const { error } = await supabase.rpc('rollback_import_batch', {
+    p_batch_id: batchId,
+    p_rolled_back_by: rolledBackBy ?? null,
+  });
+  if (error) throw error;
+}
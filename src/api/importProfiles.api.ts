@@ -0,0 +1,42 @@
+import { supabase } from '@/lib/supabaseClient';
+import type { ImportProfile } from '@/lib/types';
+
+export type ImportProfileInput = Omit<ImportProfile, 'id' | 'created_at' | 'updated_at' | 'created_by'>;
+
+export async function listImportProfiles() {
+  const { data, error } = await supabase
+    .from('import_profiles')
+    .select('*')
+    .order('is_default', { ascending: false })
+    .order('name');
+
+  if (error) throw error;
+  return (data || []) as ImportProfile[];
+}
+
+/** Clears the current default first so the single-default index is never violated. */
+async function clearDefault(exceptId?: string) {
+  let query = supabase.from('import_profiles').update({ is_default: false }).eq('is_default', true);
+  if (exceptId) query = query.neq('id', exceptId);
+  const { error } = await query;
+  if (error) throw error;
+}
+
+export async function createImportProfile(input: ImportProfileInput) {
+  if (input.is_default) await clearDefault();
+  const { data, error } = await supabase.from('import_profiles').insert(input).select().single();
+  if (error) throw error;
+  return data as ImportProfile;
+}
+
+export async function updateImportProfile(id: string, input: Partial<ImportProfileInput>) {
+  if (input.is_default) await clearDefault(id);
+  const { data, error } = await supabase.from('import_profiles').update(input).eq('id', id).select().single();
+  if (error) throw error;
+  return data as ImportProfile;
+}
+
+export async function deleteImportProfile(id: string) {
+  const { error } = await supabase.from('import_profiles').delete().eq('id', id);
+  if (error) throw error;
+}
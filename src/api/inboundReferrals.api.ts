@@ -0,0 +1,107 @@
+import { supabase } from '@/lib/supabaseClient';
+import type { InboundReferral, InboundReferralAttachment, InboundReferralStatus } from '@/lib/types';
+
+/** Inbound attachments live in the private documents bucket until they are filed on an order. */
+const BUCKET = 'documents';
+
+export type InboundReferralInput = Pick<
+  InboundReferral,
+  'source' | 'file_name' | 'dedupe_key' | 'message_id' | 'from_name' | 'from_address' | 'subject' | 'body' | 'received_at' | 'draft' | 'patient_matches' | 'suggested_doctor_id' | 'created_by'
+>;
+
+const INBOUND_SELECT = '*, inbound_referral_attachments(*)';
+
+export async function listInboundReferrals(statuses: InboundReferralStatus[] = ['pending']) {
+  const { data, error } = await supabase
+    .from('inbound_referrals')
+    .select(INBOUND_SELECT)
+    .in('status', statuses)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as InboundReferral[];
+}
+
+export async function inboundReferralExists(dedupeKey: string) {
+  const { count, error } = await supabase
+    .from('inbound_referrals')
+    .select('id', { count: 'exact', head: true })
+    .eq('dedupe_key', dedupeKey);
+  if (error) throw error;
+  return (count ?? 0) > 0;
+}
+
+export async function createInboundReferral(input: InboundReferralInput) {
+  const { data, error } = await supabase.from('inbound_referrals').insert(input).select().single();
+  if (error) throw error;
+  return data as InboundReferral;
+}
+
+export async function deleteInboundReferral(id: string) {
+  const { error } = await supabase.from('inbound_referrals').delete().eq('id', id);
+  if (error) throw error;
+}
+
+export async function uploadInboundAttachment(inboundId: string, file: { name: string; type: string; content: Uint8Array }) {
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const filePath = `inbound/${inboundId}/${Date.now()}-${safeName}`;
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(filePath, new Blob([file.content as BlobPart], { type: file.type }), { contentType: file.type || undefined });
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from('inbound_referral_attachments')
+    .insert({ inbound_id: inboundId, file_name: file.name, mime_type: file.type || null, size_bytes: file.content.length, file_path: filePath })
+    .select()
+    .single();
+  if (error) {
+    await supabase.storage.from(BUCKET).remove([filePath]);
+    throw error;
+  }
+  return data as InboundReferralAttachment;
+}
+
+export async function updateInboundAttachment(id: string, changes: Partial<Pick<InboundReferralAttachment, 'doc_key' | 'document_id'>>) {
+  const { error } = await supabase.from('inbound_referral_attachments').update(changes).eq('id', id);
+  if (error) throw error;
+}
+
+/** Deletes the attachment rows and their files; used when a draft is discarded. */
+export async function removeInboundAttachments(attachments: Pick<InboundReferralAttachment, 'id' | 'file_path'>[]) {
+  if (attachments.length === 0) return;
+  const { error } = await supabase.from('inbound_referral_attachments').delete().in('id', attachments.map(a => a.id));
+  if (error) throw error;
+  const { error: storageError } = await supabase.storage.from(BUCKET).remove(attachments.map(a => a.file_path));
+  if (storageError) console.error('Failed to remove inbound attachment files:', storageError);
+}
+
+/**
+ * Marks a pending draft as accepted, merged or discarded before the work is
+ * done, so two people triaging the same email cannot both act on it. Returns
+ * false when someone else got there first.
+ */
+export async function claimInboundReferral(id: string, status: Exclude<InboundReferralStatus, 'pending'>, resolvedBy: string | null) {
+  const { data, error } = await supabase
+    .from('inbound_referrals')
+    .update({ status, resolved_by: resolvedBy, resolved_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select('id');
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/** Puts a claimed draft back in the queue after the work failed. */
+export async function releaseInboundReferral(id: string) {
+  const { error } = await supabase
+    .from('inbound_referrals')
+    .update({ status: 'pending', resolved_by: null, resolved_at: null })
+    .eq('id', id);
+  if (error) throw error;
+}
+
+/** Records where an accepted or merged draft ended up. */
+export async function completeInboundReferral(id: string, changes: Partial<Pick<InboundReferral, 'patient_id' | 'order_id' | 'draft' | 'suggested_doctor_id'>>) {
+  const { error } = await supabase.from('inbound_referrals').update(changes).eq('id', id);
+  if (error) throw error;
+}
@@ -0,0 +1,43 @@
+import { supabase } from '@/lib/supabaseClient';
+import type { InsuranceIndex } from '@/lib/patientMatching';
+
+export interface InsuranceAlias {
+  id: string;
+  provider_id: string;
+  alias: string;
+  created_at: string;
+}
+
+export async function listInsuranceAliases() {
+  const { data, error } = await supabase.from('insurance_provider_aliases').select('*').order('alias');
+  if (error) throw error;
+  return (data || []) as InsuranceAlias[];
+}
+
+export async function addInsuranceAlias(providerId: string, alias: string) {
+  const { error } = await supabase.from('insurance_provider_aliases').insert({ provider_id: providerId, alias: alias.trim().toUpperCase() });
+  if (error) throw error;
+}
+
+export async function deleteInsuranceAlias(id: string) {
+  const { error } = await supabase.from('insurance_provider_aliases').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/** Builds a lookup of provider names and aliases to their canonical provider. */
+export async function loadInsuranceIndex(): Promise<InsuranceIndex> {
+  const { data, error } = await supabase
+    .from('insurance_providers')
+    .select('id, name, insurance_provider_aliases(alias)');
+  if (error) throw error;
+
+  const index: InsuranceIndex = new Map();
+  for (const provider of (data || []) as { id: string; name: string; insurance_provider_aliases: { alias: string }[] | null }[]) {
+    const canonical = { id: provider.id, name: provider.name };
+    index.set(provider.name.trim().toUpperCase(), canonical);
+    for (const { alias } of provider.insurance_provider_aliases || []) {
+      index.set(alias.trim().toUpperCase(), canonical);
+    }
+  }
+  return index;
+}
@@ -6,6 +6,8 @@ export interface AddNoteInput {
   source?: 'manual' | 'stage_change';
   stage_from?: string | null;
   stage_to?: string | null;
+  status_from?: string | null;
+  status_to?: string | null;
   is_pinned?: boolean;
 }
 
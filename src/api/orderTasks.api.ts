@@ -0,0 +1,33 @@
+import { supabase } from '@/lib/supabaseClient';
+import type { OrderTask } from '@/lib/types';
+
+export type OrderTaskInput = Pick<OrderTask, 'order_id' | 'patient_id' | 'title' | 'due_date' | 'assigned_to' | 'rule_id' | 'created_by'>;
+
+export async function listOrderTasks(orderId: string) {
+  const { data, error } = await supabase
+    .from('order_tasks')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('is_done', { ascending: true })
+    .order('due_date', { ascending: true, nullsFirst: false });
+  if (error) throw error;
+  return (data || []) as OrderTask[];
+}
+
+export async function createOrderTask(input: OrderTaskInput) {
+  const { data, error } = await supabase.from('order_tasks').insert(input).select().single();
+  if (error) throw error;
+  return data as OrderTask;
+}
+
+export async function setOrderTaskDone(id: string, isDone: boolean, completedBy: string | null) {
+  const { error } = await supabase
+    .from('order_tasks')
+    .update({
+      is_done: isDone,
+      completed_at: isDone ? new Date().toISOString() : null,
+      completed_by: isDone ? completedBy : null,
+    })
+    .eq('id', id);
+  if (error) throw error;
+}
@@ -0,0 +1,32 @@
+import { supabase } from '@/lib/supabaseClient';
+import type { StoplightCriteria, StoplightHistoryEntry } from '@/lib/types';
+
+export type StoplightHistoryInput = Omit<StoplightHistoryEntry, 'id' | 'changed_at'>;
+
+export async function getStoplightCriteria() {
+  const { data, error } = await supabase.from('stoplight_criteria').select('*').eq('id', 1).maybeSingle();
+  if (error) throw error;
+  return data as StoplightCriteria | null;
+}
+
+export async function updateStoplightCriteria(criteria: StoplightCriteria) {
+  const { updated_at, ...values } = criteria;
+  const { error } = await supabase.from('stoplight_criteria').upsert({ id: 1, ...values });
+  if (error) throw error;
+}
+
+export async function logStoplightChange(input: StoplightHistoryInput) {
+  const { error } = await supabase.from('stoplight_history').insert(input);
+  if (error) throw error;
+}
+
+export async function listStoplightHistory(from: Date, to: Date) {
+  const { data, error } = await supabase
+    .from('stoplight_history')
+    .select('*')
+    .gte('changed_at', from.toISOString())
+    .lte('changed_at', to.toISOString())
+    .order('changed_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as StoplightHistoryEntry[];
+}
@@ -0,0 +1,58 @@
+import { supabase } from '@/lib/supabaseClient';
+import type { WorkflowDefinition, WorkflowStageDefinition } from '@/lib/workflowDefinition';
+
+type WorkflowDefinitionRow = {
+  version: number;
+  definition: { workflow: WorkflowStageDefinition[] };
+  pipeline: string;
+  name: string;
+  case_types: string[] | null;
+  payers: string[] | null;
+  is_active: boolean;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+};
+
+const fromRow = (row: WorkflowDefinitionRow): WorkflowDefinition => ({
+  version: row.version,
+  workflow: row.definition?.workflow || [],
+  pipeline: row.pipeline,
+  name: row.name,
+  case_types: row.case_types || [],
+  payers: row.payers || [],
+  is_active: row.is_active,
+  notes: row.notes,
+  created_by: row.created_by,
+  created_at: row.created_at,
+});
+
+export async function listWorkflowDefinitions(): Promise<WorkflowDefinition[]> {
+  const { data, error } = await supabase
+    .from('workflow_definitions')
+    .select('version, definition, pipeline, name, case_types, payers, is_active, notes, created_by, created_at')
+    .order('version', { ascending: true });
+  if (error) throw error;
+  return (data as WorkflowDefinitionRow[]).map(fromRow);
+}
+
+export type PipelineSettings = Pick<WorkflowDefinition, 'pipeline' | 'name' | 'case_types' | 'payers'>;
+
+/**
+ * Saves `workflow` as a new version of `settings.pipeline` (creating the pipeline if
+ * it is new) and makes it the version new matching orders follow.
+ */
+export async function publishWorkflowDefinition(workflow: WorkflowStageDefinition[], notes: string | null, settings: PipelineSettings): Promise<WorkflowDefinition> {
+  const { data, error } = await supabase
+    .rpc('publish_workflow_definition', {
+      p_definition: { workflow },
+      p_notes: notes,
+      p_pipeline: settings.pipeline,
+      p_name: settings.name,
+      p_case_types: settings.case_types,
+      p_payers: settings.payers,
+    })
+    .single();
+  if (error) throw error;
+  return fromRow(data as WorkflowDefinitionRow);
+}
@@ -0,0 +1,49 @@
+import { supabase } from '@/lib/supabaseClient';
+import { writeAuditLog } from '@/lib/auditLogger';
+import { runAutomations } from '@/lib/automation';
+import { syncStoplight } from '@/lib/stoplight';
+import type { StageGateOverride } from '@/lib/stageGates';
+
+export interface StageChangeInput {
+  order_id: string;
+  patient_id: string | null;
+  previous_stage: string | null;
+  new_stage: string;
+  previous_status: string | null;
+  new_status: string | null;
+  note: string;
+  changed_by: string;
+  override?: StageGateOverride;
+}
+
+/**
+ * Writes a stage and/or status change to `workflow_history`. Overridden stage
+ * gates are stored on the same row and also written to the audit log. Entering a
+ * new stage runs the `stage_entered` automation rules and recomputes the stoplight.
+ */
+export async function recordStageChange(input: StageChangeInput) {
+  const { override, patient_id, ...history } = input;
+  const { error } = await supabase.from('workflow_history').insert({
+    ...history,
+    override_reason: override?.reason ?? null,
+    override_missing: override?.missing ?? null,
+  });
+  if (error) throw error;
+
+  if (override) {
+    await writeAuditLog('stage_gate_override', {
+      changed_by: input.changed_by,
+      patient_id,
+      order_id: input.order_id,
+      from: input.previous_stage,
+      to: input.new_stage,
+      reason: override.reason,
+      missing: override.missing,
+    });
+  }
+
+  if (input.previous_stage !== input.new_stage) {
+    await runAutomations({ trigger: 'stage_entered', value: input.new_stage, orderId: input.order_id, triggeredBy: input.changed_by });
+    await syncStoplight(input.order_id, input.changed_by);
+  }
+}
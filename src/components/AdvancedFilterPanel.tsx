@@ -4,9 +4,27 @@ import { Button } from './ui/button';
 import { Input } from './ui/Input';
 import { Select } from './ui/Select';
 import { X, SlidersHorizontal } from 'lucide-react';
-import type { AdvancedFilters } from '@/pages/Referrals';
-import { labelMap, DocKey } from '@/lib/docMapping';
-import workflowData from '../../schemas/workflow.json';
+import { docTypes } from '@/lib/docMapping';
+import { allStageNames } from '@/lib/workflowDefinition';
+import { stageStatusOptions } from '@/lib/stageStatus';
+
+export interface AdvancedFilters {
+  firstName?: string;
+  lastName?: string;
+  dob?: string;
+  insurance?: string;
+  dateStart?: string;
+  dateEnd?: string;
+  workflowStage?: string;
+  /** Sub-status within `workflowStage`; ignored without a stage. */
+  workflowStatus?: string;
+  docFilterKey?: string;
+  docFilterStatus?: string;
+  payer_region?: string;
+  rep_name?: string;
+  /** 'breached' or 'due_this_week'. */
+  sla?: string;
+}
 
 interface AdvancedFilterPanelProps {
   isOpen: boolean;
@@ -16,14 +34,9 @@ interface AdvancedFilterPanelProps {
   onClear: () => void;
 }
 
-const docOptions = Object.keys(labelMap).map(key => ({
-    value: key,
-    label: labelMap[key as DocKey],
-}));
-
-const stageOptions = workflowData.workflow.map(s => ({
-    value: s.stage,
-    label: s.stage,
+const docOptions = docTypes.map(t => ({
+    value: t.key,
+    label: t.label,
 }));
 
 const docStatusOptions = [
@@ -32,8 +45,14 @@ const docStatusOptions = [
     { value: 'Not Required', label: 'Is Not Required' },
 ];
 
+const slaOptions = [
+    { value: 'breached', label: 'SLA breached' },
+    { value: 'due_this_week', label: 'Due this week' },
+];
+
 const AdvancedFilterPanel: React.FC<AdvancedFilterPanelProps> = ({ isOpen, onClose, activeFilters, onApply, onClear }) => {
   const [filters, setFilters] = useState<AdvancedFilters>(activeFilters);
+  const stageOptions = allStageNames().map(stage => ({ value: stage, label: stage }));
 
   useEffect(() => {
     setFilters(activeFilters);
@@ -43,6 +62,10 @@ const AdvancedFilterPanel: React.FC<AdvancedFilterPanelProps> = ({ isOpen, onClo
     setFilters(prev => ({ ...prev, [field]: value }));
   };
 
+  const handleStageChange = (value: string) => {
+    setFilters(prev => ({ ...prev, workflowStage: value, workflowStatus: '' }));
+  };
+
   const handleApply = () => {
     onApply(filters);
     onClose();
@@ -57,8 +80,10 @@ const AdvancedFilterPanel: React.FC<AdvancedFilterPanelProps> = ({ isOpen, onClo
         dateStart: '',
         dateEnd: '',
         workflowStage: '',
+        workflowStatus: '',
         docFilterKey: '',
         docFilterStatus: '',
+        sla: '',
     };
     setFilters(clearedFilters);
     onClear();
@@ -87,9 +112,11 @@ const AdvancedFilterPanel: React.FC<AdvancedFilterPanelProps> = ({ isOpen, onClo
                 <div>
                     <h3 className="text-base font-semibold text-text">Workflow & Documents</h3>
                      <div className="mt-4 grid grid-cols-1 gap-y-6 sm:grid-cols-2 sm:gap-x-4">
-                        <Select label="Workflow Stage" options={stageOptions} value={filters.workflowStage || ''} onChange={e => handleInputChange('workflowStage', e.target.value)} />
+                        <Select label="Workflow Stage" options={stageOptions} value={filters.workflowStage || ''} onChange={e => handleStageChange(e.target.value)} />
+                        <Select label="Stage Status" options={stageStatusOptions(filters.workflowStage)} value={filters.workflowStatus || ''} onChange={e => handleInputChange('workflowStatus', e.target.value)} disabled={!filters.workflowStage} />
                         <Select label="Document Type" options={docOptions} value={filters.docFilterKey || ''} onChange={e => handleInputChange('docFilterKey', e.target.value)} />
                         <Select label="Document Status" options={docStatusOptions} value={filters.docFilterStatus || ''} onChange={e => handleInputChange('docFilterStatus', e.target.value)} disabled={!filters.docFilterKey} />
+                        <Select label="SLA" options={slaOptions} value={filters.sla || ''} onChange={e => handleInputChange('sla', e.target.value)} />
                     </div>
                 </div>
             </div>
@@ -8,11 +8,14 @@ import { cn } from '@/lib/utils';
 const breadcrumbNameMap: Record<string, string> = {
   '/': 'Dashboard',
   '/referrals': 'Referrals',
+  '/inbox': 'Referral Inbox',
   '/patients': 'Patients',
   '/marketing': 'Marketing',
   '/trends': 'Trends',
+  '/cycle-time': 'Cycle Time',
   '/settings': 'Settings',
   '/audit-log': 'Audit Log',
+  '/import-history': 'Import History',
   '/my-accounts': 'Payers',
   '/archived': 'Archived',
 };
@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import type { Order, DocumentTemplate } from '../lib/types';
 import { highlight } from '../lib/highlight';
 import { cn } from '../lib/utils';
+import { canonicalDocKey } from '../lib/docMapping';
 import { DocToggleButton } from './DocToggleButton';
 
 interface ComplianceTableProps {
@@ -29,17 +30,18 @@ const ComplianceRow = React.memo(({ order, documents, patientFilter, isScrolled,
             </button>
         </td>
         {documents.map(doc => {
-            const isRequired = order.patients?.required_documents?.includes(doc.abbrev);
+            const docKey = canonicalDocKey(doc.abbrev || '');
+            const isRequired = order.patients?.required_documents?.includes(docKey);
             if (!isRequired) {
                 return <td key={doc.abbrev} className="text-center text-gray-300 border-b">-</td>;
             }
-            const status = order.document_status?.[doc.abbrev];
+            const status = order.document_status?.[docKey];
             return (
                 <td key={doc.abbrev} className="text-center border-b">
                 <DocToggleButton
                     orderId={order.id}
                     patientName={order.patients?.name || 'Unknown'}
-                    docAbbrev={doc.abbrev}
+                    docAbbrev={docKey}
                     initialStatus={status}
                 />
                 </td>
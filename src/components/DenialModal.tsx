@@ -11,14 +11,18 @@ import { useQueryClient } from '@tanstack/react-query';
 import { toast } from '@/lib/toast';
 import { Loader2 } from 'lucide-react';
 import { denialReasonOptions, appealOutcomeOptions } from '@/lib/formConstants';
-import workflowData from '../../schemas/workflow.json';
+import { allStageNames } from '@/lib/workflowDefinition';
+import { runAutomations } from '@/lib/automation';
+import { syncStoplight } from '@/lib/stoplight';
+import { useAuth } from '@/contexts/AuthContext';
 
-const stageOptions = workflowData.workflow.map(s => ({ value: s.stage, label: s.stage }));
 
 export default function DenialModal() {
   const { isOpen, closeModal, form, setForm, editingDenial, orderId } = useDenialModal();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
   const [isSaving, setIsSaving] = React.useState(false);
+  const stageOptions = allStageNames().map(stage => ({ value: stage, label: stage }));
 
   const handleSave = async () => {
     if (!form.reason_text || !form.notes?.trim()) {
@@ -36,9 +40,13 @@ export default function DenialModal() {
         const { error } = await supabase.from('denials').insert(payload);
         if (error) throw error;
         toast('Denial record added.', 'ok');
+        if (orderId) await runAutomations({ trigger: 'denial_logged', orderId, triggeredBy: user?.email });
       }
+      if (orderId) await syncStoplight(orderId, user?.email);
       queryClient.invalidateQueries({ queryKey: ['denials', orderId] });
       queryClient.invalidateQueries({ queryKey: ['patient_details', form.patient_id] });
+      queryClient.invalidateQueries({ queryKey: ['referrals_direct_all'] });
+      queryClient.invalidateQueries({ queryKey: ['order_tasks', orderId] });
       closeModal();
     } catch (error: any) {
       toast(`Error: ${error.message}`, 'err');
@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import React from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabaseClient';
 import { useDenialModal } from '@/state/useDenialModal';
 import type { Denial } from '@/lib/types';
@@ -7,8 +7,8 @@ import { Button } from './ui/button';
 import { Plus, Edit, Trash2 } from 'lucide-react';
 import EmptyState from './ui/EmptyState';
 import { toast } from '@/lib/toast';
-import SimpleConfirmationModal from './ui/SimpleConfirmationModal';
-import { writeAuditLog } from '@/lib/auditLogger';
+import { syncStoplight } from '@/lib/stoplight';
+import { useAuth } from '@/contexts/AuthContext';
 
 interface DenialPanelProps {
   orderId: string;
@@ -18,8 +18,7 @@ interface DenialPanelProps {
 const DenialPanel: React.FC<DenialPanelProps> = ({ orderId, patientId }) => {
   const openModal = useDenialModal(state => state.openModal);
   const queryClient = useQueryClient();
-  const [showStoplightPrompt, setShowStoplightPrompt] = useState(false);
-  const denialCountRef = useRef(0);
+  const { user } = useAuth();
 
   const { data: denials = [], isLoading } = useQuery<Denial[]>({
     queryKey: ['denials', orderId],
@@ -31,35 +30,6 @@ const DenialPanel: React.FC<DenialPanelProps> = ({ orderId, patientId }) => {
     enabled: !!orderId,
   });
 
-  useEffect(() => {
-    const newCount = denials.length;
-    if (newCount > 0 && newCount > denialCountRef.current) {
-      setShowStoplightPrompt(true);
-    }
-    denialCountRef.current = newCount;
-  }, [denials]);
-
-  const updateStoplightStatus = useMutation({
-      mutationFn: async (status: 'yellow' | 'red') => {
-          const updates = [
-              supabase.from('orders').update({ stoplight_status: status }).eq('id', orderId),
-              supabase.from('patients').update({ stoplight_status: status }).eq('id', patientId)
-          ];
-          const results = await Promise.all(updates);
-          results.forEach(res => { if (res.error) throw res.error; });
-          return status;
-      },
-      onSuccess: (status) => {
-          toast(`Stoplight status updated to ${status}.`, 'ok');
-          writeAuditLog('stoplight_update', { patient_id: patientId, details: { to: status, reason: 'Denial Logged' } });
-          queryClient.invalidateQueries({ queryKey: ['patient_details', patientId] });
-          queryClient.invalidateQueries({ queryKey: ['referrals_direct_all'] });
-      },
-      onError: (error: any) => {
-          toast(`Failed to update status: ${error.message}`, 'err');
-      }
-  });
-
   const handleDelete = async (id: string) => {
       if (window.confirm('Are you sure you want to delete this denial record?')) {
           const { error } = await supabase.from('denials').delete().eq('id', id);
@@ -67,7 +37,10 @@ const DenialPanel: React.FC<DenialPanelProps> = ({ orderId, patientId }) => {
               toast(`Error: ${error.message}`, 'err');
           } else {
               toast('Denial record deleted.', 'ok');
+              await syncStoplight(orderId, user?.email);
               queryClient.invalidateQueries({ queryKey: ['denials', orderId] });
+              queryClient.invalidateQueries({ queryKey: ['patient_details', patientId] });
+              queryClient.invalidateQueries({ queryKey: ['referrals_direct_all'] });
           }
       }
   };
@@ -108,24 +81,6 @@ const DenialPanel: React.FC<DenialPanelProps> = ({ orderId, patientId }) => {
           ))}
         </ul>
       )}
-      <SimpleConfirmationModal
-        isOpen={showStoplightPrompt}
-        onClose={() => setShowStoplightPrompt(false)}
-        onConfirm={() => {
-            updateStoplightStatus.mutate('red');
-            setShowStoplightPrompt(false);
-        }}
-        isLoading={updateStoplightStatus.isPending}
-        title="Update Referral Status?"
-        message="A denial has been logged for this referral. It's recommended to update its status to Yellow or Red."
-        confirmButtonText="Set to Red"
-        confirmButtonVariant="danger"
-      >
-          <Button variant="outline" onClick={() => {
-              updateStoplightStatus.mutate('yellow');
-              setShowStoplightPrompt(false);
-          }}>Set to Yellow</Button>
-      </SimpleConfirmationModal>
     </div>
   );
 };
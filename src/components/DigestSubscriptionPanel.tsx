@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Eye, Loader2, Mail, Save } from 'lucide-react';
+import { format } from 'date-fns';
+import { Btn } from './ui/Btn';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { Checkbox } from './ui/Checkbox';
+import MultiSelect from './ui/MultiSelect';
+import ListSkeleton from './ui/ListSkeleton';
+import { toast } from '../lib/toast';
+import { supabase } from '../lib/supabaseClient';
+import { useAuth } from '../contexts/AuthContext';
+import { allStageNames } from '../lib/workflowDefinition';
+import { DIGEST_SECTIONS, WEEKDAYS, previewDigest, sendDigest } from '../lib/digest';
+import { getDigestSubscription, saveDigestSubscription, type DigestSubscriptionInput } from '../api/digestSubscriptions.api';
+import type { EmailTemplateContent } from '../lib/emailTemplates';
+import type { DigestSection } from '../lib/types';
+
+const SECTION_KEYS = Object.keys(DIGEST_SECTIONS) as DigestSection[];
+
+/** The signed-in user's digest subscription: when it goes out, what it covers and a preview of it. */
+const DigestSubscriptionPanel: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { user, profile } = useAuth();
+  const [form, setForm] = useState<DigestSubscriptionInput | null>(null);
+  const [preview, setPreview] = useState<EmailTemplateContent | null>(null);
+
+  const { data: subscription, isLoading } = useQuery({
+    queryKey: ['digest_subscription', user?.id],
+    queryFn: () => getDigestSubscription(user!.id),
+    enabled: !!user,
+  });
+
+  const { data: payers = [] } = useQuery({
+    queryKey: ['insurance_providers'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('insurance_providers').select('*').order('name');
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  useEffect(() => {
+    if (!user || isLoading || form) return;
+    setForm(subscription
+      ? { user_id: subscription.user_id, email: subscription.email, frequency: subscription.frequency, send_day: subscription.send_day, sections: subscription.sections, scope: subscription.scope, filters: subscription.filters || {}, is_active: subscription.is_active }
+      : { user_id: user.id, email: user.email || '', frequency: 'daily', send_day: 1, sections: SECTION_KEYS, scope: 'mine', filters: {}, is_active: false });
+  }, [user, isLoading, subscription, form]);
+
+  const recipient = profile ?? { email: user?.email };
+  const options = form && { ...form, last_sent_at: subscription?.last_sent_at ?? null };
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveDigestSubscription({ ...form!, email: form!.email.trim() }),
+    onSuccess: (saved) => {
+      toast(saved.is_active ? `Your ${saved.frequency} digest is on.` : 'Digest settings saved.', 'ok');
+      queryClient.setQueryData(['digest_subscription', user?.id], saved);
+    },
+    onError: (err: any) => toast(`Error: ${err.message}`, 'err'),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: () => previewDigest(options!, recipient),
+    onSuccess: setPreview,
+    onError: (err: any) => toast(`Could not build the digest: ${err.message}`, 'err'),
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: () => sendDigest({ ...options!, email: form!.email.trim() }, recipient),
+    onSuccess: () => toast(`Digest sent to ${form!.email.trim()}.`, 'ok'),
+    onError: (err: any) => toast(`Failed to send digest: ${err.message}`, 'err'),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['email_outbox'] }),
+  });
+
+  if (!form) {
+    return <div className="soft-card p-4"><ListSkeleton rows={3} /></div>;
+  }
+
+  const update = (changes: Partial<DigestSubscriptionInput>) => {
+    setForm({ ...form, ...changes });
+    setPreview(null);
+  };
+
+  const toggleSection = (key: DigestSection) =>
+    update({ sections: form.sections.includes(key) ? form.sections.filter(s => s !== key) : SECTION_KEYS.filter(s => s === key || form.sections.includes(s)) });
+
+  const hasEmail = form.email.trim().length > 0;
+
+  return (
+    <div className="soft-card">
+      <div className="p-4 border-b flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="font-semibold text-gray-800">My Digest</h3>
+          <p className="text-xs text-gray-500 mt-1">
+            A daily or weekly email with the sections you pick, sent each morning it is due whether or not Patient Sync is open.
+            {subscription?.last_sent_at && ` Last sent ${format(new Date(subscription.last_sent_at), 'MM/dd/yyyy h:mm a')}.`}
+          </p>
+        </div>
+        <Checkbox id="digest-active" label="Send my digest" checked={form.is_active} onChange={e => update({ is_active: e.target.checked })} />
+      </div>
+
+      <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input id="digest-email" label="Send To" type="email" value={form.email} onChange={e => update({ email: e.target.value })} />
+        <div className="grid grid-cols-2 gap-3">
+          <Select
+            id="digest-frequency"
+            label="Frequency"
+            value={form.frequency}
+            onChange={e => update({ frequency: e.target.value as DigestSubscriptionInput['frequency'] })}
+            options={[{ value: 'daily', label: 'Daily' }, { value: 'weekly', label: 'Weekly' }]}
+          />
+          {form.frequency === 'weekly' && (
+            <Select
+              id="digest-send-day"
+              label="Send On"
+              value={String(form.send_day)}
+              onChange={e => update({ send_day: Number(e.target.value) })}
+              options={WEEKDAYS.map((day, i) => ({ value: String(i), label: day }))}
+            />
+          )}
+        </div>
+        <Select
+          id="digest-scope"
+          label="Accounts"
+          value={form.scope}
+          onChange={e => update({ scope: e.target.value as DigestSubscriptionInput['scope'] })}
+          options={[{ value: 'mine', label: 'My book of business' }, { value: 'all', label: 'All accounts' }]}
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <MultiSelect
+            label="Payers"
+            options={payers.map((p: any) => ({ value: p.name, label: p.name }))}
+            selected={form.filters.payers || []}
+            onChange={selected => update({ filters: { ...form.filters, payers: selected } })}
+          />
+          <MultiSelect
+            label="Stages"
+            options={allStageNames().map(stage => ({ value: stage, label: stage }))}
+            selected={form.filters.stages || []}
+            onChange={selected => update({ filters: { ...form.filters, stages: selected } })}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <p className="text-sm font-medium text-muted mb-1.5">Sections</p>
+          <div className="flex flex-wrap gap-x-6 gap-y-2">
+            {SECTION_KEYS.map(key => (
+              <Checkbox key={key} id={`digest-section-${key}`} label={DIGEST_SECTIONS[key]} checked={form.sections.includes(key)} onChange={() => toggleSection(key)} />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {preview && (
+        <div className="mx-4 mb-4 rounded-lg border bg-gray-50 dark:bg-zinc-800/50 p-3">
+          <p className="text-sm font-semibold text-gray-800 dark:text-gray-100">{preview.subject}</p>
+          <pre className="mt-2 whitespace-pre-wrap font-sans text-sm text-gray-700 dark:text-gray-300">{preview.body}</pre>
+        </div>
+      )}
+
+      <div className="flex flex-wrap justify-end gap-2 border-t p-4">
+        <Btn variant="ghost" size="sm" onClick={() => previewMutation.mutate()} disabled={previewMutation.isPending}>
+          {previewMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+          Preview
+        </Btn>
+        <Btn variant="outline" size="sm" onClick={() => sendMutation.mutate()} disabled={!hasEmail || sendMutation.isPending}>
+          {sendMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Mail className="h-4 w-4 mr-2" />}
+          Send Now
+        </Btn>
+        <Btn size="sm" onClick={() => saveMutation.mutate()} disabled={!hasEmail || form.sections.length === 0 || saveMutation.isPending}>
+          {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save
+        </Btn>
+      </div>
+    </div>
+  );
+};
+
+export default DigestSubscriptionPanel;
@@ -0,0 +1,143 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { FileText, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogFooter } from './ui/Dialog';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/Checkbox';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { toast } from '@/lib/toast';
+import { supabase } from '@/lib/supabaseClient';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePracticeSettings } from '@/hooks/usePracticeSettings';
+import { docLabel } from '@/lib/docMapping';
+import { buildDocRequestLetters, requestDueDate, sendDocRequests, type DocRequestFormat } from '@/lib/docRequests';
+import type { Doctor, Order } from '@/lib/types';
+
+interface DocRequestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  orders: Order[];
+}
+
+const formatOptions = [
+  { label: 'PDF (ready to fax)', value: 'pdf' },
+  { label: 'Word (editable)', value: 'docx' },
+];
+
+const letterKey = (physicianName: string) => physicianName.toLowerCase();
+
+/** Generates Documentation Request letters with fax covers, one per referring doctor, for the given orders. */
+export default function DocRequestModal({ isOpen, onClose, orders }: DocRequestModalProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { practice } = usePracticeSettings();
+  const [fileFormat, setFileFormat] = useState<DocRequestFormat>('pdf');
+  const [dueDate, setDueDate] = useState('');
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+  const [isSending, setIsSending] = useState(false);
+
+  const { data: doctors = [], isLoading } = useQuery<Doctor[]>({
+    queryKey: ['doctors'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('doctors').select('*').order('name');
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: isOpen,
+  });
+
+  const letters = useMemo(() => buildDocRequestLetters(orders, doctors), [orders, doctors]);
+  const selected = letters.filter(l => !skipped.has(letterKey(l.physicianName)));
+  const withoutDoctor = orders.filter(o => !o.patients?.referring_physician?.trim()).length;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSkipped(new Set());
+    setDueDate(requestDueDate(practice));
+  }, [isOpen, practice]);
+
+  const toggle = (key: string) =>
+    setSkipped(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  const handleGenerate = async () => {
+    if (!practice) return;
+    setIsSending(true);
+    try {
+      await sendDocRequests(selected, { format: fileFormat, practice, dueDate, sentBy: user?.email });
+      toast(`${selected.length} documentation request(s) generated and logged.`, 'ok');
+      queryClient.invalidateQueries({ queryKey: ['doc_requests'] });
+      onClose();
+    } catch (error: any) {
+      toast(`Error: ${error.message}`, 'err');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>Request Missing Documents</DialogHeader>
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Select
+              id="doc-request-format"
+              label="Format"
+              options={formatOptions}
+              value={fileFormat}
+              onChange={e => setFileFormat(e.target.value as DocRequestFormat)}
+            />
+            <Input id="doc-request-due" label="Return By" type="date" value={dueDate} onChange={e => setDueDate(e.target.value)} />
+          </div>
+          {isLoading ? (
+            <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-muted" /></div>
+          ) : letters.length === 0 ? (
+            <p className="text-sm text-center text-muted py-6">No outstanding documents for patients with a referring doctor.</p>
+          ) : (
+            <div className="space-y-3 max-h-[24rem] overflow-y-auto pr-1">
+              {letters.map(letter => {
+                const key = letterKey(letter.physicianName);
+                return (
+                  <div key={key} className="soft-card p-3">
+                    <Checkbox
+                      id={`doc-request-${key}`}
+                      label={letter.physicianName}
+                      description={letter.doctor
+                        ? `Fax: ${letter.doctor.fax_number || 'none on file'}`
+                        : 'Not in the doctors list; the cover sheet will have no fax number'}
+                      checked={!skipped.has(key)}
+                      onChange={() => toggle(key)}
+                    />
+                    <ul className="mt-2 ml-6 space-y-1 text-xs text-muted">
+                      {letter.orders.map(({ order, docs }) => (
+                        <li key={order.id}>
+                          <span className="font-medium text-text">{order.patients?.name || 'Unknown'}</span>: {docs.map(docLabel).join(', ')}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          {withoutDoctor > 0 && (
+            <p className="text-xs text-amber-600">{withoutDoctor} order(s) have no referring doctor and are not included.</p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSending}>Cancel</Button>
+          <Button onClick={handleGenerate} disabled={isSending || !practice || !dueDate || selected.length === 0}>
+            {isSending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+            Generate {selected.length > 1 ? `${selected.length} Letters` : 'Letter'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
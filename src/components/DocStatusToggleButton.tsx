@@ -6,6 +6,8 @@ import { useAuth } from '@/contexts/AuthContext';
 import { writeAuditLog } from '@/lib/auditLogger';
 import { cn } from '@/lib/utils';
 import type { Order } from "@/lib/types";
+import { runDocumentAutomations } from '@/lib/automation';
+import { syncStoplight } from '@/lib/stoplight';
 
 interface DocStatusToggleButtonProps {
   order: Order;
@@ -29,6 +31,8 @@ export function DocStatusToggleButton({ order, docAbbrev }: DocStatusToggleButto
         .eq('id', order.id);
 
       if (error) throw error;
+      await runDocumentAutomations(order.id, currentDocStatus, updatedDocStatus, user?.email);
+      await syncStoplight(order.id, user?.email);
       return newStatus;
     },
     onSuccess: (newStatus) => {
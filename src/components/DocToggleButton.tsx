@@ -1,16 +1,18 @@
 import React, { useState } from "react";
 import { supabase } from "../lib/supabaseClient";
-import { Check, X, Loader2 } from "lucide-react";
+import { Check, X, Loader2, CalendarX } from "lucide-react";
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../contexts/AuthContext';
 import { writeAuditLog } from '../lib/auditLogger';
 import { cn } from '../lib/utils';
+import { runDocumentAutomations } from '../lib/automation';
+import { syncStoplight } from '../lib/stoplight';
 
 interface DocToggleButtonProps {
   orderId: string;
   patientName: string;
   docAbbrev: string;
-  initialStatus: 'Complete' | 'Missing' | 'Pending' | undefined;
+  initialStatus: 'Complete' | 'Missing' | 'Pending' | 'Expired' | undefined;
 }
 
 export function DocToggleButton({ orderId, patientName, docAbbrev, initialStatus }: DocToggleButtonProps) {
@@ -37,6 +39,8 @@ export function DocToggleButton({ orderId, patientName, docAbbrev, initialStatus
         .eq('id', orderId);
 
       if (error) throw error;
+      await runDocumentAutomations(orderId, currentDocStatus, updatedDocStatus, user?.email);
+      await syncStoplight(orderId, user?.email);
       return newStatus;
     },
     onSuccess: (newStatus) => {
@@ -70,12 +74,12 @@ export function DocToggleButton({ orderId, patientName, docAbbrev, initialStatus
       onClick={toggleStatus}
       className={cn(
         'flex items-center justify-center w-6 h-6 rounded-full mx-auto hover:opacity-80 transition',
-        status === "Complete" ? "bg-green-100 text-green-600" : "bg-red-100 text-red-600"
+        status === "Complete" ? "bg-green-100 text-green-600" : status === "Expired" ? "bg-amber-100 text-amber-600" : "bg-red-100 text-red-600"
       )}
-      title={status === "Complete" ? "Mark as Missing" : "Mark as Complete"}
+      title={status === "Complete" ? "Mark as Missing" : status === "Expired" ? "Expired: mark as Complete once renewed" : "Mark as Complete"}
       aria-label={status === "Complete" ? `Mark document ${docAbbrev} as Missing` : `Mark document ${docAbbrev} as Complete`}
     >
-      {status === "Complete" ? <Check size={16} /> : <X size={16} />}
+      {status === "Complete" ? <Check size={16} /> : status === "Expired" ? <CalendarX size={16} /> : <X size={16} />}
     </button>
   );
 }
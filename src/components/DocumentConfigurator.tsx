@@ -6,6 +6,7 @@ import { Loader2, Check, X, HelpCircle } from 'lucide-react';
 import { Checkbox } from '@/components/ui/Checkbox';
 import { Select } from '@/components/ui/Select';
 import { Btn } from '@/components/ui/Btn';
+import { canonicalDocKey } from '@/lib/docMapping';
 
 interface DocumentConfiguratorProps {
   patient: Partial<Patient>;
@@ -42,11 +43,11 @@ const DocumentConfigurator: React.FC<DocumentConfiguratorProps> = ({ patient, or
     return uniqueCategories.map(c => ({ label: c, value: c }));
   }, [templates]);
 
-  const handleToggleRequired = (abbrev: string, isChecked: boolean) => {
+  const handleToggleRequired = (docKey: string, isChecked: boolean) => {
     const currentRequired = patient.required_documents || [];
     const newRequired = isChecked
-      ? [...currentRequired, abbrev]
-      : currentRequired.filter(d => d !== abbrev);
+      ? [...currentRequired, docKey]
+      : currentRequired.filter(d => d !== docKey);
     onPatientUpdate('required_documents', Array.from(new Set(newRequired)));
   };
 
@@ -54,9 +55,9 @@ const DocumentConfigurator: React.FC<DocumentConfiguratorProps> = ({ patient, or
     if (!templates) return;
     let templateDocs: string[] = [];
     if (selectedTemplate === 'Standard') {
-        templateDocs = templates.filter(t => t.is_standard).map(t => t.abbrev);
+        templateDocs = templates.filter(t => t.is_standard).map(t => canonicalDocKey(t.abbrev || ''));
     } else {
-        templateDocs = templates.filter(t => t.category === selectedTemplate).map(t => t.abbrev);
+        templateDocs = templates.filter(t => t.category === selectedTemplate).map(t => canonicalDocKey(t.abbrev || ''));
     }
     onPatientUpdate('required_documents', Array.from(new Set([...(patient.required_documents || []), ...templateDocs])));
   };
@@ -84,14 +85,15 @@ const DocumentConfigurator: React.FC<DocumentConfiguratorProps> = ({ patient, or
             <h4 className="font-semibold text-gray-600 text-sm mb-2">{category}</h4>
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-3">
               {docs.map(doc => {
-                const isRequired = patient.required_documents?.includes(doc.abbrev);
-                const status = order.document_status?.[doc.abbrev];
+                const docKey = canonicalDocKey(doc.abbrev || '');
+                const isRequired = patient.required_documents?.includes(docKey);
+                const status = order.document_status?.[docKey];
                 return (
                   <div key={doc.abbrev} className="flex items-center justify-between p-2 rounded-md bg-gray-50 border">
                     <Checkbox
                       label={doc.name}
                       checked={!!isRequired}
-                      onChange={(e) => handleToggleRequired(doc.abbrev, e.target.checked)}
+                      onChange={(e) => handleToggleRequired(docKey, e.target.checked)}
                     />
                     <div className="flex items-center gap-2">
                         {status === 'Complete' && <Check className="h-4 w-4 text-green-500" />}
@@ -0,0 +1,185 @@
+import React, { useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { BadgeCheck, Clock, ExternalLink, FileText, Loader2, Paperclip, Trash2 } from 'lucide-react';
+import { Btn } from './ui/Btn';
+import { Dialog, DialogContent, DialogHeader, DialogFooter } from './ui/Dialog';
+import { toast } from '@/lib/toast';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { getDocumentUrl } from '@/api/documents.api';
+import { attachDocumentFile, removeDocumentFile, verifyDocumentFile } from '@/lib/documents';
+import type { Order, OrderDocument } from '@/lib/types';
+
+const MAX_FILE_MB = 25;
+
+/** Any stored file: an order document or an inbound email attachment. */
+type StoredFile = Pick<OrderDocument, 'id' | 'file_name' | 'file_path' | 'mime_type'>;
+
+const isPreviewable = (doc: StoredFile) =>
+  doc.mime_type === 'application/pdf' || !!doc.mime_type?.startsWith('image/');
+
+export const DocumentPreviewModal: React.FC<{ document: StoredFile | null; onClose: () => void }> = ({ document, onClose }) => {
+  const { data: url, isLoading, error } = useQuery({
+    queryKey: ['document_url', document?.id],
+    queryFn: () => getDocumentUrl(document!.file_path),
+    enabled: !!document,
+    // Signed URLs expire, so never reuse one from an earlier preview.
+    gcTime: 0,
+  });
+
+  return (
+    <Dialog open={!!document} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>{document?.file_name}</DialogHeader>
+        <div className="p-4 h-[70vh] flex items-center justify-center bg-gray-50 dark:bg-zinc-800/50">
+          {isLoading ? (
+            <Loader2 className="h-6 w-6 animate-spin text-muted" />
+          ) : error || !url ? (
+            <p className="text-sm text-red-600">Could not load the file{error ? `: ${(error as Error).message}` : '.'}</p>
+          ) : document && document.mime_type?.startsWith('image/') ? (
+            <img src={url} alt={document.file_name} className="max-h-full max-w-full object-contain" />
+          ) : document && isPreviewable(document) ? (
+            <iframe src={url} title={document.file_name} className="w-full h-full rounded-md border dark:border-zinc-700" />
+          ) : (
+            <p className="text-sm text-muted">This file type can't be previewed. Open it in a new tab instead.</p>
+          )}
+        </div>
+        <DialogFooter className="flex-row justify-end">
+          {url && (
+            <Btn as="a" variant="outline" href={url} target="_blank" rel="noreferrer">
+              <ExternalLink className="h-4 w-4 mr-2" />
+              Open in New Tab
+            </Btn>
+          )}
+          <Btn onClick={onClose}>Close</Btn>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface DocumentFilesProps {
+  order: Pick<Order, 'id' | 'patient_id' | 'document_status'>;
+  docKey: string;
+  files: OrderDocument[];
+  /** Called after the document's status may have changed, so the parent can refetch the order. */
+  onChanged?: () => void;
+}
+
+/**
+ * Files uploaded against one checklist document: attach, preview, verify and
+ * delete. Uploading marks the document Pending review; verifying marks it Complete.
+ */
+const DocumentFiles: React.FC<DocumentFilesProps> = ({ order, docKey, files, onChanged }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [previewing, setPreviewing] = useState<OrderDocument | null>(null);
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['order_documents', order.id] });
+    queryClient.invalidateQueries({ queryKey: ['referrals_direct_all'] });
+    queryClient.invalidateQueries({ queryKey: ['compliance_orders'] });
+    onChanged?.();
+  };
+  const onError = (err: any) => toast(`Error: ${err.message}`, 'err');
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => attachDocumentFile(order, docKey, file, user?.email || null),
+    onSuccess: document => {
+      toast(`${document.file_name} uploaded for review.`, 'ok');
+      onSuccess();
+    },
+    onError,
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: (document: OrderDocument) => verifyDocumentFile(document, user?.email || null),
+    onSuccess: () => {
+      toast('Document verified and marked Complete.', 'ok');
+      onSuccess();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (document: OrderDocument) => removeDocumentFile(document, files, user?.email || null, order.document_status?.[docKey]),
+    onSuccess,
+    onError,
+  });
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.size > MAX_FILE_MB * 1024 * 1024) {
+      toast(`Files must be smaller than ${MAX_FILE_MB} MB.`, 'err');
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  return (
+    <div className="space-y-1">
+      {files.map(file => (
+        <div key={file.id} className="flex items-center gap-2 text-xs">
+          <button
+            type="button"
+            onClick={() => setPreviewing(file)}
+            className="flex items-center gap-1 min-w-0 text-accent hover:underline"
+            title="Preview"
+          >
+            <FileText className="h-3.5 w-3.5 flex-shrink-0" />
+            <span className="truncate">{file.file_name}</span>
+          </button>
+          {file.verified ? (
+            <span
+              className="flex items-center gap-1 text-emerald-600 dark:text-emerald-400 flex-shrink-0"
+              title={`Verified by ${file.verified_by || 'unknown'}${file.verified_at ? ` on ${new Date(file.verified_at).toLocaleString()}` : ''}`}
+            >
+              <BadgeCheck className="h-3.5 w-3.5" />
+              {file.verified_by || 'Verified'}{file.verified_at && ` · ${new Date(file.verified_at).toLocaleDateString()}`}
+            </span>
+          ) : (
+            <>
+              <span className="flex items-center gap-1 text-amber-600 dark:text-amber-400 flex-shrink-0">
+                <Clock className="h-3.5 w-3.5" />
+                Pending review
+              </span>
+              <button
+                type="button"
+                onClick={() => verifyMutation.mutate(file)}
+                disabled={verifyMutation.isPending}
+                className="font-medium text-emerald-700 dark:text-emerald-300 hover:underline flex-shrink-0"
+              >
+                Verify
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={() => window.confirm(`Delete ${file.file_name}?`) && deleteMutation.mutate(file)}
+            disabled={deleteMutation.isPending}
+            className="ml-auto text-muted hover:text-red-500 flex-shrink-0"
+            aria-label={`Delete ${file.file_name}`}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      ))}
+      <input ref={inputRef} type="file" className="hidden" accept="application/pdf,image/*,.doc,.docx" onChange={handleFile} />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={uploadMutation.isPending}
+        className={cn('flex items-center gap-1 text-xs text-muted hover:text-text', uploadMutation.isPending && 'opacity-60')}
+      >
+        {uploadMutation.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Paperclip className="h-3.5 w-3.5" />}
+        {files.length > 0 ? 'Attach another file' : 'Attach file'}
+      </button>
+      <DocumentPreviewModal document={previewing} onClose={() => setPreviewing(null)} />
+    </div>
+  );
+};
+
+export default DocumentFiles;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { CalendarClock, Loader2 } from 'lucide-react';
+import { toast } from '@/lib/toast';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { useValidityRules } from '@/hooks/useValidityRules';
+import { describeValidity, docValidity, findValidityRule, updateDocumentDate } from '@/lib/docValidity';
+import type { Order } from '@/lib/types';
+
+interface DocumentValidityProps {
+  order: Pick<Order, 'id' | 'order_date' | 'f2f_date' | 'pt_eval_date' | 'document_status' | 'document_dates'>;
+  docKey: string;
+  onChanged?: () => void;
+}
+
+const stateClasses = {
+  valid: 'text-muted',
+  expiring: 'text-amber-600 dark:text-amber-400',
+  expired: 'text-red-600 dark:text-red-400',
+};
+
+/**
+ * The document's date and how long it stays valid, for document types that
+ * have a validity rule. Shown once the document is Complete or Expired.
+ */
+const DocumentValidity: React.FC<DocumentValidityProps> = ({ order, docKey, onChanged }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { rules } = useValidityRules();
+
+  const mutation = useMutation({
+    mutationFn: (date: string | null) => updateDocumentDate(order.id, docKey, date, user?.email || null),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['referrals_direct_all'] });
+      queryClient.invalidateQueries({ queryKey: ['compliance_orders'] });
+      onChanged?.();
+    },
+    onError: (err: any) => toast(`Error: ${err.message}`, 'err'),
+  });
+
+  const status = order.document_status?.[docKey];
+  if (!findValidityRule(rules, docKey) || (status !== 'Complete' && status !== 'Expired')) return null;
+
+  const validity = docValidity(order, docKey, rules);
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <CalendarClock className="h-3.5 w-3.5 text-muted flex-shrink-0" />
+      <label htmlFor={`doc-date-${order.id}-${docKey}`} className="text-muted">Dated</label>
+      <input
+        id={`doc-date-${order.id}-${docKey}`}
+        type="date"
+        value={order.document_dates?.[docKey] || ''}
+        onChange={e => mutation.mutate(e.target.value || null)}
+        disabled={mutation.isPending}
+        className="h-6 px-1 rounded border border-neutral-300 dark:border-zinc-700 bg-transparent text-xs"
+      />
+      {mutation.isPending ? (
+        <Loader2 className="h-3.5 w-3.5 animate-spin text-muted" />
+      ) : validity ? (
+        <span className={cn(stateClasses[validity.state])}>{describeValidity(validity)}</span>
+      ) : (
+        <span className="text-muted">No date to measure validity from</span>
+      )}
+    </div>
+  );
+};
+
+export default DocumentValidity;
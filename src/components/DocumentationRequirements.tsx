@@ -1,13 +1,18 @@
 import React, { useState, useEffect, useMemo } from "react";
 import { motion } from "framer-motion";
-import { CheckCircle2, XCircle, Loader2 } from "lucide-react";
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { CheckCircle2, XCircle, Loader2, Send } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabaseClient';
 import { useAuth } from '../contexts/AuthContext';
 import { writeAuditLog } from '../lib/auditLogger';
 import { toast } from "../lib/toast";
-import { labelMap } from "../lib/docMapping";
+import { docLabel } from "../lib/docMapping";
 import type { Patient, Order } from '../lib/types';
+import { runDocumentAutomations } from '../lib/automation';
+import { syncStoplight } from '../lib/stoplight';
+import { outstandingDocs } from '../lib/docRequests';
+import { listDocRequests } from '../api/docRequests.api';
+import DocRequestModal from './DocRequestModal';
 
 type DocStatus = "missing" | "complete";
 
@@ -48,8 +53,18 @@ export default function DocumentationRequirements({
   const queryClient = useQueryClient();
   const { user } = useAuth();
   const [docs, setDocs] = useState<Record<string, DocStatus>>({});
+  const [showRequestModal, setShowRequestModal] = useState(false);
 
   const requiredDocKeys = useMemo(() => patient.required_documents || [], [patient.required_documents]);
+  const requestOrder = useMemo(() => (order ? [{ ...order, patients: order.patients || patient }] : []), [order, patient]);
+  const canRequest = requestOrder.length > 0 && outstandingDocs(requestOrder[0]).length > 0;
+
+  const { data: requests = [] } = useQuery({
+    queryKey: ['doc_requests', order?.id],
+    queryFn: () => listDocRequests(order!.id),
+    enabled: !!order,
+  });
+  const lastRequest = requests[0];
 
   useEffect(() => {
     const initialStatuses: Record<string, DocStatus> = {};
@@ -67,6 +82,8 @@ export default function DocumentationRequirements({
       const updatedStatus = { ...currentStatus, [key]: nextStatus === 'complete' ? 'Complete' : 'Missing' };
       const { error } = await supabase.from('orders').update({ document_status: updatedStatus }).eq('id', order.id);
       if (error) throw error;
+      await runDocumentAutomations(order.id, currentStatus, updatedStatus, user?.email);
+      await syncStoplight(order.id, user?.email);
       return { key, nextStatus };
     },
     onSuccess: ({ key, nextStatus }) => {
@@ -98,7 +115,7 @@ export default function DocumentationRequirements({
 
     try {
       await mutation.mutateAsync({ key, nextStatus });
-      toast(`${labelMap[key] || key} marked ${nextStatus}.`, 'ok', { label: "Undo", onClick: undo });
+      toast(`${docLabel(key)} marked ${nextStatus}.`, 'ok', { label: "Undo", onClick: undo });
     } catch {
       undo(); // Revert on failure
       toast("Update failed", "err");
@@ -111,20 +128,40 @@ export default function DocumentationRequirements({
 
   return (
     <div className="rounded-xl border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900/50">
-      <div className="px-4 pt-3 pb-2 text-sm font-semibold text-zinc-700 dark:text-zinc-300">
-        Documentation Requirements
+      <div className="px-4 pt-3 pb-2 flex items-center justify-between gap-2">
+        <span className="text-sm font-semibold text-zinc-700 dark:text-zinc-300">Documentation Requirements</span>
+        {canRequest && (
+          <button
+            type="button"
+            onClick={() => setShowRequestModal(true)}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium text-teal-700 bg-teal-50 hover:bg-teal-100 transition-colors focus-ring"
+          >
+            <Send className="h-3.5 w-3.5" /> Request Docs
+          </button>
+        )}
       </div>
+      {lastRequest && (
+        <p className="px-4 pb-1 text-xs text-muted">
+          Requested from {lastRequest.doctors?.name || 'the referring doctor'} on {new Date(lastRequest.sent_at).toLocaleDateString()}
+          {lastRequest.due_date && `, due ${new Date(`${lastRequest.due_date}T00:00:00`).toLocaleDateString()}`}
+          {' '}({lastRequest.doc_keys.map(docLabel).join(', ')})
+          {lastRequest.received_at
+            ? `; received ${new Date(lastRequest.received_at).toLocaleDateString()}`
+            : lastRequest.reminder_count > 0 && `; ${lastRequest.reminder_count} reminder(s) sent`}
+        </p>
+      )}
       <div className="px-2">
         {requiredDocKeys.map((key) => (
           <DocRow
             key={key}
-            label={labelMap[key] || key}
+            label={docLabel(key)}
             value={docs[key] as DocStatus}
             onToggle={toggle(key)}
             isToggling={mutation.isPending && mutation.variables?.key === key}
           />
         ))}
       </div>
+      <DocRequestModal isOpen={showRequestModal} onClose={() => setShowRequestModal(false)} orders={requestOrder} />
     </div>
   );
 }
@@ -2,9 +2,15 @@ import React, { useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabaseClient';
 import type { Order, DocumentTemplate } from '../lib/types';
-import { Check, X, Loader2 } from 'lucide-react';
+import { CalendarX, Check, Clock, X, Loader2 } from 'lucide-react';
 import { writeAuditLog } from '../lib/auditLogger';
 import { useAuth } from '../contexts/AuthContext';
+import { runDocumentAutomations } from '../lib/automation';
+import { syncStoplight } from '../lib/stoplight';
+import { useOrderDocuments } from '../hooks/useOrderDocuments';
+import DocumentFiles from './DocumentFiles';
+import DocumentValidity from './DocumentValidity';
+import { canonicalDocKey, docLabel } from '../lib/docMapping';
 
 interface DynamicDocChecklistProps {
   order: Order;
@@ -14,6 +20,7 @@ interface DynamicDocChecklistProps {
 const DynamicDocChecklist: React.FC<DynamicDocChecklistProps> = ({ order, onUpdate }) => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
+  const { byKey: filesByKey } = useOrderDocuments(order.id);
 
   const { data: templates, isLoading: isLoadingTemplates } = useQuery({
     queryKey: ['document_templates'],
@@ -27,7 +34,7 @@ const DynamicDocChecklist: React.FC<DynamicDocChecklistProps> = ({ order, onUpda
 
   const templateMap = useMemo(() => {
     if (!templates) return new Map<string, string>();
-    return new Map(templates.map(t => [t.abbrev, t.name]));
+    return new Map(templates.map(t => [canonicalDocKey(t.abbrev || ''), t.name]));
   }, [templates]);
 
   const mutation = useMutation({
@@ -36,6 +43,8 @@ const DynamicDocChecklist: React.FC<DynamicDocChecklistProps> = ({ order, onUpda
       const updatedStatus = { ...currentStatus, [docAbbrev]: newStatus };
       const { error } = await supabase.from('orders').update({ document_status: updatedStatus }).eq('id', order.id);
       if (error) throw error;
+      await runDocumentAutomations(order.id, currentStatus, updatedStatus, user?.email);
+      await syncStoplight(order.id, user?.email);
       return { docAbbrev, newStatus };
     },
     onSuccess: ({ docAbbrev, newStatus }) => {
@@ -74,25 +83,35 @@ const DynamicDocChecklist: React.FC<DynamicDocChecklistProps> = ({ order, onUpda
         {requiredDocs.map((abbrev) => {
           const status = order.document_status?.[abbrev] || 'Missing';
           const isComplete = status === 'Complete';
+          const isPending = status === 'Pending';
+          const isExpired = status === 'Expired';
           return (
-            <button
-              key={abbrev}
-              onClick={() => toggleStatus(abbrev)}
-              disabled={mutation.isPending}
-              className={`flex items-center justify-between px-3 py-2 rounded-md border text-sm transition-colors ${
-                isComplete
-                  ? "bg-green-50 border-green-300 text-green-800 hover:bg-green-100"
-                  : "bg-red-50 border-red-300 text-red-700 hover:bg-red-100"
-              }`}
-            >
-              <span>{templateMap.get(abbrev) || abbrev}</span>
-              {isComplete ? <Check className="h-4 w-4" /> : <X className="h-4 w-4" />}
-            </button>
+            <div key={abbrev} className="space-y-1.5">
+              <button
+                onClick={() => toggleStatus(abbrev)}
+                disabled={mutation.isPending}
+                className={`w-full flex items-center justify-between px-3 py-2 rounded-md border text-sm transition-colors ${
+                  isComplete
+                    ? "bg-green-50 border-green-300 text-green-800 hover:bg-green-100"
+                    : isPending || isExpired
+                    ? "bg-amber-50 border-amber-300 text-amber-800 hover:bg-amber-100"
+                    : "bg-red-50 border-red-300 text-red-700 hover:bg-red-100"
+                }`}
+                title={isPending ? 'Pending review' : isExpired ? 'Expired' : undefined}
+              >
+                <span>{templateMap.get(abbrev) || docLabel(abbrev)}</span>
+                {isComplete ? <Check className="h-4 w-4" /> : isPending ? <Clock className="h-4 w-4" /> : isExpired ? <CalendarX className="h-4 w-4" /> : <X className="h-4 w-4" />}
+              </button>
+              <div className="px-1 space-y-1">
+                <DocumentValidity order={order} docKey={abbrev} onChanged={onUpdate} />
+                <DocumentFiles order={order} docKey={abbrev} files={filesByKey[abbrev] || []} onChanged={onUpdate} />
+              </div>
+            </div>
           );
         })}
       </div>
       <div className="text-xs text-gray-500 mt-3">
-        Click any document to toggle its status between "Complete" (✅) and "Missing" (❌).
+        Click any document to toggle its status between "Complete" (✅) and "Missing" (❌). Attached files stay "Pending review" (🕒) until someone verifies them.
       </div>
     </div>
   );
@@ -1,5 +1,6 @@
 import React from 'react';
 import { useEquipmentModal } from "@/state/useEquipmentModal";
+import { useRequiredDocsModal } from "@/state/useRequiredDocsModal";
 import { Dialog, DialogContent, DialogHeader, DialogFooter } from './ui/Dialog';
 import { Input } from './ui/Input';
 import { Select } from './ui/Select';
@@ -9,23 +10,14 @@ import { supabase } from '@/lib/supabaseClient';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { toast } from '@/lib/toast';
 import { Loader2 } from 'lucide-react';
-import { equipmentTypeOptions, equipmentStatusOptions } from '@/lib/formConstants';
+import { equipmentCategoryOptions, equipmentTypeOptions, equipmentStatusOptions } from '@/lib/formConstants';
 import type { Vendor } from '@/lib/types';
 import { Textarea } from './ui/Textarea';
 
-const equipmentCategoryOptions = [
-    { value: 'Wheelchair', label: 'Wheelchair' },
-    { value: 'Power Wheelchair', label: 'Power Wheelchair' },
-    { value: 'Scooter', label: 'Scooter' },
-    { value: 'Seating', label: 'Seating' },
-    { value: 'Respiratory', label: 'Respiratory' },
-    { value: 'Wound', label: 'Wound' },
-    { value: 'Other', label: 'Other' },
-];
-
 export default function EquipmentModal() {
   const { isOpen, closeModal, form, setForm, editingEquipment, orderId } = useEquipmentModal();
   const queryClient = useQueryClient();
+  const proposeRequiredDocs = useRequiredDocsModal(state => state.proposeFor);
   const [isSaving, setIsSaving] = React.useState(false);
 
   const { data: vendors = [] } = useQuery<Vendor[]>({
@@ -58,6 +50,7 @@ export default function EquipmentModal() {
       }
       queryClient.invalidateQueries({ queryKey: ['equipment', orderId] });
       queryClient.invalidateQueries({ queryKey: ['patient_details', form.patient_id] });
+      if (orderId && editingEquipment?.category !== form.category) proposeRequiredDocs(orderId);
       closeModal();
     } catch (error: any) {
       toast(`Error: ${error.message}`, 'err');
@@ -2,6 +2,7 @@ import React from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabaseClient';
 import { useEquipmentModal } from '@/state/useEquipmentModal';
+import { useRequiredDocsModal } from '@/state/useRequiredDocsModal';
 import type { Equipment } from '@/lib/types';
 import { Button } from './ui/button';
 import { Plus, Edit, Trash2 } from 'lucide-react';
@@ -14,6 +15,7 @@ interface EquipmentPanelProps {
 
 const EquipmentPanel: React.FC<EquipmentPanelProps> = ({ orderId }) => {
   const openModal = useEquipmentModal(state => state.openModal);
+  const proposeRequiredDocs = useRequiredDocsModal(state => state.proposeFor);
   
   const { data: equipment = [], isLoading } = useQuery<Equipment[]>({
     queryKey: ['equipment', orderId],
@@ -32,6 +34,7 @@ const EquipmentPanel: React.FC<EquipmentPanelProps> = ({ orderId }) => {
               toast(`Error: ${error.message}`, 'err');
           } else {
               toast('Equipment record deleted.', 'ok');
+              proposeRequiredDocs(orderId);
               // The query will be invalidated by the modal, but we can do it here too for direct action
           }
       }
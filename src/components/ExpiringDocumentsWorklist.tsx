@@ -0,0 +1,98 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CalendarClock } from 'lucide-react';
+import { Select } from './ui/Select';
+import { cn } from '../lib/utils';
+import { orderDocValidity, type DocValidity } from '../lib/docValidity';
+import type { DocumentValidityRule, Order } from '../lib/types';
+
+interface ExpiringDocumentsWorklistProps {
+  orders: Order[];
+  rules: DocumentValidityRule[];
+}
+
+const windowOptions = [7, 14, 30, 60, 90].map(days => ({ label: `Next ${days} days`, value: String(days) }));
+
+type WorklistRow = DocValidity & { order: Order };
+
+/** Documents that have expired or will expire within the chosen window, soonest first. */
+const ExpiringDocumentsWorklist: React.FC<ExpiringDocumentsWorklistProps> = ({ orders, rules }) => {
+  const navigate = useNavigate();
+  const [windowDays, setWindowDays] = useState('30');
+
+  const rows = useMemo(() => {
+    const now = new Date();
+    const limit = parseInt(windowDays, 10);
+    const result: WorklistRow[] = [];
+    for (const order of orders) {
+      for (const validity of orderDocValidity(order, rules, now)) {
+        if (validity.daysLeft <= limit) result.push({ ...validity, order });
+      }
+    }
+    return result.sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+  }, [orders, rules, windowDays]);
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-xl shadow-sm">
+      <div className="p-4 flex flex-wrap items-end justify-between gap-4 border-b dark:border-zinc-800">
+        <div>
+          <h2 className="text-base font-semibold text-gray-800 dark:text-gray-200 flex items-center gap-2">
+            <CalendarClock className="h-4 w-4" /> Expiring Documents
+          </h2>
+          <p className="text-xs text-gray-500 mt-1">Complete documents that have expired or are about to, based on the document validity rules.</p>
+        </div>
+        <Select
+          id="expiring-window"
+          label="Expiring In"
+          options={windowOptions}
+          value={windowDays}
+          onChange={e => setWindowDays(e.target.value)}
+          wrapperClassName="w-40"
+          className="h-9 text-sm"
+        />
+      </div>
+      {rows.length === 0 ? (
+        <p className="p-6 text-sm text-center text-gray-500">No documents expire in this window.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-gray-500 uppercase">
+              <tr>
+                <th className="px-4 py-2 text-left">Patient</th>
+                <th className="px-4 py-2 text-left">Document</th>
+                <th className="px-4 py-2 text-left">Dated</th>
+                <th className="px-4 py-2 text-left">Expires</th>
+                <th className="px-4 py-2 text-left">Stage</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={`${row.order.id}-${row.key}`} className="border-t dark:border-zinc-800">
+                  <td className="px-4 py-2">
+                    <button
+                      onClick={() => navigate(`/referrals?patientId=${row.order.patients?.id}`)}
+                      className="text-teal-600 hover:underline text-left focus-ring rounded"
+                    >
+                      {row.order.patients?.name || 'Unknown'}
+                    </button>
+                  </td>
+                  <td className="px-4 py-2">{row.label}</td>
+                  <td className="px-4 py-2 text-gray-500">{row.anchorDate.toLocaleDateString()}</td>
+                  <td className={cn('px-4 py-2 font-medium', row.state === 'expired' ? 'text-red-600' : 'text-amber-600')}>
+                    {row.expiresAt.toLocaleDateString()}
+                    <span className="ml-1 font-normal text-xs">
+                      {row.daysLeft < 0 ? `(${-row.daysLeft}d ago)` : `(in ${row.daysLeft}d)`}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-gray-500">{row.order.workflow_stage}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExpiringDocumentsWorklist;
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { Eye, FilePlus, GitMerge, Loader2, Paperclip, Trash2 } from 'lucide-react';
+import { Btn } from './ui/Btn';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import SearchableSelect from './ui/SearchableSelect';
+import SimpleConfirmationModal from './ui/SimpleConfirmationModal';
+import { DocumentPreviewModal } from './DocumentFiles';
+import { toast } from '@/lib/toast';
+import { cn } from '@/lib/utils';
+import { supabase } from '@/lib/supabaseClient';
+import { useAuth } from '@/contexts/AuthContext';
+import { docTypes } from '@/lib/docMapping';
+import { acceptInboundReferral, discardInboundReferral, mergeInboundReferral } from '@/lib/inboundReferrals';
+import type { Doctor, InboundReferral, InboundReferralAttachment, ReferralDraft } from '@/lib/types';
+
+const NEW_PATIENT = 'new';
+
+const DOC_KEY_OPTIONS = docTypes.map(t => ({ value: t.key, label: t.label }));
+
+const formatSize = (bytes: number | null) => !bytes ? '' : bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+type Action = 'accept' | 'merge' | 'discard';
+
+interface InboundReferralReviewProps {
+  inbound: InboundReferral;
+  onDone: () => void;
+}
+
+/**
+ * One draft from the referral inbox: the email as received, the referral
+ * details read from it (editable) and the suggested patient and doctor.
+ * Staff accept it as a new referral, merge it into a matched patient or discard it.
+ */
+const InboundReferralReview: React.FC<InboundReferralReviewProps> = ({ inbound, onDone }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const isPending = inbound.status === 'pending';
+  const attachments = inbound.inbound_referral_attachments || [];
+
+  const [draft, setDraft] = useState<ReferralDraft>(inbound.draft || {});
+  const [doctorId, setDoctorId] = useState(inbound.suggested_doctor_id || '');
+  const [target, setTarget] = useState(inbound.patient_matches[0]?.patient_id || NEW_PATIENT);
+  const [docKeys, setDocKeys] = useState<Record<string, string>>(() => Object.fromEntries(attachments.map(a => [a.id, a.doc_key])));
+  const [previewing, setPreviewing] = useState<InboundReferralAttachment | null>(null);
+  const [confirmDiscard, setConfirmDiscard] = useState(false);
+
+  const { data: doctors = [] } = useQuery({
+    queryKey: ['doctors'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('doctors').select('*').order('name');
+      if (error) throw error;
+      return (data || []) as Doctor[];
+    },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['inbound_referrals'] });
+    queryClient.invalidateQueries({ queryKey: ['referrals_direct_all'] });
+    queryClient.invalidateQueries({ queryKey: ['dashboard_orders_all'] });
+  };
+
+  const mutation = useMutation({
+    mutationFn: async (action: Action) => {
+      const decision = { draft, doctorId: doctorId || null, docKeys };
+      if (action === 'accept') await acceptInboundReferral(inbound, decision, user?.email ?? null);
+      else if (action === 'merge') await mergeInboundReferral(inbound, target, decision, user?.email ?? null);
+      else await discardInboundReferral(inbound, user?.email ?? null);
+      return action;
+    },
+    onSuccess: (action) => {
+      toast(action === 'accept' ? 'Referral created.' : action === 'merge' ? 'Email merged into the patient.' : 'Email discarded.', 'ok');
+      refresh();
+      onDone();
+    },
+    onError: (error: any) => {
+      toast(`Error: ${error.message}`, 'err');
+      refresh();
+    },
+    onSettled: () => setConfirmDiscard(false),
+  });
+
+  const update = (patch: Partial<ReferralDraft>) => setDraft({ ...draft, ...patch });
+  const busy = mutation.isPending;
+  const selectedMatch = inbound.patient_matches.find(m => m.patient_id === target);
+
+  return (
+    <div className="space-y-6 text-sm">
+      <section className="space-y-1">
+        <p><span className="text-muted">From:</span> {inbound.from_name ? `${inbound.from_name} <${inbound.from_address}>` : inbound.from_address || 'Unknown sender'}</p>
+        <p><span className="text-muted">Received:</span> {inbound.received_at ? new Date(inbound.received_at).toLocaleString() : 'Unknown'} · {inbound.file_name}</p>
+        <p className="font-semibold text-gray-800 dark:text-gray-100">{inbound.subject || '(no subject)'}</p>
+        <pre className="mt-2 max-h-64 overflow-y-auto whitespace-pre-wrap font-sans text-sm text-gray-700 dark:text-gray-300 rounded-lg border bg-gray-50 dark:bg-zinc-800/50 p-3">{inbound.body || '(no message body)'}</pre>
+      </section>
+
+      {!isPending && (
+        <section className="rounded-lg border p-3">
+          <p className="font-medium capitalize">{inbound.status}{inbound.resolved_by && ` by ${inbound.resolved_by}`}{inbound.resolved_at && ` on ${new Date(inbound.resolved_at).toLocaleString()}`}</p>
+          {inbound.patient_id && <Link to={`/patient/${inbound.patient_id}`} className="text-accent hover:underline">Open patient</Link>}
+        </section>
+      )}
+
+      {isPending && (
+        <>
+          <section>
+            <h3 className="font-semibold mb-3">Referral Details</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <Input id="inbound-name" label="Patient Name" value={draft.name || ''} onChange={e => update({ name: e.target.value })} isRecommended />
+              <Input id="inbound-dob" label="Date of Birth" type="date" value={draft.dob || ''} onChange={e => update({ dob: e.target.value })} />
+              <Input id="inbound-phone" label="Phone" value={draft.phone_number || ''} onChange={e => update({ phone_number: e.target.value })} />
+              <SearchableSelect label="Primary Insurance" value={draft.primary_insurance || ''} onChange={value => update({ primary_insurance: value })} />
+              <Select
+                id="inbound-doctor"
+                label="Referring Doctor"
+                value={doctorId}
+                onChange={e => setDoctorId(e.target.value)}
+                options={[{ value: '', label: draft.referring_physician ? `Not on file (${draft.referring_physician})` : 'Not on file' }, ...doctors.map(d => ({ value: d.id, label: d.name }))]}
+              />
+            </div>
+          </section>
+
+          <section>
+            <h3 className="font-semibold mb-2">Patient</h3>
+            <div className="space-y-2">
+              <label className={cn('flex items-start gap-2 rounded-lg border p-2 cursor-pointer', target === NEW_PATIENT && 'border-teal-500 bg-teal-50/50 dark:bg-teal-900/20')}>
+                <input type="radio" name="inbound-target" className="mt-1" checked={target === NEW_PATIENT} onChange={() => setTarget(NEW_PATIENT)} />
+                <span>Create a new patient</span>
+              </label>
+              {inbound.patient_matches.map(match => (
+                <label key={match.patient_id} className={cn('flex items-start gap-2 rounded-lg border p-2 cursor-pointer', target === match.patient_id && 'border-teal-500 bg-teal-50/50 dark:bg-teal-900/20')}>
+                  <input type="radio" name="inbound-target" className="mt-1" checked={target === match.patient_id} onChange={() => setTarget(match.patient_id)} />
+                  <span>
+                    <span className="font-medium">{match.name}</span>
+                    {match.dob && <span className="text-muted"> · DOB {match.dob}</span>}
+                    <span className="text-muted"> · {Math.round(match.score * 100)}% match</span>
+                    <span className="block text-xs text-muted">{match.reasons.join(', ')}</span>
+                  </span>
+                </label>
+              ))}
+              {inbound.patient_matches.length === 0 && <p className="text-xs text-muted">No existing patient looks like this referral.</p>}
+            </div>
+          </section>
+        </>
+      )}
+
+      <section>
+        <h3 className="font-semibold mb-2 flex items-center gap-2"><Paperclip className="h-4 w-4" /> Attachments ({attachments.length})</h3>
+        {attachments.length === 0 ? <p className="text-muted">The email has no attachments.</p> : (
+          <ul className="space-y-2">
+            {attachments.map(a => (
+              <li key={a.id} className="flex flex-wrap items-end gap-3 rounded-lg bg-gray-50 dark:bg-zinc-800 p-2">
+                <div className="flex-1 min-w-[10rem]">
+                  <p className="font-medium break-all">{a.file_name}</p>
+                  <p className="text-xs text-muted">{a.mime_type || 'unknown type'} {a.size_bytes ? `· ${formatSize(a.size_bytes)}` : ''}</p>
+                </div>
+                {isPending && (
+                  <Select
+                    id={`inbound-doc-${a.id}`}
+                    label="File As"
+                    wrapperClassName="w-56"
+                    value={docKeys[a.id] || a.doc_key}
+                    onChange={e => setDocKeys({ ...docKeys, [a.id]: e.target.value })}
+                    options={DOC_KEY_OPTIONS}
+                  />
+                )}
+                <Btn variant="outline" size="sm" onClick={() => setPreviewing(a)} aria-label={`Preview ${a.file_name}`}><Eye className="h-3 w-3" /></Btn>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {isPending && (
+        <div className="flex flex-wrap justify-end gap-2 border-t pt-4">
+          <Btn variant="ghost" size="sm" onClick={() => setConfirmDiscard(true)} disabled={busy}>
+            <Trash2 className="h-4 w-4 mr-2" /> Discard
+          </Btn>
+          <Btn variant="outline" size="sm" onClick={() => mutation.mutate('merge')} disabled={busy || !selectedMatch} title={selectedMatch ? undefined : 'Pick a matching patient to merge into'}>
+            {busy && mutation.variables === 'merge' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitMerge className="h-4 w-4 mr-2" />}
+            {selectedMatch ? `Merge into ${selectedMatch.name}` : 'Merge'}
+          </Btn>
+          <Btn size="sm" onClick={() => mutation.mutate('accept')} disabled={busy || target !== NEW_PATIENT || !draft.name?.trim()}>
+            {busy && mutation.variables === 'accept' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FilePlus className="h-4 w-4 mr-2" />}
+            Accept as New Referral
+          </Btn>
+        </div>
+      )}
+
+      <DocumentPreviewModal document={previewing} onClose={() => setPreviewing(null)} />
+
+      <SimpleConfirmationModal
+        isOpen={confirmDiscard}
+        onClose={() => setConfirmDiscard(false)}
+        onConfirm={() => mutation.mutate('discard')}
+        isLoading={busy && mutation.variables === 'discard'}
+        title="Discard Email"
+        message={`This removes "${inbound.subject || inbound.file_name}" from the inbox and deletes its ${attachments.length} attachment(s). Nothing is added to any patient.`}
+        confirmButtonText="Discard"
+        confirmButtonVariant="danger"
+      />
+    </div>
+  );
+};
+
+export default InboundReferralReview;
@@ -4,7 +4,7 @@ import { Button } from './ui/button';
 import { Checkbox } from './ui/Checkbox';
 import { Textarea } from './ui/Textarea';
 import { Loader2 } from 'lucide-react';
-import { docTemplates, labelMap, DocKey } from '../lib/docMapping';
+import { docSections, labelMap } from '../lib/docMapping';
 
 interface MassDocUpdateModalProps {
   isOpen: boolean;
@@ -13,7 +13,7 @@ interface MassDocUpdateModalProps {
   selectedCount: number;
 }
 
-const allDocKeys = Array.from(new Set(docTemplates.flatMap(t => t.keys)));
+const allDocKeys = docSections.flatMap(s => s.keys);
 
 const MassDocUpdateModal: React.FC<MassDocUpdateModalProps> = ({ isOpen, onClose, onConfirm, selectedCount }) => {
   const [selectedDocs, setSelectedDocs] = useState<string[]>([]);
@@ -52,7 +52,7 @@ const MassDocUpdateModal: React.FC<MassDocUpdateModalProps> = ({ isOpen, onClose
             {allDocKeys.map(docKey => (
               <Checkbox
                 key={docKey}
-                label={labelMap[docKey as DocKey] || docKey}
+                label={labelMap[docKey]}
                 checked={selectedDocs.includes(docKey)}
                 onChange={() => handleToggleDoc(docKey)}
               />
@@ -1,16 +1,17 @@
 import React from 'react';
 import { cn } from '@/lib/utils';
-import workflowData from '../../schemas/workflow.json';
+import { workflowStageNames } from '@/lib/workflowDefinition';
 import type { WorkflowStage } from '@/lib/types';
 
 interface MiniPipelineProps {
   currentStage: WorkflowStage;
+  /** Workflow definition version the order follows; the active version when omitted. */
+  workflowVersion?: number | null;
   className?: string;
 }
 
-const allStages = workflowData.workflow.map(w => w.stage) as WorkflowStage[];
-
-const MiniPipeline: React.FC<MiniPipelineProps> = ({ currentStage, className }) => {
+const MiniPipeline: React.FC<MiniPipelineProps> = ({ currentStage, workflowVersion, className }) => {
+  const allStages = workflowStageNames(workflowVersion) as WorkflowStage[];
   const currentIndex = allStages.indexOf(currentStage);
 
   return (
@@ -4,7 +4,7 @@ import { NavLink } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
 import { AUTHORIZED_ADMINS } from '@/lib/constants';
-import { LayoutDashboard, Files, BarChart3, Settings, History, Briefcase, Archive, Megaphone, Users } from 'lucide-react';
+import { LayoutDashboard, Files, BarChart3, Settings, History, Briefcase, Archive, Megaphone, Users, FileClock, Timer, Inbox } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 const NAV_STRUCTURE = [
@@ -13,6 +13,7 @@ const NAV_STRUCTURE = [
         items: [
             { name: 'Dashboard', href: '/', icon: LayoutDashboard },
             { name: 'Referrals', href: '/referrals', icon: Files },
+            { name: 'Inbox', href: '/inbox', icon: Inbox },
             { name: 'Patients', href: '/patients', icon: Users },
             { name: 'Marketing', href: '/marketing', icon: Megaphone },
             { name: 'Payers', href: '/my-accounts', icon: Briefcase },
@@ -22,6 +23,7 @@ const NAV_STRUCTURE = [
         name: 'Insights',
         items: [
             { name: 'Trends', href: '/trends', icon: BarChart3 },
+            { name: 'Cycle Time', href: '/cycle-time', icon: Timer },
         ]
     },
     {
@@ -36,6 +38,7 @@ const NAV_STRUCTURE = [
         items: [
             { name: 'Settings', href: '/settings', icon: Settings },
             { name: 'Audit Log', href: '/audit-log', icon: History },
+            { name: 'Import History', href: '/import-history', icon: FileClock },
         ]
     }
 ];
@@ -11,9 +11,10 @@ interface NotesPanelProps {
   patientId: string;
   onAddNoteClick: () => void;
   onUpdate: () => void;
+  workflowVersion?: number | null;
 }
 
-const NotesPanel: React.FC<NotesPanelProps> = ({ patientId, onAddNoteClick, onUpdate }) => {
+const NotesPanel: React.FC<NotesPanelProps> = ({ patientId, onAddNoteClick, onUpdate, workflowVersion }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const { data: latestNote, isLoading } = useLatestNote(patientId);
 
@@ -64,7 +65,7 @@ const NotesPanel: React.FC<NotesPanelProps> = ({ patientId, onAddNoteClick, onUp
             className="overflow-hidden"
           >
             <div className="border-t border-zinc-200 dark:border-zinc-800 p-3">
-              <WorkflowTimeline patientId={patientId} onUpdate={onUpdate} />
+              <WorkflowTimeline patientId={patientId} onUpdate={onUpdate} workflowVersion={workflowVersion} />
             </div>
           </motion.div>
         ) : (
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CheckCircle2, Circle, Loader2, Plus, Zap } from 'lucide-react';
+import { Btn } from './ui/Btn';
+import { Input } from './ui/Input';
+import { cn } from '@/lib/utils';
+import { toast } from '@/lib/toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { createOrderTask, listOrderTasks, setOrderTaskDone } from '@/api/orderTasks.api';
+import type { Order, OrderTask } from '@/lib/types';
+
+const isOverdue = (task: OrderTask) => !task.is_done && !!task.due_date && task.due_date < new Date().toISOString().slice(0, 10);
+
+/** Follow-up tasks on an order, whether added by hand or created by an automation rule. */
+const OrderTasksPanel: React.FC<{ order: Order }> = ({ order }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [title, setTitle] = useState('');
+
+  const { data: tasks = [], isLoading } = useQuery({
+    // `updated_at` is part of the key so that automation run by an order update shows up straight away.
+    queryKey: ['order_tasks', order.id, order.updated_at],
+    queryFn: () => listOrderTasks(order.id),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['order_tasks', order.id] });
+
+  const toggleMutation = useMutation({
+    mutationFn: (task: OrderTask) => setOrderTaskDone(task.id, !task.is_done, user?.email || null),
+    onSuccess: invalidate,
+    onError: (err: any) => toast(`Error: ${err.message}`, 'err'),
+  });
+
+  const addMutation = useMutation({
+    mutationFn: () => createOrderTask({
+      order_id: order.id,
+      patient_id: order.patient_id,
+      title: title.trim(),
+      due_date: null,
+      assigned_to: null,
+      rule_id: null,
+      created_by: user?.email || null,
+    }),
+    onSuccess: () => {
+      setTitle('');
+      invalidate();
+    },
+    onError: (err: any) => toast(`Error: ${err.message}`, 'err'),
+  });
+
+  const openCount = tasks.filter(t => !t.is_done).length;
+
+  return (
+    <div className="rounded-xl border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900/50">
+      <div className="px-4 py-3 flex items-center justify-between">
+        <span className="text-sm font-semibold text-zinc-800 dark:text-zinc-200">Tasks</span>
+        {openCount > 0 && <span className="text-xs text-muted">{openCount} open</span>}
+      </div>
+      <div className="px-4 pb-4 space-y-2">
+        {isLoading ? (
+          <div className="flex justify-center p-2"><Loader2 className="h-4 w-4 animate-spin text-muted" /></div>
+        ) : tasks.length === 0 ? (
+          <p className="text-sm text-center text-muted">No tasks for this referral.</p>
+        ) : (
+          <ul className="space-y-1">
+            {tasks.map(task => (
+              <li key={task.id}>
+                <button
+                  onClick={() => toggleMutation.mutate(task)}
+                  disabled={toggleMutation.isPending && toggleMutation.variables?.id === task.id}
+                  className="w-full flex items-start gap-2 text-left rounded-md p-1.5 hover:bg-gray-50 dark:hover:bg-zinc-800/50"
+                  aria-pressed={task.is_done}
+                >
+                  {task.is_done ? <CheckCircle2 className="h-4 w-4 mt-0.5 text-emerald-500 flex-shrink-0" /> : <Circle className="h-4 w-4 mt-0.5 text-muted flex-shrink-0" />}
+                  <span className="min-w-0 flex-1">
+                    <span className={cn('block text-sm', task.is_done ? 'text-muted line-through' : 'text-text')}>{task.title}</span>
+                    <span className="flex items-center gap-1 text-xs text-muted">
+                      {task.rule_id && <Zap className="h-3 w-3" aria-label="Created by automation" />}
+                      {task.due_date && <span className={cn(isOverdue(task) && 'text-red-500 font-medium')}>Due {new Date(`${task.due_date}T00:00:00`).toLocaleDateString()}</span>}
+                      {task.assigned_to && <span>· {task.assigned_to}</span>}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex items-end gap-2">
+          <Input
+            label="New Task"
+            value={title}
+            onChange={e => setTitle(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter' && title.trim()) addMutation.mutate(); }}
+            wrapperClassName="flex-1"
+          />
+          <Btn variant="outline" size="sm" className="mb-1" onClick={() => addMutation.mutate()} disabled={!title.trim() || addMutation.isPending} aria-label="Add task">
+            <Plus className="h-3 w-3" />
+          </Btn>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderTasksPanel;
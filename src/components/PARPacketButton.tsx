@@ -15,7 +15,7 @@ interface Props {
 type LoadingState = 'idle' | 'generating' | 'sending' | 'done';
 
 const PARPacketButton: React.FC<Props> = ({ order }) => {
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const [loadingState, setLoadingState] = useState<LoadingState>('idle');
 
   const { data: templates } = useQuery({
@@ -46,18 +46,14 @@ const PARPacketButton: React.FC<Props> = ({ order }) => {
       const doc = generateBrandedPDF(order, templates, logoDataUrl);
       
       setLoadingState('sending');
-      await sendVendorEmail(order, doc, user?.email);
+      await sendVendorEmail(order, doc, profile ?? { email: user?.email });
       toast('PAR Packet sent successfully!', 'ok');
       setLoadingState('done');
       setTimeout(() => setLoadingState('idle'), 2000);
 
     } catch (error: any) {
       console.error("Failed to generate and send PDF:", error);
-      if (error.message.includes('Resend API key is not configured')) {
-          toast('Email failed: Resend API key is not configured.', 'err');
-      } else {
-          toast(`Failed to send email: ${error.message}`, 'err');
-      }
+      toast(`Failed to send email: ${error.message}`, 'err');
       setLoadingState('idle');
     }
   };
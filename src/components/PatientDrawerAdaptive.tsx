@@ -12,16 +12,18 @@ import type { Patient, Order, WorkflowHistoryEntry, AuditLogEntry, WorkflowStage
 import { Loader2, Edit, FileText, Activity, Archive, RotateCcw, X, Save } from "lucide-react";
 import { useMediaQuery } from "@/hooks/useMediaQuery";
 import { cn } from "@/lib/utils";
-import StageChangeModal from '../components/StageChangeModal';
+import StageChangeModal, { type StageChangeUpdate } from '../components/StageChangeModal';
+import { recordStageChange } from '../api/workflowHistory.api';
 import AddNoteModal from '../components/AddNoteModal';
 import SimpleConfirmationModal from '../components/ui/SimpleConfirmationModal';
-import workflowData from '../../schemas/workflow.json';
+import { workflowStageNames } from '@/lib/workflowDefinition';
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useUIState } from '@/state/useUIState';
 import { isBackward, formatDateForExport } from "../lib/utils";
 import { generatePatientSnapshotPDF } from '@/lib/pdfUtils';
 import StoplightStatusControl from './StoplightStatusControl';
 import { useNoteMutations } from "@/hooks/useNoteMutations";
+import { useRequiredDocsModal } from '@/state/useRequiredDocsModal';
 
 const recommendedFields: (keyof Patient)[] = ['name', 'dob', 'pcp_name', 'phone_number', 'address_line1', 'city', 'zip', 'primary_insurance'];
 
@@ -37,6 +39,7 @@ export default function PatientDrawerAdaptive({ patientId, open, onClose, onUpda
   const [isArchiving, setIsArchiving] = useState(false);
   const queryClient = useQueryClient();
   const setOverlayVisible = useUIState(state => state.setOverlayVisible);
+  const proposeRequiredDocs = useRequiredDocsModal(state => state.proposeFor);
   const [isExporting, setIsExporting] = useState(false);
 
   const { addNote } = useNoteMutations(patientId || '');
@@ -161,6 +164,10 @@ export default function PatientDrawerAdaptive({ patientId, open, onClose, onUpda
       }
       
       await writeAuditLog('patient_update', { changed_by: user?.email, changed_user: patientPayload.name || patient.name, patient_id: patient.id });
+
+      if (order?.id && (providerId !== (patient.insurance_provider_id ?? null) || (orderData.case_type ?? order.case_type) !== order.case_type)) {
+        proposeRequiredDocs(order.id);
+      }
       
       const missingRecommended = recommendedFields.some(field => !patientData[field]);
       if (missingRecommended) toast('Saved with missing recommended fields.', 'warning');
@@ -181,12 +188,29 @@ export default function PatientDrawerAdaptive({ patientId, open, onClose, onUpda
     }
   };
 
-  const handleStageSave = async ({ newStage, note, regressionReason }: { newStage: WorkflowStage; note: string; regressionReason?: string }) => {
+  const handleStageSave = async ({ newStage, newStatus, note, regressionReason, override }: StageChangeUpdate) => {
     if (!order || !patient) return;
     
-    const isRegression = isBackward(order.workflow_stage, newStage);
+    const isRegression = isBackward(order.workflow_stage, newStage, order.workflow_version);
+    const isStageChange = newStage !== order.workflow_stage;
 
-    await supabase.from('workflow_history').insert({ order_id: order.id, previous_stage: order.workflow_stage, new_stage: newStage, note: note, changed_by: user?.email || 'System' });
+    try {
+        await recordStageChange({
+            order_id: order.id,
+            patient_id: patient.id,
+            previous_stage: order.workflow_stage,
+            new_stage: newStage,
+            previous_status: order.status ?? null,
+            new_status: newStatus || null,
+            note,
+            changed_by: user?.email || 'System',
+            override,
+        });
+    } catch (error) {
+        console.error('Failed to record stage change:', error);
+        toast('Failed to update stage.', 'err');
+        return;
+    }
     
     if (isRegression && regressionReason) {
         await supabase.from('regressions').insert({
@@ -199,7 +223,12 @@ export default function PatientDrawerAdaptive({ patientId, open, onClose, onUpda
         });
     }
 
-    const { error } = await supabase.from('orders').update({ workflow_stage: newStage, last_stage_note: note, last_stage_change: new Date().toISOString() }).eq('id', order.id);
+    const { error } = await supabase.from('orders').update({
+        workflow_stage: newStage,
+        status: newStatus || null,
+        last_stage_note: note,
+        ...(isStageChange && { last_stage_change: new Date().toISOString() }),
+    }).eq('id', order.id);
     if (error) { 
         toast('Failed to update stage.', 'err');
     } else { 
@@ -209,11 +238,13 @@ export default function PatientDrawerAdaptive({ patientId, open, onClose, onUpda
           details: {
             from: order.workflow_stage,
             to: newStage,
+            status_from: order.status,
+            status_to: newStatus,
             note,
             reason: regressionReason,
           }
       });
-      toast('Stage updated.', 'ok'); 
+      toast(isStageChange ? 'Stage updated.' : 'Status updated.', 'ok'); 
       onUpdate(); 
       queryClient.invalidateQueries({ queryKey: ['dashboard_metrics'] });
       queryClient.invalidateQueries({ queryKey: ['regression_insights'] });
@@ -271,7 +302,7 @@ export default function PatientDrawerAdaptive({ patientId, open, onClose, onUpda
   };
 
   const referralStartDate = order?.referral_date ? formatDateForExport(order.referral_date, true) : '—';
-  const workflowStages = workflowData.workflow.map(w => w.stage) as WorkflowStage[];
+  const workflowStages = workflowStageNames(order?.workflow_version) as WorkflowStage[];
 
   const header = (
     <div
@@ -285,7 +316,7 @@ export default function PatientDrawerAdaptive({ patientId, open, onClose, onUpda
               <div className="mt-0.5 text-xs text-muted flex flex-wrap items-center gap-x-3">
                   <span>{patient.primary_insurance || 'No Payer'}</span>
                   <span className="text-gray-300 dark:text-gray-600">•</span>
-                  <span>{order?.workflow_stage || 'No Stage'}</span>
+                  <span>{order?.workflow_stage || 'No Stage'}{order?.status ? ` · ${order.status}` : ''}</span>
                   <span className="text-gray-300 dark:text-gray-600">•</span>
                   <span className="bg-yellow-400 dark:bg-yellow-500 text-black font-bold px-2 py-0.5 rounded-md">
                     Start Date: {referralStartDate}
@@ -295,7 +326,7 @@ export default function PatientDrawerAdaptive({ patientId, open, onClose, onUpda
         </div>
         <div className="flex items-center space-x-2 flex-shrink-0">
           {!isEditMode && !isLoading && patient && order && (
-            <StoplightStatusControl orderId={order.id} patientId={patient.id} currentStatus={order.stoplight_status} onUpdate={handleStoplightUpdate} />
+            <StoplightStatusControl order={order} onUpdate={handleStoplightUpdate} />
           )}
           {!isEditMode && !isLoading && (
             <>
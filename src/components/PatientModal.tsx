@@ -44,7 +44,7 @@ export default function PatientModal({ isOpen, doctors, vendors, onSave, onClose
       const initialOrder = initialData?.order || {};
       
       if (!initialPatient.required_documents) {
-        initialPatient.required_documents = ['F2F', 'PT_EVAL', 'SWO', 'DPD', 'HIPAA', 'INS_CARD', 'POD'];
+        initialPatient.required_documents = ['f2f', 'pt_eval', 'swo', 'dpd', 'hipaa', 'insurance_card', 'pod'];
       }
       
       setPatientData(initialPatient);
@@ -68,21 +68,21 @@ export default function PatientModal({ isOpen, doctors, vendors, onSave, onClose
     };
 
     if (patientData.telehealth_enabled) {
-        addDoc('TELE_EVAL');
-        addDoc('TELE_CONSENT');
+        addDoc('telehealth_eval');
+        addDoc('telehealth_form');
     }
     if (patientData.financial_assistance) {
-        addDoc('FIN_HARDSHIP');
-        addDoc('ABN');
+        addDoc('financial_hardship_form');
+        addDoc('abn_form');
     }
     if (patientData.primary_insurance?.toLowerCase().includes('medicaid') || patientData.primary_insurance?.toLowerCase().includes('uhc')) {
-        addDoc('AUTH_FORM');
-        addDoc('PAR_REQ');
+        addDoc('auth_form');
+        addDoc('par_req');
     }
     if (orderData.chair_type?.toLowerCase().includes('power')) {
-        addDoc('ATP_EVAL');
-        addDoc('LMN');
-        addDoc('HOME_ASSESS');
+        addDoc('atp_eval');
+        addDoc('lmn');
+        addDoc('home_assessment');
     }
 
     if (changed) {
@@ -1,14 +1,16 @@
 import React, { useMemo } from 'react';
-import type { Order } from '../lib/types';
+import type { Order, StoplightColor } from '../lib/types';
 import { cn } from '../lib/utils';
-import { daysOld } from '../lib/utils';
+import { computeSla } from '../lib/sla';
 import MiniPipeline from './MiniPipeline';
-import { labelMap, DocKey } from '../lib/docMapping';
+import { docLabel } from '../lib/docMapping';
 import { highlight } from '../lib/highlight';
 import { MoreVertical, Edit, Archive, Eye, RotateCcw, FileText, Loader2, Trash2 } from 'lucide-react';
 import { DropdownMenu, DropdownMenuTrigger, DropdownMenuContent, DropdownMenuItem } from './ui/dropdown-menu';
 import { Checkbox } from './ui/Checkbox';
 import { StoplightBadge } from './ui/StoplightBadge';
+import { STOPLIGHT_LABELS } from '../lib/stoplight';
+import { SlaBadge } from './ui/SlaBadge';
 
 interface ReferralCardProps {
   order: Order;
@@ -33,11 +35,11 @@ const stageStyleMap: Record<string, string> = {
 };
 
 const ReferralCard: React.FC<ReferralCardProps> = React.memo(({ order, onViewDetails, onStageChange, onArchive, onDelete, onExportSnapshot, isExporting, term, isSelected, onToggleSelection, onUpdate }) => {
-  const { patients, workflow_stage, last_stage_change, stoplight_status } = order;
+  const { patients, workflow_stage, stoplight_status } = order;
   const patientName = patients?.name || 'Unknown Patient';
   const insurance = patients?.primary_insurance || 'N/A';
   const initials = patientName.split(' ').map(n => n[0]).join('').substring(0, 2) || 'R';
-  const daysInStage = Math.floor(daysOld(last_stage_change));
+  const sla = useMemo(() => computeSla(order), [order]);
   
   const { isReadyForPar, firstMissingDocKey } = useMemo(() => {
     const requiredDocs = patients?.required_documents || [];
@@ -46,11 +48,8 @@ const ReferralCard: React.FC<ReferralCardProps> = React.memo(({ order, onViewDet
     return { isReadyForPar: ready, firstMissingDocKey: firstMissing };
   }, [patients?.required_documents, order.document_status]);
 
-  const stoplightTooltips = {
-      green: 'Good to Go',
-      yellow: 'Risk / Needs Review',
-      red: 'Declined / Stop'
-  };
+  const stoplightColor: StoplightColor = stoplight_status || 'green';
+  const stoplightTooltip = `${STOPLIGHT_LABELS[stoplightColor]}${order.stoplight_reason ? ` — ${order.stoplight_reason}` : ''}`;
 
   return (
     <li
@@ -74,8 +73,8 @@ const ReferralCard: React.FC<ReferralCardProps> = React.memo(({ order, onViewDet
           </div>
           <div className="flex-1 min-w-0">
             <div className="flex items-center gap-2">
-              <div title={stoplightTooltips[stoplight_status || 'green']}>
-                <StoplightBadge color={stoplight_status || 'green'} />
+              <div title={stoplightTooltip}>
+                <StoplightBadge color={stoplightColor} tooltip={stoplightTooltip} />
               </div>
               <p 
                 className="font-semibold truncate-soft patient-name card-title"
@@ -96,17 +95,14 @@ const ReferralCard: React.FC<ReferralCardProps> = React.memo(({ order, onViewDet
             {isReadyForPar ? (
               <span className="text-xs font-semibold text-green-700 bg-green-100 dark:bg-green-900/50 dark:text-green-300 rounded-full px-2 py-0.5">Ready for PAR</span>
             ) : firstMissingDocKey ? (
-              <span className="text-xs font-semibold text-red-700 bg-red-100 dark:bg-red-900/50 dark:text-red-300 rounded-full px-2 py-0.5" title={`Missing: ${labelMap[firstMissingDocKey as DocKey]}`}>
+              <span className="text-xs font-semibold text-red-700 bg-red-100 dark:bg-red-900/50 dark:text-red-300 rounded-full px-2 py-0.5" title={`Missing: ${docLabel(firstMissingDocKey)}`}>
                 Missing Doc
               </span>
-            ) : (
-              <span className="text-[10px] text-muted whitespace-nowrap">
-                {daysInStage}d in stage
-              </span>
-            )}
+            ) : null}
+            <SlaBadge sla={sla} compact />
           </div>
         </div>
-        {workflow_stage && <MiniPipeline currentStage={workflow_stage} />}
+        {workflow_stage && <MiniPipeline currentStage={workflow_stage} workflowVersion={order.workflow_version} />}
       </div>
       <div id="tour-referrals-actions" className="pt-1" onClick={(e) => e.stopPropagation()}>
         <DropdownMenu>
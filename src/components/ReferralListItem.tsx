@@ -34,7 +34,7 @@ const ReferralListItem: React.FC<ReferralListItemProps> = ({
   onToggleSelection,
   onUpdate,
 }) => {
-  const { patients, workflow_stage, stoplight_status, id: orderId, patient_id: patientId } = order;
+  const { patients, workflow_stage, patient_id: patientId } = order;
   const patientName = patients?.name || 'Unknown Patient';
   const insurance = patients?.primary_insurance || 'N/A';
 
@@ -63,9 +63,7 @@ const ReferralListItem: React.FC<ReferralListItemProps> = ({
             <div className="flex-shrink-0">
               {patientId && (
                 <StoplightStatusControl
-                  orderId={orderId}
-                  patientId={patientId}
-                  currentStatus={stoplight_status}
+                  order={order}
                   onUpdate={onUpdate}
                   showLabel={false}
                 />
@@ -12,7 +12,7 @@ import { writeAuditLog } from '@/lib/auditLogger';
 import { useAuth } from '@/contexts/AuthContext';
 import { Loader2 } from 'lucide-react';
 import type { Patient, Order } from '@/lib/types';
-import { DocKey, docTemplates } from '@/lib/docMapping';
+import { loadRequiredDocumentsFor } from '@/lib/docRules';
 import SearchableSelect from './ui/SearchableSelect';
 
 export default function ReferralModal() {
@@ -72,16 +72,14 @@ export default function ReferralModal() {
     }
     setIsSaving(true);
     try {
-      const standardTemplate = docTemplates.find(t => t.id === 'standard_wc');
-      const defaultRequiredDocs = standardTemplate ? standardTemplate.keys : [];
-      
       const providerId = await getOrCreateProviderId(form.primary_insurance);
+      const requiredDocs = await loadRequiredDocumentsFor({ insuranceProviderId: providerId });
 
       const { data: newPatient, error: patientError } = await supabase.from('patients').insert({ 
         name: form.name, 
         primary_insurance: form.primary_insurance,
         insurance_provider_id: providerId,
-        required_documents: defaultRequiredDocs,
+        required_documents: requiredDocs,
         stoplight_status: form.stoplight_status,
       }).select().single();
 
@@ -123,11 +121,12 @@ export default function ReferralModal() {
     const {
         name, dob, gender, referring_physician, pcp_name, pcp_phone,
         phone_number, email, address_line1, address_line2, city, state, zip,
-        preferred_contact_method, primary_insurance, required_documents,
+        preferred_contact_method, primary_insurance,
         referral_source, referral_date, stoplight_status,
     } = form;
 
     const providerId = await getOrCreateProviderId(primary_insurance || '');
+    const required_documents = await loadRequiredDocumentsFor({ insuranceProviderId: providerId });
 
     const patientData: Partial<Patient> = {
         name, dob: dob || null, gender, referring_physician, pcp_name, pcp_phone,
@@ -138,11 +137,9 @@ export default function ReferralModal() {
     };
     
     const initialDocStatus: Record<string, 'Missing' | 'Complete'> = {};
-    if (required_documents) {
-        (required_documents as DocKey[]).forEach(docKey => {
-            initialDocStatus[docKey] = 'Missing';
-        });
-    }
+    required_documents.forEach(docKey => {
+        initialDocStatus[docKey] = 'Missing';
+    });
 
     const orderData: Partial<Order> = {
         referral_source,
@@ -4,6 +4,8 @@ import { Btn } from './ui/Btn';
 import type { Order } from '../lib/types';
 import { highlight } from '../lib/highlight';
 import { Checkbox } from './ui/Checkbox';
+import { SlaBadge } from './ui/SlaBadge';
+import { computeSla } from '../lib/sla';
 
 interface ReferralTableProps {
   orders: Order[];
@@ -53,13 +55,14 @@ const ReferralTable: React.FC<ReferralTableProps> = ({ orders = [], isLoading, o
             <th className="text-left">Insurance</th>
             <th className="text-left">Stage</th>
             <th className="text-left">Last Update</th>
+            <th className="text-left">SLA</th>
             <th className="text-center">Actions</th>
           </tr>
         </thead>
         <tbody className="divide-y divide-gray-200 dark:divide-border-color">
           {orders.length === 0 ? (
             <tr>
-              <td colSpan={6} className="text-center py-12 px-6 text-gray-500">
+              <td colSpan={7} className="text-center py-12 px-6 text-gray-500">
                 <p className="font-semibold">No Referrals Found</p>
                 <p className="text-sm mt-1">No records match the current filters.</p>
               </td>
@@ -68,7 +71,7 @@ const ReferralTable: React.FC<ReferralTableProps> = ({ orders = [], isLoading, o
             Object.keys(groupedOrders).sort().map(letter => (
               <React.Fragment key={letter}>
                 <tr className="sticky top-[34px] z-10">
-                  <td colSpan={6} className="bg-gray-100 dark:bg-gray-900/80 backdrop-blur-sm px-3 py-1 font-bold text-sm uppercase text-muted">
+                  <td colSpan={7} className="bg-gray-100 dark:bg-gray-900/80 backdrop-blur-sm px-3 py-1 font-bold text-sm uppercase text-muted">
                     {letter}
                   </td>
                 </tr>
@@ -91,6 +94,7 @@ const ReferralTable: React.FC<ReferralTableProps> = ({ orders = [], isLoading, o
                     <td className="text-gray-500 dark:text-gray-400">{order.patients?.primary_insurance || 'N/A'}</td>
                     <td className="text-gray-500 dark:text-gray-400">{order.workflow_stage}</td>
                     <td className="text-gray-500 dark:text-gray-400">{order.last_stage_change ? new Date(order.last_stage_change).toLocaleDateString() : 'N/A'}</td>
+                    <td><SlaBadge sla={computeSla(order)} compact /></td>
                     <td className="text-center">
                       <div className="flex items-center justify-center gap-1">
                         <Btn variant="outline" size="sm" onClick={() => onStageChangeClick(order)}>
@@ -4,10 +4,12 @@ import { isBackward } from '../lib/utils';
 
 interface RegressionAnalyticsProps {
   history: WorkflowHistoryEntry[];
+  /** Workflow version of the order the history belongs to, so regressions follow its pipeline. */
+  workflowVersion?: number | null;
 }
 
-export default function RegressionAnalytics({ history }: RegressionAnalyticsProps) {
-  const regressions = history.filter(h => isBackward(h.previous_stage, h.new_stage));
+export default function RegressionAnalytics({ history, workflowVersion }: RegressionAnalyticsProps) {
+  const regressions = history.filter(h => isBackward(h.previous_stage, h.new_stage, workflowVersion));
   
   const reasons = regressions.map(h => h.note).filter((note): note is string => note !== null && note !== undefined);
   
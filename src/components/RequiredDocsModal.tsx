@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Loader2, Minus, Plus } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogFooter } from './ui/Dialog';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/Checkbox';
+import { toast } from '@/lib/toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRequiredDocsModal } from '@/state/useRequiredDocsModal';
+import { applyRequiredDocsChange } from '@/lib/docRules';
+import { docLabel } from '@/lib/docMapping';
+
+/** Shows the required-document changes implied by the documentation rule sets for the user to accept. */
+export default function RequiredDocsModal() {
+  const { proposal, closeModal } = useRequiredDocsModal();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setRejected(new Set());
+  }, [proposal]);
+
+  if (!proposal) return null;
+
+  const toggle = (key: string) =>
+    setRejected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  const accepted = {
+    added: proposal.added.filter(k => !rejected.has(`+${k}`)),
+    removed: proposal.removed.filter(k => !rejected.has(`-${k}`)),
+  };
+
+  const handleAccept = async () => {
+    setIsSaving(true);
+    try {
+      await applyRequiredDocsChange(proposal, accepted, user?.email);
+      toast('Required documents updated.', 'ok');
+      queryClient.invalidateQueries({ queryKey: ['patient_details', proposal.patientId] });
+      queryClient.invalidateQueries({ queryKey: ['patient_full_details', proposal.patientId] });
+      queryClient.invalidateQueries({ queryKey: ['referrals_direct_all'] });
+      queryClient.invalidateQueries({ queryKey: ['compliance_orders'] });
+      closeModal();
+    } catch (error: any) {
+      toast(`Error: ${error.message}`, 'err');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderChange = (key: string, kind: '+' | '-') => (
+    <div key={`${kind}${key}`} className="flex items-center gap-2">
+      {kind === '+' ? <Plus className="h-4 w-4 text-emerald-600 flex-shrink-0" /> : <Minus className="h-4 w-4 text-red-600 flex-shrink-0" />}
+      <Checkbox
+        id={`required-doc-${kind === '+' ? 'add' : 'remove'}-${key}`}
+        label={docLabel(key)}
+        checked={!rejected.has(`${kind}${key}`)}
+        onChange={() => toggle(`${kind}${key}`)}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={!!proposal} onOpenChange={closeModal}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>Update Required Documents?</DialogHeader>
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-muted">
+            The documentation rules for <span className="font-semibold text-text">{proposal.patientName}</span> now call for these changes
+            ({proposal.ruleSets.join(', ')}). Untick any you want to skip.
+          </p>
+          {proposal.added.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-xs font-semibold uppercase text-muted">Add</h4>
+              {proposal.added.map(key => renderChange(key, '+'))}
+            </div>
+          )}
+          {proposal.removed.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-xs font-semibold uppercase text-muted">Remove</h4>
+              {proposal.removed.map(key => renderChange(key, '-'))}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={closeModal} disabled={isSaving}>Keep Current</Button>
+          <Button onClick={handleAccept} disabled={isSaving || (accepted.added.length === 0 && accepted.removed.length === 0)}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Accept Changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useMemo } from 'react';
 import { NavLink } from 'react-router-dom';
-import { LayoutDashboard, Files, BarChart3, Settings, History, Briefcase, Archive, Megaphone, Users } from 'lucide-react';
+import { LayoutDashboard, Files, BarChart3, Settings, History, Briefcase, Archive, Megaphone, Users, FileClock, Timer, Inbox } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
 import { AUTHORIZED_ADMINS } from '@/lib/constants';
@@ -11,6 +11,7 @@ const NAV_STRUCTURE = [
         items: [
             { name: 'Dashboard', href: '/', icon: LayoutDashboard },
             { name: 'Referrals', href: '/referrals', icon: Files },
+            { name: 'Inbox', href: '/inbox', icon: Inbox },
             { name: 'Patients', href: '/patients', icon: Users },
             { name: 'Marketing', href: '/marketing', icon: Megaphone },
             { name: 'Payers', href: '/my-accounts', icon: Briefcase },
@@ -20,6 +21,7 @@ const NAV_STRUCTURE = [
         name: 'Insights',
         items: [
             { name: 'Trends', href: '/trends', icon: BarChart3 },
+            { name: 'Cycle Time', href: '/cycle-time', icon: Timer },
         ]
     },
     {
@@ -34,6 +36,7 @@ const NAV_STRUCTURE = [
         items: [
             { name: 'Settings', href: '/settings', icon: Settings },
             { name: 'Audit Log', href: '/audit-log', icon: History },
+            { name: 'Import History', href: '/import-history', icon: FileClock },
         ]
     }
 ];
@@ -1,17 +1,34 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { Info } from 'lucide-react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { CalendarClock, Info, ShieldAlert } from 'lucide-react';
 import { Btn } from './ui/Btn';
 import { Select } from './ui/Select';
 import { Textarea } from './ui/Textarea';
+import { Checkbox } from './ui/Checkbox';
 import type { WorkflowStage, Order } from '../lib/types';
 import { isBackward } from '../lib/utils';
 import { regressionReasonOptions } from '../lib/formConstants';
+import { AUTHORIZED_ADMINS } from '../lib/constants';
+import { evaluateStageGate, describeGateMissing, entersPar, type StageGateOverride } from '../lib/stageGates';
+import { describeValidity, orderDocValidity } from '../lib/docValidity';
+import { useValidityRules } from '../hooks/useValidityRules';
+import { resolveStageStatus, stageStatusOptions } from '../lib/stageStatus';
 import { toast } from '../lib/toast';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface StageChangeUpdate {
+  newStage: WorkflowStage;
+  /** Stage sub-status from the order's workflow version; empty when the stage defines none. */
+  newStatus: string;
+  note: string;
+  regressionReason?: string;
+  /** Set when an admin moves the order past unmet exit criteria. */
+  override?: StageGateOverride;
+}
 
 interface StageChangeModalProps {
   current: WorkflowStage;
   stages: WorkflowStage[];
-  onSave: (update: { newStage: WorkflowStage; note: string; regressionReason?: string }) => void;
+  onSave: (update: StageChangeUpdate) => void;
   onClose: () => void;
   order: Order;
 }
@@ -19,65 +36,89 @@ interface StageChangeModalProps {
 const StageChangeModal: React.FC<StageChangeModalProps> = ({ current, stages, onSave, onClose, order }) => {
   const [newStage, setNewStage] = useState<WorkflowStage>(current);
   const [note, setNote] = useState('');
+  const [newStatus, setNewStatus] = useState(() => resolveStageStatus(current, order.status, order.workflow_version));
   const [regressionReason, setRegressionReason] = useState('');
-  const [isParReady, setIsParReady] = useState(false);
-  const [parMissingReasons, setParMissingReasons] = useState<string[]>([]);
+  const [isOverriding, setIsOverriding] = useState(false);
+  const [overrideReason, setOverrideReason] = useState('');
+  const { user } = useAuth();
+  const isAdmin = AUTHORIZED_ADMINS.includes(user?.email || '');
 
-  const isRegression = useMemo(() => isBackward(current, newStage), [current, newStage]);
+  const isRegression = useMemo(() => isBackward(current, newStage, order.workflow_version), [current, newStage, order.workflow_version]);
+  const statusOptions = useMemo(() => stageStatusOptions(newStage, order.workflow_version), [newStage, order.workflow_version]);
+  const currentStatus = order.status || '';
+  const isStatusOnly = newStage === current;
 
   useEffect(() => {
-    const reasons: string[] = [];
-    const requiredDocs = order.patients?.required_documents || [];
-    
-    const missingCoreDocs = requiredDocs.filter(docKey => order.document_status?.[docKey] !== 'Complete');
-    
-    if (missingCoreDocs.length > 0) {
-        reasons.push(`Missing documents: ${missingCoreDocs.join(', ')}`);
-    }
-    
-    setParMissingReasons(reasons);
-    setIsParReady(reasons.length === 0);
-  }, [order]);
+    setNewStatus(resolveStageStatus(newStage, newStage === current ? order.status : null, order.workflow_version));
+  }, [newStage, current, order.status, order.workflow_version]);
+  const gate = useMemo(() => evaluateStageGate(order, newStage), [order, newStage]);
+  const isGateOverridden = !gate.passed && isAdmin && isOverriding && !!overrideReason.trim();
+  const { rules: validityRules } = useValidityRules();
+  // PAR review takes time, so documents close to expiry are worth renewing before submitting.
+  const expiringDocs = useMemo(
+    () => (entersPar(order, newStage) ? orderDocValidity(order, validityRules).filter(v => v.state !== 'valid') : []),
+    [order, newStage, validityRules],
+  );
 
   const handleSave = () => {
     if (isRegression && !regressionReason) {
       toast('A reason is required for stage regressions.', 'err');
       return;
     }
+    if (!gate.passed && !isGateOverridden) {
+      toast(`${newStage} cannot be entered until the missing items are complete.`, 'err');
+      return;
+    }
     if (newStage && note.trim()) {
-      onSave({ newStage, note, regressionReason: isRegression ? regressionReason : undefined });
+      onSave({
+        newStage,
+        newStatus,
+        note,
+        regressionReason: isRegression ? regressionReason : undefined,
+        override: isGateOverridden ? { reason: overrideReason.trim(), missing: describeGateMissing(gate) } : undefined,
+      });
     } else {
       toast('A note is required for all stage changes.', 'err');
     }
   };
-  
-  const stageOptions = stages.map(s => {
-      const isParStage = s === 'Preauthorization (PAR)';
-      const isDisabled = isParStage && !isParReady;
-      return { label: s, value: s, disabled: isDisabled };
-  });
 
-  const isSaveDisabled = newStage === current || !note.trim() || (isRegression && !regressionReason);
+  const stageOptions = stages.map(s => ({ label: s, value: s }));
+
+  const isUnchanged = isStatusOnly && newStatus === currentStatus;
+  const isSaveDisabled = isUnchanged || !note.trim() || (isRegression && !regressionReason) || (!gate.passed && !isGateOverridden);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60" aria-modal="true" role="dialog">
       <div className="relative bg-white dark:bg-zinc-900 rounded-xl shadow-lg w-full max-w-lg mx-4">
         <div className="p-6 border-b border-gray-200 dark:border-zinc-800">
-            <h2 className="text-lg font-semibold text-gray-800 dark:text-text">Change Workflow Stage</h2>
+            <h2 className="text-lg font-semibold text-gray-800 dark:text-text">Change Workflow Stage or Status</h2>
             <p className="text-sm text-gray-500 dark:text-muted mt-1">This change will be logged as a new note.</p>
         </div>
 
         <div className="p-6 space-y-4">
           <div>
             <p className="block text-sm font-medium text-gray-700 dark:text-muted">Current Stage</p>
-            <p className="mt-1 text-sm font-semibold text-accent">{current}</p>
+            <p className="mt-1 text-sm font-semibold text-accent">
+              {current}
+              {currentStatus && <span className="font-normal text-muted"> · {currentStatus}</span>}
+            </p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Select
+              label="New Stage"
+              value={newStage}
+              options={stageOptions}
+              onChange={(e) => setNewStage(e.target.value as WorkflowStage)}
+            />
+            {statusOptions.length > 0 && (
+              <Select
+                label="Status"
+                value={newStatus}
+                options={statusOptions}
+                onChange={(e) => setNewStatus(e.target.value)}
+              />
+            )}
           </div>
-          <Select
-            label="New Stage"
-            value={newStage}
-            options={stageOptions}
-            onChange={(e) => setNewStage(e.target.value as WorkflowStage)}
-          />
 
           {isRegression && (
             <Select
@@ -89,21 +130,62 @@ const StageChangeModal: React.FC<StageChangeModalProps> = ({ current, stages, on
             />
           )}
 
-          {newStage === 'Preauthorization (PAR)' && !isParReady && (
+          {!gate.passed && (
             <div className="flex items-start p-3 text-sm text-red-800 bg-red-50 dark:bg-red-900/40 dark:text-red-200 rounded-lg" role="alert">
-              <Info className="flex-shrink-0 inline w-5 h-5 mr-3"/>
+              <ShieldAlert className="flex-shrink-0 inline w-5 h-5 mr-3"/>
+              <div className="space-y-2">
+                <span className="font-medium">Cannot move to {newStage}.</span>
+                {gate.missing.map(group => (
+                  <div key={`${group.kind}-${group.stage}`}>
+                    <p className="text-xs font-semibold">
+                      {group.kind === 'exit' ? `To leave ${group.stage}` : `To enter ${group.stage}`}
+                    </p>
+                    <ul className="mt-1 ml-4 list-disc list-inside">
+                      {group.fields.map(f => <li key={f.key}>Missing field: {f.label}</li>)}
+                      {group.docs.map(d => <li key={d.key}>Missing document: {d.label}</li>)}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {expiringDocs.length > 0 && (
+            <div className="flex items-start p-3 text-sm text-amber-800 bg-amber-50 dark:bg-amber-900/40 dark:text-amber-200 rounded-lg" role="alert">
+              <CalendarClock className="flex-shrink-0 inline w-5 h-5 mr-3"/>
               <div>
-                <span className="font-medium">Cannot move to PAR.</span>
-                <ul className="mt-1.5 ml-4 list-disc list-inside">
-                    {parMissingReasons.map(reason => <li key={reason}>{reason}</li>)}
+                <span className="font-medium">Documents expiring before PAR is decided:</span>
+                <ul className="mt-1 ml-4 list-disc list-inside">
+                  {expiringDocs.map(v => <li key={v.key}>{v.label}: {describeValidity(v)}</li>)}
                 </ul>
               </div>
             </div>
           )}
 
+          {!gate.passed && isAdmin && (
+            <div className="space-y-3 p-3 rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-900/30">
+              <Checkbox
+                label="Override stage requirements"
+                description="The override and its reason are logged to the stage history and the audit log."
+                checked={isOverriding}
+                onChange={(e) => setIsOverriding(e.target.checked)}
+              />
+              {isOverriding && (
+                <Textarea
+                  label="Override Reason"
+                  rows={2}
+                  value={overrideReason}
+                  onChange={(e) => setOverrideReason(e.target.value)}
+                  placeholder="Required: why is this referral moving forward without these items?"
+                  required
+                />
+              )}
+            </div>
+          )}
+
           <div className="flex items-start p-3 text-sm text-blue-800 bg-blue-50 dark:bg-blue-900/40 dark:text-blue-200 rounded-lg" role="alert">
             <Info className="flex-shrink-0 inline w-4 h-4 mr-3 mt-0.5"/>
-            <p>A note is required for all stage changes to maintain a clear audit trail.</p>
+            <p>A note is required for all stage and status changes to maintain a clear audit trail.</p>
           </div>
 
           <Textarea
@@ -1,9 +1,7 @@
 import React from 'react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import type { Order } from '@/lib/types';
-import workflowData from '../../schemas/workflow.json';
-
-const allStages = workflowData.workflow.map(w => w.stage);
+import { allStageNames } from '@/lib/workflowDefinition';
 
 const stageColors = [
   '#34d399', '#2dd4bf', '#22d3ee', '#38bdf8', '#60a5fa',
@@ -15,7 +13,7 @@ interface StageDistributionChartProps {
 }
 
 const StageDistributionChart: React.FC<StageDistributionChartProps> = ({ orders }) => {
-  const stageCounts = allStages.map(stage => {
+  const stageCounts = allStageNames().map(stage => {
     const count = orders.filter(o => o.workflow_stage === stage).length;
     return { name: stage, count };
   }).filter(item => item.count > 0); // Only show stages with active orders
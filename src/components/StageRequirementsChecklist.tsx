@@ -1,45 +1,55 @@
 import React from 'react';
 import { motion, AnimatePresence } from "framer-motion";
-import { CheckCircle2, XCircle, Loader2, ChevronDown, ChevronRight } from "lucide-react";
+import { CheckCircle2, XCircle, Clock, CalendarX, Loader2, ChevronDown, ChevronRight } from "lucide-react";
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabaseClient';
 import { useAuth } from '../contexts/AuthContext';
 import { writeAuditLog } from '../lib/auditLogger';
 import { toast } from "../lib/toast";
-import { labelMap, DocKey } from "../lib/docMapping";
+import { docLabel, normalizeDocKeys } from "../lib/docMapping";
 import type { Patient, Order } from '../lib/types';
-import workflowData from '../../schemas/workflow.json';
+import { findStageDefinition } from '@/lib/workflowDefinition';
+import { runDocumentAutomations } from '../lib/automation';
+import { syncStoplight } from '../lib/stoplight';
+import { useOrderDocuments } from '../hooks/useOrderDocuments';
+import DocumentFiles from './DocumentFiles';
+import DocumentValidity from './DocumentValidity';
 
 type DocStatus = "missing" | "complete";
 
 const DocRow = ({
-  label, value, onToggle, isToggling,
-}: { label: string; value: DocStatus; onToggle: () => void; isToggling: boolean }) => {
+  label, value, isPending, isExpired, onToggle, isToggling, children,
+}: { label: string; value: DocStatus; isPending: boolean; isExpired: boolean; onToggle: () => void; isToggling: boolean; children?: React.ReactNode }) => {
   const isComplete = value === "complete";
   return (
-    <motion.button
-      type="button"
-      onClick={onToggle}
-      whileTap={{ scale: 0.98 }}
-      disabled={isToggling}
-      className="w-full py-3 flex items-center justify-between text-left border-b border-zinc-100 dark:border-zinc-800 last:border-b-0 focus:outline-none focus-ring rounded-md"
-      aria-pressed={isComplete}
-    >
-      <span className="text-[15px] text-zinc-800 dark:text-zinc-200">{label}</span>
-      {isToggling ? (
-        <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
-      ) : (
-        <span
-          className={[
-            "inline-flex items-center gap-1.5 rounded-full px-2.5 py-1 text-xs font-medium",
-            isComplete ? "bg-emerald-50 text-emerald-700 dark:bg-emerald-900/50 dark:text-emerald-300" : "bg-rose-50 text-rose-700 dark:bg-rose-900/50 dark:text-rose-300",
-          ].join(" ")}
-        >
-          {isComplete ? <CheckCircle2 className="h-3.5 w-3.5" /> : <XCircle className="h-3.5 w-3.5" />}
-          {isComplete ? "Complete" : "Missing"}
-        </span>
-      )}
-    </motion.button>
+    <div className="py-1 border-b border-zinc-100 dark:border-zinc-800 last:border-b-0">
+      <motion.button
+        type="button"
+        onClick={onToggle}
+        whileTap={{ scale: 0.98 }}
+        disabled={isToggling}
+        className="w-full py-2 flex items-center justify-between text-left focus:outline-none focus-ring rounded-md"
+        aria-pressed={isComplete}
+      >
+        <span className="text-[15px] text-zinc-800 dark:text-zinc-200">{label}</span>
+        {isToggling ? (
+          <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+        ) : (
+          <span
+            className={[
+              "inline-flex items-center gap-1.5 rounded-full px-2.5 py-1 text-xs font-medium",
+              isComplete ? "bg-emerald-50 text-emerald-700 dark:bg-emerald-900/50 dark:text-emerald-300"
+                : isPending || isExpired ? "bg-amber-50 text-amber-700 dark:bg-amber-900/50 dark:text-amber-300"
+                : "bg-rose-50 text-rose-700 dark:bg-rose-900/50 dark:text-rose-300",
+            ].join(" ")}
+          >
+            {isComplete ? <CheckCircle2 className="h-3.5 w-3.5" /> : isPending ? <Clock className="h-3.5 w-3.5" /> : isExpired ? <CalendarX className="h-3.5 w-3.5" /> : <XCircle className="h-3.5 w-3.5" />}
+            {isComplete ? "Complete" : isPending ? "Pending review" : isExpired ? "Expired" : "Missing"}
+          </span>
+        )}
+      </motion.button>
+      {children && <div className="pb-2">{children}</div>}
+    </div>
   );
 }
 
@@ -52,13 +62,11 @@ const StageRequirementsChecklist: React.FC<StageRequirementsChecklistProps> = ({
   const queryClient = useQueryClient();
   const { user } = useAuth();
   const [isOpen, setIsOpen] = React.useState(false);
+  const { byKey: filesByKey } = useOrderDocuments(order.id);
   
-  const stageConfig = workflowData.workflow.find(s => s.stage === order.workflow_stage);
-  const requiredDocsForStage = stageConfig?.required_docs || [];
-  
-  const relevantDocs = (patient.required_documents as DocKey[] || []).filter(docKey =>
-    requiredDocsForStage.includes(docKey)
-  );
+  const stageConfig = findStageDefinition(order.workflow_stage, order.workflow_version);
+  // The documents the stage gate checks before the order can leave this stage.
+  const relevantDocs = normalizeDocKeys(stageConfig?.required_docs || []);
 
   const mutation = useMutation({
     mutationFn: async ({ key, nextStatus }: { key: string; nextStatus: DocStatus }) => {
@@ -66,6 +74,8 @@ const StageRequirementsChecklist: React.FC<StageRequirementsChecklistProps> = ({
       const updatedStatus = { ...currentStatus, [key]: nextStatus === 'complete' ? 'Complete' : 'Missing' };
       const { error } = await supabase.from('orders').update({ document_status: updatedStatus }).eq('id', order.id);
       if (error) throw error;
+      await runDocumentAutomations(order.id, currentStatus, updatedStatus, user?.email);
+      await syncStoplight(order.id, user?.email);
       return { key, nextStatus };
     },
     onSuccess: ({ key, nextStatus }) => {
@@ -93,7 +103,7 @@ const StageRequirementsChecklist: React.FC<StageRequirementsChecklistProps> = ({
 
     try {
       await mutation.mutateAsync({ key, nextStatus });
-      toast(`${labelMap[key as DocKey] || key} marked ${nextStatus}.`, 'ok', { label: "Undo", onClick: undo });
+      toast(`${docLabel(key)} marked ${nextStatus}.`, 'ok', { label: "Undo", onClick: undo });
     } catch {
       toast("Update failed", "err");
     }
@@ -132,11 +142,27 @@ const StageRequirementsChecklist: React.FC<StageRequirementsChecklistProps> = ({
               {relevantDocs.map((key) => (
                 <DocRow
                   key={key}
-                  label={labelMap[key as DocKey] || key}
+                  label={docLabel(key)}
                   value={order.document_status?.[key] === 'Complete' ? 'complete' : 'missing'}
+                  isPending={order.document_status?.[key] === 'Pending'}
+                  isExpired={order.document_status?.[key] === 'Expired'}
                   onToggle={toggle(key)}
                   isToggling={mutation.isPending && mutation.variables?.key === key}
-                />
+                >
+                  <div className="space-y-1">
+                    <DocumentValidity
+                      order={order}
+                      docKey={key}
+                      onChanged={() => queryClient.invalidateQueries({ queryKey: ['patient_details', patient.id] })}
+                    />
+                    <DocumentFiles
+                      order={order}
+                      docKey={key}
+                      files={filesByKey[key] || []}
+                      onChanged={() => queryClient.invalidateQueries({ queryKey: ['patient_details', patient.id] })}
+                    />
+                  </div>
+                </DocRow>
               ))}
             </div>
           </motion.div>
@@ -1,51 +1,70 @@
-import React from 'react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { supabase } from '@/lib/supabaseClient';
-import { writeAuditLog } from '@/lib/auditLogger';
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
 import { toast } from '@/lib/toast';
 import { cn } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { STOPLIGHT_LABELS, clearStoplightOverride, isOverrideActive, pinStoplightOverride } from '@/lib/stoplight';
+import type { Order, StoplightColor } from '@/lib/types';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from './ui/dropdown-menu';
-import { Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogFooter } from './ui/Dialog';
+import { Btn } from './ui/Btn';
+import { Input } from './ui/Input';
+import { Textarea } from './ui/Textarea';
+import { Loader2, Pin, PinOff } from 'lucide-react';
 import { StoplightBadge } from './ui/StoplightBadge';
 
-type StoplightStatus = 'green' | 'yellow' | 'red';
-
 interface StoplightStatusControlProps {
-  orderId: string;
-  patientId: string;
-  currentStatus: StoplightStatus | null | undefined;
+  order: Pick<Order, 'id' | 'stoplight_status' | 'stoplight_reason' | 'stoplight_override' | 'stoplight_override_until'>;
   onUpdate: () => void;
   showLabel?: boolean;
   className?: string;
 }
 
-const statusConfig: Record<StoplightStatus, { label: string; color: StoplightStatus; tooltip: string; }> = {
-  green: { label: 'Green', color: 'green', tooltip: 'Good to Go' },
-  yellow: { label: 'Yellow', color: 'yellow', tooltip: 'Risk / Needs Review' },
-  red: { label: 'Red', color: 'red', tooltip: 'Declined / Stop' },
+const statusConfig: Record<StoplightColor, { label: string }> = {
+  green: { label: 'Green' },
+  yellow: { label: 'Yellow' },
+  red: { label: 'Red' },
 };
 
-const StoplightStatusControl: React.FC<StoplightStatusControlProps> = ({ orderId, patientId, currentStatus, onUpdate, showLabel = true, className }) => {
-  const queryClient = useQueryClient();
+const DEFAULT_OVERRIDE_DAYS = 7;
 
-  const mutation = useMutation({
-    mutationFn: async (newStatus: StoplightStatus) => {
-      const updates = [
-        supabase.from('orders').update({ stoplight_status: newStatus }).eq('id', orderId),
-        supabase.from('patients').update({ stoplight_status: newStatus }).eq('id', patientId),
-      ];
-      const results = await Promise.all(updates);
-      results.forEach(res => {
-        if (res.error) throw res.error;
-      });
-      return newStatus;
-    },
-    onSuccess: (newStatus) => {
-      writeAuditLog('stoplight_update', {
-        patient_id: patientId,
-        details: { from: currentStatus, to: newStatus, reason: 'Manual Change' },
-      });
-      toast(`Status updated to ${statusConfig[newStatus].label}`, 'ok');
+const defaultUntil = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + DEFAULT_OVERRIDE_DAYS);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Shows an order's computed stoplight with the reason on hover. Users can pin
+ * a colour until an expiry date, after which the computed colour returns.
+ */
+const StoplightStatusControl: React.FC<StoplightStatusControlProps> = ({ order, onUpdate, showLabel = true, className }) => {
+  const { user } = useAuth();
+  const [pinColor, setPinColor] = useState<StoplightColor | null>(null);
+  const [until, setUntil] = useState(defaultUntil);
+  const [reason, setReason] = useState('');
+
+  const currentStatus: StoplightColor = order.stoplight_status || 'green';
+  const isPinned = isOverrideActive(order);
+  const tooltip = `${STOPLIGHT_LABELS[currentStatus]}${order.stoplight_reason ? ` — ${order.stoplight_reason}` : ''}`;
+
+  const closeDialog = () => {
+    setPinColor(null);
+    setReason('');
+    setUntil(defaultUntil());
+  };
+
+  const pinMutation = useMutation({
+    mutationFn: (color: StoplightColor) => pinStoplightOverride(order.id, {
+      color,
+      // Overrides run to the end of the chosen day.
+      until: until ? new Date(`${until}T23:59:59`).toISOString() : null,
+      reason,
+      pinnedBy: user?.email || null,
+    }),
+    onSuccess: (_, color) => {
+      toast(`Status pinned to ${statusConfig[color].label}`, 'ok');
+      closeDialog();
       onUpdate();
     },
     onError: (error: any) => {
@@ -53,31 +72,71 @@ const StoplightStatusControl: React.FC<StoplightStatusControlProps> = ({ orderId
     },
   });
 
-  const currentConfig = statusConfig[currentStatus || 'green'];
+  const clearMutation = useMutation({
+    mutationFn: () => clearStoplightOverride(order.id, user?.email || null),
+    onSuccess: () => {
+      toast('Override cleared; status is computed again.', 'ok');
+      onUpdate();
+    },
+    onError: (error: any) => {
+      toast(`Failed to clear override: ${error.message}`, 'err');
+    },
+  });
+
+  const isPending = pinMutation.isPending || clearMutation.isPending;
 
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <button
-          id={showLabel ? "tour-stoplight-changer" : undefined}
-          className={cn("flex items-center gap-2 p-1 rounded-full hover:bg-gray-100 dark:hover:bg-zinc-800 transition-colors", className)}
-          title={currentConfig.tooltip}
-          aria-label={`Current status: ${currentConfig.tooltip}. Click to change.`}
-        >
-          <StoplightBadge color={currentConfig.color} />
-          {showLabel && <span className="text-xs font-semibold text-muted">{currentConfig.label}</span>}
-          {mutation.isPending && <Loader2 className="h-3 w-3 animate-spin" />}
-        </button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent>
-        {Object.entries(statusConfig).map(([key, { label, color }]) => (
-          <DropdownMenuItem key={key} onClick={() => mutation.mutate(key as StoplightStatus)} disabled={currentStatus === key}>
-            <StoplightBadge color={color as StoplightStatus} className="mr-2" />
-            {label}
-          </DropdownMenuItem>
-        ))}
-      </DropdownMenuContent>
-    </DropdownMenu>
+    // Clicks in the menu and dialog must not reach the list row the control sits in.
+    <span onClick={e => e.stopPropagation()}>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            id={showLabel ? "tour-stoplight-changer" : undefined}
+            className={cn("flex items-center gap-2 p-1 rounded-full hover:bg-gray-100 dark:hover:bg-zinc-800 transition-colors", className)}
+            title={tooltip}
+            aria-label={`Current status: ${tooltip}. Click to change.`}
+          >
+            <StoplightBadge color={currentStatus} tooltip={tooltip} />
+            {showLabel && <span className="text-xs font-semibold text-muted">{statusConfig[currentStatus].label}</span>}
+            {isPinned && <Pin className="h-3 w-3 text-muted" aria-label="Pinned" />}
+            {isPending && <Loader2 className="h-3 w-3 animate-spin" />}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          {(Object.keys(statusConfig) as StoplightColor[]).map(color => (
+            <DropdownMenuItem key={color} onClick={() => setPinColor(color)}>
+              <StoplightBadge color={color} className="mr-2" />
+              Pin {statusConfig[color].label}…
+            </DropdownMenuItem>
+          ))}
+          {isPinned && (
+            <DropdownMenuItem onClick={() => clearMutation.mutate()}>
+              <PinOff className="h-3 w-3 mr-2" />
+              Clear override
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Dialog open={!!pinColor} onOpenChange={closeDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>Pin Stoplight {pinColor && statusConfig[pinColor].label}</DialogHeader>
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-muted">
+              The pinned colour replaces the computed one until the expiry date. Leave the date empty to keep it until cleared.
+            </p>
+            <Input id={`stoplight-until-${order.id}`} label="Pinned Until" type="date" value={until} onChange={e => setUntil(e.target.value)} />
+            <Textarea id={`stoplight-reason-${order.id}`} label="Reason" rows={3} value={reason} onChange={e => setReason(e.target.value)} />
+          </div>
+          <DialogFooter className="flex-row justify-end">
+            <Btn variant="outline" onClick={closeDialog} disabled={pinMutation.isPending}>Cancel</Btn>
+            <Btn onClick={() => pinColor && pinMutation.mutate(pinColor)} disabled={!reason.trim() || pinMutation.isPending}>
+              {pinMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Pin Status
+            </Btn>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </span>
   );
 };
 
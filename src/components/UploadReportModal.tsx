@@ -2,33 +2,67 @@ import React, { useState, useCallback } from 'react';
 import { useUploadModal } from '@/state/useUploadModal';
 import { Dialog, DialogContent, DialogHeader, DialogFooter } from './ui/Dialog';
 import { Button } from './ui/button';
-import { Loader2, Upload, FileCheck, FilePlus, FileClock, GitMerge, ChevronDown, ChevronRight } from 'lucide-react';
+import { Loader2, Upload, FileCheck, FilePlus, FileClock, GitMerge, ChevronDown, ChevronRight, UserSearch, Check, X, FileX, Download, Plus, Sheet } from 'lucide-react';
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
+import { saveAs } from 'file-saver';
 import { supabase } from '@/lib/supabaseClient';
-import importMapping from '../../schemas/import_mapping.json';
 import { toast } from '@/lib/toast';
-import { useQueryClient } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
 import { writeAuditLog } from '@/lib/auditLogger';
 import { cn } from '@/lib/utils';
-import { docTemplates } from '@/lib/docMapping';
+import { listDocRuleSets } from '@/api/docRuleSets.api';
+import { DEFAULT_REQUIRED_DOCS, requiredDocumentsFor } from '@/lib/docRules';
 import { diffRecord, applyChangesWithRule } from '@/lib/utils';
-import type { Patient, Order } from '@/lib/types';
+import type { Patient, Order, ImportProfile } from '@/lib/types';
+import { listImportProfiles } from '@/api/importProfiles.api';
+import { createImportBatch, recordImportBatchItems, finalizeImportBatch } from '@/api/importBatches.api';
+import { loadInsuranceIndex } from '@/api/insuranceAliases.api';
+import {
+    findPatientMatch,
+    normalizePersonName,
+    canonicalInsurance,
+    resolveInsurance,
+    type InsuranceIndex,
+} from '@/lib/patientMatching';
+import { validateImportRow, describeCellError, buildRejectedRowsWorkbook, type ImportCellError } from '@/lib/importValidation';
+import {
+    LEGACY_IMPORT_PROFILE,
+    DEDUPE_FIELD_COLUMNS,
+    IMPORT_TARGET_FIELDS,
+    IMPORT_TRANSFORMS,
+    rowsFromMatrix,
+    mapRow,
+    detectProfile,
+    mergeColumnMappings,
+    repFromSheet,
+    profileForSheet,
+    splitByEntity,
+    type SheetMatrix,
+    type ImportSheet,
+    type ColumnMapping,
+    type ImportTransform,
+} from '@/lib/importProfiles';
+import { Select } from './ui/Select';
+import { Input } from './ui/Input';
 import { Checkbox } from './ui/Checkbox';
 import { motion, AnimatePresence } from 'framer-motion';
 import ToggleSwitch from './ui/ToggleSwitch';
 
-type Step = 'upload' | 'review' | 'importing' | 'complete';
+type Step = 'upload' | 'sheets' | 'mapping' | 'review' | 'importing' | 'complete';
 
 interface NewRecord {
   data: Partial<Patient> & Partial<Order>;
+  sheet: string;
   originalRow: number;
 }
 
 interface UpdatedRecord {
   patient: Patient & { orders: Order[] };
+  order: Order | null;
   newData: Partial<Patient> & Partial<Order>;
+  sheet: string;
   changes: {
     entity: 'patient' | 'order';
     field: string;
@@ -37,42 +71,252 @@ interface UpdatedRecord {
   }[];
 }
 
+interface ProbableRecord {
+  data: Partial<Patient> & Partial<Order>;
+  sheet: string;
+  originalRow: number;
+  match: UpdatedRecord;
+  score: number;
+  reasons: string[];
+}
+
+type MatchDecision = 'confirm' | 'reject';
+
 interface SkippedRecord {
   data: Partial<Patient> & Partial<Order>;
+  sheet: string;
   reason: string;
 }
 
+interface InvalidRecord {
+  data: Partial<Patient> & Partial<Order>;
+  /** The row as it appeared in the file, for the rejected-rows download. */
+  source: Record<string, any>;
+  sheet: string;
+  originalRow: number;
+  errors: ImportCellError[];
+}
+
 interface ReviewData {
   newRecords: NewRecord[];
   updatedRecords: UpdatedRecord[];
+  probableRecords: ProbableRecord[];
   skippedRecords: SkippedRecord[];
+  invalidRecords: InvalidRecord[];
 }
 
-const mapRow = (row: Record<string, any>) => {
-    const mappedRow: Record<string, any> = {};
-    for (const key in importMapping.fields) {
-        const newKey = importMapping.fields[key as keyof typeof importMapping.fields];
-        if (row[key]) {
-            mappedRow[newKey] = row[key];
-        }
-    }
-    return { ...mappedRow, ...importMapping.constants, ...importMapping.defaults };
+const AUTO_DETECT = '';
+
+/** Prior values of the fields actually written, taken from the `diffRecord` snapshot. */
+const beforeImage = (changes: UpdatedRecord['changes'], payload: Record<string, any>) =>
+    changes.reduce((acc, c) => {
+        if (c.field in payload) acc[c.field] = c.from ?? null;
+        return acc;
+    }, {} as Record<string, any>);
+
+const toIsoDate = (value: unknown): string | null => {
+    if (!value) return null;
+    const date = value instanceof Date ? value : new Date(value as string);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/** Re-derives each sheet's default rep for `profile`, keeping reps the user typed. */
+const withDefaultReps = (all: ImportSheet[], profile: ImportProfile) =>
+    all.map(s => s.repOverridden ? s : { ...s, rep_name: repFromSheet(s.matrix, profile, all.length > 1 ? s.name : undefined) });
+
+const SheetTag: React.FC<{ name: string }> = ({ name }) => (
+    <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-white dark:bg-zinc-900 border text-[10px] text-muted" title={`From sheet "${name}"`}>
+        <Sheet className="h-3 w-3" /> {name}
+    </span>
+);
+
+const CONSTANT_TARGETS = IMPORT_TARGET_FIELDS.filter(f => f.value !== 'patient_name' && f.value !== 'rep_name');
+
+const SheetsStep: React.FC<{
+    initialSheets: ImportSheet[];
+    onConfirm: (sheets: ImportSheet[]) => void;
+    onCancel: () => void;
+}> = ({ initialSheets, onConfirm, onCancel }) => {
+    const [sheets, setSheets] = useState<ImportSheet[]>(initialSheets);
+
+    const update = (index: number, patch: Partial<ImportSheet>) =>
+        setSheets(all => all.map((s, i) => i === index ? { ...s, ...patch } : s));
+
+    const setConstant = (index: number, oldKey: string, key: string, value: string) => {
+        const next = Object.fromEntries(Object.entries(sheets[index].constants).filter(([k]) => k !== oldKey));
+        next[key] = value;
+        update(index, { constants: next });
+    };
+
+    const removeConstant = (index: number, key: string) =>
+        update(index, { constants: Object.fromEntries(Object.entries(sheets[index].constants).filter(([k]) => k !== key)) });
+
+    const addConstant = (index: number) => {
+        const free = CONSTANT_TARGETS.find(t => !(t.value in sheets[index].constants));
+        if (free) setConstant(index, free.value, free.value, '');
+    };
+
+    const selectedCount = sheets.filter(s => s.selected).length;
+
+    return (
+        <>
+            <div className="p-6 space-y-3 max-h-[60vh] overflow-y-auto">
+                <p className="text-xs text-muted">Choose which sheets to import. Each sheet can set its own rep and fixed values; they are combined into one review.</p>
+                {sheets.map((sheet, i) => (
+                    <div key={sheet.name} className={cn('border rounded-lg p-3 space-y-3', !sheet.selected && 'opacity-60')}>
+                        <div className="flex items-center justify-between">
+                            <Checkbox checked={sheet.selected} onChange={() => update(i, { selected: !sheet.selected })} label={sheet.name} />
+                            <span className="text-xs text-muted">{Math.max(sheet.matrix.length - 1, 0)} rows</span>
+                        </div>
+                        {sheet.selected && (
+                            <>
+                                <Input
+                                    label="Rep Name"
+                                    id={`sheet-rep-${i}`}
+                                    value={sheet.rep_name}
+                                    onChange={e => update(i, { rep_name: e.target.value, repOverridden: true })}
+                                />
+                                {Object.entries(sheet.constants).map(([key, value]) => (
+                                    <div key={key} className="flex items-center gap-2">
+                                        <select
+                                            aria-label="Constant field"
+                                            className="flex-1 h-9 text-sm rounded-lg bg-neutral-50 dark:bg-zinc-800 border-neutral-300 dark:border-zinc-700"
+                                            value={key}
+                                            onChange={e => setConstant(i, key, e.target.value, value)}
+                                        >
+                                            {CONSTANT_TARGETS.filter(t => t.value === key || !(t.value in sheet.constants)).map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                                        </select>
+                                        <input
+                                            aria-label={`Value for ${key}`}
+                                            className="flex-1 h-9 px-3 text-sm rounded-lg bg-neutral-50 dark:bg-zinc-800 border border-neutral-300 dark:border-zinc-700"
+                                            value={value}
+                                            onChange={e => setConstant(i, key, key, e.target.value)}
+                                        />
+                                        <Button size="icon" variant="ghost" onClick={() => removeConstant(i, key)} aria-label={`Remove ${key}`}><X className="h-4 w-4" /></Button>
+                                    </div>
+                                ))}
+                                <Button size="sm" variant="outline" onClick={() => addConstant(i)}><Plus className="h-3 w-3 mr-1" /> Add Fixed Value</Button>
+                            </>
+                        )}
+                    </div>
+                ))}
+            </div>
+            <DialogFooter>
+                <Button variant="outline" onClick={onCancel}>Discard</Button>
+                <Button onClick={() => onConfirm(sheets)} disabled={selectedCount === 0}>Continue to Mapping</Button>
+            </DialogFooter>
+        </>
+    );
+};
+
+const MappingStep: React.FC<{
+    initialColumns: ColumnMapping[];
+    onConfirm: (columns: ColumnMapping[]) => void;
+    onCancel: () => void;
+}> = ({ initialColumns, onConfirm, onCancel }) => {
+    const [columns, setColumns] = useState<ColumnMapping[]>(initialColumns);
+
+    const update = (index: number, patch: Partial<ColumnMapping>) =>
+        setColumns(cols => cols.map((c, i) => i === index ? { ...c, ...patch, suggested: false } : c));
+
+    const targetCounts = columns.reduce((acc, c) => {
+        if (c.target) acc[c.target] = (acc[c.target] || 0) + 1;
+        return acc;
+    }, {} as Record<string, number>);
+    const duplicateTargets = Object.keys(targetCounts).filter(t => targetCounts[t] > 1);
+    const hasPatientName = !!targetCounts.patient_name;
+
+    return (
+        <>
+            <div className="p-6 space-y-3 max-h-[60vh] overflow-y-auto">
+                <p className="text-xs text-muted">Suggested mappings are highlighted. Ignored columns are not imported.</p>
+                <div className="border rounded-lg divide-y dark:divide-zinc-800">
+                    <div className="grid grid-cols-12 gap-2 p-2 text-xs font-semibold text-muted bg-gray-50 dark:bg-zinc-800/50">
+                        <span className="col-span-4">Source Column</span>
+                        <span className="col-span-4">Maps To</span>
+                        <span className="col-span-4">Transform</span>
+                    </div>
+                    {columns.map((col, i) => (
+                        <div key={col.source} className={cn('grid grid-cols-12 gap-2 p-2 items-center', col.suggested && 'bg-teal-50/60 dark:bg-teal-900/10')}>
+                            <div className="col-span-4 min-w-0">
+                                <p className="text-sm font-medium truncate" title={col.source}>{col.source}</p>
+                                <p className="text-xs text-muted truncate" title={col.samples.join(', ')}>{col.samples.length > 0 ? col.samples.join(' · ') : 'No values'}</p>
+                            </div>
+                            <select
+                                aria-label={`Target for ${col.source}`}
+                                className={cn('col-span-4 h-9 text-sm rounded-lg bg-neutral-50 dark:bg-zinc-800 border-neutral-300 dark:border-zinc-700', col.target && duplicateTargets.includes(col.target) && 'border-red-400')}
+                                value={col.target || ''}
+                                onChange={e => update(i, { target: e.target.value || null, transform: e.target.value ? (col.transform === 'none' ? 'trim' : col.transform) : 'none' })}
+                            >
+                                <option value="">— Ignore —</option>
+                                {IMPORT_TARGET_FIELDS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                            </select>
+                            <select
+                                aria-label={`Transform for ${col.source}`}
+                                className="col-span-4 h-9 text-sm rounded-lg bg-neutral-50 dark:bg-zinc-800 border-neutral-300 dark:border-zinc-700 disabled:opacity-50"
+                                value={col.transform}
+                                disabled={!col.target}
+                                onChange={e => update(i, { transform: e.target.value as ImportTransform })}
+                            >
+                                {IMPORT_TRANSFORMS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+                {duplicateTargets.length > 0 && <p className="text-xs text-red-500">Each field can only be mapped once.</p>}
+                {!hasPatientName && <p className="text-xs text-red-500">Map a column to Patient Name to continue.</p>}
+            </div>
+            <DialogFooter>
+                <Button variant="outline" onClick={onCancel}>Discard</Button>
+                <Button onClick={() => onConfirm(columns)} disabled={duplicateTargets.length > 0 || !hasPatientName}>Continue to Review</Button>
+            </DialogFooter>
+        </>
+    );
 };
 
 const ReviewStep: React.FC<{
     reviewData: ReviewData;
+    fileName: string;
+    showSheets: boolean;
     onConfirm: (selections: { new: NewRecord[], updated: UpdatedRecord[] }, autoMerge: boolean) => void;
     onCancel: () => void;
+    onBack: () => void;
     isImporting: boolean;
-}> = ({ reviewData, onConfirm, onCancel, isImporting }) => {
+}> = ({ reviewData, fileName, showSheets, onConfirm, onCancel, onBack, isImporting }) => {
     const [selectedNew, setSelectedNew] = useState<number[]>(() => reviewData.newRecords.map((_, i) => i));
     const [selectedUpdated, setSelectedUpdated] = useState<number[]>(() => reviewData.updatedRecords.map((_, i) => i));
     const [autoMerge, setAutoMerge] = useState(true);
+    // Probable matches are only applied once someone decides; undecided rows are left out of the import.
+    const [decisions, setDecisions] = useState<Record<number, MatchDecision>>({});
+
+    const decide = (index: number, decision: MatchDecision) =>
+        setDecisions(d => {
+            const next = { ...d };
+            if (next[index] === decision) delete next[index];
+            else next[index] = decision;
+            return next;
+        });
+
+    const confirmedMatches = reviewData.probableRecords.filter((_, i) => decisions[i] === 'confirm' && reviewData.probableRecords[i].match.changes.length > 0);
+    const rejectedMatches = reviewData.probableRecords.filter((_, i) => decisions[i] === 'reject');
+    const undecidedCount = reviewData.probableRecords.filter((_, i) => !decisions[i]).length;
+
+    const downloadRejected = () => {
+        const wb = buildRejectedRowsWorkbook(reviewData.invalidRecords.map(r => ({ ...r, sheet: showSheets ? r.sheet : undefined })));
+        const wbout = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+        saveAs(new Blob([wbout], { type: 'application/octet-stream' }), `${fileName.replace(/\.[^.]+$/, '')}_rejected.xlsx`);
+    };
 
     const handleConfirm = () => {
         onConfirm({
-            new: selectedNew.map(i => reviewData.newRecords[i]),
-            updated: selectedUpdated.map(i => reviewData.updatedRecords[i]),
+            new: [
+                ...selectedNew.map(i => reviewData.newRecords[i]),
+                ...rejectedMatches.map(p => ({ data: p.data, sheet: p.sheet, originalRow: p.originalRow })),
+            ],
+            updated: [
+                ...selectedUpdated.map(i => reviewData.updatedRecords[i]),
+                ...confirmedMatches.map(p => p.match),
+            ],
         }, autoMerge);
     };
 
@@ -112,6 +356,7 @@ const ReviewStep: React.FC<{
                             <div key={i} className="flex items-center gap-2 p-2 bg-gray-100 dark:bg-zinc-800 rounded">
                                 <Checkbox checked={selectedNew.includes(i)} onChange={() => setSelectedNew(s => s.includes(i) ? s.filter(x => x !== i) : [...s, i])} label="" />
                                 <span>{rec.data.patient_name}</span>
+                                {showSheets && <SheetTag name={rec.sheet} />}
                             </div>
                         ))}
                     </div>
@@ -123,6 +368,7 @@ const ReviewStep: React.FC<{
                                 <div className="flex items-center gap-2">
                                     <Checkbox checked={selectedUpdated.includes(i)} onChange={() => setSelectedUpdated(s => s.includes(i) ? s.filter(x => x !== i) : [...s, i])} label="" />
                                     <span className="font-semibold">{rec.patient.name}</span>
+                                    {showSheets && <SheetTag name={rec.sheet} />}
                                 </div>
                                 <ul className="text-xs mt-1 pl-6 space-y-0.5">
                                     {rec.changes.map(c => (
@@ -135,15 +381,80 @@ const ReviewStep: React.FC<{
                         ))}
                     </div>
                 </Accordion>
+                {reviewData.probableRecords.length > 0 && (
+                    <Accordion defaultOpen title={<div className="flex items-center gap-2"><UserSearch className="h-4 w-4 text-purple-500" /> Probable Matches ({reviewData.probableRecords.length})</div>}>
+                        <div className="space-y-2">
+                            {undecidedCount > 0 && <p className="text-xs text-muted">Confirm or reject each link. Undecided rows are not imported.</p>}
+                            {reviewData.probableRecords.map((rec, i) => (
+                                <div key={i} className={cn('p-2 bg-gray-100 dark:bg-zinc-800 rounded', decisions[i] === 'reject' && 'opacity-60')}>
+                                    <div className="flex items-center justify-between gap-2">
+                                        <div className="min-w-0">
+                                            <p className="text-sm">
+                                                <span className="font-semibold">{rec.data.patient_name}</span>
+                                                <span className="text-muted"> → </span>
+                                                <span className="font-semibold">{rec.match.patient.name}</span>
+                                                {showSheets && <> <SheetTag name={rec.sheet} /></>}
+                                            </p>
+                                            <p className="text-xs text-muted">{Math.round(rec.score * 100)}% confidence · {rec.reasons.join(' · ')}</p>
+                                        </div>
+                                        <div className="flex gap-1 shrink-0">
+                                            <Button size="sm" variant={decisions[i] === 'confirm' ? 'default' : 'outline'} onClick={() => decide(i, 'confirm')} aria-label={`Confirm match for ${rec.data.patient_name}`}>
+                                                <Check className="h-3 w-3 mr-1" /> Same patient
+                                            </Button>
+                                            <Button size="sm" variant={decisions[i] === 'reject' ? 'default' : 'outline'} onClick={() => decide(i, 'reject')} aria-label={`Reject match for ${rec.data.patient_name}`}>
+                                                <X className="h-3 w-3 mr-1" /> New patient
+                                            </Button>
+                                        </div>
+                                    </div>
+                                    {decisions[i] === 'confirm' && (
+                                        rec.match.changes.length === 0 ? <p className="text-xs mt-1 pl-1 text-muted">No changes to apply.</p> : (
+                                            <ul className="text-xs mt-1 pl-4 space-y-0.5">
+                                                {rec.match.changes.map(c => (
+                                                    <li key={`${c.entity}-${c.field}`}>
+                                                        <span className="font-medium">{c.field}:</span> {JSON.stringify(c.from)} → <span className="font-semibold text-accent">{JSON.stringify(c.to)}</span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </Accordion>
+                )}
                 <Accordion title={<div className="flex items-center gap-2"><FileClock className="h-4 w-4 text-amber-500" /> Skipped Records ({reviewData.skippedRecords.length})</div>}>
                     <ul className="text-sm space-y-1">
-                        {reviewData.skippedRecords.map((rec, i) => <li key={i} className="p-2 bg-gray-100 dark:bg-zinc-800 rounded">{rec.data.patient_name} <span className="text-xs text-muted">({rec.reason})</span></li>)}
+                        {reviewData.skippedRecords.map((rec, i) => <li key={i} className="p-2 bg-gray-100 dark:bg-zinc-800 rounded">{rec.data.patient_name} <span className="text-xs text-muted">({rec.reason})</span> {showSheets && <SheetTag name={rec.sheet} />}</li>)}
                     </ul>
                 </Accordion>
+                <Accordion defaultOpen={reviewData.invalidRecords.length > 0} title={<div className="flex items-center gap-2"><FileX className="h-4 w-4 text-red-500" /> Invalid Records ({reviewData.invalidRecords.length})</div>}>
+                    {reviewData.invalidRecords.length === 0 ? <p className="text-sm text-muted">Every row passed validation.</p> : (
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                                <p className="text-xs text-muted">These rows will not be imported. Fix them in the file and upload again.</p>
+                                <Button size="sm" variant="outline" onClick={downloadRejected}><Download className="h-3 w-3 mr-1" /> Download XLSX</Button>
+                            </div>
+                            {reviewData.invalidRecords.map(rec => (
+                                <div key={`${rec.sheet}-${rec.originalRow}`} className="p-2 bg-gray-100 dark:bg-zinc-800 rounded">
+                                    <p className="text-sm"><span className="font-semibold">{rec.data.patient_name || '(no name)'}</span> <span className="text-xs text-muted">Row {rec.originalRow}</span> {showSheets && <SheetTag name={rec.sheet} />}</p>
+                                    <ul className="text-xs mt-1 pl-4 space-y-0.5">
+                                        {rec.errors.map(err => (
+                                            <li key={err.field}>
+                                                <span className="font-medium">{describeCellError(err)}</span>
+                                                {!(err.value === null || err.value === undefined || err.value === '') && <span className="text-muted"> ({String(err.value)})</span>}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </Accordion>
             </div>
             <DialogFooter>
                 <Button variant="outline" onClick={onCancel} disabled={isImporting}>Discard</Button>
-                <Button onClick={handleConfirm} disabled={isImporting || (selectedNew.length === 0 && selectedUpdated.length === 0)}>
+                <Button variant="outline" onClick={onBack} disabled={isImporting}>Back to Mapping</Button>
+                <Button onClick={handleConfirm} disabled={isImporting || (selectedNew.length === 0 && selectedUpdated.length === 0 && confirmedMatches.length === 0 && rejectedMatches.length === 0)}>
                     {isImporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
                     Apply Selected Changes
                 </Button>
@@ -159,22 +470,40 @@ export default function UploadReportModal() {
     const { user } = useAuth();
     const [step, setStep] = useState<Step>('upload');
     const [reviewData, setReviewData] = useState<ReviewData | null>(null);
-    const [repName, setRepName] = useState<string>('');
     const [fileName, setFileName] = useState('');
     const [error, setError] = useState<string | null>(null);
-    const [importResult, setImportResult] = useState({ imported: 0, skipped: 0, updated: 0 });
+    const [importResult, setImportResult] = useState({ imported: 0, skipped: 0, updated: 0, invalid: 0 });
     const [importDateOverride, setImportDateOverride] = useState('');
     const [stoplightStatusForImport, setStoplightStatusForImport] = useState<'green' | 'yellow' | 'red'>('green');
+    const [selectedProfileId, setSelectedProfileId] = useState<string>(AUTO_DETECT);
+    const [activeProfile, setActiveProfile] = useState<ImportProfile | null>(null);
+    const [profileWasDetected, setProfileWasDetected] = useState(false);
+    const [sheets, setSheets] = useState<ImportSheet[]>([]);
+    const [columnMappings, setColumnMappings] = useState<ColumnMapping[] | null>(null);
+    const [insuranceIndex, setInsuranceIndex] = useState<InsuranceIndex>(new Map());
+
+    const { data: savedProfiles = [] } = useQuery<ImportProfile[]>({
+        queryKey: ['import_profiles'],
+        queryFn: listImportProfiles,
+        enabled: isOpen,
+    });
+    const profiles = savedProfiles.length > 0 ? savedProfiles : [LEGACY_IMPORT_PROFILE];
+    const defaultProfile = profiles.find(p => p.is_default) || profiles[0];
 
     const resetState = () => {
         setStep('upload');
         setReviewData(null);
-        setRepName('');
         setFileName('');
         setError(null);
-        setImportResult({ imported: 0, skipped: 0, updated: 0 });
+        setImportResult({ imported: 0, skipped: 0, updated: 0, invalid: 0 });
         setImportDateOverride('');
         setStoplightStatusForImport('green');
+        setSelectedProfileId(AUTO_DETECT);
+        setActiveProfile(null);
+        setProfileWasDetected(false);
+        setSheets([]);
+        setColumnMappings(null);
+        setInsuranceIndex(new Map());
     };
 
     const handleClose = () => {
@@ -182,93 +511,151 @@ export default function UploadReportModal() {
         closeModal();
     };
 
+    const selectedSheets = sheets.filter(s => s.selected);
+
+    const prepareMapping = useCallback((chosen: ImportSheet[], profile: ImportProfile) => {
+        setActiveProfile(profile);
+        setReviewData(null);
+        setColumnMappings(mergeColumnMappings(chosen.filter(s => s.selected), profile));
+        setStep('mapping');
+    }, []);
+
+    const buildReview = useCallback(async (chosen: ImportSheet[], profile: ImportProfile, columns: ColumnMapping[]) => {
+        setReviewData(null);
+
+        // Only values that came from the file are diffed, so profile defaults never overwrite live data.
+        const fileTargets = columns.map(c => c.target).filter((t): t is string => !!t);
+        const columnsByTarget = Object.fromEntries(columns.filter(c => c.target).map(c => [c.target as string, c.source]));
+        const dedupeKeys = profile.dedupe_keys.filter(k => DEDUPE_FIELD_COLUMNS[k]);
+        const index = await loadInsuranceIndex();
+        setInsuranceIndex(index);
+
+        const invalidRecords: InvalidRecord[] = [];
+        const validRows: NewRecord[] = [];
+        for (const sheet of chosen) {
+            const sheetProfile = profileForSheet(profile, sheet);
+            rowsFromMatrix(sheet.matrix, profile.header_row_index).forEach(({ values: source, matrixIndex }) => {
+                const data = mapRow(source, columns, sheetProfile);
+                const originalRow = matrixIndex + 1;
+                const errors = validateImportRow(data, { insuranceIndex: index, columnsByTarget });
+                if (errors.length > 0) {
+                    invalidRecords.push({ data, source, sheet: sheet.name, originalRow, errors });
+                } else {
+                    validRows.push({ data, sheet: sheet.name, originalRow });
+                }
+            });
+        }
+
+        if (dedupeKeys.length === 0) {
+            setReviewData({ newRecords: validRows, updatedRecords: [], probableRecords: [], skippedRecords: [], invalidRecords });
+            return;
+        }
+
+        // Trigram candidates catch reordered names and typos; the final decision is made client-side.
+        const { data: candidates, error: dbError } = await supabase
+            .rpc('find_patient_match_candidates', { p_names: Array.from(new Set(validRows.map(r => r.data.patient_name).filter(Boolean))) })
+            .select('*, orders(*)');
+
+        if (dbError) throw dbError;
+        const existingPatients = (candidates || []) as (Patient & { orders: Order[] })[];
+
+        const newRecords: NewRecord[] = [];
+        const updatedRecords: UpdatedRecord[] = [];
+        const probableRecords: ProbableRecord[] = [];
+        const skippedRecords: SkippedRecord[] = [];
+
+        validRows.forEach(({ data: row, sheet, originalRow }) => {
+            const match = findPatientMatch(row, existingPatients, dedupeKeys, DEDUPE_FIELD_COLUMNS, index);
+
+            if (!match) {
+                newRecords.push({ data: row, sheet, originalRow });
+                return;
+            }
+
+            const existingPatient = match.patient;
+            const latestOrder: Order | null = [...(existingPatient.orders || [])].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0] || null;
+            const fromRow = splitByEntity(row, fileTargets);
+
+            // "Smith, John" vs "John Smith" or "UHC" vs "UNITEDHEALTHCARE" are the same value, not a change.
+            const patientChanges = diffRecord(existingPatient, fromRow.patient).filter(c => {
+                if (c.field === 'name') return normalizePersonName(c.from) !== normalizePersonName(c.to);
+                if (c.field === 'primary_insurance') return canonicalInsurance(c.from, index) !== canonicalInsurance(c.to, index);
+                return true;
+            });
+            const orderChanges = latestOrder ? diffRecord(latestOrder, fromRow.order) : [];
+
+            const updated: UpdatedRecord = {
+                patient: existingPatient,
+                order: latestOrder,
+                newData: row,
+                sheet,
+                changes: [
+                    ...patientChanges.map(c => ({ ...c, field: String(c.field), entity: 'patient' as const })),
+                    ...orderChanges.map(c => ({ ...c, field: String(c.field), entity: 'order' as const })),
+                ],
+            };
+
+            if (!match.exact) {
+                probableRecords.push({ data: row, sheet, originalRow, match: updated, score: match.score, reasons: match.reasons });
+            } else if (updated.changes.length > 0) {
+                updatedRecords.push(updated);
+            } else {
+                skippedRecords.push({ data: row, sheet, reason: 'No changes detected' });
+            }
+        });
+
+        setReviewData({ newRecords, updatedRecords, probableRecords, skippedRecords, invalidRecords });
+    }, []);
+
     const handleFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
         if (!e.target.files || e.target.files.length === 0) return;
         const file = e.target.files[0];
         
         setError(null);
         setFileName(file.name);
-        setStep('review');
-        setReviewData(null);
+        setStep('mapping');
+        setColumnMappings(null);
 
         const reader = new FileReader();
         reader.onload = async (event) => {
             try {
                 const data = event.target?.result;
-                let rows: any[];
-                let rep = '';
+                let parsed: { name: string; matrix: SheetMatrix }[];
 
                 if (file.name.endsWith('.csv')) {
-                    const result = Papa.parse(data as string, { header: true, skipEmptyLines: true });
-                    rows = result.data;
-                    rep = importMapping?.constants?.rep_name || 'Unknown Rep';
+                    const result = Papa.parse<unknown[]>(data as string, { header: false, skipEmptyLines: true });
+                    parsed = [{ name: file.name.replace(/\.csv$/i, ''), matrix: result.data }];
                 } else if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
                     const workbook = XLSX.read(new Uint8Array(data as ArrayBuffer), { type: 'array', cellDates: true });
-                    const sheetName = workbook.SheetNames[0];
-                    const worksheet = workbook.Sheets[sheetName];
-                    const rawA1 = (worksheet['A1']?.v ?? '').toString();
-                    rep = rawA1.replace(/^.*?:\s*/i, '').trim() || importMapping?.constants?.rep_name || 'Unknown Rep';
-                    rows = XLSX.utils.sheet_to_json(worksheet, { range: 1 });
+                    parsed = workbook.SheetNames
+                        .map(name => ({ name, matrix: XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, defval: '' }) }))
+                        .filter(s => s.matrix.length > 0);
+                    if (parsed.length === 0) throw new Error("The workbook has no data.");
                 } else {
                     throw new Error("Unsupported file type. Please use CSV or XLSX.");
                 }
 
-                setRepName(rep);
-
-                const mappedRows = rows.map(row => mapRow(row));
-                const norm = (s: any) => (s ?? '').toString().trim().toLowerCase();
-                const dedupeKeys = mappedRows.map(r => `${norm(r.patient_name)}|${norm(r.insurance_primary)}`).filter(Boolean);
-
-                if (dedupeKeys.length === 0) {
-                    setReviewData({ newRecords: mappedRows.map((m, i) => ({ data: m, originalRow: i + 2 })), updatedRecords: [], skippedRecords: [] });
-                    return;
+                let profile = profiles.find(p => p.id === selectedProfileId);
+                if (!profile) {
+                    const detected = detectProfile(parsed[0].matrix, profiles);
+                    profile = detected?.profile || defaultProfile;
+                    setProfileWasDetected(!!detected);
+                } else {
+                    setProfileWasDetected(false);
                 }
 
-                const { data: existingPatients, error: dbError } = await supabase
-                    .from('patients')
-                    .select('*, orders(*)')
-                    .in('name', mappedRows.map(r => r.patient_name).filter(Boolean));
-
-                if (dbError) throw dbError;
-
-                const newRecords: NewRecord[] = [];
-                const updatedRecords: UpdatedRecord[] = [];
-                const skippedRecords: SkippedRecord[] = [];
-
-                mappedRows.forEach((row, i) => {
-                    const patientName = row.patient_name;
-                    const primaryInsurance = row.insurance_primary;
-                    const existingPatient = (existingPatients as any[])?.find(p => norm(p.name) === norm(patientName) && norm(p.primary_insurance) === norm(primaryInsurance));
-
-                    if (!existingPatient) {
-                        newRecords.push({ data: row, originalRow: i + 2 });
-                    } else {
-                        const latestOrder = existingPatient.orders?.sort((a: Order, b: Order) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0] || {};
-                        
-                        const patientDataFromRow = { name: row.patient_name, primary_insurance: row.insurance_primary };
-                        const orderDataFromRow = { chair_type: row.chair_type, accessories: row.accessories };
-
-                        const patientChanges = diffRecord(existingPatient, patientDataFromRow);
-                        const orderChanges = diffRecord(latestOrder, orderDataFromRow);
-                        
-                        const allChanges = [
-                            ...patientChanges.map(c => ({ ...c, entity: 'patient' as const })),
-                            ...orderChanges.map(c => ({ ...c, entity: 'order' as const })),
-                        ];
-
-                        if (allChanges.length > 0) {
-                            updatedRecords.push({
-                                patient: existingPatient,
-                                newData: row,
-                                changes: allChanges,
-                            });
-                        } else {
-                            skippedRecords.push({ data: row, reason: 'No changes detected' });
-                        }
-                    }
-                });
+                const loaded = withDefaultReps(
+                    parsed.map(s => ({ ...s, selected: true, rep_name: '', repOverridden: false, constants: {} })),
+                    profile,
+                );
+                setSheets(loaded);
 
-                setReviewData({ newRecords, updatedRecords, skippedRecords });
+                if (loaded.length > 1) {
+                    setActiveProfile(profile);
+                    setStep('sheets');
+                } else {
+                    prepareMapping(loaded, profile);
+                }
 
             } catch (err: any) {
                 setError(err.message || "Failed to parse file.");
@@ -280,65 +667,100 @@ export default function UploadReportModal() {
         } else {
             reader.readAsArrayBuffer(file);
         }
-    }, []);
+    }, [profiles, defaultProfile, selectedProfileId, prepareMapping]);
+
+    const handleProfileSwitch = (profileId: string) => {
+        const profile = profiles.find(p => p.id === profileId);
+        if (!profile || sheets.length === 0) return;
+        setProfileWasDetected(false);
+        const updated = withDefaultReps(sheets, profile);
+        setSheets(updated);
+        prepareMapping(updated, profile);
+    };
+
+    const handleSheetsConfirm = (chosen: ImportSheet[]) => {
+        if (!activeProfile) return;
+        setSheets(chosen);
+        prepareMapping(chosen, activeProfile);
+    };
+
+    const handleMappingConfirm = async (columns: ColumnMapping[]) => {
+        if (selectedSheets.length === 0 || !activeProfile) return;
+        setColumnMappings(columns);
+        setStep('review');
+        try {
+            await buildReview(selectedSheets, activeProfile, columns);
+        } catch (err: any) {
+            setError(err.message || "Failed to analyze file.");
+            setStep('upload');
+        }
+    };
 
     const handleImport = async (selections: { new: NewRecord[], updated: UpdatedRecord[] }, autoMerge: boolean) => {
         setStep('importing');
         let importedCount = 0;
         let updatedCount = 0;
+        const probableRecords = reviewData?.probableRecords || [];
+        const appliedProbable = probableRecords.filter(p => selections.updated.includes(p.match) || selections.new.some(n => n.data === p.data)).length;
+        const skippedCount = (reviewData?.skippedRecords.length || 0) + probableRecords.length - appliedProbable;
+        const invalidCount = reviewData?.invalidRecords.length || 0;
+        const repNames = Array.from(new Set(selectedSheets.map(s => s.rep_name.trim()).filter(Boolean)));
 
         try {
+            // Every import is recorded as a batch so it can be rolled back from Import History.
+            const batch = await createImportBatch({
+                file_name: fileName,
+                profile_id: activeProfile && activeProfile.id !== LEGACY_IMPORT_PROFILE.id ? activeProfile.id : null,
+                profile_name: activeProfile?.name ?? null,
+                rep_name: repNames.join(', ') || null,
+                created_by: user?.id ?? null,
+                created_by_email: user?.email ?? null,
+            });
+
             // --- NEW RECORDS ---
             if (selections.new.length > 0) {
-                // 1. Get or create Insurance Provider IDs
-                const uniqueInsurances = Array.from(new Set(selections.new.map(rec => rec.data.insurance_primary).filter(Boolean)));
-                const providerIdMap = new Map<string, string>();
-
-                for (const insName of uniqueInsurances) {
-                    if (!insName) continue;
-                    const { data: existing } = await supabase.from('insurance_providers').select('id').ilike('name', insName).single();
-                    if (existing) {
-                        providerIdMap.set(insName, existing.id);
-                    } else {
-                        const { data: created } = await supabase.from('insurance_providers').insert({ name: insName.toUpperCase(), source: 'import' }).select('id').single();
-                        if (created) {
-                            providerIdMap.set(insName, created.id);
-                        }
-                    }
-                }
+                // 1. Resolve Insurance Provider IDs (unknown payers were rejected during validation)
+                const providerId = (insName?: string | null) => resolveInsurance(insName, insuranceIndex)?.id ?? null;
 
                 // 2. Create Patients
-                const standardTemplate = docTemplates.find(t => t.id === 'standard_wc');
-                const defaultRequiredDocs = standardTemplate ? standardTemplate.keys : [];
+                const ruleSets = await listDocRuleSets().catch(() => []);
 
                 const patientPayloads = selections.new.map(rec => ({
-                    name: rec.data.patient_name,
-                    primary_insurance: rec.data.insurance_primary,
-                    insurance_provider_id: rec.data.insurance_primary ? providerIdMap.get(rec.data.insurance_primary) : null,
-                    required_documents: defaultRequiredDocs,
+                    ...splitByEntity(rec.data).patient,
+                    ...(rec.data.insurance_primary ? { primary_insurance: canonicalInsurance(rec.data.insurance_primary, insuranceIndex) } : {}),
+                    insurance_provider_id: providerId(rec.data.insurance_primary),
+                    required_documents: requiredDocumentsFor(ruleSets, {
+                        insuranceProviderId: providerId(rec.data.insurance_primary),
+                        caseType: splitByEntity(rec.data).order.case_type,
+                        equipmentCategories: rec.data.chair_type ? ['Power Wheelchair'] : [],
+                    }) || DEFAULT_REQUIRED_DOCS,
                     stoplight_status: stoplightStatusForImport,
+                    source: rec.data.import_source || 'import',
                 }));
                 const { data: newPatients, error: patientError } = await supabase.from('patients').insert(patientPayloads).select();
                 if (patientError) throw patientError;
                 if (!newPatients) throw new Error("Patient creation returned no data.");
+                await recordImportBatchItems(batch.id, newPatients.map(p => ({ entity: 'patient' as const, record_id: p.id, action: 'created' as const, before: null, after: p })));
 
                 // 3. Create Orders
                 const orderPayloads = newPatients.map((p, i) => {
                     const originalData = selections.new[i].data;
                     return {
+                        ...splitByEntity(originalData).order,
                         patient_id: p.id,
-                        chair_type: originalData.chair_type, // Mapped from 'Name'
-                        accessories: originalData.accessories, // Mapped from 'First Item'
                         workflow_stage: originalData.workflow_stage || 'Referral Received',
                         status: originalData.status || 'Pending Intake',
-                        rep_name: repName,
-                        referral_date: importDateOverride ? new Date(importDateOverride).toISOString() : new Date().toISOString(),
+                        rep_name: originalData.rep_name || 'Unknown Rep',
+                        referral_date: importDateOverride
+                            ? new Date(importDateOverride).toISOString()
+                            : toIsoDate(originalData.referral_date) || new Date().toISOString(),
                         stoplight_status: stoplightStatusForImport,
                     };
                 });
                 const { data: newOrders, error: orderError } = await supabase.from('orders').insert(orderPayloads).select();
                 if (orderError) throw orderError;
                 if (!newOrders) throw new Error("Order creation returned no data.");
+                await recordImportBatchItems(batch.id, newOrders.map(o => ({ entity: 'order' as const, record_id: o.id, action: 'created' as const, before: null, after: o })));
 
                 // 4. Create Equipment records
                 const equipmentPayloads = newOrders.map((order, i) => {
@@ -354,10 +776,12 @@ export default function UploadReportModal() {
                 }).filter(Boolean);
 
                 if (equipmentPayloads.length > 0) {
-                    const { error: equipmentError } = await supabase.from('equipment').insert(equipmentPayloads as any);
+                    const { data: newEquipment, error: equipmentError } = await supabase.from('equipment').insert(equipmentPayloads as any).select();
                     if (equipmentError) {
                         console.error("Error inserting equipment records:", equipmentError);
                         toast('Partial success: Patients/orders created, but failed to create equipment records.', 'warning');
+                    } else if (newEquipment) {
+                        await recordImportBatchItems(batch.id, newEquipment.map(e => ({ entity: 'equipment' as const, record_id: e.id, action: 'created' as const, before: null, after: e })));
                     }
                 }
                 
@@ -371,30 +795,37 @@ export default function UploadReportModal() {
                     const orderChanges = rec.changes.filter(c => c.entity === 'order');
 
                     if (patientChanges.length > 0) {
-                        const patientPayload = autoMerge
+                        const patientPayload: Record<string, any> = autoMerge
                             ? applyChangesWithRule(rec.patient, patientChanges)
                             : patientChanges.reduce((acc, change) => ({ ...acc, [change.field]: change.to }), {});
-                        await supabase.from('patients').update(patientPayload).eq('id', rec.patient.id);
+                        const { error: patientUpdateError } = await supabase.from('patients').update(patientPayload).eq('id', rec.patient.id);
+                        if (patientUpdateError) throw patientUpdateError;
+                        await recordImportBatchItems(batch.id, [{ entity: 'patient', record_id: rec.patient.id, action: 'updated', before: beforeImage(patientChanges, patientPayload), after: patientPayload }]);
                     }
-                    if (orderChanges.length > 0 && rec.patient.orders[0]) {
-                        const orderPayload = autoMerge
-                            ? applyChangesWithRule(rec.patient.orders[0], orderChanges)
+                    if (orderChanges.length > 0 && rec.order) {
+                        const orderPayload: Record<string, any> = autoMerge
+                            ? applyChangesWithRule(rec.order, orderChanges)
                             : orderChanges.reduce((acc, change) => ({ ...acc, [change.field]: change.to }), {});
-                        await supabase.from('orders').update(orderPayload).eq('id', rec.patient.orders[0].id);
+                        const { error: orderUpdateError } = await supabase.from('orders').update(orderPayload).eq('id', rec.order.id);
+                        if (orderUpdateError) throw orderUpdateError;
+                        await recordImportBatchItems(batch.id, [{ entity: 'order', record_id: rec.order.id, action: 'updated', before: beforeImage(orderChanges, orderPayload), after: orderPayload }]);
                     }
                 }
                 updatedCount = selections.updated.length;
             }
 
+            await finalizeImportBatch(batch.id, { imported_count: importedCount, updated_count: updatedCount, skipped_count: skippedCount });
+
             await writeAuditLog('report_uploaded', {
                 changed_by: user?.email,
-                details: { fileName, repName, imported: importedCount, updated: updatedCount, skipped: reviewData?.skippedRecords.length || 0 }
+                details: { batchId: batch.id, fileName, repNames, sheets: selectedSheets.map(s => s.name), profile: activeProfile?.name, imported: importedCount, updated: updatedCount, skipped: skippedCount, invalid: invalidCount }
             });
 
             toast(`${importedCount} new records imported, ${updatedCount} records updated.`, 'ok');
             queryClient.invalidateQueries({ queryKey: ['referrals_direct_all'] });
             queryClient.invalidateQueries({ queryKey: ['dashboard_orders_all'] });
-            setImportResult({ imported: importedCount, updated: updatedCount, skipped: reviewData?.skippedRecords.length || 0 });
+            queryClient.invalidateQueries({ queryKey: ['import_batches'] });
+            setImportResult({ imported: importedCount, updated: updatedCount, skipped: skippedCount, invalid: invalidCount });
             setStep('complete');
 
         } catch (error: any) {
@@ -417,10 +848,47 @@ export default function UploadReportModal() {
                                 <p className="text-xs text-muted">CSV or XLSX file</p>
                             </label>
                             <input id="file-upload" type="file" className="hidden" onChange={handleFileChange} accept=".csv, .xlsx, .xls" />
+                            <Select
+                                label="Mapping Profile"
+                                id="import-profile"
+                                wrapperClassName="mt-4 text-left"
+                                value={selectedProfileId}
+                                onChange={e => setSelectedProfileId(e.target.value)}
+                                options={profiles.map(p => ({ label: p.name, value: p.id }))}
+                            />
+                            <p className="mt-1 text-xs text-muted text-left">Leave unselected to detect the profile from the file's headers.</p>
                             {error && <p className="mt-4 text-sm text-red-500">{error}</p>}
                         </div>
                     </>
                 );
+            case 'sheets':
+                return (
+                    <>
+                        <DialogHeader>Choose Sheets</DialogHeader>
+                        <SheetsStep initialSheets={sheets} onConfirm={handleSheetsConfirm} onCancel={handleClose} />
+                    </>
+                );
+            case 'mapping':
+                if (!columnMappings) {
+                    return <div className="p-12 flex flex-col items-center justify-center gap-4"><Loader2 className="h-10 w-10 animate-spin text-accent" /><p className="text-muted">Reading file...</p></div>;
+                }
+                return (
+                    <>
+                        <DialogHeader>Map Columns</DialogHeader>
+                        <div className="px-6 pt-4 flex items-end gap-3">
+                            <Select
+                                label="Mapping Profile"
+                                id="mapping-import-profile"
+                                wrapperClassName="flex-1"
+                                value={activeProfile?.id || ''}
+                                onChange={e => handleProfileSwitch(e.target.value)}
+                                options={profiles.map(p => ({ label: p.name, value: p.id }))}
+                            />
+                            {profileWasDetected && <span className="text-xs text-muted pb-2">Detected from headers</span>}
+                        </div>
+                        <MappingStep key={activeProfile?.id} initialColumns={columnMappings} onConfirm={handleMappingConfirm} onCancel={handleClose} />
+                    </>
+                );
             case 'review':
                 if (!reviewData) {
                     return <div className="p-12 flex flex-col items-center justify-center gap-4"><Loader2 className="h-10 w-10 animate-spin text-accent" /><p className="text-muted">Analyzing file...</p></div>;
@@ -428,7 +896,7 @@ export default function UploadReportModal() {
                 return (
                     <>
                         <DialogHeader>Review Changes Before Import</DialogHeader>
-                        <ReviewStep reviewData={reviewData} onConfirm={handleImport} onCancel={handleClose} isImporting={false} />
+                        <ReviewStep reviewData={reviewData} fileName={fileName} showSheets={selectedSheets.length > 1} onConfirm={handleImport} onCancel={handleClose} onBack={() => setStep('mapping')} isImporting={false} />
                     </>
                 );
             case 'importing':
@@ -441,6 +909,7 @@ export default function UploadReportModal() {
                         <p className="text-muted">{importResult.imported} new records imported.</p>
                         <p className="text-muted">{importResult.updated} existing records updated.</p>
                         <p className="text-muted">{importResult.skipped} duplicate records were skipped.</p>
+                        {importResult.invalid > 0 && <p className="text-muted">{importResult.invalid} invalid rows were rejected.</p>}
                         <Button onClick={handleClose}>Done</Button>
                     </div>
                 );
@@ -449,7 +918,7 @@ export default function UploadReportModal() {
 
     return (
         <Dialog open={isOpen} onOpenChange={handleClose}>
-            <DialogContent className={step === 'review' ? 'max-w-2xl' : 'max-w-md'}>
+            <DialogContent className={step === 'review' || step === 'mapping' || step === 'sheets' ? 'max-w-2xl' : 'max-w-md'}>
                 {renderContent()}
             </DialogContent>
         </Dialog>
@@ -4,8 +4,9 @@ import { Edit } from 'lucide-react';
 import type { Patient, Order } from '../lib/types';
 import { daysOld } from '../lib/utils';
 import StageRequirementsChecklist from './StageRequirementsChecklist';
-import workflowData from '../../schemas/workflow.json';
+import { findStageDefinition, getWorkflow } from '@/lib/workflowDefinition';
 import NotesPanel from './NotesPanel';
+import OrderTasksPanel from './OrderTasksPanel';
 
 interface WorkflowHubProps {
   order: Order | null;
@@ -25,7 +26,7 @@ const WorkflowHub: React.FC<WorkflowHubProps> = ({ order, patient, onStageChange
   const completedCount = required.filter(doc => order.document_status?.[doc] === 'Complete').length;
   const isReadyForPar = required.length > 0 && completedCount === required.length;
 
-  const stageConfig = workflowData.workflow.find(s => s.stage === order.workflow_stage);
+  const stageConfig = findStageDefinition(order.workflow_stage, order.workflow_version);
   const targetDays = stageConfig?.target_days;
   const isOverdue = targetDays && daysInStage > targetDays;
 
@@ -34,8 +35,11 @@ const WorkflowHub: React.FC<WorkflowHubProps> = ({ order, patient, onStageChange
       {/* Header */}
       <div className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 p-4 space-y-3">
         <div>
-          <p className="text-xs text-muted">Current Stage</p>
-          <p className="text-base font-semibold text-accent">{order.workflow_stage}</p>
+          <p className="text-xs text-muted">Current Stage · {getWorkflow(order.workflow_version).name} pipeline</p>
+          <p className="text-base font-semibold text-accent">
+            {order.workflow_stage}
+            {order.status && <span className="ml-2 align-middle rounded-full bg-gray-100 dark:bg-zinc-800 px-2 py-0.5 text-xs font-medium text-muted">{order.status}</span>}
+          </p>
         </div>
         <div className="grid grid-cols-2 gap-4">
             <div>
@@ -55,7 +59,7 @@ const WorkflowHub: React.FC<WorkflowHubProps> = ({ order, patient, onStageChange
         </div>
         <div className="flex gap-2 pt-3 border-t border-zinc-200 dark:border-zinc-800">
             <Button size="sm" onClick={onStageChangeClick} className="flex-1">
-                <Edit className="h-4 w-4 mr-2" /> Change Stage
+                <Edit className="h-4 w-4 mr-2" /> Change Stage / Status
             </Button>
         </div>
       </div>
@@ -66,11 +70,15 @@ const WorkflowHub: React.FC<WorkflowHubProps> = ({ order, patient, onStageChange
         order={order}
       />
 
+      {/* Tasks */}
+      <OrderTasksPanel order={order} />
+
       {/* Notes Panel */}
       <NotesPanel 
         patientId={patient.id}
         onAddNoteClick={onAddNoteClick}
         onUpdate={onUpdate}
+        workflowVersion={order.workflow_version}
       />
     </div>
   );
@@ -1,11 +1,9 @@
 import React, { useMemo } from 'react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
 import type { Order } from '@/lib/types';
-import workflowData from '../../schemas/workflow.json';
+import { allStageNames } from '@/lib/workflowDefinition';
 import { daysOld } from '../lib/utils';
 
-const allStages = workflowData.workflow.map(w => w.stage);
-
 // Gradient-like color scale: teals -> blues -> purples -> grays
 const stageColors = [
   '#14b8a6', '#0d9488', '#0f766e', // Teals
@@ -33,6 +31,7 @@ const CustomTooltip = ({ active, payload }: any) => {
 };
 
 const WorkflowPipelineChart: React.FC<{ orders: Order[] }> = ({ orders }) => {
+    const allStages = allStageNames();
     const { chartData, stageDetails } = useMemo(() => {
         const details = allStages.map(stage => {
             const stageOrders = orders.filter(o => o.workflow_stage === stage);
@@ -2,9 +2,7 @@ import React from 'react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import { useNavigate } from 'react-router-dom';
 import type { Order } from '@/lib/types';
-import workflowData from '../../schemas/workflow.json';
-
-const allStages = workflowData.workflow.map(w => w.stage);
+import { allStageNames } from '@/lib/workflowDefinition';
 
 const stageColors = [
   '#34d399', '#2dd4bf', '#22d3ee', '#38bdf8', '#60a5fa',
@@ -13,7 +11,7 @@ const stageColors = [
 
 const WorkflowProgress: React.FC<{ data: Order[] }> = ({ data }) => {
   const navigate = useNavigate();
-  const counts = allStages.map(stage => {
+  const counts = allStageNames().map(stage => {
     const count = data.filter(r => r.workflow_stage === stage).length;
     return { name: stage, count };
   }).filter(item => item.count > 0);
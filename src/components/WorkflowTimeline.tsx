@@ -4,10 +4,10 @@ import { listNotes, pinNote } from '@/api/notes.api';
 import { useNoteMutations } from '@/hooks/useNoteMutations';
 import { useAuth } from '@/contexts/AuthContext';
 import { useDebounce } from '@/hooks/useDebounce';
-import { ArrowRight, MessageSquare, Edit, Trash2, Pin, PinOff, Loader2, Search } from 'lucide-react';
+import { ArrowRight, Undo2, MessageSquare, Edit, Trash2, Pin, PinOff, Loader2, Search } from 'lucide-react';
 import type { PatientNote } from '../lib/types';
 import EmptyState from './ui/EmptyState';
-import { cn } from '@/lib/utils';
+import { cn, isBackward } from '@/lib/utils';
 import { displayName } from '@/lib/users/displayName';
 import SimpleConfirmationModal from './ui/SimpleConfirmationModal';
 import AddNoteModal from './AddNoteModal';
@@ -32,12 +32,15 @@ const NoteBody: React.FC<{ item: PatientNote }> = ({ item }) => {
     );
 };
 
-const EventIcon: React.FC<{ type: PatientNote['source'], isPinned: boolean }> = ({ type, isPinned }) => {
+const EventIcon: React.FC<{ type: PatientNote['source'], isPinned: boolean, isRegression: boolean }> = ({ type, isPinned, isRegression }) => {
   const baseClass = "h-8 w-8 rounded-full flex items-center justify-center ring-4 ring-white dark:ring-surface relative";
   const iconClass = "h-5 w-5 text-white";
 
   let icon, bgColor;
-  if (type === 'stage_change') {
+  if (type === 'stage_change' && isRegression) {
+    icon = <Undo2 className={iconClass} />;
+    bgColor = "bg-amber-500";
+  } else if (type === 'stage_change') {
     icon = <ArrowRight className={iconClass} />;
     bgColor = "bg-teal-500";
   } else {
@@ -61,14 +64,16 @@ interface TimelineEntryProps {
     onEdit: () => void;
     onPin: () => void;
     isPinning: boolean;
+    /** Stage change that moved backward in the order's pipeline. */
+    isRegression: boolean;
 }
 
-const TimelineEntry: React.FC<TimelineEntryProps> = ({ item, isLast, canInteract, onDelete, onEdit, onPin, isPinning }) => (
+const TimelineEntry: React.FC<TimelineEntryProps> = ({ item, isLast, canInteract, onDelete, onEdit, onPin, isPinning, isRegression }) => (
   <li>
     <div className="relative pb-8">
       {!isLast && <span className="absolute left-4 top-4 -ml-px h-full w-0.5 bg-gray-200 dark:bg-zinc-700" aria-hidden="true" />}
       <div className="relative flex items-start space-x-3">
-        <EventIcon type={item.source} isPinned={item.is_pinned} />
+        <EventIcon type={item.source} isPinned={item.is_pinned} isRegression={isRegression} />
         <div className="min-w-0 flex-1 pt-1.5">
           <div className="flex justify-between items-start">
             <p className="text-sm font-medium text-text">{displayName(item.profiles)}</p>
@@ -90,7 +95,14 @@ const TimelineEntry: React.FC<TimelineEntryProps> = ({ item, isLast, canInteract
           <div className="mt-1">
             {item.source === 'stage_change' ? (
                 <div className="text-sm text-gray-500 dark:text-gray-400">
-                    Stage changed from <span className="font-medium text-gray-900 dark:text-gray-100">{item.stage_from}</span> to <span className="font-medium text-gray-900 dark:text-gray-100">{item.stage_to}</span>
+                    {item.stage_from === item.stage_to && item.status_to ? (
+                        <>{item.stage_to} status changed from <span className="font-medium text-gray-900 dark:text-gray-100">{item.status_from || 'none'}</span> to <span className="font-medium text-gray-900 dark:text-gray-100">{item.status_to}</span></>
+                    ) : (
+                        <>
+                            {isRegression ? 'Moved back' : 'Stage changed'} from <span className="font-medium text-gray-900 dark:text-gray-100">{item.stage_from}</span> to <span className="font-medium text-gray-900 dark:text-gray-100">{item.stage_to}</span>
+                            {item.status_to && <> · <span className="font-medium text-gray-900 dark:text-gray-100">{item.status_to}</span></>}
+                        </>
+                    )}
                     <NoteBody item={item} />
                 </div>
             ) : <NoteBody item={item} />}
@@ -104,9 +116,11 @@ const TimelineEntry: React.FC<TimelineEntryProps> = ({ item, isLast, canInteract
 interface WorkflowTimelineProps {
   patientId: string;
   onUpdate: () => void;
+  /** Workflow version of the patient's order, used to tell regressions apart from forward moves. */
+  workflowVersion?: number | null;
 }
 
-const WorkflowTimeline: React.FC<WorkflowTimelineProps> = ({ patientId, onUpdate }) => {
+const WorkflowTimeline: React.FC<WorkflowTimelineProps> = ({ patientId, onUpdate, workflowVersion }) => {
   const { user, isAdmin } = useAuth();
   const queryClient = useQueryClient();
   const [filter, setFilter] = useState<'all' | 'manual' | 'stage_change'>('all');
@@ -175,6 +189,7 @@ const WorkflowTimeline: React.FC<WorkflowTimelineProps> = ({ patientId, onUpdate
                         onEdit={() => setNoteToEdit(item as PatientNote)}
                         onPin={() => pinMutation.mutate({ id: item.id, is_pinned: !item.is_pinned })}
                         isPinning={pinMutation.isPending && pinMutation.variables?.id === item.id}
+                        isRegression={item.source === 'stage_change' && isBackward(item.stage_from, item.stage_to, workflowVersion)}
                     />
                 ))}
             </ul>
@@ -1 +1,74 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import EmptyState from '../ui/EmptyState';
+import { SlaBadge } from '../ui/SlaBadge';
+import { supabase } from '@/lib/supabaseClient';
+import { computeSla, type SlaInfo } from '@/lib/sla';
+import type { Order } from '@/lib/types';
 
+interface HotListPanelProps {
+  limit?: number;
+}
+
+type HotListItem = { order: Order; sla: SlaInfo };
+
+const HotListPanel: React.FC<HotListPanelProps> = ({ limit = 8 }) => {
+  const { data: orders = [], isLoading } = useQuery<Order[]>({
+    queryKey: ['hot_list_orders'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('id, patient_id, workflow_stage, workflow_version, last_stage_change, created_at, is_archived, patients(name), workflow_history(new_stage, changed_at)')
+        .or('is_archived.is.null,is_archived.eq.false');
+      if (error) throw error;
+      return data as unknown as Order[];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const { items, breachedCount } = useMemo(() => {
+    const flagged = orders
+      .map(order => ({ order, sla: computeSla(order) }))
+      .filter((i): i is HotListItem => !!i.sla && i.sla.state !== 'on_track')
+      .sort((a, b) => a.sla.daysRemaining - b.sla.daysRemaining);
+    return { items: flagged.slice(0, limit), breachedCount: flagged.filter(i => i.sla.state === 'breached').length };
+  }, [orders, limit]);
+
+  if (isLoading) {
+    return <div className="flex justify-center items-center h-32"><Loader2 className="h-6 w-6 animate-spin text-accent" /></div>;
+  }
+
+  if (items.length === 0) {
+    return <EmptyState title="All on track" message="No referrals are at risk of missing their stage targets." />;
+  }
+
+  return (
+    <div className="space-y-2">
+      <ul className="space-y-1">
+        {items.map(({ order, sla }) => (
+          <li key={order.id}>
+            <Link
+              to={`/referrals?openPatientId=${order.patient_id}`}
+              className="flex items-center justify-between gap-2 p-2 rounded-lg hover:bg-gray-50 dark:hover:bg-zinc-800/50"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-text truncate">{order.patients?.name || 'Unknown Patient'}</p>
+                <p className="text-xs text-muted truncate">{sla.stage}</p>
+              </div>
+              <SlaBadge sla={sla} compact />
+            </Link>
+          </li>
+        ))}
+      </ul>
+      {breachedCount > 0 && (
+        <Link to="/referrals?sla=breached" className="block text-xs font-semibold text-accent">
+          View all {breachedCount} breached
+        </Link>
+      )}
+    </div>
+  );
+};
+
+export default HotListPanel;
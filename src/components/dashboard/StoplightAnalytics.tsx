@@ -3,12 +3,16 @@ import { useNavigate } from 'react-router-dom';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
 import EmptyState from '../ui/EmptyState';
 
+interface StoplightCounts {
+  green: number;
+  yellow: number;
+  red: number;
+}
+
 interface StoplightAnalyticsProps {
-  counts: {
-    green: number;
-    yellow: number;
-    red: number;
-  };
+  counts: StoplightCounts;
+  /** Colour changes recorded in the period, keyed by the colour turned to. */
+  changes?: StoplightCounts;
 }
 
 const COLORS = {
@@ -37,7 +41,7 @@ const CustomTooltip = ({ active, payload, total, hoveredStage }: any) => {
   return null;
 };
 
-const StoplightAnalytics: React.FC<StoplightAnalyticsProps> = ({ counts }) => {
+const StoplightAnalytics: React.FC<StoplightAnalyticsProps> = ({ counts, changes }) => {
   const navigate = useNavigate();
   const [hoveredStage, setHoveredStage] = useState<string | null>(null);
 
@@ -102,6 +106,14 @@ const StoplightAnalytics: React.FC<StoplightAnalyticsProps> = ({ counts }) => {
           </button>
         ))}
       </div>
+      {changes && changes.green + changes.yellow + changes.red > 0 && (
+        <p className="mt-2 text-xs text-muted">
+          Colour changes this period:{' '}
+          <span className="font-semibold text-red-500">{changes.red}</span> turned red,{' '}
+          <span className="font-semibold text-amber-500">{changes.yellow}</span> turned yellow,{' '}
+          <span className="font-semibold text-green-600">{changes.green}</span> recovered to green
+        </p>
+      )}
     </div>
   );
 };
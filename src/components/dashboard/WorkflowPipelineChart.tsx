@@ -1,11 +1,9 @@
 import React, { useMemo, useState } from 'react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
 import type { Order } from '@/lib/types';
-import workflowData from '../../../schemas/workflow.json';
+import { allStageNames } from '@/lib/workflowDefinition';
 import { useNavigate } from 'react-router-dom';
 
-const allStages = workflowData.workflow.map(w => w.stage);
-
 const stageColors = [
   '#0d9488', '#2563eb', '#9333ea', '#c026d3', '#e11d48',
   '#f97316', '#ca8a04', '#16a34a', '#0ea5e9', '#475569',
@@ -32,6 +30,7 @@ const CustomTooltip = ({ active, payload, total, hoveredStage }: any) => {
 const WorkflowPipelineChart: React.FC<{ orders: Order[] }> = ({ orders }) => {
   const navigate = useNavigate();
   const [hoveredStage, setHoveredStage] = useState<string | null>(null);
+  const allStages = allStageNames();
 
   const stageCounts = useMemo(() => {
     return allStages.map(stage => ({
@@ -0,0 +1,396 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ChevronDown, ChevronRight, Edit, Loader2, Plus, Save, Trash2, X, Zap } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Btn } from '../ui/Btn';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Textarea } from '../ui/Textarea';
+import { Checkbox } from '../ui/Checkbox';
+import ListSkeleton from '../ui/ListSkeleton';
+import SimpleConfirmationModal from '../ui/SimpleConfirmationModal';
+import { toast } from '../../lib/toast';
+import { cn } from '../../lib/utils';
+import { useAuth } from '../../contexts/AuthContext';
+import { docLabel, labelMap } from '../../lib/docMapping';
+import { allStageNames } from '../../lib/workflowDefinition';
+import {
+    AUTOMATION_ACTION_TYPES,
+    AUTOMATION_FIELDS,
+    AUTOMATION_MERGE_FIELDS,
+    AUTOMATION_OPERATORS,
+    AUTOMATION_TRIGGERS,
+    SETTABLE_FIELDS,
+    describeAction,
+} from '../../lib/automation';
+import type { AutomationAction, AutomationCondition, AutomationRule, AutomationTrigger } from '../../lib/types';
+import {
+    createAutomationRule,
+    deleteAutomationRule,
+    listAutomationRules,
+    listAutomationRuns,
+    updateAutomationRule,
+    type AutomationRuleInput,
+} from '../../api/automation.api';
+
+const toOptions = (record: Record<string, string>) => Object.entries(record).map(([value, label]) => ({ value, label }));
+
+const emptyRule: AutomationRuleInput = {
+    name: '',
+    description: null,
+    is_enabled: true,
+    trigger_type: 'stage_entered',
+    trigger_value: null,
+    conditions: [],
+    actions: [{ type: 'add_note', body: '' }],
+};
+
+const newAction = (type: AutomationAction['type']): AutomationAction => {
+    switch (type) {
+        case 'set_field': return { type, field: 'status', value: '' };
+        case 'add_note': return { type, body: '' };
+        case 'create_task': return { type, title: '', due_in_days: null, assigned_to: null };
+        case 'queue_email': return { type, to: '', subject: '', body: '' };
+    }
+};
+
+function triggerValueOptions(trigger: AutomationTrigger) {
+    if (trigger === 'stage_entered') return allStageNames().map(stage => ({ value: stage, label: stage }));
+    if (trigger === 'document_completed') return toOptions(labelMap);
+    return [];
+}
+
+const ActionEditor: React.FC<{ id: string; action: AutomationAction; onChange: (action: AutomationAction) => void }> = ({ id, action, onChange }) => {
+    switch (action.type) {
+        case 'set_field': {
+            const field = SETTABLE_FIELDS[action.field];
+            return (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    <Select id={`${id}-field`} label="Field" value={action.field} options={Object.entries(SETTABLE_FIELDS).map(([value, f]) => ({ value, label: f.label }))} onChange={e => onChange({ ...action, field: e.target.value, value: '' })} />
+                    {field?.options ? (
+                        <Select id={`${id}-value`} label="Value" value={action.value} options={field.options.map(o => ({ value: o, label: o }))} onChange={e => onChange({ ...action, value: e.target.value })} />
+                    ) : (
+                        <Input id={`${id}-value`} label="Value" value={action.value} onChange={e => onChange({ ...action, value: e.target.value })} />
+                    )}
+                </div>
+            );
+        }
+        case 'add_note':
+            return <Textarea id={`${id}-body`} label="Note" rows={2} value={action.body} onChange={e => onChange({ ...action, body: e.target.value })} />;
+        case 'create_task':
+            return (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                    <Input id={`${id}-title`} label="Task" value={action.title} onChange={e => onChange({ ...action, title: e.target.value })} wrapperClassName="sm:col-span-2" />
+                    <Input id={`${id}-due`} label="Due In (days)" type="number" min={0} value={action.due_in_days ?? ''} onChange={e => onChange({ ...action, due_in_days: e.target.value === '' ? null : Number(e.target.value) })} />
+                    <Input id={`${id}-assignee`} label="Assign To" value={action.assigned_to ?? ''} onChange={e => onChange({ ...action, assigned_to: e.target.value || null })} wrapperClassName="sm:col-span-3" />
+                </div>
+            );
+        case 'queue_email':
+            return (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    <Input id={`${id}-to`} label="To" type="email" value={action.to} onChange={e => onChange({ ...action, to: e.target.value })} />
+                    <Input id={`${id}-subject`} label="Subject" value={action.subject} onChange={e => onChange({ ...action, subject: e.target.value })} />
+                    <Textarea id={`${id}-email-body`} label="Body" rows={3} value={action.body} onChange={e => onChange({ ...action, body: e.target.value })} wrapperClassName="sm:col-span-2" />
+                </div>
+            );
+    }
+};
+
+/** Problems that stop a rule from being saved, or null. */
+function validateRule(rule: AutomationRuleInput): string | null {
+    if (!rule.name.trim()) return 'Rule name is required.';
+    if (rule.actions.length === 0) return 'Add at least one action.';
+    for (const action of rule.actions) {
+        if (action.type === 'set_field' && !action.value.trim()) return 'Set-field actions need a value.';
+        if (action.type === 'add_note' && !action.body.trim()) return 'Note actions need some text.';
+        if (action.type === 'create_task' && !action.title.trim()) return 'Task actions need a title.';
+        if (action.type === 'queue_email' && (!action.to.trim() || !action.subject.trim())) return 'Email actions need a recipient and subject.';
+    }
+    return null;
+}
+
+const RuleForm: React.FC<{
+    initial: AutomationRuleInput;
+    formId: string;
+    isSaving: boolean;
+    submitLabel: string;
+    onSubmit: (input: AutomationRuleInput) => void;
+    onCancel?: () => void;
+}> = ({ initial, formId, isSaving, submitLabel, onSubmit, onCancel }) => {
+    const [rule, setRule] = useState<AutomationRuleInput>(initial);
+    const valueOptions = triggerValueOptions(rule.trigger_type);
+
+    const updateCondition = (i: number, patch: Partial<AutomationCondition>) =>
+        setRule(r => ({ ...r, conditions: r.conditions.map((c, idx) => idx === i ? { ...c, ...patch } : c) }));
+    const updateAction = (i: number, action: AutomationAction) =>
+        setRule(r => ({ ...r, actions: r.actions.map((a, idx) => idx === i ? action : a) }));
+
+    const handleSubmit = () => {
+        const problem = validateRule(rule);
+        if (problem) {
+            toast(problem, 'warning');
+            return;
+        }
+        onSubmit({ ...rule, name: rule.name.trim(), description: rule.description?.trim() || null });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <Input id={`${formId}-name`} label="Rule Name" value={rule.name} onChange={e => setRule(r => ({ ...r, name: e.target.value }))} required />
+                <Input id={`${formId}-description`} label="Description" value={rule.description || ''} onChange={e => setRule(r => ({ ...r, description: e.target.value }))} />
+                <Select
+                    id={`${formId}-trigger`}
+                    label="When"
+                    value={rule.trigger_type}
+                    options={toOptions(AUTOMATION_TRIGGERS)}
+                    onChange={e => setRule(r => ({ ...r, trigger_type: e.target.value as AutomationTrigger, trigger_value: null }))}
+                />
+                {valueOptions.length > 0 && (
+                    <Select
+                        id={`${formId}-trigger-value`}
+                        label={rule.trigger_type === 'stage_entered' ? 'Stage (blank for any)' : 'Document (blank for any)'}
+                        value={rule.trigger_value || ''}
+                        options={valueOptions}
+                        onChange={e => setRule(r => ({ ...r, trigger_value: e.target.value || null }))}
+                    />
+                )}
+            </div>
+
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-medium text-gray-700">Only If</h4>
+                    <Btn variant="ghost" size="sm" onClick={() => setRule(r => ({ ...r, conditions: [...r.conditions, { field: 'case_type', operator: 'equals', value: '' }] }))}>
+                        <Plus className="h-3 w-3" /> Add Condition
+                    </Btn>
+                </div>
+                {rule.conditions.length === 0 && <p className="text-xs text-muted">Runs for every matching event.</p>}
+                {rule.conditions.map((condition, i) => (
+                    <div key={i} className="flex items-end gap-2">
+                        <Select id={`${formId}-cond-${i}-field`} label="Field" value={condition.field} options={Object.entries(AUTOMATION_FIELDS).map(([value, f]) => ({ value, label: f.label }))} onChange={e => updateCondition(i, { field: e.target.value })} wrapperClassName="flex-1" />
+                        <Select id={`${formId}-cond-${i}-op`} label="Operator" value={condition.operator} options={toOptions(AUTOMATION_OPERATORS)} onChange={e => updateCondition(i, { operator: e.target.value as AutomationCondition['operator'] })} wrapperClassName="flex-1" />
+                        {condition.operator !== 'is_blank' && condition.operator !== 'is_not_blank' && (
+                            <Input id={`${formId}-cond-${i}-value`} label="Value" value={condition.value || ''} onChange={e => updateCondition(i, { value: e.target.value })} wrapperClassName="flex-1" />
+                        )}
+                        <Btn variant="outline" size="sm" className="mb-1" onClick={() => setRule(r => ({ ...r, conditions: r.conditions.filter((_, idx) => idx !== i) }))} aria-label="Remove condition"><X className="h-3 w-3" /></Btn>
+                    </div>
+                ))}
+            </div>
+
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-medium text-gray-700">Then</h4>
+                    <Btn variant="ghost" size="sm" onClick={() => setRule(r => ({ ...r, actions: [...r.actions, newAction('add_note')] }))}>
+                        <Plus className="h-3 w-3" /> Add Action
+                    </Btn>
+                </div>
+                {rule.actions.map((action, i) => (
+                    <div key={i} className="rounded-lg border dark:border-zinc-700 p-3 space-y-2">
+                        <div className="flex items-end gap-2">
+                            <Select id={`${formId}-action-${i}-type`} label="Action" value={action.type} options={toOptions(AUTOMATION_ACTION_TYPES)} onChange={e => updateAction(i, newAction(e.target.value as AutomationAction['type']))} wrapperClassName="flex-1" />
+                            <Btn variant="outline" size="sm" className="mb-1" onClick={() => setRule(r => ({ ...r, actions: r.actions.filter((_, idx) => idx !== i) }))} aria-label="Remove action"><X className="h-3 w-3" /></Btn>
+                        </div>
+                        <ActionEditor id={`${formId}-action-${i}`} action={action} onChange={a => updateAction(i, a)} />
+                    </div>
+                ))}
+                <p className="text-xs text-muted">
+                    Text can use {AUTOMATION_MERGE_FIELDS.map(f => `{{${f}}}`).join(', ')}.
+                </p>
+            </div>
+
+            <Checkbox id={`${formId}-enabled`} label="Enabled" checked={rule.is_enabled} onChange={e => setRule(r => ({ ...r, is_enabled: e.target.checked }))} />
+            <div className="flex justify-end gap-2">
+                {onCancel && <Btn variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>Cancel</Btn>}
+                <Btn size="sm" onClick={handleSubmit} disabled={isSaving}>
+                    {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                    {submitLabel}
+                </Btn>
+            </div>
+        </div>
+    );
+};
+
+const describeTrigger = (rule: AutomationRule) => {
+    const value = rule.trigger_type === 'document_completed' ? docLabel(rule.trigger_value || '') : rule.trigger_value;
+    return `${AUTOMATION_TRIGGERS[rule.trigger_type]}${value ? `: ${value}` : ''}`;
+};
+
+const AutomationRulesPanel: React.FC = () => {
+    const queryClient = useQueryClient();
+    const { user } = useAuth();
+    const [showAddForm, setShowAddForm] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [ruleToDelete, setRuleToDelete] = useState<AutomationRule | null>(null);
+
+    const { data: rules = [], isLoading, error } = useQuery<AutomationRule[], Error>({
+        queryKey: ['automation_rules'],
+        queryFn: listAutomationRules,
+    });
+
+    const { data: runs = [], isLoading: runsLoading } = useQuery({
+        queryKey: ['automation_runs'],
+        queryFn: () => listAutomationRuns(50),
+    });
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ['automation_rules'] });
+    const onMutationError = (err: any) => toast(`Error: ${err.message}`, 'err');
+
+    const addMutation = useMutation({
+        mutationFn: (input: AutomationRuleInput) => createAutomationRule(input, user?.email || null),
+        onSuccess: () => {
+            toast('Automation rule added.', 'ok');
+            invalidate();
+            setShowAddForm(false);
+        },
+        onError: onMutationError,
+    });
+
+    const updateMutation = useMutation({
+        mutationFn: ({ id, input }: { id: string; input: Partial<AutomationRuleInput> }) => updateAutomationRule(id, input),
+        onSuccess: () => {
+            invalidate();
+            setEditingId(null);
+        },
+        onError: onMutationError,
+    });
+
+    const deleteMutation = useMutation({
+        mutationFn: deleteAutomationRule,
+        onSuccess: () => {
+            toast('Automation rule deleted.', 'ok');
+            invalidate();
+            setRuleToDelete(null);
+        },
+        onError: (err: any) => {
+            onMutationError(err);
+            setRuleToDelete(null);
+        },
+    });
+
+    return (
+        <div className="space-y-4 max-w-4xl fade-in">
+            <div className="soft-card">
+                <div className="p-4 border-b">
+                    <h2 className="text-base font-semibold text-gray-800">Automation Rules</h2>
+                    <p className="text-xs text-gray-500 mt-1">Rules run in the order they were created whenever their event happens and their conditions hold.</p>
+                </div>
+                <div className="p-4 space-y-4">
+                    <div className="border-b pb-4">
+                        <button onClick={() => setShowAddForm(s => !s)} className="w-full flex justify-between items-center text-left font-medium">
+                            Add New Rule
+                            {showAddForm ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </button>
+                        <AnimatePresence>
+                        {showAddForm && (
+                            <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden">
+                                <div className="pt-4">
+                                    <RuleForm initial={emptyRule} formId="new-rule" isSaving={addMutation.isPending} submitLabel="Add Rule" onSubmit={input => addMutation.mutate(input)} />
+                                </div>
+                            </motion.div>
+                        )}
+                        </AnimatePresence>
+                    </div>
+
+                    {isLoading ? (
+                        <ListSkeleton rows={3} />
+                    ) : error ? (
+                        <div className="text-center py-10 px-4 text-red-600 bg-red-50 rounded-lg">
+                            <p className="font-semibold">Error Loading Rules</p>
+                            <p className="text-sm mt-1">{error.message}</p>
+                        </div>
+                    ) : rules.length === 0 ? (
+                        <div className="text-center py-10 px-4 text-gray-500 bg-gray-50 rounded-lg">
+                            <p className="text-sm">No automation rules yet.</p>
+                        </div>
+                    ) : (
+                        <div className="space-y-2">
+                            {rules.map(rule => (
+                                <div key={rule.id} className={cn('soft-card p-3 lift elevate', !rule.is_enabled && 'opacity-60')}>
+                                    {editingId === rule.id ? (
+                                        <RuleForm
+                                            initial={{ ...rule }}
+                                            formId={`rule-${rule.id}`}
+                                            isSaving={updateMutation.isPending}
+                                            submitLabel="Save"
+                                            onSubmit={input => updateMutation.mutate({ id: rule.id, input })}
+                                            onCancel={() => setEditingId(null)}
+                                        />
+                                    ) : (
+                                        <div className="flex justify-between items-start gap-4">
+                                            <div className="text-sm min-w-0">
+                                                <p className="font-bold text-gray-800 flex items-center gap-1.5">
+                                                    <Zap className={cn('h-3.5 w-3.5', rule.is_enabled ? 'text-amber-500' : 'text-gray-400')} />
+                                                    {rule.name}
+                                                </p>
+                                                {rule.description && <p className="text-gray-500">{rule.description}</p>}
+                                                <p className="text-xs text-muted mt-1">
+                                                    {describeTrigger(rule)}
+                                                    {rule.conditions.length > 0 && ` · if ${rule.conditions.map(c => `${AUTOMATION_FIELDS[c.field]?.label || c.field} ${AUTOMATION_OPERATORS[c.operator]}${c.value ? ` "${c.value}"` : ''}`).join(' and ')}`}
+                                                </p>
+                                                <p className="text-xs text-muted">Then: {rule.actions.map(describeAction).join('; ')}</p>
+                                            </div>
+                                            <div className="flex gap-1.5 self-start flex-shrink-0">
+                                                <Btn variant="outline" size="sm" onClick={() => updateMutation.mutate({ id: rule.id, input: { is_enabled: !rule.is_enabled } })}>
+                                                    {rule.is_enabled ? 'Disable' : 'Enable'}
+                                                </Btn>
+                                                <Btn variant="outline" size="sm" onClick={() => setEditingId(rule.id)} aria-label={`Edit ${rule.name}`}><Edit className="h-3 w-3" /></Btn>
+                                                <Btn variant="outline" size="sm" onClick={() => setRuleToDelete(rule)} aria-label={`Delete ${rule.name}`}><Trash2 className="h-3 w-3" /></Btn>
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <div className="soft-card">
+                <div className="p-4 border-b">
+                    <h3 className="font-medium text-gray-700">Execution Log</h3>
+                    <p className="text-xs text-gray-500 mt-1">The 50 most recent rule executions.</p>
+                </div>
+                {runsLoading ? (
+                    <div className="p-4"><ListSkeleton rows={3} /></div>
+                ) : runs.length === 0 ? (
+                    <p className="p-4 text-sm text-center text-muted">No rules have run yet.</p>
+                ) : (
+                    <ul className="divide-y">
+                        {runs.map(run => (
+                            <li key={run.id} className="p-3 text-sm">
+                                <div className="flex justify-between gap-4">
+                                    <p className="font-medium text-gray-800">
+                                        {run.rule_name}
+                                        <span className="font-normal text-muted"> · {run.patients?.name || 'Unknown patient'}</span>
+                                    </p>
+                                    <span className={cn('text-xs font-semibold', run.status === 'success' ? 'text-emerald-600' : 'text-red-600')}>
+                                        {run.status === 'success' ? 'Success' : 'Failed'}
+                                    </span>
+                                </div>
+                                <p className="text-xs text-muted">
+                                    {new Date(run.created_at).toLocaleString()} · {AUTOMATION_TRIGGERS[run.trigger_type]}{run.trigger_value ? `: ${run.trigger_value}` : ''}
+                                    {run.triggered_by && ` · by ${run.triggered_by}`}
+                                </p>
+                                {run.actions_taken.length > 0 && <p className="text-xs text-gray-600 mt-0.5">{run.actions_taken.join('; ')}</p>}
+                                {run.error && <p className="text-xs text-red-600 mt-0.5">{run.error}</p>}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <SimpleConfirmationModal
+                isOpen={!!ruleToDelete}
+                onClose={() => setRuleToDelete(null)}
+                onConfirm={() => ruleToDelete && deleteMutation.mutate(ruleToDelete.id)}
+                isLoading={deleteMutation.isPending}
+                title="Confirm Deletion"
+                message={`Are you sure you want to delete the automation rule "${ruleToDelete?.name}"? Its execution history is kept.`}
+                confirmButtonText="Yes, Delete"
+                confirmButtonVariant="danger"
+            />
+        </div>
+    );
+};
+
+export default AutomationRulesPanel;
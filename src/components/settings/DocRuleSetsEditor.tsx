@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Edit, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { Btn } from '../ui/Btn';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Checkbox } from '../ui/Checkbox';
+import ListSkeleton from '../ui/ListSkeleton';
+import SimpleConfirmationModal from '../ui/SimpleConfirmationModal';
+import { toast } from '../../lib/toast';
+import { useAuth } from '../../contexts/AuthContext';
+import { docLabel, docSections, labelMap } from '../../lib/docMapping';
+import { caseTypeOptions, equipmentCategoryOptions } from '../../lib/formConstants';
+import { listDocRuleSets, saveDocRuleSet, deleteDocRuleSet } from '../../api/docRuleSets.api';
+import type { DocRuleSet } from '../../lib/types';
+
+type RuleSetDraft = Omit<DocRuleSet, 'id'> & { id?: string };
+
+const emptyDraft: RuleSetDraft = {
+    name: '',
+    insurance_provider_id: null,
+    case_type: null,
+    equipment_category: null,
+    doc_keys: [],
+    is_active: true,
+};
+
+const anyOption = { value: '', label: 'Any' };
+
+/** Rule sets that decide which documents a referral requires, edited under Insurance Providers. */
+const DocRuleSetsEditor: React.FC<{ providers: { id: string; name: string }[] }> = ({ providers }) => {
+    const queryClient = useQueryClient();
+    const { user } = useAuth();
+    const [draft, setDraft] = useState<RuleSetDraft | null>(null);
+    const [ruleSetToDelete, setRuleSetToDelete] = useState<DocRuleSet | null>(null);
+
+    const { data: ruleSets = [], isLoading } = useQuery({
+        queryKey: ['doc_rule_sets'],
+        queryFn: listDocRuleSets,
+    });
+
+    const providerName = (id: string | null) => providers.find(p => p.id === id)?.name || 'Unknown provider';
+
+    const saveMutation = useMutation({
+        mutationFn: (ruleSet: RuleSetDraft) => saveDocRuleSet({ ...ruleSet, name: ruleSet.name.trim(), updated_by: user?.email || null }),
+        onSuccess: () => {
+            toast('Rule set saved.', 'ok');
+            queryClient.invalidateQueries({ queryKey: ['doc_rule_sets'] });
+            setDraft(null);
+        },
+        onError: (err: any) => toast(`Error: ${err.message}`, 'err'),
+    });
+
+    const deleteMutation = useMutation({
+        mutationFn: deleteDocRuleSet,
+        onSuccess: () => {
+            toast('Rule set deleted.', 'ok');
+            queryClient.invalidateQueries({ queryKey: ['doc_rule_sets'] });
+            setRuleSetToDelete(null);
+        },
+        onError: (err: any) => {
+            toast(`Error: ${err.message}`, 'err');
+            setRuleSetToDelete(null);
+        },
+    });
+
+    const toggleDoc = (key: string) =>
+        setDraft(d => d && ({ ...d, doc_keys: d.doc_keys.includes(key) ? d.doc_keys.filter(k => k !== key) : [...d.doc_keys, key] }));
+
+    const scopeLabel = (set: DocRuleSet) => {
+        const parts = [
+            set.insurance_provider_id && providerName(set.insurance_provider_id),
+            set.case_type,
+            set.equipment_category,
+        ].filter(Boolean);
+        return parts.length > 0 ? parts.join(' · ') : 'All referrals';
+    };
+
+    const renderForm = (current: RuleSetDraft) => (
+        <div className="space-y-3">
+            <Input id="rule-set-name" label="Name" value={current.name} onChange={e => setDraft({ ...current, name: e.target.value })} required />
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <Select
+                    id="rule-set-provider"
+                    label="Insurance Provider"
+                    value={current.insurance_provider_id || ''}
+                    options={[anyOption, ...providers.map(p => ({ value: p.id, label: p.name }))]}
+                    onChange={e => setDraft({ ...current, insurance_provider_id: e.target.value || null })}
+                />
+                <Select
+                    id="rule-set-case-type"
+                    label="Case Type"
+                    value={current.case_type || ''}
+                    options={[anyOption, ...caseTypeOptions]}
+                    onChange={e => setDraft({ ...current, case_type: e.target.value || null })}
+                />
+                <Select
+                    id="rule-set-equipment"
+                    label="Equipment Category"
+                    value={current.equipment_category || ''}
+                    options={[anyOption, ...equipmentCategoryOptions]}
+                    onChange={e => setDraft({ ...current, equipment_category: e.target.value || null })}
+                />
+            </div>
+            {docSections.map(section => (
+                <div key={section.id}>
+                    <h4 className="font-semibold text-gray-600 text-xs mb-1.5">{section.label}</h4>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-x-4 gap-y-2">
+                        {section.keys.map(key => (
+                            <Checkbox
+                                key={key}
+                                id={`rule-set-doc-${key}`}
+                                label={labelMap[key]}
+                                checked={current.doc_keys.includes(key)}
+                                onChange={() => toggleDoc(key)}
+                            />
+                        ))}
+                    </div>
+                </div>
+            ))}
+            <Checkbox id="rule-set-active" label="Active" checked={current.is_active} onChange={e => setDraft({ ...current, is_active: e.target.checked })} />
+            <div className="flex justify-end gap-2">
+                <Btn variant="ghost" size="sm" onClick={() => setDraft(null)} disabled={saveMutation.isPending}>Cancel</Btn>
+                <Btn size="sm" onClick={() => saveMutation.mutate(current)} disabled={!current.name.trim() || current.doc_keys.length === 0 || saveMutation.isPending}>
+                    {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                    Save
+                </Btn>
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="soft-card fade-in">
+            <div className="p-4 border-b flex justify-between items-start gap-4">
+                <div>
+                    <h2 className="text-base font-semibold text-gray-800">Documentation Rule Sets</h2>
+                    <p className="text-xs text-gray-500 mt-1">
+                        A referral requires the documents of every active rule set it matches. Blank fields match any provider, case type or equipment.
+                        Changing a patient's insurance or an order's equipment offers the resulting changes for review.
+                    </p>
+                </div>
+                {!draft && (
+                    <Btn size="sm" onClick={() => setDraft(emptyDraft)}><Plus className="h-4 w-4 mr-2" />Add Rule Set</Btn>
+                )}
+            </div>
+            <div className="p-4 space-y-2">
+                {draft && !draft.id && <div className="soft-card p-3">{renderForm(draft)}</div>}
+                {isLoading ? (
+                    <ListSkeleton rows={3} />
+                ) : ruleSets.length === 0 && !draft ? (
+                    <div className="text-center py-10 px-4 text-gray-500 bg-gray-50 rounded-lg">
+                        <p className="text-sm">No rule sets yet; new referrals get the standard documents.</p>
+                    </div>
+                ) : ruleSets.map(set => (
+                    <div key={set.id} className="soft-card p-3">
+                        {draft?.id === set.id ? renderForm(draft) : (
+                            <div className="flex justify-between items-start gap-3">
+                                <div>
+                                    <p className="font-bold text-gray-800 text-sm">
+                                        {set.name}
+                                        {!set.is_active && <span className="ml-2 text-xs font-normal text-muted">(inactive)</span>}
+                                    </p>
+                                    <p className="text-xs text-muted">{scopeLabel(set)}</p>
+                                    <div className="mt-2 flex flex-wrap gap-1.5">
+                                        {set.doc_keys.map(key => (
+                                            <span key={key} className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-zinc-800 text-xs text-gray-700">
+                                                {docLabel(key)}
+                                            </span>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div className="flex gap-1.5">
+                                    <Btn variant="outline" size="sm" onClick={() => setDraft({ ...set })} disabled={!!draft}><Edit className="h-3 w-3" /></Btn>
+                                    <Btn variant="outline" size="sm" onClick={() => setRuleSetToDelete(set)}><Trash2 className="h-3 w-3" /></Btn>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+            <SimpleConfirmationModal
+                isOpen={!!ruleSetToDelete}
+                onClose={() => setRuleSetToDelete(null)}
+                onConfirm={() => ruleSetToDelete && deleteMutation.mutate(ruleSetToDelete.id)}
+                isLoading={deleteMutation.isPending}
+                title="Delete Rule Set"
+                message={`Delete the rule set "${ruleSetToDelete?.name}"? Patients keep their current required documents.`}
+                confirmButtonText="Yes, Delete"
+                confirmButtonVariant="danger"
+            />
+        </div>
+    );
+};
+
+export default DocRuleSetsEditor;
@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Plus, RefreshCw, Save, Trash2 } from 'lucide-react';
+import { Btn } from '../ui/Btn';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import ListSkeleton from '../ui/ListSkeleton';
+import { toast } from '../../lib/toast';
+import { useAuth } from '../../contexts/AuthContext';
+import { docLabel, labelMap } from '../../lib/docMapping';
+import { VALIDITY_ANCHORS, expireDocuments } from '../../lib/docValidity';
+import { useValidityRules } from '../../hooks/useValidityRules';
+import { deleteValidityRule, saveValidityRule } from '../../api/documentValidity.api';
+import type { DocumentValidityRule, ValidityAnchor } from '../../lib/types';
+
+const anchorOptions = Object.entries(VALIDITY_ANCHORS).map(([value, label]) => ({ value, label }));
+
+const emptyRule: DocumentValidityRule = { doc_key: '', valid_days: 180, anchor: 'document_date', warn_days: 30, description: '' };
+
+const toDays = (value: string) => Math.max(0, parseInt(value, 10) || 0);
+
+/** Admin settings for how long each document type stays valid once Complete. */
+const DocumentValidityPanel: React.FC = () => {
+    const queryClient = useQueryClient();
+    const { user } = useAuth();
+    const { rules, isLoading } = useValidityRules();
+    const [drafts, setDrafts] = useState<DocumentValidityRule[]>([]);
+    const [newRule, setNewRule] = useState<DocumentValidityRule>(emptyRule);
+
+    useEffect(() => {
+        setDrafts(rules);
+    }, [rules]);
+
+    const unusedKeys = Object.keys(labelMap).filter(key => !rules.some(r => r.doc_key === key));
+    const keyOptions = [{ value: '', label: 'Select a document...' }, ...unusedKeys.map(key => ({ value: key, label: docLabel(key) }))];
+
+    const invalidate = () => {
+        queryClient.invalidateQueries({ queryKey: ['document_validity_rules'] });
+        queryClient.invalidateQueries({ queryKey: ['compliance_orders'] });
+    };
+
+    const saveMutation = useMutation({
+        mutationFn: (rule: DocumentValidityRule) => saveValidityRule({ ...rule, updated_by: user?.email || null }),
+        onSuccess: (_, rule) => {
+            toast(`${docLabel(rule.doc_key)} validity saved.`, 'ok');
+            if (rule.doc_key === newRule.doc_key) setNewRule(emptyRule);
+            invalidate();
+        },
+        onError: (err: any) => toast(`Error: ${err.message}`, 'err'),
+    });
+
+    const deleteMutation = useMutation({
+        mutationFn: deleteValidityRule,
+        onSuccess: () => {
+            toast('Validity rule removed.', 'ok');
+            invalidate();
+        },
+        onError: (err: any) => toast(`Error: ${err.message}`, 'err'),
+    });
+
+    const expireMutation = useMutation({
+        mutationFn: expireDocuments,
+        onSuccess: expired => {
+            toast(`${expired} document(s) marked Expired.`, 'ok');
+            queryClient.invalidateQueries({ queryKey: ['referrals_direct_all'] });
+            invalidate();
+        },
+        onError: (err: any) => toast(`Error: ${err.message}`, 'err'),
+    });
+
+    const updateDraft = (docKey: string, changes: Partial<DocumentValidityRule>) =>
+        setDrafts(ds => ds.map(d => (d.doc_key === docKey ? { ...d, ...changes } : d)));
+
+    const renderFields = (rule: DocumentValidityRule, onChange: (changes: Partial<DocumentValidityRule>) => void, idPrefix: string) => (
+        <>
+            <Input
+                id={`${idPrefix}-days`}
+                label="Valid (days)"
+                type="number"
+                min={1}
+                value={rule.valid_days}
+                onChange={e => onChange({ valid_days: toDays(e.target.value) })}
+                wrapperClassName="w-28"
+            />
+            <Select
+                id={`${idPrefix}-anchor`}
+                label="Counted from"
+                value={rule.anchor}
+                options={anchorOptions}
+                onChange={e => onChange({ anchor: e.target.value as ValidityAnchor })}
+                wrapperClassName="w-40"
+            />
+            <Input
+                id={`${idPrefix}-warn`}
+                label="Warn (days)"
+                type="number"
+                min={0}
+                value={rule.warn_days}
+                onChange={e => onChange({ warn_days: toDays(e.target.value) })}
+                wrapperClassName="w-28"
+            />
+        </>
+    );
+
+    return (
+        <div className="space-y-4 max-w-4xl fade-in">
+            <div className="soft-card">
+                <div className="p-4 border-b">
+                    <h2 className="text-base font-semibold text-gray-800">Document Validity</h2>
+                    <p className="text-xs text-gray-500 mt-1">
+                        A Complete document becomes Expired once this many days have passed since its anchor date, and shows as expiring inside the warning window.
+                    </p>
+                </div>
+                <div className="p-4 space-y-3">
+                    {isLoading ? (
+                        <ListSkeleton rows={3} />
+                    ) : drafts.length === 0 ? (
+                        <p className="text-sm text-center text-gray-500">No validity rules yet; documents never expire.</p>
+                    ) : (
+                        drafts.map(rule => (
+                            <div key={rule.doc_key} className="flex flex-col sm:flex-row sm:items-end gap-3 border-b pb-3 last:border-b-0">
+                                <div className="flex-1 text-sm">
+                                    <p className="font-medium text-gray-800">{docLabel(rule.doc_key)}</p>
+                                    <input
+                                        aria-label={`${docLabel(rule.doc_key)} description`}
+                                        value={rule.description || ''}
+                                        onChange={e => updateDraft(rule.doc_key, { description: e.target.value })}
+                                        placeholder="Description"
+                                        className="w-full text-xs text-gray-500 bg-transparent border-b border-transparent focus:border-gray-300 focus:outline-none"
+                                    />
+                                </div>
+                                {renderFields(rule, changes => updateDraft(rule.doc_key, changes), `validity-${rule.doc_key}`)}
+                                <div className="flex gap-1">
+                                    <Btn size="sm" variant="outline" onClick={() => saveMutation.mutate(rule)} disabled={saveMutation.isPending} aria-label="Save rule">
+                                        <Save className="h-4 w-4" />
+                                    </Btn>
+                                    <Btn size="sm" variant="ghost" onClick={() => deleteMutation.mutate(rule.doc_key)} disabled={deleteMutation.isPending} aria-label="Remove rule">
+                                        <Trash2 className="h-4 w-4 text-red-500" />
+                                    </Btn>
+                                </div>
+                            </div>
+                        ))
+                    )}
+                </div>
+                <div className="p-4 border-t flex flex-col sm:flex-row sm:items-end gap-3">
+                    <Select
+                        id="validity-new-key"
+                        label="Add Rule For"
+                        value={newRule.doc_key}
+                        options={keyOptions}
+                        onChange={e => setNewRule(r => ({ ...r, doc_key: e.target.value }))}
+                        wrapperClassName="flex-1"
+                    />
+                    {renderFields(newRule, changes => setNewRule(r => ({ ...r, ...changes })), 'validity-new')}
+                    <Btn size="sm" onClick={() => saveMutation.mutate(newRule)} disabled={!newRule.doc_key || newRule.valid_days < 1 || saveMutation.isPending}>
+                        <Plus className="h-4 w-4 mr-1.5" /> Add
+                    </Btn>
+                </div>
+                <div className="p-4 border-t flex justify-end">
+                    <Btn variant="outline" size="sm" onClick={() => expireMutation.mutate()} disabled={expireMutation.isPending}>
+                        {expireMutation.isPending ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1.5" />}
+                        Expire Now
+                    </Btn>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DocumentValidityPanel;
@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CheckCircle2, Inbox, Loader2, Paperclip, Save, Send, Trash2, XCircle } from 'lucide-react';
+import { Btn } from '../ui/Btn';
+import { Input } from '../ui/Input';
+import { Checkbox } from '../ui/Checkbox';
+import ListSkeleton from '../ui/ListSkeleton';
+import { toast } from '../../lib/toast';
+import { useAuth } from '../../contexts/AuthContext';
+import { getEmailTransportStatus, sendEmail } from '../../lib/emailService';
+import { clearDevMailbox, getEmailSettings, listDevMailbox, updateEmailSettings } from '../../api/emailSettings.api';
+import type { EmailSettings, EmailTransportName } from '../../lib/types';
+
+const TRANSPORTS: { value: EmailTransportName; label: string; description: string }[] = [
+    { value: 'resend', label: 'Resend', description: 'Sends through the Resend API. Set the RESEND_API_KEY secret on the send-email function.' },
+    { value: 'smtp', label: 'SMTP', description: "Sends through any SMTP server, such as your mail provider's. Set the SMTP_PASSWORD secret when the server needs a login." },
+    { value: 'local', label: 'Local mailbox', description: 'Nothing leaves the system; messages are kept in the mailbox below. Use for development and testing.' },
+];
+
+/** Admin settings for how the send-email function delivers every email the app sends. */
+const EmailSettingsPanel: React.FC = () => {
+    const queryClient = useQueryClient();
+    const { user } = useAuth();
+    const [form, setForm] = useState<EmailSettings | null>(null);
+    const [testAddress, setTestAddress] = useState(user?.email || '');
+    const [openMessageId, setOpenMessageId] = useState<string | null>(null);
+
+    const { data, isLoading } = useQuery({
+        queryKey: ['email_settings'],
+        queryFn: getEmailSettings,
+    });
+
+    const { data: status, error: statusError } = useQuery({
+        queryKey: ['email_transport_status'],
+        queryFn: getEmailTransportStatus,
+        retry: false,
+    });
+
+    const { data: mailbox = [] } = useQuery({
+        queryKey: ['dev_mailbox'],
+        queryFn: () => listDevMailbox(),
+        enabled: form?.transport === 'local',
+    });
+
+    useEffect(() => {
+        if (data) setForm(data);
+    }, [data]);
+
+    const saveMutation = useMutation({
+        mutationFn: (settings: EmailSettings) => updateEmailSettings({ ...settings, updated_by: user?.email || null }),
+        onSuccess: () => {
+            toast('Email settings saved.', 'ok');
+            queryClient.invalidateQueries({ queryKey: ['email_settings'] });
+            queryClient.invalidateQueries({ queryKey: ['email_transport_status'] });
+        },
+        onError: (err: any) => toast(`Error: ${err.message}`, 'err'),
+    });
+
+    const testMutation = useMutation({
+        mutationFn: () => sendEmail({
+            to: testAddress.trim(),
+            subject: 'Patient Sync test email',
+            text: `This test was sent by ${user?.email || 'an administrator'} to check the email settings.`,
+        }),
+        onSuccess: result => {
+            toast(`Test email sent with ${result.transport}.`, 'ok');
+            queryClient.invalidateQueries({ queryKey: ['dev_mailbox'] });
+        },
+        onError: (err: any) => toast(`Test failed: ${err.message}`, 'err'),
+    });
+
+    const clearMutation = useMutation({
+        mutationFn: clearDevMailbox,
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: ['dev_mailbox'] }),
+        onError: (err: any) => toast(`Error: ${err.message}`, 'err'),
+    });
+
+    if (isLoading || !form) {
+        return <div className="soft-card max-w-4xl p-4"><ListSkeleton rows={4} /></div>;
+    }
+
+    const isDirty = JSON.stringify(form) !== JSON.stringify(data);
+    const problem = status?.problems[form.transport];
+    const set = <K extends keyof EmailSettings>(field: K, value: EmailSettings[K]) => setForm({ ...form, [field]: value });
+
+    return (
+        <div className="space-y-4 max-w-4xl fade-in">
+            <div className="soft-card">
+                <div className="p-4 border-b">
+                    <h2 className="text-base font-semibold text-gray-800">Email Delivery</h2>
+                    <p className="text-xs text-gray-500 mt-1">
+                        Every email is sent by the send-email server function with the transport chosen here. Keys and passwords are function secrets and are never sent to the browser.
+                    </p>
+                </div>
+                <div className="p-4 space-y-4">
+                    <div className="space-y-2">
+                        {TRANSPORTS.map(t => (
+                            <label key={t.value} className="flex items-start gap-3 p-3 rounded-lg border cursor-pointer has-[:checked]:border-teal-500 has-[:checked]:bg-teal-50/50">
+                                <input
+                                    type="radio"
+                                    name="email-transport"
+                                    value={t.value}
+                                    checked={form.transport === t.value}
+                                    onChange={() => set('transport', t.value)}
+                                    className="mt-1 text-teal-600 focus:ring-teal-500"
+                                />
+                                <span>
+                                    <span className="block text-sm font-medium text-gray-800">{t.label}</span>
+                                    <span className="block text-xs text-gray-500">{t.description}</span>
+                                </span>
+                            </label>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        <Input id="email-from-name" label="From Name" value={form.from_name} onChange={e => set('from_name', e.target.value)} required />
+                        <Input id="email-from-address" label="From Address" type="email" value={form.from_address} onChange={e => set('from_address', e.target.value)} required />
+                        <Input id="email-reply-to" label="Reply-To" type="email" value={form.reply_to || ''} onChange={e => set('reply_to', e.target.value || null)} />
+                    </div>
+
+                    {form.transport === 'smtp' && (
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+                            <Input id="smtp-host" label="SMTP Host" value={form.smtp_host || ''} onChange={e => set('smtp_host', e.target.value || null)} placeholder="smtp.example.com" />
+                            <Input id="smtp-port" label="Port" type="number" min={1} value={form.smtp_port} onChange={e => set('smtp_port', parseInt(e.target.value, 10) || 587)} />
+                            <Input id="smtp-username" label="Username" value={form.smtp_username || ''} onChange={e => set('smtp_username', e.target.value || null)} />
+                            <Checkbox id="smtp-secure" label="Use TLS from the start (port 465)" checked={form.smtp_secure} onChange={e => set('smtp_secure', e.target.checked)} />
+                        </div>
+                    )}
+
+                    <div className="text-xs">
+                        {statusError ? (
+                            <p className="flex items-center gap-1.5 text-red-600"><XCircle className="h-4 w-4" /> The send-email function is not reachable: {(statusError as Error).message}</p>
+                        ) : !status ? (
+                            <p className="flex items-center gap-1.5 text-gray-500"><Loader2 className="h-4 w-4 animate-spin" /> Checking the send-email function...</p>
+                        ) : problem ? (
+                            <p className="flex items-center gap-1.5 text-amber-600"><XCircle className="h-4 w-4" /> {problem}</p>
+                        ) : (
+                            <p className="flex items-center gap-1.5 text-emerald-600"><CheckCircle2 className="h-4 w-4" /> {isDirty ? 'Ready once saved.' : 'Ready to send.'}</p>
+                        )}
+                    </div>
+
+                    <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-3 border-t pt-4">
+                        <div className="flex items-end gap-2">
+                            <Input id="email-test-address" label="Send Test To" type="email" value={testAddress} onChange={e => setTestAddress(e.target.value)} wrapperClassName="w-64" />
+                            <Btn variant="outline" size="sm" onClick={() => testMutation.mutate()} disabled={isDirty || !testAddress.includes('@') || testMutation.isPending} title={isDirty ? 'Save first' : undefined}>
+                                {testMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                                Send Test
+                            </Btn>
+                        </div>
+                        <Btn size="sm" onClick={() => saveMutation.mutate(form)} disabled={!isDirty || !form.from_name.trim() || !form.from_address.includes('@') || saveMutation.isPending}>
+                            {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                            Save
+                        </Btn>
+                    </div>
+                </div>
+            </div>
+
+            {form.transport === 'local' && (
+                <div className="soft-card">
+                    <div className="p-4 border-b flex justify-between items-center">
+                        <h3 className="text-sm font-semibold text-gray-800 flex items-center gap-2"><Inbox className="h-4 w-4" /> Local Mailbox</h3>
+                        <Btn variant="ghost" size="sm" onClick={() => clearMutation.mutate()} disabled={mailbox.length === 0 || clearMutation.isPending}>
+                            <Trash2 className="h-4 w-4 mr-1.5" /> Clear
+                        </Btn>
+                    </div>
+                    {mailbox.length === 0 ? (
+                        <p className="p-6 text-sm text-center text-gray-500">No messages yet.</p>
+                    ) : (
+                        <ul className="divide-y">
+                            {mailbox.map(message => (
+                                <li key={message.id} className="p-3 text-sm">
+                                    <button onClick={() => setOpenMessageId(openMessageId === message.id ? null : message.id)} className="w-full text-left focus-ring rounded">
+                                        <div className="flex justify-between gap-3">
+                                            <span className="font-medium text-gray-800 truncate">{message.subject}</span>
+                                            <span className="text-xs text-gray-500 flex-shrink-0">{new Date(message.created_at).toLocaleString()}</span>
+                                        </div>
+                                        <p className="text-xs text-gray-500">
+                                            To {message.to_addresses.join(', ')}
+                                            {message.attachments.length > 0 && <span className="ml-2 inline-flex items-center gap-0.5"><Paperclip className="h-3 w-3" />{message.attachments.length}</span>}
+                                        </p>
+                                    </button>
+                                    {openMessageId === message.id && (
+                                        <div className="mt-2 space-y-2">
+                                            <pre className="whitespace-pre-wrap text-xs bg-gray-50 dark:bg-zinc-800 rounded p-2">{message.text_body || '(HTML only)'}</pre>
+                                            {message.attachments.map(a => (
+                                                <p key={a.filename} className="text-xs text-gray-500">{a.filename} · {a.content_type || 'unknown type'} · {Math.ceil(a.size_bytes / 1024)} KB</p>
+                                            ))}
+                                        </div>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default EmailSettingsPanel;
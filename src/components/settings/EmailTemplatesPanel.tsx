@@ -0,0 +1,254 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, Loader2, RotateCcw, Save } from 'lucide-react';
+import { subDays } from 'date-fns';
+import { Btn } from '../ui/Btn';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Textarea } from '../ui/Textarea';
+import ListSkeleton from '../ui/ListSkeleton';
+import { toast } from '../../lib/toast';
+import { cn } from '../../lib/utils';
+import { supabase } from '../../lib/supabaseClient';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePracticeSettings } from '../../hooks/usePracticeSettings';
+import {
+    EMAIL_TEMPLATES,
+    MERGE_FIELDS,
+    commonMergeValues,
+    orderMergeValues,
+    renderEmailTemplate,
+    resolveEmailTemplate,
+    unknownMergeFields,
+    type EmailTemplateContent,
+    type EmailTemplateKey,
+    type MergeValues,
+} from '../../lib/emailTemplates';
+import { docRequestMergeValues, findDoctor, outstandingDocs, requestDueDate } from '../../lib/docRequests';
+import { DIGEST_SECTIONS, fetchDigestValues, type DigestOptions } from '../../lib/digest';
+import { getDigestSubscription } from '../../api/digestSubscriptions.api';
+import { listEmailTemplateOverrides, resetEmailTemplate, saveEmailTemplate } from '../../api/emailTemplates.api';
+import type { DigestSection, Doctor, Order } from '../../lib/types';
+
+const TEMPLATE_KEYS = Object.keys(EMAIL_TEMPLATES) as EmailTemplateKey[];
+
+/** Admin editor for the wording of generated emails and letters, previewed against a real order. */
+const EmailTemplatesPanel: React.FC = () => {
+    const queryClient = useQueryClient();
+    const { user, profile } = useAuth();
+    const { practice } = usePracticeSettings();
+    const bodyRef = useRef<HTMLTextAreaElement>(null);
+    const [selectedKey, setSelectedKey] = useState<EmailTemplateKey>('vendor_par_packet');
+    const [draft, setDraft] = useState<EmailTemplateContent>({ subject: '', body: '' });
+    const [previewOrderId, setPreviewOrderId] = useState('');
+
+    const definition = EMAIL_TEMPLATES[selectedKey];
+
+    const { data: overrides = [], isLoading } = useQuery({
+        queryKey: ['email_templates'],
+        queryFn: listEmailTemplateOverrides,
+    });
+    const override = overrides.find(o => o.key === selectedKey) || null;
+    const saved = resolveEmailTemplate(selectedKey, override);
+
+    const { data: orders = [] } = useQuery({
+        queryKey: ['template_preview_orders'],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('orders')
+                .select('*, patients(*), vendors(*)')
+                .eq('is_archived', false)
+                .order('created_at', { ascending: false })
+                .limit(100);
+            if (error) throw error;
+            return (data || []) as Order[];
+        },
+    });
+
+    const { data: doctors = [] } = useQuery({
+        queryKey: ['doctors'],
+        queryFn: async () => {
+            const { data, error } = await supabase.from('doctors').select('*').order('name');
+            if (error) throw error;
+            return (data || []) as Doctor[];
+        },
+    });
+
+    // Your own digest (or a default daily one) fills the digest fields.
+    const { data: digestPreview } = useQuery({
+        queryKey: ['digest_template_preview', user?.id],
+        queryFn: async () => {
+            const subscription = await getDigestSubscription(user!.id);
+            const options: DigestOptions = subscription ?? {
+                user_id: user!.id, frequency: 'daily', send_day: 1, sections: Object.keys(DIGEST_SECTIONS) as DigestSection[],
+                scope: 'mine', filters: {}, last_sent_at: null,
+            };
+            return fetchDigestValues(options);
+        },
+        enabled: selectedKey === 'digest' && !!user,
+    });
+
+    // Reload the editor when switching templates or after a save or reset.
+    useEffect(() => {
+        setDraft({ subject: saved.subject, body: saved.body });
+    }, [selectedKey, saved.subject, saved.body]);
+
+    useEffect(() => {
+        if (!previewOrderId && orders.length > 0) setPreviewOrderId(orders[0].id);
+    }, [orders, previewOrderId]);
+
+    const previewOrder = orders.find(o => o.id === previewOrderId) || null;
+
+    const previewValues = useMemo<MergeValues>(() => {
+        const values = commonMergeValues(profile ?? { email: user?.email }, practice);
+        if (selectedKey === 'digest') {
+            return digestPreview ? { ...values, ...digestPreview } : values;
+        }
+        if (!previewOrder) return values;
+        if (selectedKey === 'doc_request' || selectedKey === 'doc_request_reminder') {
+            const physician = previewOrder.patients?.referring_physician || '';
+            const doctor = findDoctor(doctors, physician);
+            const letter = {
+                doctor,
+                physicianName: doctor?.name || physician || 'the referring doctor',
+                orders: [{ order: previewOrder, docs: outstandingDocs(previewOrder) }],
+                reminder: selectedKey === 'doc_request_reminder' ? { number: 1, firstSentAt: subDays(new Date(), 7).toISOString() } : undefined,
+            };
+            return { ...values, ...orderMergeValues(previewOrder), ...(practice ? docRequestMergeValues(letter, practice, requestDueDate(practice), profile ?? { email: user?.email }) : {}) };
+        }
+        return { ...values, ...orderMergeValues(previewOrder) };
+    }, [selectedKey, previewOrder, digestPreview, doctors, practice, profile, user?.email]);
+
+    const preview = renderEmailTemplate(draft, previewValues);
+    const unavailable = unknownMergeFields(draft, Object.fromEntries(definition.fields.map(f => [f, ''])));
+    const isDirty = draft.subject !== saved.subject || draft.body !== saved.body;
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ['email_templates'] });
+
+    const saveMutation = useMutation({
+        mutationFn: () => saveEmailTemplate({ key: selectedKey, subject: draft.subject.trim(), body: draft.body, updated_by: user?.email || null }),
+        onSuccess: () => {
+            toast(`${definition.name} template saved.`, 'ok');
+            invalidate();
+        },
+        onError: (err: any) => toast(`Error: ${err.message}`, 'err'),
+    });
+
+    const resetMutation = useMutation({
+        mutationFn: () => resetEmailTemplate(selectedKey),
+        onSuccess: () => {
+            toast(`${definition.name} template reset to the default.`, 'ok');
+            invalidate();
+        },
+        onError: (err: any) => toast(`Error: ${err.message}`, 'err'),
+    });
+
+    /** Inserts the field at the body's cursor position. */
+    const insertField = (field: string) => {
+        const token = `{{${field}}}`;
+        const el = bodyRef.current;
+        const start = el?.selectionStart ?? draft.body.length;
+        const end = el?.selectionEnd ?? draft.body.length;
+        setDraft({ ...draft, body: draft.body.slice(0, start) + token + draft.body.slice(end) });
+        requestAnimationFrame(() => {
+            el?.focus();
+            el?.setSelectionRange(start + token.length, start + token.length);
+        });
+    };
+
+    if (isLoading) {
+        return <div className="soft-card max-w-5xl p-4"><ListSkeleton rows={4} /></div>;
+    }
+
+    return (
+        <div className="soft-card max-w-5xl fade-in">
+            <div className="p-4 border-b">
+                <h2 className="text-base font-semibold text-gray-800">Email Templates</h2>
+                <p className="text-xs text-gray-500 mt-1">
+                    Wording for generated emails and letters. Merge fields like {'{{patient.name}}'} are filled in when each one is sent.
+                </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-[14rem_1fr]">
+                <nav className="border-b md:border-b-0 md:border-r p-2 space-y-1">
+                    {TEMPLATE_KEYS.map(key => (
+                        <button
+                            key={key}
+                            onClick={() => setSelectedKey(key)}
+                            className={cn(
+                                'w-full text-left px-3 py-2 rounded-lg text-sm focus-ring',
+                                key === selectedKey ? 'bg-teal-50 text-teal-800 font-medium dark:bg-teal-900/30 dark:text-teal-200' : 'text-gray-700 hover:bg-gray-50 dark:text-gray-300 dark:hover:bg-zinc-800',
+                            )}
+                        >
+                            {EMAIL_TEMPLATES[key].name}
+                            {overrides.some(o => o.key === key) && <span className="block text-xs font-normal text-gray-500">Edited</span>}
+                        </button>
+                    ))}
+                </nav>
+
+                <div className="p-4 space-y-4 min-w-0">
+                    <p className="text-xs text-gray-500">{definition.description}</p>
+
+                    <Input id="template-subject" label={selectedKey.startsWith('doc_request') ? 'Letter Title' : 'Subject'} value={draft.subject} onChange={e => setDraft({ ...draft, subject: e.target.value })} />
+                    <Textarea ref={bodyRef} id="template-body" label="Body" rows={10} value={draft.body} onChange={e => setDraft({ ...draft, body: e.target.value })} className="font-mono text-xs" />
+
+                    <div>
+                        <p className="text-xs font-medium text-gray-600 mb-1.5">Insert a merge field</p>
+                        <div className="flex flex-wrap gap-1.5">
+                            {definition.fields.map(field => (
+                                <button
+                                    key={field}
+                                    onClick={() => insertField(field)}
+                                    title={MERGE_FIELDS[field]}
+                                    className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700 hover:bg-teal-100 hover:text-teal-800 dark:bg-zinc-800 dark:text-gray-300 focus-ring"
+                                >
+                                    {`{{${field}}}`}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {unavailable.length > 0 && (
+                        <p className="flex items-start gap-1.5 text-xs text-amber-700 dark:text-amber-300">
+                            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                            {unavailable.map(f => `{{${f}}}`).join(', ')} {unavailable.length === 1 ? 'has' : 'have'} no value in this template and will be sent as written.
+                        </p>
+                    )}
+
+                    <div className="border-t pt-4 space-y-3">
+                        <div className="flex flex-wrap items-end justify-between gap-3">
+                            <h3 className="text-sm font-semibold text-gray-800">Preview</h3>
+                            {definition.usesOrder && (
+                                <Select
+                                    id="template-preview-order"
+                                    label="Preview With Order"
+                                    wrapperClassName="w-72"
+                                    value={previewOrderId}
+                                    onChange={e => setPreviewOrderId(e.target.value)}
+                                    options={orders.length === 0
+                                        ? [{ value: '', label: 'No active orders' }]
+                                        : orders.map(o => ({ value: o.id, label: `${o.patients?.name || 'Unknown'} - ${o.workflow_stage || 'No stage'}` }))}
+                                />
+                            )}
+                        </div>
+                        <div className="rounded-lg border bg-gray-50 dark:bg-zinc-800/50 p-3">
+                            <p className="text-sm font-semibold text-gray-800 dark:text-gray-100">{preview.subject}</p>
+                            <pre className="mt-2 whitespace-pre-wrap font-sans text-sm text-gray-700 dark:text-gray-300">{preview.body}</pre>
+                        </div>
+                    </div>
+
+                    <div className="flex justify-end gap-2 border-t pt-4">
+                        <Btn variant="ghost" size="sm" onClick={() => resetMutation.mutate()} disabled={!override || resetMutation.isPending}>
+                            <RotateCcw className="h-4 w-4 mr-2" /> Reset to Default
+                        </Btn>
+                        <Btn size="sm" onClick={() => saveMutation.mutate()} disabled={!isDirty || !draft.subject.trim() || !draft.body.trim() || saveMutation.isPending}>
+                            {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                            Save
+                        </Btn>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default EmailTemplatesPanel;
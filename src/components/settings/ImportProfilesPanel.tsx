@@ -0,0 +1,311 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Btn } from '../ui/Btn';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Checkbox } from '../ui/Checkbox';
+import { Plus, Loader2, Edit, Save, ChevronDown, ChevronRight, Trash2, Star, X } from 'lucide-react';
+import { toast } from '../../lib/toast';
+import ListSkeleton from '../ui/ListSkeleton';
+import { motion, AnimatePresence } from 'framer-motion';
+import SimpleConfirmationModal from '../ui/SimpleConfirmationModal';
+import type { ImportProfile } from '../../lib/types';
+import { IMPORT_TARGET_FIELDS, DEDUPE_FIELD_COLUMNS } from '../../lib/importProfiles';
+import {
+    listImportProfiles,
+    createImportProfile,
+    updateImportProfile,
+    deleteImportProfile,
+    type ImportProfileInput,
+} from '../../api/importProfiles.api';
+
+type Pair = { key: string; value: string };
+
+interface FormState {
+    name: string;
+    description: string;
+    headerRow: string; // 1-based, as shown to the user
+    fields: Pair[];
+    constants: Pair[];
+    defaults: Pair[];
+    dedupe_keys: string[];
+    is_default: boolean;
+}
+
+const toPairs = (obj: Record<string, string> | null | undefined): Pair[] =>
+    Object.entries(obj || {}).map(([key, value]) => ({ key, value: String(value ?? '') }));
+
+const fromPairs = (pairs: Pair[]): Record<string, string> =>
+    pairs.reduce((acc, { key, value }) => {
+        if (key.trim()) acc[key.trim()] = value.trim();
+        return acc;
+    }, {} as Record<string, string>);
+
+const emptyForm: FormState = {
+    name: '',
+    description: '',
+    headerRow: '1',
+    fields: [{ key: '', value: '' }],
+    constants: [],
+    defaults: [],
+    dedupe_keys: ['patient_name', 'insurance_primary'],
+    is_default: false,
+};
+
+const formFromProfile = (p: ImportProfile): FormState => ({
+    name: p.name,
+    description: p.description || '',
+    headerRow: String(p.header_row_index + 1),
+    fields: toPairs(p.fields),
+    constants: toPairs(p.constants),
+    defaults: toPairs(p.defaults),
+    dedupe_keys: p.dedupe_keys || [],
+    is_default: p.is_default,
+});
+
+const PairEditor: React.FC<{
+    title: string;
+    keyLabel: string;
+    valueLabel: string;
+    pairs: Pair[];
+    onChange: (pairs: Pair[]) => void;
+    valueIsTarget?: boolean;
+    keyIsTarget?: boolean;
+}> = ({ title, keyLabel, valueLabel, pairs, onChange, valueIsTarget, keyIsTarget }) => {
+    const update = (i: number, patch: Partial<Pair>) => onChange(pairs.map((p, idx) => idx === i ? { ...p, ...patch } : p));
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium text-gray-700">{title}</h4>
+                <Btn variant="ghost" size="sm" onClick={() => onChange([...pairs, { key: '', value: '' }])}><Plus className="h-3 w-3" /> Add</Btn>
+            </div>
+            {pairs.length === 0 && <p className="text-xs text-muted">None.</p>}
+            {pairs.map((pair, i) => (
+                <div key={i} className="flex items-end gap-2">
+                    {keyIsTarget ? (
+                        <Select label={keyLabel} value={pair.key} onChange={e => update(i, { key: e.target.value })} options={IMPORT_TARGET_FIELDS} wrapperClassName="flex-1" />
+                    ) : (
+                        <Input label={keyLabel} value={pair.key} onChange={e => update(i, { key: e.target.value })} wrapperClassName="flex-1" />
+                    )}
+                    {valueIsTarget ? (
+                        <Select label={valueLabel} value={pair.value} onChange={e => update(i, { value: e.target.value })} options={IMPORT_TARGET_FIELDS} wrapperClassName="flex-1" />
+                    ) : (
+                        <Input label={valueLabel} value={pair.value} onChange={e => update(i, { value: e.target.value })} wrapperClassName="flex-1" />
+                    )}
+                    <Btn variant="outline" size="sm" className="mb-1" onClick={() => onChange(pairs.filter((_, idx) => idx !== i))} aria-label="Remove"><X className="h-3 w-3" /></Btn>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const ProfileForm: React.FC<{
+    initial: FormState;
+    isSaving: boolean;
+    submitLabel: string;
+    onSubmit: (input: ImportProfileInput) => void;
+    onCancel?: () => void;
+}> = ({ initial, isSaving, submitLabel, onSubmit, onCancel }) => {
+    const [form, setForm] = useState<FormState>(initial);
+
+    const handleSubmit = () => {
+        const headerRow = parseInt(form.headerRow, 10);
+        if (!form.name.trim()) {
+            toast('Profile name is required.', 'warning');
+            return;
+        }
+        if (isNaN(headerRow) || headerRow < 1) {
+            toast('Header row must be 1 or greater.', 'warning');
+            return;
+        }
+        const fields = fromPairs(form.fields);
+        if (Object.keys(fields).length === 0) {
+            toast('Map at least one column.', 'warning');
+            return;
+        }
+        onSubmit({
+            name: form.name.trim(),
+            description: form.description.trim() || null,
+            header_row_index: headerRow - 1,
+            fields,
+            constants: fromPairs(form.constants),
+            defaults: fromPairs(form.defaults),
+            dedupe_keys: form.dedupe_keys,
+            is_default: form.is_default,
+        });
+    };
+
+    const toggleDedupeKey = (key: string) => setForm(f => ({
+        ...f,
+        dedupe_keys: f.dedupe_keys.includes(key) ? f.dedupe_keys.filter(k => k !== key) : [...f.dedupe_keys, key],
+    }));
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <Input label="Profile Name" value={form.name} onChange={e => setForm(f => ({ ...f, name: e.target.value }))} required />
+                <Input label="Description" value={form.description} onChange={e => setForm(f => ({ ...f, description: e.target.value }))} />
+                <Input label="Header Row" type="number" min={1} value={form.headerRow} onChange={e => setForm(f => ({ ...f, headerRow: e.target.value }))} />
+            </div>
+            <PairEditor title="Column Mappings" keyLabel="Source Column" valueLabel="Target Field" valueIsTarget pairs={form.fields} onChange={fields => setForm(f => ({ ...f, fields }))} />
+            <PairEditor title="Constants (always applied)" keyLabel="Field" valueLabel="Value" keyIsTarget pairs={form.constants} onChange={constants => setForm(f => ({ ...f, constants }))} />
+            <PairEditor title="Defaults (used when blank)" keyLabel="Field" valueLabel="Value" keyIsTarget pairs={form.defaults} onChange={defaults => setForm(f => ({ ...f, defaults }))} />
+            <div className="space-y-2">
+                <h4 className="text-sm font-medium text-gray-700">Dedupe Keys</h4>
+                <div className="flex flex-wrap gap-4">
+                    {IMPORT_TARGET_FIELDS.filter(t => t.value in DEDUPE_FIELD_COLUMNS).map(t => (
+                        <Checkbox key={t.value} id={`dedupe-${t.value}`} label={t.label} checked={form.dedupe_keys.includes(t.value)} onChange={() => toggleDedupeKey(t.value)} />
+                    ))}
+                </div>
+            </div>
+            <Checkbox id="import-profile-default" label="Default profile" description="Used when auto-detection finds no match." checked={form.is_default} onChange={e => setForm(f => ({ ...f, is_default: e.target.checked }))} />
+            <div className="flex justify-end gap-2">
+                {onCancel && <Btn variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>Cancel</Btn>}
+                <Btn size="sm" onClick={handleSubmit} disabled={isSaving}>
+                    {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                    {submitLabel}
+                </Btn>
+            </div>
+        </div>
+    );
+};
+
+const ImportProfilesPanel: React.FC = () => {
+    const queryClient = useQueryClient();
+    const [showAddForm, setShowAddForm] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [profileToDelete, setProfileToDelete] = useState<ImportProfile | null>(null);
+
+    const { data: profiles = [], isLoading, error } = useQuery<ImportProfile[], Error>({
+        queryKey: ['import_profiles'],
+        queryFn: listImportProfiles,
+    });
+
+    const onMutationError = (err: any) => {
+        if (err.code === '23505') {
+            toast('A profile with this name already exists.', 'warning');
+        } else {
+            toast(`Error: ${err.message}`, 'err');
+        }
+    };
+
+    const addMutation = useMutation({
+        mutationFn: createImportProfile,
+        onSuccess: () => {
+            toast('Import profile added.', 'ok');
+            queryClient.invalidateQueries({ queryKey: ['import_profiles'] });
+            setShowAddForm(false);
+        },
+        onError: onMutationError,
+    });
+
+    const updateMutation = useMutation({
+        mutationFn: ({ id, input }: { id: string; input: ImportProfileInput }) => updateImportProfile(id, input),
+        onSuccess: () => {
+            toast('Import profile updated.', 'ok');
+            queryClient.invalidateQueries({ queryKey: ['import_profiles'] });
+            setEditingId(null);
+        },
+        onError: onMutationError,
+    });
+
+    const deleteMutation = useMutation({
+        mutationFn: deleteImportProfile,
+        onSuccess: () => {
+            toast('Import profile deleted.', 'ok');
+            queryClient.invalidateQueries({ queryKey: ['import_profiles'] });
+            setProfileToDelete(null);
+        },
+        onError: (err: any) => {
+            toast(`Error: ${err.message}`, 'err');
+            setProfileToDelete(null);
+        }
+    });
+
+    return (
+        <div className="soft-card max-w-4xl fade-in">
+            <div className="p-4 border-b">
+                <h2 className="text-base font-semibold text-gray-800">Import Profiles</h2>
+                <p className="text-xs text-gray-500 mt-1">Column mappings used by the report import wizard, one per rep or vendor layout.</p>
+            </div>
+            <div className="p-4 space-y-4">
+                <div className="border-b pb-4">
+                    <button onClick={() => setShowAddForm(s => !s)} className="w-full flex justify-between items-center text-left font-medium">
+                        Add New Profile
+                        {showAddForm ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    </button>
+                    <AnimatePresence>
+                    {showAddForm && (
+                        <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden">
+                            <div className="pt-4">
+                                <ProfileForm initial={emptyForm} isSaving={addMutation.isPending} submitLabel="Add Profile" onSubmit={input => addMutation.mutate(input)} />
+                            </div>
+                        </motion.div>
+                    )}
+                    </AnimatePresence>
+                </div>
+
+                <div>
+                    <h3 className="font-medium text-gray-700 mb-2">Existing Profiles</h3>
+                    {isLoading ? (
+                        <ListSkeleton rows={3} />
+                    ) : error ? (
+                        <div className="text-center py-10 px-4 text-red-600 bg-red-50 rounded-lg">
+                            <p className="font-semibold">Error Loading Profiles</p>
+                            <p className="text-sm mt-1">{error.message}</p>
+                        </div>
+                    ) : (
+                        <div className="space-y-2">
+                            {profiles.length === 0 ? (
+                                <div className="text-center py-10 px-4 text-gray-500 bg-gray-50 rounded-lg">
+                                    <p className="text-sm">No import profiles yet. The built-in Open Order Report mapping will be used.</p>
+                                </div>
+                            ) : profiles.map(p => (
+                                <div key={p.id} className="soft-card p-3 lift elevate">
+                                    {editingId === p.id ? (
+                                        <ProfileForm
+                                            initial={formFromProfile(p)}
+                                            isSaving={updateMutation.isPending}
+                                            submitLabel="Save"
+                                            onSubmit={input => updateMutation.mutate({ id: p.id, input })}
+                                            onCancel={() => setEditingId(null)}
+                                        />
+                                    ) : (
+                                        <div className="flex justify-between items-start">
+                                            <div className="text-sm">
+                                                <p className="font-bold text-gray-800 flex items-center gap-1.5">
+                                                    {p.name}
+                                                    {p.is_default && <Star className="h-3.5 w-3.5 text-amber-500 fill-amber-400" aria-label="Default profile" />}
+                                                </p>
+                                                {p.description && <p className="text-gray-500">{p.description}</p>}
+                                                <p className="text-xs text-muted mt-1">
+                                                    Header row {p.header_row_index + 1} · {Object.keys(p.fields || {}).length} mapped columns · Dedupe on {p.dedupe_keys.join(' + ') || 'nothing'}
+                                                </p>
+                                            </div>
+                                            <div className="flex gap-1.5 self-start flex-shrink-0">
+                                                <Btn variant="outline" size="sm" onClick={() => setEditingId(p.id)} aria-label={`Edit ${p.name}`}><Edit className="h-3 w-3" /></Btn>
+                                                <Btn variant="outline" size="sm" onClick={() => setProfileToDelete(p)} aria-label={`Delete ${p.name}`}><Trash2 className="h-3 w-3" /></Btn>
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+            <SimpleConfirmationModal
+                isOpen={!!profileToDelete}
+                onClose={() => setProfileToDelete(null)}
+                onConfirm={() => profileToDelete && deleteMutation.mutate(profileToDelete.id)}
+                isLoading={deleteMutation.isPending}
+                title="Confirm Deletion"
+                message={`Are you sure you want to delete the import profile "${profileToDelete?.name}"?`}
+                confirmButtonText="Yes, Delete"
+                confirmButtonVariant="danger"
+            />
+        </div>
+    );
+};
+
+export default ImportProfilesPanel;
@@ -8,6 +8,8 @@ import { toast } from '../../lib/toast';
 import ListSkeleton from '../ui/ListSkeleton';
 import { motion, AnimatePresence } from 'framer-motion';
 import SimpleConfirmationModal from '../ui/SimpleConfirmationModal';
+import DocRuleSetsEditor from './DocRuleSetsEditor';
+import { listInsuranceAliases, addInsuranceAlias, deleteInsuranceAlias, type InsuranceAlias } from '../../api/insuranceAliases.api';
 
 interface InsuranceProvider {
     id: string;
@@ -16,6 +18,59 @@ interface InsuranceProvider {
     source: string | null;
 }
 
+const AliasChips: React.FC<{ providerId: string; aliases: InsuranceAlias[] }> = ({ providerId, aliases }) => {
+    const queryClient = useQueryClient();
+    const [newAlias, setNewAlias] = useState('');
+
+    const addAliasMutation = useMutation({
+        mutationFn: (alias: string) => addInsuranceAlias(providerId, alias),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['insurance_aliases'] });
+            setNewAlias('');
+        },
+        onError: (error: any) => {
+            if (error.code === '23505') {
+                toast('That alias is already assigned to a provider.', 'warning');
+            } else {
+                toast(`Error: ${error.message}`, 'err');
+            }
+        }
+    });
+
+    const deleteAliasMutation = useMutation({
+        mutationFn: deleteInsuranceAlias,
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: ['insurance_aliases'] }),
+        onError: (error: any) => toast(`Error: ${error.message}`, 'err'),
+    });
+
+    const handleAddAlias = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (newAlias.trim()) addAliasMutation.mutate(newAlias);
+    };
+
+    return (
+        <div className="mt-2 flex flex-wrap items-center gap-1.5">
+            {aliases.map(a => (
+                <span key={a.id} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-gray-100 dark:bg-zinc-800 text-xs text-gray-700">
+                    {a.alias}
+                    <button onClick={() => deleteAliasMutation.mutate(a.id)} disabled={deleteAliasMutation.isPending} aria-label={`Remove alias ${a.alias}`} className="hover:text-red-500">
+                        <X className="h-3 w-3" />
+                    </button>
+                </span>
+            ))}
+            <form onSubmit={handleAddAlias} className="inline-flex">
+                <input
+                    value={newAlias}
+                    onChange={e => setNewAlias(e.target.value)}
+                    placeholder="Add alias…"
+                    aria-label="Add alias"
+                    className="h-6 w-28 px-2 text-xs rounded-full border border-dashed border-gray-300 dark:border-zinc-700 bg-transparent"
+                />
+            </form>
+        </div>
+    );
+};
+
 const InsurancePanel: React.FC = () => {
     const queryClient = useQueryClient();
     const [showAddForm, setShowAddForm] = useState(false);
@@ -33,6 +88,12 @@ const InsurancePanel: React.FC = () => {
         }
     });
 
+    const { data: aliases = [] } = useQuery<InsuranceAlias[]>({
+        queryKey: ['insurance_aliases'],
+        queryFn: listInsuranceAliases,
+        enabled: providers.length > 0,
+    });
+
     const { data: usedProvidersData } = useQuery({
         queryKey: ['used_insurance_providers'],
         queryFn: async () => {
@@ -133,95 +194,99 @@ const InsurancePanel: React.FC = () => {
     const isSchemaError = providersError?.message.includes('relation "public.insurance_providers" does not exist');
 
     return (
-        <div className="soft-card max-w-4xl fade-in">
-            <div className="p-4 border-b">
-                <h2 className="text-base font-semibold text-gray-800">Manage Insurance Providers</h2>
-                <p className="text-xs text-gray-500 mt-1">Add, edit, or remove insurance providers from the list.</p>
-            </div>
-            <div className="p-4 space-y-4">
-                <div className="border-b pb-4">
-                    <button onClick={() => setShowAddForm(s => !s)} className="w-full flex justify-between items-center text-left font-medium">
-                        Add New Provider
-                        {showAddForm ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
-                    </button>
-                    <AnimatePresence>
-                    {showAddForm && (
-                        <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden">
-                            <div className="pt-4 flex items-end gap-2">
-                                <Input label="Provider Name" id="providerName" value={newProviderName} onChange={e => setNewProviderName(e.target.value)} required wrapperClassName="flex-1" />
-                                <Btn onClick={handleAdd} disabled={addMutation.isPending} size="sm">
-                                    {addMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
-                                    Add Provider
-                                </Btn>
-                            </div>
-                        </motion.div>
-                    )}
-                    </AnimatePresence>
+        <div className="space-y-4 max-w-4xl">
+            <div className="soft-card fade-in">
+                <div className="p-4 border-b">
+                    <h2 className="text-base font-semibold text-gray-800">Manage Insurance Providers</h2>
+                    <p className="text-xs text-gray-500 mt-1">Add, edit, or remove insurance providers from the list. Aliases (e.g. "UHC") are matched to the provider during imports.</p>
                 </div>
-
-                <div>
-                    <h3 className="font-medium text-gray-700 mb-2">Existing Providers</h3>
-                    {isLoadingProviders ? (
-                        <ListSkeleton rows={3} />
-                    ) : isSchemaError ? (
-                        <div className="text-center py-10 px-4 text-red-600 bg-red-50 rounded-lg">
-                            <p className="font-semibold">Table Not Found</p>
-                            <p className="text-sm mt-1">The 'insurance_providers' table does not exist. Please run the required database migration.</p>
-                        </div>
-                    ) : providersError ? (
-                         <div className="text-center py-10 px-4 text-red-600 bg-red-50 rounded-lg">
-                            <p className="font-semibold">Error Loading Providers</p>
-                            <p className="text-sm mt-1">{providersError.message}</p>
-                        </div>
-                    ) : (
-                        <div className="space-y-2 max-h-[30rem] overflow-y-auto pr-2">
-                            {providers.length === 0 ? (
-                                <div className="text-center py-10 px-4 text-gray-500 bg-gray-50 rounded-lg">
-                                    <p className="text-sm">No insurance providers have been added yet.</p>
-                                </div>
-                            ) : providers.map(p => (
-                                <div key={p.id} className="soft-card p-3 lift elevate">
-                                    <AnimatePresence mode="wait">
-                                    {editingProvider?.id === p.id ? (
-                                        <motion.div key="edit" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="space-y-3">
-                                            <Input label="Edit Name" value={editingName} onChange={e => setEditingName(e.target.value)} />
-                                            <div className="flex justify-end gap-2">
-                                                <Btn variant="ghost" size="sm" onClick={() => setEditingProvider(null)} disabled={updateMutation.isPending}>Cancel</Btn>
-                                                <Btn size="sm" onClick={handleUpdate} disabled={updateMutation.isPending}>
-                                                    {updateMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
-                                                    Save
-                                                </Btn>
-                                            </div>
-                                        </motion.div>
-                                    ) : (
-                                        <motion.div key="view" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="flex justify-between items-center">
-                                            <div>
-                                                <p className="font-bold text-gray-800 text-sm">{p.name}</p>
-                                                {p.source && <span className="text-xs text-muted">Source: {p.source}</span>}
-                                            </div>
-                                            <div className="flex gap-1.5">
-                                                <Btn variant="outline" size="sm" onClick={() => { setEditingProvider(p); setEditingName(p.name); }}><Edit className="h-3 w-3" /></Btn>
-                                                <Btn variant="outline" size="sm" onClick={() => setProviderToDelete(p)} disabled={usedProviderIdsSet.has(p.id)} title={usedProviderIdsSet.has(p.id) ? 'Cannot delete: Provider is in use by one or more patients.' : 'Delete Provider'}><Trash2 className="h-3 w-3" /></Btn>
-                                            </div>
-                                        </motion.div>
-                                    )}
-                                    </AnimatePresence>
+                <div className="p-4 space-y-4">
+                    <div className="border-b pb-4">
+                        <button onClick={() => setShowAddForm(s => !s)} className="w-full flex justify-between items-center text-left font-medium">
+                            Add New Provider
+                            {showAddForm ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </button>
+                        <AnimatePresence>
+                        {showAddForm && (
+                            <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden">
+                                <div className="pt-4 flex items-end gap-2">
+                                    <Input label="Provider Name" id="providerName" value={newProviderName} onChange={e => setNewProviderName(e.target.value)} required wrapperClassName="flex-1" />
+                                    <Btn onClick={handleAdd} disabled={addMutation.isPending} size="sm">
+                                        {addMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+                                        Add Provider
+                                    </Btn>
                                 </div>
-                            ))}
-                        </div>
-                    )}
+                            </motion.div>
+                        )}
+                        </AnimatePresence>
+                    </div>
+
+                    <div>
+                        <h3 className="font-medium text-gray-700 mb-2">Existing Providers</h3>
+                        {isLoadingProviders ? (
+                            <ListSkeleton rows={3} />
+                        ) : isSchemaError ? (
+                            <div className="text-center py-10 px-4 text-red-600 bg-red-50 rounded-lg">
+                                <p className="font-semibold">Table Not Found</p>
+                                <p className="text-sm mt-1">The 'insurance_providers' table does not exist. Please run the required database migration.</p>
+                            </div>
+                        ) : providersError ? (
+                             <div className="text-center py-10 px-4 text-red-600 bg-red-50 rounded-lg">
+                                <p className="font-semibold">Error Loading Providers</p>
+                                <p className="text-sm mt-1">{providersError.message}</p>
+                            </div>
+                        ) : (
+                            <div className="space-y-2 max-h-[30rem] overflow-y-auto pr-2">
+                                {providers.length === 0 ? (
+                                    <div className="text-center py-10 px-4 text-gray-500 bg-gray-50 rounded-lg">
+                                        <p className="text-sm">No insurance providers have been added yet.</p>
+                                    </div>
+                                ) : providers.map(p => (
+                                    <div key={p.id} className="soft-card p-3 lift elevate">
+                                        <AnimatePresence mode="wait">
+                                        {editingProvider?.id === p.id ? (
+                                            <motion.div key="edit" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="space-y-3">
+                                                <Input label="Edit Name" value={editingName} onChange={e => setEditingName(e.target.value)} />
+                                                <div className="flex justify-end gap-2">
+                                                    <Btn variant="ghost" size="sm" onClick={() => setEditingProvider(null)} disabled={updateMutation.isPending}>Cancel</Btn>
+                                                    <Btn size="sm" onClick={handleUpdate} disabled={updateMutation.isPending}>
+                                                        {updateMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                                                        Save
+                                                    </Btn>
+                                                </div>
+                                            </motion.div>
+                                        ) : (
+                                            <motion.div key="view" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="flex justify-between items-start">
+                                                <div>
+                                                    <p className="font-bold text-gray-800 text-sm">{p.name}</p>
+                                                    {p.source && <span className="text-xs text-muted">Source: {p.source}</span>}
+                                                    <AliasChips providerId={p.id} aliases={aliases.filter(a => a.provider_id === p.id)} />
+                                                </div>
+                                                <div className="flex gap-1.5">
+                                                    <Btn variant="outline" size="sm" onClick={() => { setEditingProvider(p); setEditingName(p.name); }}><Edit className="h-3 w-3" /></Btn>
+                                                    <Btn variant="outline" size="sm" onClick={() => setProviderToDelete(p)} disabled={usedProviderIdsSet.has(p.id)} title={usedProviderIdsSet.has(p.id) ? 'Cannot delete: Provider is in use by one or more patients.' : 'Delete Provider'}><Trash2 className="h-3 w-3" /></Btn>
+                                                </div>
+                                            </motion.div>
+                                        )}
+                                        </AnimatePresence>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
                 </div>
+                <SimpleConfirmationModal
+                    isOpen={!!providerToDelete}
+                    onClose={() => setProviderToDelete(null)}
+                    onConfirm={handleDelete}
+                    isLoading={deleteMutation.isPending}
+                    title="Confirm Deletion"
+                    message={`Are you sure you want to delete the provider "${providerToDelete?.name}"? This action cannot be undone.`}
+                    confirmButtonText="Yes, Delete"
+                    confirmButtonVariant="danger"
+                />
             </div>
-            <SimpleConfirmationModal
-                isOpen={!!providerToDelete}
-                onClose={() => setProviderToDelete(null)}
-                onConfirm={handleDelete}
-                isLoading={deleteMutation.isPending}
-                title="Confirm Deletion"
-                message={`Are you sure you want to delete the provider "${providerToDelete?.name}"? This action cannot be undone.`}
-                confirmButtonText="Yes, Delete"
-                confirmButtonVariant="danger"
-            />
+            <DocRuleSetsEditor providers={providers} />
         </div>
     );
 };
@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { subDays } from 'date-fns';
+import { AlertTriangle, ChevronDown, ChevronRight, Loader2, Send } from 'lucide-react';
+import { Btn } from '../ui/Btn';
+import { Select } from '../ui/Select';
+import ListSkeleton from '../ui/ListSkeleton';
+import { toast } from '../../lib/toast';
+import { cn } from '../../lib/utils';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePracticeSettings } from '../../hooks/usePracticeSettings';
+import { docLabel } from '../../lib/docMapping';
+import {
+    isEscalated,
+    isOverdue,
+    requestDueDate,
+    resendDocRequestReminder,
+    summarizeResponsiveness,
+    type DocRequestFormat,
+    type PhysicianResponsiveness as ResponsivenessRow,
+} from '../../lib/docRequests';
+import { listDocRequestsSince } from '../../api/docRequests.api';
+import type { Doctor } from '../../lib/types';
+
+const periodOptions = [90, 180, 365].map(days => ({ label: `Last ${days} days`, value: String(days) }));
+
+const formatOptions = [
+    { label: 'PDF', value: 'pdf' },
+    { label: 'Word', value: 'docx' },
+];
+
+const shortDate = (value: string | null) => (value ? new Date(value.length === 10 ? `${value}T00:00:00` : value).toLocaleDateString() : '—');
+
+/** How quickly each doctor's office returns requested documents, with a one-click reminder for open requests. */
+const PhysicianResponsiveness: React.FC<{ doctors: Doctor[] }> = ({ doctors }) => {
+    const queryClient = useQueryClient();
+    const { user } = useAuth();
+    const { practice } = usePracticeSettings();
+    const [periodDays, setPeriodDays] = useState('180');
+    const [reminderFormat, setReminderFormat] = useState<DocRequestFormat>('pdf');
+    const [expanded, setExpanded] = useState<string | null>(null);
+
+    const { data: requests = [], isLoading } = useQuery({
+        queryKey: ['doc_requests', 'responsiveness', periodDays],
+        queryFn: () => listDocRequestsSince(subDays(new Date(), parseInt(periodDays, 10))),
+    });
+
+    const escalateAfter = practice?.escalate_after_reminders ?? 2;
+    const rows = useMemo(() => summarizeResponsiveness(requests, escalateAfter), [requests, escalateAfter]);
+    const doctorName = (id: string | null) => (id ? doctors.find(d => d.id === id)?.name || 'Removed doctor' : 'Not in doctors list');
+
+    const resendMutation = useMutation({
+        mutationFn: (row: ResponsivenessRow) => {
+            if (!practice) throw new Error('Practice details have not loaded yet.');
+            const doctor = doctors.find(d => d.id === row.doctorId) || null;
+            return resendDocRequestReminder(row.outstanding, { doctor, physicianName: doctorName(row.doctorId) }, {
+                format: reminderFormat,
+                practice,
+                dueDate: requestDueDate(practice),
+                sentBy: user?.email,
+            });
+        },
+        onSuccess: () => {
+            toast('Reminder generated and logged.', 'ok');
+            queryClient.invalidateQueries({ queryKey: ['doc_requests'] });
+        },
+        onError: (err: any) => toast(`Error: ${err.message}`, 'err'),
+    });
+
+    return (
+        <div className="p-4 space-y-3">
+            <div className="flex flex-wrap items-end justify-between gap-3">
+                <p className="text-xs text-gray-500 max-w-md">
+                    A request is received once every document it asked for is Complete. Overdue requests are escalated after {escalateAfter} unanswered reminder(s).
+                </p>
+                <div className="flex gap-2">
+                    <Select id="responsiveness-period" label="Period" options={periodOptions} value={periodDays} onChange={e => setPeriodDays(e.target.value)} wrapperClassName="w-36" className="h-9 text-sm" />
+                    <Select id="responsiveness-format" label="Reminder Format" options={formatOptions} value={reminderFormat} onChange={e => setReminderFormat(e.target.value as DocRequestFormat)} wrapperClassName="w-32" className="h-9 text-sm" />
+                </div>
+            </div>
+            {isLoading ? (
+                <ListSkeleton rows={4} />
+            ) : rows.length === 0 ? (
+                <div className="text-center py-10 px-4 text-gray-500 bg-gray-50 rounded-lg">
+                    <p className="text-sm">No documentation requests in this period.</p>
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead className="text-xs text-gray-500 uppercase">
+                            <tr>
+                                <th className="px-2 py-2 text-left">Doctor</th>
+                                <th className="px-2 py-2 text-right">Requests</th>
+                                <th className="px-2 py-2 text-right">Outstanding</th>
+                                <th className="px-2 py-2 text-right">Overdue</th>
+                                <th className="px-2 py-2 text-right">Avg Turnaround</th>
+                                <th className="px-2 py-2 text-left">Last Sent</th>
+                                <th className="px-2 py-2" />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(row => {
+                                const key = row.doctorId || 'unlisted';
+                                const isExpanded = expanded === key;
+                                const isResending = resendMutation.isPending && resendMutation.variables?.doctorId === row.doctorId;
+                                return (
+                                    <React.Fragment key={key}>
+                                        <tr className={cn('border-t', row.escalated > 0 && 'bg-red-50/60 dark:bg-red-900/10')}>
+                                            <td className="px-2 py-2">
+                                                <button onClick={() => setExpanded(isExpanded ? null : key)} className="flex items-center gap-1 font-medium text-gray-800 text-left focus-ring rounded">
+                                                    {isExpanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+                                                    {doctorName(row.doctorId)}
+                                                </button>
+                                                {row.escalated > 0 && (
+                                                    <span className="ml-5 inline-flex items-center gap-1 text-xs font-medium text-red-600">
+                                                        <AlertTriangle className="h-3 w-3" /> Escalate ({row.escalated})
+                                                    </span>
+                                                )}
+                                            </td>
+                                            <td className="px-2 py-2 text-right">{row.requests.length}</td>
+                                            <td className="px-2 py-2 text-right">{row.outstanding.length}</td>
+                                            <td className={cn('px-2 py-2 text-right', row.overdue > 0 && 'font-semibold text-amber-600')}>{row.overdue}</td>
+                                            <td className="px-2 py-2 text-right">{row.avgTurnaroundDays === null ? '—' : `${row.avgTurnaroundDays.toFixed(1)}d`}</td>
+                                            <td className="px-2 py-2 text-gray-500">{shortDate(row.lastSentAt)}</td>
+                                            <td className="px-2 py-2 text-right">
+                                                <Btn
+                                                    variant="outline"
+                                                    size="sm"
+                                                    onClick={() => resendMutation.mutate(row)}
+                                                    disabled={!row.doctorId || row.outstanding.length === 0 || !practice || resendMutation.isPending}
+                                                    aria-label={`Resend reminder to ${doctorName(row.doctorId)}`}
+                                                >
+                                                    {isResending ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Send className="h-3 w-3 mr-1" />}
+                                                    Remind
+                                                </Btn>
+                                            </td>
+                                        </tr>
+                                        {isExpanded && (
+                                            <tr>
+                                                <td colSpan={7} className="px-6 pb-3">
+                                                    {row.outstanding.length === 0 ? (
+                                                        <p className="text-xs text-gray-500">Nothing outstanding.</p>
+                                                    ) : (
+                                                        <ul className="space-y-1 text-xs text-gray-600">
+                                                            {row.outstanding.map(request => (
+                                                                <li key={request.id} className={cn(isEscalated(request, escalateAfter) ? 'text-red-600' : isOverdue(request) && 'text-amber-600')}>
+                                                                    <span className="font-medium">{request.patients?.name || 'Unknown'}</span>
+                                                                    {`: ${request.doc_keys.map(docLabel).join(', ')} — sent ${shortDate(request.sent_at)}, due ${shortDate(request.due_date)}, ${request.reminder_count} reminder(s)`}
+                                                                </li>
+                                                            ))}
+                                                        </ul>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PhysicianResponsiveness;
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Save } from 'lucide-react';
+import { Btn } from '../ui/Btn';
+import { Input } from '../ui/Input';
+import ListSkeleton from '../ui/ListSkeleton';
+import { toast } from '../../lib/toast';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePracticeSettings } from '../../hooks/usePracticeSettings';
+import { updatePracticeSettings } from '../../api/docRequests.api';
+import type { PracticeSettings } from '../../lib/types';
+
+type TextField = 'name' | 'contact_name' | 'phone' | 'fax' | 'email' | 'address';
+
+const FIELDS: { field: TextField; label: string }[] = [
+    { field: 'name', label: 'Practice Name' },
+    { field: 'contact_name', label: 'Contact Name' },
+    { field: 'phone', label: 'Phone' },
+    { field: 'fax', label: 'Fax' },
+    { field: 'email', label: 'Email' },
+    { field: 'address', label: 'Address' },
+];
+
+/** The letterhead and fax cover details printed on documentation requests to doctors' offices. */
+const PracticeSettingsPanel: React.FC = () => {
+    const queryClient = useQueryClient();
+    const { user } = useAuth();
+    const { practice, isLoading } = usePracticeSettings();
+    const [form, setForm] = useState<PracticeSettings | null>(null);
+
+    useEffect(() => {
+        if (practice) setForm(practice);
+    }, [practice]);
+
+    const saveMutation = useMutation({
+        mutationFn: (settings: PracticeSettings) => updatePracticeSettings({ ...settings, name: settings.name.trim(), updated_by: user?.email || null }),
+        onSuccess: () => {
+            toast('Practice details saved.', 'ok');
+            queryClient.invalidateQueries({ queryKey: ['practice_settings'] });
+        },
+        onError: (err: any) => toast(`Error: ${err.message}`, 'err'),
+    });
+
+    return (
+        <div className="soft-card max-w-4xl fade-in">
+            <div className="p-4 border-b">
+                <h2 className="text-base font-semibold text-gray-800">Letterhead &amp; Document Requests</h2>
+                <p className="text-xs text-gray-500 mt-1">Printed on documentation request letters and their fax cover sheets, with the follow-up timing for those requests.</p>
+            </div>
+            <div className="p-4">
+                {isLoading || !form ? (
+                    <ListSkeleton rows={3} />
+                ) : (
+                    <div className="space-y-3">
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {FIELDS.map(({ field, label }) => (
+                                <Input
+                                    key={field}
+                                    id={`practice-${field}`}
+                                    label={label}
+                                    value={form[field] || ''}
+                                    onChange={e => setForm({ ...form, [field]: e.target.value })}
+                                    required={field === 'name'}
+                                />
+                            ))}
+                            <Input
+                                id="practice-due-days"
+                                label="Days to Return Documents"
+                                type="number"
+                                min={1}
+                                value={form.request_due_days}
+                                onChange={e => setForm({ ...form, request_due_days: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                            />
+                            <Input
+                                id="practice-escalate-after"
+                                label="Escalate After Reminders"
+                                type="number"
+                                min={0}
+                                value={form.escalate_after_reminders}
+                                onChange={e => setForm({ ...form, escalate_after_reminders: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                            />
+                        </div>
+                        <div className="flex justify-end">
+                            <Btn size="sm" onClick={() => saveMutation.mutate(form)} disabled={!form.name.trim() || saveMutation.isPending}>
+                                {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                                Save
+                            </Btn>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default PracticeSettingsPanel;
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, RefreshCw, Save } from 'lucide-react';
+import { Btn } from '../ui/Btn';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import ListSkeleton from '../ui/ListSkeleton';
+import { toast } from '../../lib/toast';
+import { useAuth } from '../../contexts/AuthContext';
+import { DEFAULT_STOPLIGHT_CRITERIA, syncAllStoplights } from '../../lib/stoplight';
+import { getStoplightCriteria, updateStoplightCriteria } from '../../api/stoplight.api';
+import type { StoplightColor, StoplightCriteria } from '../../lib/types';
+
+type ColorField = 'sla_breach_color' | 'sla_at_risk_color' | 'open_denial_color' | 'missing_docs_color' | 'regression_color';
+
+const colorOptions = [
+    { value: '', label: 'Off' },
+    { value: 'yellow', label: 'Yellow' },
+    { value: 'red', label: 'Red' },
+];
+
+const CRITERIA: { field: ColorField; label: string; description: string; days?: { field: 'missing_docs_days' | 'regression_days'; label: string } }[] = [
+    { field: 'sla_breach_color', label: 'SLA breached', description: 'The referral is past its stage target.' },
+    { field: 'sla_at_risk_color', label: 'SLA at risk', description: 'The referral is close to its stage target.' },
+    { field: 'open_denial_color', label: 'Open denial', description: 'A denial is unresolved and its appeal is not approved or withdrawn.' },
+    {
+        field: 'missing_docs_color',
+        label: 'Missing documents',
+        description: 'Required documents are still not Complete this many days after the referral was created.',
+        days: { field: 'missing_docs_days', label: 'After (days)' },
+    },
+    {
+        field: 'regression_color',
+        label: 'Moved back',
+        description: 'The referral was moved to an earlier stage within this many days.',
+        days: { field: 'regression_days', label: 'Within (days)' },
+    },
+];
+
+/** Admin settings for the criteria that compute each referral's stoplight colour. */
+const StoplightCriteriaPanel: React.FC = () => {
+    const queryClient = useQueryClient();
+    const { user } = useAuth();
+    const [form, setForm] = useState<StoplightCriteria>(DEFAULT_STOPLIGHT_CRITERIA);
+
+    const { data, isLoading } = useQuery({
+        queryKey: ['stoplight_criteria'],
+        queryFn: getStoplightCriteria,
+    });
+
+    useEffect(() => {
+        if (data) setForm(data);
+    }, [data]);
+
+    const recalculateMutation = useMutation({
+        mutationFn: () => syncAllStoplights(user?.email),
+        onSuccess: changed => {
+            toast(`Stoplights recalculated; ${changed} referral(s) changed colour.`, 'ok');
+            queryClient.invalidateQueries({ queryKey: ['referrals_direct_all'] });
+            queryClient.invalidateQueries({ queryKey: ['dashboardOrders'] });
+        },
+        onError: (err: any) => toast(`Error: ${err.message}`, 'err'),
+    });
+
+    const saveMutation = useMutation({
+        mutationFn: () => updateStoplightCriteria({ ...form, updated_by: user?.email || null }),
+        onSuccess: () => {
+            toast('Stoplight criteria saved.', 'ok');
+            queryClient.invalidateQueries({ queryKey: ['stoplight_criteria'] });
+            recalculateMutation.mutate();
+        },
+        onError: (err: any) => toast(`Error: ${err.message}`, 'err'),
+    });
+
+    const setDays = (field: 'missing_docs_days' | 'regression_days', value: string) => {
+        const days = parseInt(value, 10);
+        setForm(f => ({ ...f, [field]: isNaN(days) ? 0 : Math.max(0, days) }));
+    };
+
+    return (
+        <div className="space-y-4 max-w-3xl fade-in">
+            <div className="soft-card">
+                <div className="p-4 border-b">
+                    <h2 className="text-base font-semibold text-gray-800">Stoplight Criteria</h2>
+                    <p className="text-xs text-gray-500 mt-1">
+                        Each referral takes the worst colour of the criteria it meets, or green when it meets none. Pinned overrides win until they expire.
+                    </p>
+                </div>
+                <div className="p-4 space-y-3">
+                    {isLoading ? (
+                        <ListSkeleton rows={5} />
+                    ) : (
+                        CRITERIA.map(criterion => (
+                            <div key={criterion.field} className="flex flex-col sm:flex-row sm:items-end gap-3 border-b pb-3 last:border-b-0">
+                                <div className="flex-1 text-sm">
+                                    <p className="font-medium text-gray-800">{criterion.label}</p>
+                                    <p className="text-xs text-gray-500">{criterion.description}</p>
+                                </div>
+                                {criterion.days && (
+                                    <Input
+                                        id={`stoplight-${criterion.days.field}`}
+                                        label={criterion.days.label}
+                                        type="number"
+                                        min={criterion.days.field === 'regression_days' ? 1 : 0}
+                                        value={form[criterion.days.field]}
+                                        onChange={e => setDays(criterion.days!.field, e.target.value)}
+                                        wrapperClassName="w-32"
+                                    />
+                                )}
+                                <Select
+                                    id={`stoplight-${criterion.field}`}
+                                    label="Colour"
+                                    value={form[criterion.field] || ''}
+                                    options={colorOptions}
+                                    onChange={e => setForm(f => ({ ...f, [criterion.field]: (e.target.value || null) as StoplightColor | null }))}
+                                    wrapperClassName="w-32"
+                                />
+                            </div>
+                        ))
+                    )}
+                </div>
+                <div className="p-4 border-t flex justify-end gap-2">
+                    <Btn variant="outline" size="sm" onClick={() => recalculateMutation.mutate()} disabled={recalculateMutation.isPending}>
+                        {recalculateMutation.isPending ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1.5" />}
+                        Recalculate All
+                    </Btn>
+                    <Btn size="sm" onClick={() => saveMutation.mutate()} disabled={isLoading || saveMutation.isPending}>
+                        {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <Save className="h-4 w-4 mr-1.5" />}
+                        Save Criteria
+                    </Btn>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default StoplightCriteriaPanel;
@@ -0,0 +1,325 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowDown, ArrowUp, History, Loader2, Plus, RotateCcw, Save, Trash2, X } from 'lucide-react';
+import { Btn } from '../ui/Btn';
+import { Input } from '../ui/Input';
+import { Textarea } from '../ui/Textarea';
+import { Checkbox } from '../ui/Checkbox';
+import { toast } from '../../lib/toast';
+import { writeAuditLog } from '../../lib/auditLogger';
+import { useAuth } from '../../contexts/AuthContext';
+import { useWorkflowStore } from '../../state/useWorkflowStore';
+import { caseTypeOptions } from '../../lib/formConstants';
+import { normalizeDocKeys } from '../../lib/docMapping';
+import { DEFAULT_PIPELINE, validateWorkflowDefinition, type WorkflowDefinition, type WorkflowStageDefinition } from '../../lib/workflowDefinition';
+import { publishWorkflowDefinition, type PipelineSettings } from '../../api/workflowDefinitions.api';
+
+const cloneStages = (workflow: WorkflowStageDefinition[]): WorkflowStageDefinition[] =>
+    workflow.map(s => ({ ...s, fields: [...s.fields], required_docs: [...s.required_docs], status: [...s.status] }));
+
+const settingsOf = (definition: WorkflowDefinition | undefined): PipelineSettings => ({
+    pipeline: definition?.pipeline || DEFAULT_PIPELINE,
+    name: definition?.name || 'Standard',
+    case_types: [...(definition?.case_types || [])],
+    payers: [...(definition?.payers || [])],
+});
+
+const newStage = (): WorkflowStageDefinition => ({ stage: '', target_days: 7, fields: [], required_docs: [], status: [] });
+
+const ChipListEditor: React.FC<{
+    label: string;
+    placeholder: string;
+    values: string[];
+    onChange: (values: string[]) => void;
+}> = ({ label, placeholder, values, onChange }) => {
+    const [draft, setDraft] = useState('');
+
+    const add = () => {
+        const value = draft.trim();
+        if (!value) return;
+        if (!values.includes(value)) onChange([...values, value]);
+        setDraft('');
+    };
+
+    return (
+        <div className="space-y-1.5">
+            <div className="flex items-end gap-2">
+                <Input
+                    label={label}
+                    value={draft}
+                    placeholder={placeholder}
+                    onChange={e => setDraft(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); add(); } }}
+                    wrapperClassName="flex-1"
+                />
+                <Btn variant="ghost" size="sm" className="mb-1" onClick={add}><Plus className="h-3 w-3" /> Add</Btn>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+                {values.length === 0 && <span className="text-xs text-muted">None.</span>}
+                {values.map(value => (
+                    <span key={value} className="inline-flex items-center gap-1 rounded-full bg-gray-100 dark:bg-zinc-800 px-2 py-0.5 text-xs text-gray-700 dark:text-zinc-300">
+                        {value}
+                        <button type="button" onClick={() => onChange(values.filter(v => v !== value))} aria-label={`Remove ${value}`}>
+                            <X className="h-3 w-3" />
+                        </button>
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const StageEditor: React.FC<{
+    stage: WorkflowStageDefinition;
+    index: number;
+    count: number;
+    onChange: (patch: Partial<WorkflowStageDefinition>) => void;
+    onMove: (offset: number) => void;
+    onRemove: () => void;
+}> = ({ stage, index, count, onChange, onMove, onRemove }) => (
+    <div className="soft-card p-3 space-y-3">
+        <div className="flex items-end gap-2">
+            <span className="mb-2 w-6 text-xs font-semibold text-muted">{index + 1}.</span>
+            <Input label="Stage Name" value={stage.stage} onChange={e => onChange({ stage: e.target.value })} wrapperClassName="flex-1" />
+            <Input
+                label="Target Days"
+                type="number"
+                min={0}
+                value={String(stage.target_days)}
+                onChange={e => onChange({ target_days: e.target.value === '' ? NaN : Number(e.target.value) })}
+                wrapperClassName="w-28"
+            />
+            <div className="flex gap-1 mb-1">
+                <Btn variant="outline" size="sm" onClick={() => onMove(-1)} disabled={index === 0} aria-label="Move up"><ArrowUp className="h-3 w-3" /></Btn>
+                <Btn variant="outline" size="sm" onClick={() => onMove(1)} disabled={index === count - 1} aria-label="Move down"><ArrowDown className="h-3 w-3" /></Btn>
+                <Btn variant="outline" size="sm" onClick={onRemove} aria-label="Remove stage"><Trash2 className="h-3 w-3" /></Btn>
+            </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 pl-8">
+            <ChipListEditor label="Required Fields" placeholder="e.g. rep_name" values={stage.fields} onChange={fields => onChange({ fields })} />
+            <ChipListEditor label="Required Documents" placeholder="e.g. f2f" values={stage.required_docs} onChange={required_docs => onChange({ required_docs: normalizeDocKeys(required_docs) })} />
+            <ChipListEditor label="Statuses" placeholder="e.g. Awaiting Docs" values={stage.status} onChange={status => onChange({ status })} />
+        </div>
+    </div>
+);
+
+const slugify = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+/**
+ * Admin editor for the versioned workflow pipelines. Publishing always creates a
+ * new version; existing orders keep the version they were created under.
+ */
+const WorkflowEditorPanel: React.FC = () => {
+    const queryClient = useQueryClient();
+    const { user } = useAuth();
+    const definitions = useWorkflowStore(state => state.definitions);
+
+    const pipelines = useMemo(() => {
+        const active = Object.values(definitions).filter(d => d.is_active);
+        return active.sort((a, b) => Number(b.pipeline === DEFAULT_PIPELINE) - Number(a.pipeline === DEFAULT_PIPELINE) || a.name.localeCompare(b.name));
+    }, [definitions]);
+
+    const [pipelineKey, setPipelineKey] = useState(DEFAULT_PIPELINE);
+    const active = pipelines.find(d => d.pipeline === pipelineKey);
+    const isNewPipeline = !active;
+
+    const [settings, setSettings] = useState<PipelineSettings>(() => settingsOf(active));
+    const [stages, setStages] = useState<WorkflowStageDefinition[]>(() => cloneStages(active?.workflow || []));
+    const [notes, setNotes] = useState('');
+    const [baseVersion, setBaseVersion] = useState<number | null>(active?.version ?? null);
+
+    useEffect(() => {
+        if (!active) return;
+        setSettings(settingsOf(active));
+        setStages(cloneStages(active.workflow));
+        setBaseVersion(active.version);
+        setNotes('');
+    }, [active]);
+
+    const errors = useMemo(() => {
+        const list = validateWorkflowDefinition(stages);
+        if (!settings.name.trim()) list.unshift('The pipeline needs a name.');
+        if (isNewPipeline && pipelines.some(d => d.pipeline === settings.pipeline)) list.unshift(`A pipeline named "${settings.name}" already exists.`);
+        return list;
+    }, [stages, settings, isNewPipeline, pipelines]);
+    const versions = useMemo(
+        () => Object.values(definitions).filter(d => d.pipeline === pipelineKey).sort((a, b) => b.version - a.version),
+        [definitions, pipelineKey],
+    );
+    const isDirty = isNewPipeline
+        || JSON.stringify(stages) !== JSON.stringify(active.workflow)
+        || JSON.stringify(settings) !== JSON.stringify(settingsOf(active));
+
+    const updateStage = (index: number, patch: Partial<WorkflowStageDefinition>) =>
+        setStages(list => list.map((s, i) => i === index ? { ...s, ...patch } : s));
+
+    const moveStage = (index: number, offset: number) => setStages(list => {
+        const next = [...list];
+        const [moved] = next.splice(index, 1);
+        next.splice(index + offset, 0, moved);
+        return next;
+    });
+
+    const loadVersion = (definition: WorkflowDefinition) => {
+        setStages(cloneStages(definition.workflow));
+        setBaseVersion(definition.version);
+        setNotes(definition.is_active ? '' : `Restored from version ${definition.version}`);
+    };
+
+    const startNewPipeline = () => {
+        const standard = pipelines.find(d => d.pipeline === DEFAULT_PIPELINE);
+        setPipelineKey('');
+        setSettings({ pipeline: '', name: '', case_types: [], payers: [] });
+        setStages(cloneStages(standard?.workflow || []));
+        setBaseVersion(standard?.version ?? null);
+        setNotes('');
+    };
+
+    const toggleCaseType = (caseType: string) => setSettings(s => ({
+        ...s,
+        case_types: s.case_types.includes(caseType) ? s.case_types.filter(c => c !== caseType) : [...s.case_types, caseType],
+    }));
+
+    const publishMutation = useMutation({
+        mutationFn: () => publishWorkflowDefinition(
+            stages.map(s => ({ ...s, stage: s.stage.trim() })),
+            notes.trim() || null,
+            { ...settings, name: settings.name.trim() },
+        ),
+        onSuccess: async (published) => {
+            await writeAuditLog('workflow_published', {
+                changed_by: user?.email,
+                pipeline: published.pipeline,
+                version: published.version,
+                based_on: baseVersion,
+                stages: published.workflow.length,
+                case_types: published.case_types,
+                payers: published.payers,
+                notes: published.notes,
+            });
+            toast(`${published.name} pipeline version ${published.version} published.`, 'ok');
+            setPipelineKey(published.pipeline);
+            queryClient.invalidateQueries({ queryKey: ['workflow_definitions'] });
+        },
+        onError: (err: any) => toast(`Error: ${err.message}`, 'err'),
+    });
+
+    return (
+        <div className="space-y-4 max-w-5xl fade-in">
+            <div className="flex flex-wrap items-center gap-2">
+                {pipelines.map(d => (
+                    <Btn key={d.pipeline} variant={d.pipeline === pipelineKey ? 'primary' : 'outline'} size="sm" onClick={() => setPipelineKey(d.pipeline)}>
+                        {d.name}
+                    </Btn>
+                ))}
+                <Btn variant={isNewPipeline ? 'primary' : 'ghost'} size="sm" onClick={startNewPipeline} disabled={isNewPipeline}>
+                    <Plus className="h-3 w-3 mr-1" /> New Pipeline
+                </Btn>
+            </div>
+
+            <div className="soft-card">
+                <div className="p-4 border-b flex items-start justify-between gap-4">
+                    <div>
+                        <h2 className="text-base font-semibold text-gray-800">Workflow Editor</h2>
+                        <p className="text-xs text-gray-500 mt-1">
+                            {isNewPipeline ? 'New pipeline, starting from the Standard stages.' : `Editing a draft based on version ${baseVersion}.`}{' '}
+                            Publishing creates a new version for new referrals; existing referrals keep the version they started on.
+                        </p>
+                    </div>
+                    {!isNewPipeline && (
+                        <Btn variant="ghost" size="sm" onClick={() => { setSettings(settingsOf(active)); loadVersion(active); }} disabled={!isDirty}>
+                            <RotateCcw className="h-3 w-3 mr-1" /> Discard Changes
+                        </Btn>
+                    )}
+                </div>
+                <div className="p-4 space-y-3">
+                    <div className="soft-card p-3 space-y-3">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            <Input
+                                label="Pipeline Name"
+                                value={settings.name}
+                                onChange={e => {
+                                    const name = e.target.value;
+                                    setSettings(s => ({ ...s, name, pipeline: isNewPipeline ? slugify(name) : s.pipeline }));
+                                }}
+                            />
+                            <ChipListEditor label="Payers" placeholder="Any payer" values={settings.payers} onChange={payers => setSettings(s => ({ ...s, payers }))} />
+                        </div>
+                        {settings.pipeline === DEFAULT_PIPELINE ? (
+                            <p className="text-xs text-muted">The Standard pipeline handles any referral no other pipeline matches.</p>
+                        ) : (
+                            <div className="space-y-1.5">
+                                <p className="text-xs font-medium text-gray-600">Case Types</p>
+                                <div className="flex flex-wrap gap-4">
+                                    {caseTypeOptions.map(o => (
+                                        <Checkbox key={o.value} id={`pipeline-case-${o.value}`} label={o.label} checked={settings.case_types.includes(o.value)} onChange={() => toggleCaseType(o.value)} />
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    {stages.map((stage, index) => (
+                        <StageEditor
+                            key={index}
+                            stage={stage}
+                            index={index}
+                            count={stages.length}
+                            onChange={patch => updateStage(index, patch)}
+                            onMove={offset => moveStage(index, offset)}
+                            onRemove={() => setStages(list => list.filter((_, i) => i !== index))}
+                        />
+                    ))}
+                    <Btn variant="outline" size="sm" onClick={() => setStages(list => [...list, newStage()])}>
+                        <Plus className="h-3 w-3 mr-1" /> Add Stage
+                    </Btn>
+
+                    {errors.length > 0 && (
+                        <ul className="rounded-lg bg-red-50 p-3 text-xs text-red-700 list-disc list-inside space-y-0.5">
+                            {errors.map(e => <li key={e}>{e}</li>)}
+                        </ul>
+                    )}
+
+                    <Textarea label="Release Notes" rows={2} value={notes} onChange={e => setNotes(e.target.value)} placeholder="What changed in this version?" />
+                    <div className="flex justify-end">
+                        <Btn size="sm" onClick={() => publishMutation.mutate()} disabled={!isDirty || errors.length > 0 || publishMutation.isPending}>
+                            {publishMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                            {isNewPipeline ? 'Create Pipeline' : 'Publish New Version'}
+                        </Btn>
+                    </div>
+                </div>
+            </div>
+
+            {versions.length > 0 && (
+                <div className="soft-card">
+                    <div className="p-4 border-b">
+                        <h3 className="font-medium text-gray-700 flex items-center gap-2"><History className="h-4 w-4" /> Version History</h3>
+                    </div>
+                    <ul className="divide-y">
+                        {versions.map(v => (
+                            <li key={v.version} className="p-3 flex items-start justify-between gap-4 text-sm">
+                                <div>
+                                    <p className="font-semibold text-gray-800 flex items-center gap-2">
+                                        Version {v.version}
+                                        {v.is_active && <span className="rounded-full bg-emerald-50 px-2 py-0.5 text-[11px] font-semibold text-emerald-700">Active</span>}
+                                    </p>
+                                    <p className="text-xs text-muted mt-0.5">
+                                        {v.workflow.length} stages
+                                        {v.created_by && ` · ${v.created_by}`}
+                                        {v.created_at && ` · ${new Date(v.created_at).toLocaleString()}`}
+                                    </p>
+                                    {v.notes && <p className="text-xs text-gray-600 mt-1">{v.notes}</p>}
+                                </div>
+                                {!v.is_active && (
+                                    <Btn variant="outline" size="sm" onClick={() => loadVersion(v)}>Load into Editor</Btn>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default WorkflowEditorPanel;
@@ -0,0 +1,26 @@
+import { Clock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { describeSla, SLA_STATE_LABELS, type SlaInfo } from "@/lib/sla";
+
+const styles: Record<SlaInfo["state"], string> = {
+  on_track: "bg-emerald-50 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300",
+  at_risk: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+  breached: "bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300",
+};
+
+export function SlaBadge({ sla, compact = false, className }: { sla: SlaInfo | null; compact?: boolean; className?: string }) {
+  if (!sla) return null;
+  const label = sla.state === "breached"
+    ? `${Math.floor(-sla.daysRemaining)}d over`
+    : `${Math.floor(sla.daysInStage)}/${sla.targetDays}d`;
+
+  return (
+    <span
+      title={`${SLA_STATE_LABELS[sla.state]}: ${describeSla(sla)}`}
+      className={cn("inline-flex items-center gap-1 whitespace-nowrap rounded-full px-2 py-0.5 text-[11px] font-semibold", styles[sla.state], className)}
+    >
+      <Clock className="h-3 w-3" />
+      {compact ? label : `${SLA_STATE_LABELS[sla.state]} · ${label}`}
+    </span>
+  );
+}
@@ -14,10 +14,11 @@ export function StoplightBadge({
   label,
   size = "auto",
   className,
-}: { color: LightColor; label?: string; size?: "auto" | "sm" | "md" | "lg", className?: string }) {
+  tooltip,
+}: { color: LightColor; label?: string; size?: "auto" | "sm" | "md" | "lg", className?: string; tooltip?: string }) {
   const px = size === "sm" ? 10 : size === "lg" ? 16 : size === "md" ? 12 : undefined;
   const dim = px ?? undefined;
-  const tooltipText = label ? `${label}: ${tooltips[color]}` : tooltips[color];
+  const tooltipText = tooltip ?? (label ? `${label}: ${tooltips[color]}` : tooltips[color]);
 
   return (
     <span
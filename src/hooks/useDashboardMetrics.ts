@@ -4,6 +4,7 @@ import { useMemo } from 'react';
 import type { Order } from '@/lib/types';
 import { daysOld } from '@/lib/utils';
 import { isBackward } from '../lib/utils';
+import { listStoplightHistory } from '@/api/stoplight.api';
 
 interface DateRange {
   from: Date;
@@ -26,7 +27,7 @@ const calculateMetricsForPeriod = (orders: Order[], from: Date, to: Date) => {
     const denials = new Set(periodOrders.flatMap(o => o.denials?.map(d => d.order_id) || [])).size;
     
     const regressions = periodOrders.filter(o => 
-        o.workflow_history?.some(h => isBackward(h.previous_stage, h.new_stage))
+        o.workflow_history?.some(h => isBackward(h.previous_stage, h.new_stage, o.workflow_version))
     ).length;
 
     const totalDocs = periodOrders.reduce((sum, o) => sum + (o.patients?.required_documents?.length || 0), 0);
@@ -70,6 +71,12 @@ export const useDashboardMetrics = (dateRange: DateRange) => {
     staleTime: 5 * 60 * 1000,
   });
 
+  const { data: stoplightHistory } = useQuery({
+    queryKey: ['stoplightHistory', from, to],
+    queryFn: () => listStoplightHistory(from, to),
+    staleTime: 5 * 60 * 1000,
+  });
+
   const metrics = useMemo(() => {
     if (!allOrders) return null;
 
@@ -101,8 +108,14 @@ export const useDashboardMetrics = (dateRange: DateRange) => {
         return acc;
     }, { green: 0, yellow: 0, red: 0 });
 
-    return { kpis, stoplightCounts, orders: currentPeriodOrders };
-  }, [allOrders, from, to, prevFrom, prevTo]);
+    // Colour changes in the period across all referrals, not only the ones created in it.
+    const stoplightChanges = (stoplightHistory || []).reduce((acc, entry) => {
+        acc[entry.to_color]++;
+        return acc;
+    }, { green: 0, yellow: 0, red: 0 });
+
+    return { kpis, stoplightCounts, stoplightChanges, orders: currentPeriodOrders };
+  }, [allOrders, stoplightHistory, from, to, prevFrom, prevTo]);
 
   return {
     metrics,
@@ -0,0 +1,60 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useInboundFolder } from '@/state/useInboundFolder';
+import { importEmlFile } from '@/lib/inboundReferrals';
+import { toast } from '@/lib/toast';
+
+const SCAN_INTERVAL_MS = 60 * 1000;
+
+/** Files already looked at this session, by name, size and modified time, so they are not parsed every minute. */
+const seen = new Set<string>();
+
+/**
+ * Checks the watched folder every minute while the app is open and imports
+ * each new .eml file into the referral inbox. This stands in for a real
+ * mailbox connection; emails already imported are skipped by their Message-ID.
+ */
+export function useInboundFolderWatcher(enabled: boolean) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const folder = useInboundFolder(state => state.folder);
+  const recordScan = useInboundFolder(state => state.recordScan);
+
+  return useQuery({
+    queryKey: ['inbound_folder_scan', folder?.name],
+    queryFn: async () => {
+      let imported = 0;
+      const failed: string[] = [];
+      try {
+        for await (const entry of folder!.values()) {
+          if (entry.kind !== 'file' || !/\.eml$/i.test(entry.name)) continue;
+          const file = await entry.getFile();
+          const key = `${file.name}:${file.size}:${file.lastModified}`;
+          if (seen.has(key)) continue;
+          // A file that fails is not retried until it changes; it can still be uploaded by hand.
+          seen.add(key);
+          try {
+            if (await importEmlFile(file, 'folder', user?.email ?? null)) imported++;
+          } catch (error) {
+            failed.push(`${file.name} (${error instanceof Error ? error.message : String(error)})`);
+          }
+        }
+        recordScan(failed.length > 0 ? `Could not import ${failed.join(', ')}.` : null);
+      } catch (error) {
+        recordScan(`Could not read ${folder!.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      if (failed.length > 0) {
+        toast(`${failed.length} email${failed.length === 1 ? '' : 's'} in ${folder!.name} could not be imported.`, 'err');
+      }
+      if (imported > 0) {
+        toast(`${imported} referral email${imported === 1 ? '' : 's'} imported from ${folder!.name}.`, 'ok');
+        queryClient.invalidateQueries({ queryKey: ['inbound_referrals'] });
+      }
+      return imported;
+    },
+    enabled: enabled && !!folder && !!user,
+    refetchInterval: SCAN_INTERVAL_MS,
+    refetchOnWindowFocus: false,
+    staleTime: SCAN_INTERVAL_MS,
+  });
+}
@@ -0,0 +1,24 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { listOrderDocuments } from '@/api/documents.api';
+import type { OrderDocument } from '@/lib/types';
+
+/** Files uploaded for an order, grouped by document key. */
+export function useOrderDocuments(orderId: string | null | undefined) {
+  const { data: documents = [], isLoading } = useQuery({
+    queryKey: ['order_documents', orderId],
+    queryFn: () => listOrderDocuments(orderId as string),
+    enabled: !!orderId,
+  });
+
+  const byKey = useMemo(() => {
+    const grouped: Record<string, OrderDocument[]> = {};
+    for (const document of documents) {
+      if (!grouped[document.doc_key]) grouped[document.doc_key] = [];
+      grouped[document.doc_key].push(document);
+    }
+    return grouped;
+  }, [documents]);
+
+  return { documents, byKey, isLoading };
+}
@@ -0,0 +1,33 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { processOutbox } from '@/lib/emailService';
+
+const PROCESS_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Works through the email outbox every minute while the app is open, so the
+ * outbox views refresh as soon as this tab's emails go out. The `send-email`
+ * pg_cron job sends due emails whether or not anyone has the app open; several
+ * runs at once are safe because each message is claimed by one run only.
+ */
+export function useOutboxProcessor(enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: ['outbox_processor'],
+    queryFn: async () => {
+      const result = await processOutbox().catch(error => {
+        console.error('Email outbox run failed:', error);
+        return { sent: 0, retrying: 0, failed: 0 };
+      });
+      if (result.sent > 0 || result.retrying > 0 || result.failed > 0) {
+        queryClient.invalidateQueries({ queryKey: ['email_outbox'] });
+        queryClient.invalidateQueries({ queryKey: ['vendor_log'] });
+      }
+      return result;
+    },
+    enabled,
+    refetchInterval: PROCESS_INTERVAL_MS,
+    refetchOnWindowFocus: false,
+    staleTime: PROCESS_INTERVAL_MS,
+  });
+}
@@ -0,0 +1,12 @@
+import { useQuery } from '@tanstack/react-query';
+import { getPracticeSettings } from '@/api/docRequests.api';
+
+/** The practice letterhead; null until the settings row has loaded. */
+export function usePracticeSettings() {
+  const { data: practice = null, isLoading } = useQuery({
+    queryKey: ['practice_settings'],
+    queryFn: getPracticeSettings,
+    staleTime: 5 * 60 * 1000,
+  });
+  return { practice, isLoading };
+}
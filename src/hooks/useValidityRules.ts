@@ -0,0 +1,12 @@
+import { useQuery } from '@tanstack/react-query';
+import { listValidityRules } from '@/api/documentValidity.api';
+
+/** Document validity rules; an empty list when the table is unavailable. */
+export function useValidityRules() {
+  const { data: rules = [], isLoading } = useQuery({
+    queryKey: ['document_validity_rules'],
+    queryFn: listValidityRules,
+    staleTime: 5 * 60 * 1000,
+  });
+  return { rules, isLoading };
+}
@@ -0,0 +1,32 @@
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { listWorkflowDefinitions } from '@/api/workflowDefinitions.api';
+import { BUNDLED_WORKFLOW } from '@/lib/workflowDefinition';
+import { useWorkflowStore } from '@/state/useWorkflowStore';
+
+/**
+ * Loads the versioned workflow definitions into the workflow store. If the
+ * table is unavailable the bundled workflow.json is used as version 1.
+ */
+export function useWorkflowDefinitions(enabled: boolean) {
+  const setDefinitions = useWorkflowStore(state => state.setDefinitions);
+  const isLoaded = useWorkflowStore(state => state.isLoaded);
+
+  const { data, error } = useQuery({
+    queryKey: ['workflow_definitions'],
+    queryFn: listWorkflowDefinitions,
+    enabled,
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    if (data && data.length > 0) {
+      setDefinitions(data);
+    } else if (data || error) {
+      if (error) console.error('Failed to load workflow definitions, using bundled workflow:', error);
+      setDefinitions([BUNDLED_WORKFLOW]);
+    }
+  }, [data, error, setDefinitions]);
+
+  return { isLoaded };
+}
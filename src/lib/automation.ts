@@ -0,0 +1,215 @@
+import { supabase } from './supabaseClient';
+import { docLabel } from './docMapping';
+import { listEnabledRules, logAutomationRun } from '@/api/automation.api';
+import { addNote } from '@/api/notes.api';
+import { createOrderTask } from '@/api/orderTasks.api';
+import { queueEmail } from '@/api/emailOutbox.api';
+import type { AutomationAction, AutomationCondition, AutomationOperator, AutomationRule, AutomationTrigger, Order } from './types';
+
+export const AUTOMATION_TRIGGERS: Record<AutomationTrigger, string> = {
+  stage_entered: 'Order enters a stage',
+  denial_logged: 'A denial is logged',
+  document_completed: 'A document becomes Complete',
+};
+
+export const AUTOMATION_OPERATORS: Record<AutomationOperator, string> = {
+  equals: 'equals',
+  not_equals: 'does not equal',
+  contains: 'contains',
+  is_blank: 'is blank',
+  is_not_blank: 'is not blank',
+};
+
+export const AUTOMATION_ACTION_TYPES: Record<AutomationAction['type'], string> = {
+  set_field: 'Set a field',
+  add_note: 'Add a note',
+  create_task: 'Create a task',
+  queue_email: 'Queue an email',
+};
+
+/** Order and patient values that rule conditions can test. */
+export const AUTOMATION_FIELDS: Record<string, { label: string; get: (order: Order) => unknown }> = {
+  workflow_stage: { label: 'Stage', get: o => o.workflow_stage },
+  status: { label: 'Stage Status', get: o => o.status },
+  case_type: { label: 'Case Type', get: o => o.case_type },
+  referral_source: { label: 'Referral Source', get: o => o.referral_source },
+  rep_name: { label: 'Rep', get: o => o.rep_name },
+  chair_type: { label: 'Chair Type', get: o => o.chair_type },
+  stoplight_status: { label: 'Stoplight', get: o => o.stoplight_status },
+  payer: { label: 'Primary Insurance', get: o => o.patients?.primary_insurance },
+  payer_region: { label: 'Payer Region', get: o => o.payer_region },
+};
+
+/**
+ * Order columns a `set_field` action may write. The stage itself is left out so
+ * that rules can never move an order around the pipeline on their own, and the
+ * stoplight is computed from the stoplight criteria.
+ */
+export const SETTABLE_FIELDS: Record<string, { label: string; options?: string[] }> = {
+  status: { label: 'Stage Status' },
+  rep_name: { label: 'Rep' },
+  case_type: { label: 'Case Type' },
+};
+
+/** Merge fields available in note, task and email text, written as `{{name}}`. */
+export const AUTOMATION_MERGE_FIELDS = ['patient_name', 'stage', 'status', 'rep_name', 'payer', 'trigger_value'] as const;
+
+export interface AutomationEvent {
+  trigger: AutomationTrigger;
+  /** Stage entered or document key completed; unused for denials. */
+  value?: string | null;
+  orderId: string;
+  triggeredBy?: string | null;
+}
+
+const ORDER_SELECT = '*, patients(*)';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const asText = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim());
+
+export function conditionMatches(order: Order, condition: AutomationCondition): boolean {
+  const accessor = AUTOMATION_FIELDS[condition.field];
+  if (!accessor) return false;
+  const actual = asText(accessor.get(order)).toLowerCase();
+  const expected = asText(condition.value).toLowerCase();
+  switch (condition.operator) {
+    case 'equals': return actual === expected;
+    case 'not_equals': return actual !== expected;
+    case 'contains': return actual.includes(expected);
+    case 'is_blank': return actual === '';
+    case 'is_not_blank': return actual !== '';
+    default: return false;
+  }
+}
+
+export function ruleMatches(rule: AutomationRule, event: AutomationEvent, order: Order): boolean {
+  if (rule.trigger_value && rule.trigger_value !== event.value) return false;
+  return (rule.conditions || []).every(c => conditionMatches(order, c));
+}
+
+export function renderMergeFields(text: string, order: Order, event: Pick<AutomationEvent, 'value'>): string {
+  const values: Record<string, string> = {
+    patient_name: asText(order.patients?.name) || 'the patient',
+    stage: asText(order.workflow_stage),
+    status: asText(order.status),
+    rep_name: asText(order.rep_name),
+    payer: asText(order.patients?.primary_insurance),
+    trigger_value: docLabel(asText(event.value)),
+  };
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => (key in values ? values[key] : match));
+}
+
+/** One-line summary of an action, used in the rule list and the execution log. */
+export function describeAction(action: AutomationAction): string {
+  switch (action.type) {
+    case 'set_field': return `Set ${SETTABLE_FIELDS[action.field]?.label || action.field} to "${action.value}"`;
+    case 'add_note': return 'Add a note';
+    case 'create_task': return `Create task "${action.title}"${action.due_in_days ? ` due in ${action.due_in_days}d` : ''}`;
+    case 'queue_email': return `Queue email to ${action.to}`;
+  }
+}
+
+async function executeAction(action: AutomationAction, rule: AutomationRule, order: Order, event: AutomationEvent): Promise<string> {
+  const render = (text: string) => renderMergeFields(text, order, event);
+
+  switch (action.type) {
+    case 'set_field': {
+      if (!SETTABLE_FIELDS[action.field]) throw new Error(`"${action.field}" cannot be set by automation.`);
+      const { error } = await supabase.from('orders').update({ [action.field]: action.value }).eq('id', order.id);
+      if (error) throw error;
+      Object.assign(order, { [action.field]: action.value });
+      break;
+    }
+    case 'add_note': {
+      if (!order.patient_id) throw new Error('The order has no patient to add a note to.');
+      await addNote({ patient_id: order.patient_id, body: `[Automation: ${rule.name}] ${render(action.body)}` });
+      break;
+    }
+    case 'create_task': {
+      const due = action.due_in_days != null ? new Date(Date.now() + action.due_in_days * DAY_MS).toISOString().slice(0, 10) : null;
+      await createOrderTask({
+        order_id: order.id,
+        patient_id: order.patient_id,
+        title: render(action.title),
+        due_date: due,
+        assigned_to: action.assigned_to ? render(action.assigned_to) : null,
+        rule_id: rule.id,
+        created_by: event.triggeredBy || 'Automation',
+      });
+      break;
+    }
+    case 'queue_email': {
+      await queueEmail({
+        to_address: render(action.to),
+        subject: render(action.subject),
+        body: render(action.body),
+        order_id: order.id,
+        patient_id: order.patient_id,
+        rule_id: rule.id,
+        created_by: event.triggeredBy || 'Automation',
+      });
+      break;
+    }
+  }
+  return describeAction(action);
+}
+
+/**
+ * Runs every enabled rule for `event` against the order as it is now, in the
+ * order the rules were created, and logs each execution to `automation_runs`.
+ * Never throws: automation problems must not undo the change that triggered them.
+ */
+export async function runAutomations(event: AutomationEvent): Promise<number> {
+  try {
+    const rules = await listEnabledRules(event.trigger);
+    if (rules.length === 0) return 0;
+
+    const { data, error } = await supabase.from('orders').select(ORDER_SELECT).eq('id', event.orderId).single();
+    if (error) throw error;
+    const order = data as Order;
+
+    let executed = 0;
+    for (const rule of rules) {
+      if (!ruleMatches(rule, event, order)) continue;
+      const actionsTaken: string[] = [];
+      let failure: string | null = null;
+      try {
+        for (const action of rule.actions || []) {
+          actionsTaken.push(await executeAction(action, rule, order, event));
+        }
+      } catch (err: any) {
+        failure = err?.message || String(err);
+      }
+      executed++;
+      await logAutomationRun({
+        rule_id: rule.id,
+        rule_name: rule.name,
+        trigger_type: event.trigger,
+        trigger_value: event.value ?? null,
+        order_id: order.id,
+        patient_id: order.patient_id,
+        status: failure ? 'failed' : 'success',
+        actions_taken: actionsTaken,
+        error: failure,
+        triggered_by: event.triggeredBy || null,
+      }).catch(logError => console.error('Failed to log automation run:', logError));
+    }
+    return executed;
+  } catch (error) {
+    console.error(`Automation for ${event.trigger} failed:`, error);
+    return 0;
+  }
+}
+
+/** Runs `document_completed` automations for every document that just became Complete. */
+export async function runDocumentAutomations(
+  orderId: string,
+  before: Record<string, string> | null | undefined,
+  after: Record<string, string>,
+  triggeredBy?: string | null,
+) {
+  const completed = Object.keys(after).filter(key => after[key] === 'Complete' && before?.[key] !== 'Complete');
+  for (const key of completed) {
+    await runAutomations({ trigger: 'document_completed', value: key, orderId, triggeredBy });
+  }
+}
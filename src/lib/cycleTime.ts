@@ -0,0 +1,152 @@
+import { isBackward } from './utils';
+import { allStageNames, workflowStageNames } from './workflowDefinition';
+import type { Order } from './types';
+
+export type CycleTimeDimension = 'payer' | 'rep' | 'case_type' | 'referral_source';
+
+export const CYCLE_TIME_DIMENSIONS: Record<CycleTimeDimension, string> = {
+  payer: 'Payer',
+  rep: 'Rep',
+  case_type: 'Case Type',
+  referral_source: 'Referral Source',
+};
+
+export type CycleTimeOrder = Pick<Order, 'id' | 'workflow_stage' | 'workflow_version' | 'created_at' | 'case_type' | 'referral_source'> & {
+  rep_name?: string | null;
+  patients?: { primary_insurance?: string | null } | null;
+  workflow_history?: { previous_stage: string | null; new_stage: string | null; changed_at: string | null }[] | null;
+};
+
+/** One continuous stay of an order in a stage. `exitedAt` is null while the order is still there. */
+export interface StageVisit {
+  stage: string;
+  enteredAt: number;
+  exitedAt: number | null;
+  nextStage: string | null;
+}
+
+export interface StageMetrics {
+  stage: string;
+  /** Orders that were in this stage at any point. */
+  entered: number;
+  /** Orders still sitting in this stage. */
+  inStage: number;
+  medianDays: number | null;
+  p90Days: number | null;
+  /** Share of orders entering this stage that later moved on to any later stage. */
+  conversion: number | null;
+  /** Orders sent back to an earlier stage from this one. */
+  regressed: number;
+  regressionRate: number | null;
+}
+
+export interface CycleTimeGroup {
+  key: string;
+  orders: number;
+  stages: StageMetrics[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNSPECIFIED = 'Unspecified';
+
+/**
+ * Replays `workflow_history` in order to rebuild each stay in a stage. The first
+ * stay starts at `created_at` in the first move's `previous_stage` (or the
+ * current stage when the order has never moved).
+ */
+export function stageVisits(order: CycleTimeOrder): StageVisit[] {
+  const moves = (order.workflow_history || [])
+    .filter(h => h.new_stage && h.changed_at)
+    .map(h => ({ from: h.previous_stage, to: h.new_stage as string, at: new Date(h.changed_at as string).getTime() }))
+    .filter(m => !isNaN(m.at))
+    .sort((a, b) => a.at - b.at);
+
+  let stage = moves[0]?.from || (moves.length > 0 ? workflowStageNames(order.workflow_version)[0] : order.workflow_stage);
+  if (!stage) return [];
+  let enteredAt = new Date(order.created_at).getTime();
+  const visits: StageVisit[] = [];
+
+  for (const move of moves) {
+    if (move.to === stage) continue;
+    visits.push({ stage, enteredAt, exitedAt: move.at, nextStage: move.to });
+    stage = move.to;
+    enteredAt = move.at;
+  }
+  visits.push({ stage, enteredAt, exitedAt: null, nextStage: null });
+  return visits;
+}
+
+/** Linear-interpolated percentile (0–1) of an unsorted list, or null when empty. */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Per-stage dwell time, funnel conversion and regression share, reported against
+ * the stages of every active pipeline. Dwell time only counts finished stays so that
+ * orders still in a stage don't drag the median down. Regressions are judged by
+ * each order's own workflow version.
+ */
+export function computeStageMetrics(orders: CycleTimeOrder[]): StageMetrics[] {
+  const stages = allStageNames();
+  const visitsByOrder = orders.map(order => ({ order, visits: stageVisits(order) }));
+
+  return stages.map((stage, index) => {
+    const nextStage = stages[index + 1];
+    const durations: number[] = [];
+    let entered = 0;
+    let inStage = 0;
+    let converted = 0;
+    let regressed = 0;
+
+    for (const { order, visits } of visitsByOrder) {
+      const here = visits.filter(v => v.stage === stage);
+      if (here.length === 0) continue;
+      entered++;
+      if (here.some(v => v.exitedAt === null)) inStage++;
+      here.forEach(v => {
+        if (v.exitedAt !== null) durations.push((v.exitedAt - v.enteredAt) / DAY_MS);
+      });
+      if (nextStage && visits.some(v => stages.indexOf(v.stage) > index && v.enteredAt >= here[0].enteredAt)) converted++;
+      if (here.some(v => isBackward(stage, v.nextStage, order.workflow_version))) regressed++;
+    }
+
+    return {
+      stage,
+      entered,
+      inStage,
+      medianDays: percentile(durations, 0.5),
+      p90Days: percentile(durations, 0.9),
+      conversion: nextStage && entered > 0 ? converted / entered : null,
+      regressed,
+      regressionRate: entered > 0 ? regressed / entered : null,
+    };
+  });
+}
+
+export function dimensionValue(order: CycleTimeOrder, dimension: CycleTimeDimension): string {
+  const value = {
+    payer: order.patients?.primary_insurance,
+    rep: order.rep_name,
+    case_type: order.case_type,
+    referral_source: order.referral_source,
+  }[dimension];
+  return value?.trim() || UNSPECIFIED;
+}
+
+/** Stage metrics for each value of `dimension`, largest groups first. */
+export function computeGroupedMetrics(orders: CycleTimeOrder[], dimension: CycleTimeDimension): CycleTimeGroup[] {
+  const groups = new Map<string, CycleTimeOrder[]>();
+  orders.forEach(order => {
+    const key = dimensionValue(order, dimension);
+    groups.set(key, [...(groups.get(key) || []), order]);
+  });
+  return Array.from(groups.entries())
+    .map(([key, members]) => ({ key, orders: members.length, stages: computeStageMetrics(members) }))
+    .sort((a, b) => b.orders - a.orders || a.key.localeCompare(b.key));
+}
@@ -0,0 +1,43 @@
+import { writeAuditLog } from './auditLogger';
+import { deliverEmail, invokeEmailFunction } from './emailService';
+import { getPracticeSettings } from '@/api/docRequests.api';
+import { commonMergeValues, loadEmailTemplate, renderEmailTemplate, type EmailTemplateContent, type MergeUser, type MergeValues } from './emailTemplates';
+import type { DigestSection, DigestSubscription } from './types';
+
+// Digests are built by the `send-digests` edge function; keep these titles in step with supabase/functions/_shared/digest.ts.
+export const DIGEST_SECTIONS: Record<DigestSection, string> = {
+  accounts: 'Accounts',
+  sla_breaches: 'SLA Breaches',
+  new_denials: 'New Denials',
+  tasks_due: 'Tasks Due',
+  in_services: 'In-Services This Week',
+};
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** What a digest covers; a saved subscription or unsaved edits to one. */
+export type DigestOptions = Pick<DigestSubscription, 'user_id' | 'frequency' | 'send_day' | 'sections' | 'scope' | 'filters' | 'last_sent_at'>;
+
+/**
+ * Values for the `{{digest.*}}` merge fields, built by the `send-digests` edge
+ * function for the signed-in user exactly as a scheduled digest would be.
+ */
+export async function fetchDigestValues(options: DigestOptions): Promise<MergeValues> {
+  const { values } = await invokeEmailFunction<{ values: MergeValues }>('send-digests', { action: 'preview', options });
+  return values;
+}
+
+/** The digest email exactly as it would be sent, without sending it. */
+export async function previewDigest(options: DigestOptions, recipient: MergeUser): Promise<EmailTemplateContent> {
+  const [digestValues, template, practice] = await Promise.all([fetchDigestValues(options), loadEmailTemplate('digest'), getPracticeSettings()]);
+  return renderEmailTemplate(template, { ...commonMergeValues(recipient, practice), ...digestValues });
+}
+
+type DigestDelivery = DigestOptions & Pick<DigestSubscription, 'email'>;
+
+/** Sends the digest straight away (the Send Now button), throwing if the first attempt fails; it is then retried from the outbox. */
+export async function sendDigest(options: DigestDelivery, recipient: MergeUser) {
+  const { subject, body } = await previewDigest(options, recipient);
+  await deliverEmail({ to: options.email, subject, text: body.trim() }, { created_by: recipient.email || null });
+  await writeAuditLog('digest_sent', { changed_by: recipient.email, to: options.email, frequency: options.frequency, sections: options.sections });
+}
@@ -1,62 +1,121 @@
+/**
+ * The document type registry. Every document key stored in `document_status`,
+ * `required_documents`, workflow `required_docs`, `document_templates.abbrev`
+ * and the document tables is one of these canonical keys. Aliases are the older
+ * spellings (`F2F`, `f2f_note`, `INS_CARD`, ...) that still arrive from imports
+ * and saved workflow definitions; `public.canonical_doc_key()` mirrors them.
+ */
 export type DocKey =
-  | "f2f" | "pt_eval" | "swo" | "dpd" | "hipaa" | "insurance_card"
-  | "aor" | "telehealth_form" | "abn_form" | "par_req" | "atp_eval"
-  | "lmn" | "home_assessment" | "pod" | "misc_docs" | "auth_form" | "delivery_photo" | "vendor_form" | "financial_hardship_form";
-
-export const labelMap: Record<DocKey, string> = {
-  f2f: "Face-to-Face Note",
-  pt_eval: "PT Evaluation",
-  swo: "Standard Written Order",
-  dpd: "Detailed Product Description",
-  hipaa: "HIPAA Consent",
-  insurance_card: "Insurance Card",
-  aor: "AOR Form",
-  telehealth_form: "Telehealth Consent",
-  abn_form: "ABN Form",
-  par_req: "PAR Request",
-  atp_eval: "ATP Eval",
-  lmn: "Letter of Medical Necessity",
-  home_assessment: "Home Assessment",
-  pod: "Proof of Delivery",
-  misc_docs: "Misc. Docs",
-  auth_form: "Authorization Form",
-  delivery_photo: "Delivery Photo",
-  vendor_form: "Vendor Form",
-  financial_hardship_form: "Financial Hardship Form",
+  | "referral_form" | "rx" | "face_sheet"
+  | "f2f" | "pt_eval" | "swo" | "dpd" | "hipaa" | "insurance_card" | "aor" | "telehealth_form"
+  | "abn_form" | "par_req" | "auth_form" | "atp_eval" | "lmn" | "home_assessment" | "seating_eval"
+  | "telehealth_eval" | "financial_hardship_form"
+  | "o2_qual" | "oximetry" | "pap_setup" | "rt_eval" | "six_minute_walk" | "remote_log"
+  | "wound_notes" | "dressing_log" | "npwt_rx" | "wound_photo_consent"
+  | "par_cover" | "submission_log" | "ins_verify" | "vendor_quote" | "purchase_order" | "denial_letter" | "appeal_packet"
+  | "pod" | "delivery_ticket" | "delivery_photo" | "serial_log" | "audit_checklist" | "vendor_form" | "repair_req"
+  | "chart_notes" | "misc_docs";
+
+export type DocSectionId = 'intake' | 'standard' | 'additional' | 'clinical' | 'submission' | 'post_delivery';
+
+export interface DocTypeDefinition {
+  key: DocKey;
+  label: string;
+  section: DocSectionId;
+  aliases: string[];
+}
+
+const SECTION_LABELS: Record<DocSectionId, string> = {
+  intake: 'Intake',
+  standard: 'Standard Documentation',
+  additional: 'Additional / Payer-Specific',
+  clinical: 'Respiratory / Wound Care',
+  submission: 'PAR / Submission',
+  post_delivery: 'Post-Delivery',
 };
 
-export const docSections = [
-    {
-        id: 'standard',
-        label: 'Standard Documentation',
-        keys: ['f2f', 'pt_eval', 'swo', 'dpd', 'hipaa', 'insurance_card', 'aor', 'telehealth_form'] as DocKey[]
-    },
-    {
-        id: 'additional',
-        label: 'Additional / Payer-Specific',
-        keys: ['abn_form', 'par_req', 'atp_eval', 'lmn', 'home_assessment', 'financial_hardship_form'] as DocKey[]
-    },
-    {
-        id: 'post_delivery',
-        label: 'Post-Delivery',
-        keys: ['pod', 'misc_docs'] as DocKey[]
-    }
-];
+export const docTypes: DocTypeDefinition[] = [
+  { key: 'referral_form', label: 'Referral Form', section: 'intake', aliases: [] },
+  { key: 'rx', label: 'Prescription (Rx)', section: 'intake', aliases: ['prescription'] },
+  { key: 'face_sheet', label: 'Face Sheet', section: 'intake', aliases: [] },
+
+  { key: 'f2f', label: 'Face-to-Face Note', section: 'standard', aliases: ['f2f_note', 'face_to_face'] },
+  { key: 'pt_eval', label: 'PT Evaluation', section: 'standard', aliases: [] },
+  { key: 'swo', label: 'Standard Written Order', section: 'standard', aliases: [] },
+  { key: 'dpd', label: 'Detailed Product Description', section: 'standard', aliases: [] },
+  { key: 'hipaa', label: 'HIPAA Consent', section: 'standard', aliases: [] },
+  { key: 'insurance_card', label: 'Insurance Card', section: 'standard', aliases: ['ins_card'] },
+  { key: 'aor', label: 'AOR Form', section: 'standard', aliases: ['aor_form'] },
+  { key: 'telehealth_form', label: 'Telehealth Consent', section: 'standard', aliases: ['tele_consent', 'telehealth_consent'] },
+
+  { key: 'abn_form', label: 'ABN Form', section: 'additional', aliases: ['abn'] },
+  { key: 'par_req', label: 'PAR Request', section: 'additional', aliases: [] },
+  { key: 'auth_form', label: 'Authorization Form', section: 'additional', aliases: [] },
+  { key: 'atp_eval', label: 'ATP Eval', section: 'additional', aliases: ['atp_eval_form'] },
+  { key: 'lmn', label: 'Letter of Medical Necessity', section: 'additional', aliases: [] },
+  { key: 'home_assessment', label: 'Home Assessment', section: 'additional', aliases: ['home_assess'] },
+  { key: 'seating_eval', label: 'Seating Evaluation', section: 'additional', aliases: ['seat_eval'] },
+  { key: 'telehealth_eval', label: 'Telehealth Evaluation', section: 'additional', aliases: ['tele_eval'] },
+  { key: 'financial_hardship_form', label: 'Financial Hardship Form', section: 'additional', aliases: ['fin_hardship'] },
+
+  { key: 'o2_qual', label: 'Oxygen Qualification', section: 'clinical', aliases: [] },
+  { key: 'oximetry', label: 'Overnight Oximetry', section: 'clinical', aliases: [] },
+  { key: 'pap_setup', label: 'PAP/CPAP Setup', section: 'clinical', aliases: [] },
+  { key: 'rt_eval', label: 'RT Evaluation', section: 'clinical', aliases: [] },
+  { key: 'six_minute_walk', label: '6-Minute Walk Test', section: 'clinical', aliases: ['6mwt'] },
+  { key: 'remote_log', label: 'Remote Monitoring Log', section: 'clinical', aliases: [] },
+  { key: 'wound_notes', label: 'Wound Progress Notes', section: 'clinical', aliases: [] },
+  { key: 'dressing_log', label: 'Dressing Log', section: 'clinical', aliases: ['dress_log'] },
+  { key: 'npwt_rx', label: 'NPWT Prescription', section: 'clinical', aliases: [] },
+  { key: 'wound_photo_consent', label: 'Wound Photo Consent', section: 'clinical', aliases: ['photo_consent', 'wound_photo'] },
+
+  { key: 'par_cover', label: 'PAR Cover Sheet', section: 'submission', aliases: [] },
+  { key: 'submission_log', label: 'Submission Log', section: 'submission', aliases: [] },
+  { key: 'ins_verify', label: 'Insurance Verification', section: 'submission', aliases: ['insurance_verification'] },
+  { key: 'vendor_quote', label: 'Vendor Quote', section: 'submission', aliases: [] },
+  { key: 'purchase_order', label: 'Purchase Order', section: 'submission', aliases: [] },
+  { key: 'denial_letter', label: 'Denial Letter', section: 'submission', aliases: ['denial'] },
+  { key: 'appeal_packet', label: 'Appeal Packet', section: 'submission', aliases: ['appeal'] },
 
-export const docTemplates = [
-    {
-        id: 'standard_wc',
-        label: 'Standard Wheelchair',
-        keys: ['f2f', 'pt_eval', 'swo', 'dpd', 'hipaa', 'insurance_card'] as DocKey[]
-    },
-    {
-        id: 'uhc_aor',
-        label: 'UHC (Requires AOR)',
-        keys: ['f2f', 'pt_eval', 'swo', 'dpd', 'hipaa', 'insurance_card', 'aor'] as DocKey[]
-    },
-    {
-        id: 'full_clinical',
-        label: 'Full Clinical Packet',
-        keys: ['f2f', 'pt_eval', 'swo', 'dpd', 'hipaa', 'insurance_card', 'aor', 'lmn', 'atp_eval'] as DocKey[]
-    }
+  { key: 'pod', label: 'Proof of Delivery', section: 'post_delivery', aliases: ['proof_of_delivery'] },
+  { key: 'delivery_ticket', label: 'Delivery Ticket', section: 'post_delivery', aliases: ['del_ticket'] },
+  { key: 'delivery_photo', label: 'Delivery Photo', section: 'post_delivery', aliases: ['del_photo'] },
+  { key: 'serial_log', label: 'Equipment Serial Log', section: 'post_delivery', aliases: [] },
+  { key: 'audit_checklist', label: 'Audit Checklist', section: 'post_delivery', aliases: [] },
+  { key: 'vendor_form', label: 'Vendor Form', section: 'post_delivery', aliases: [] },
+  { key: 'repair_req', label: 'Repair / Service Request', section: 'post_delivery', aliases: [] },
+  { key: 'chart_notes', label: 'Chart Notes', section: 'post_delivery', aliases: [] },
+  { key: 'misc_docs', label: 'Misc. Docs', section: 'post_delivery', aliases: ['misc'] },
 ];
+
+export const labelMap = Object.fromEntries(docTypes.map(t => [t.key, t.label])) as Record<DocKey, string>;
+
+export const docSections = (Object.keys(SECTION_LABELS) as DocSectionId[]).map(id => ({
+  id,
+  label: SECTION_LABELS[id],
+  keys: docTypes.filter(t => t.section === id).map(t => t.key),
+}));
+
+const normalizeKey = (raw: string) => raw.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+const aliasIndex = new Map<string, DocKey>(
+  docTypes.flatMap(t => [[t.key, t.key] as const, ...t.aliases.map(alias => [alias, t.key] as const)]),
+);
+
+export const isDocKey = (key: string): key is DocKey => key in labelMap;
+
+/** The canonical key for any spelling of a document type. Unknown keys come back normalised but otherwise unchanged. */
+export function canonicalDocKey(raw: string): string {
+  const normalized = normalizeKey(raw);
+  return aliasIndex.get(normalized) || normalized;
+}
+
+/** Canonical keys for a list, in order and without duplicates. */
+export function normalizeDocKeys(keys: readonly string[]): string[] {
+  return Array.from(new Set(keys.filter(Boolean).map(canonicalDocKey)));
+}
+
+export function docLabel(key: string): string {
+  const canonical = canonicalDocKey(key);
+  return isDocKey(canonical) ? labelMap[canonical] : key;
+}
@@ -0,0 +1,410 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Document, Packer, Paragraph, Table, TableCell, TableRow, TextRun, WidthType } from 'docx';
+import { saveAs } from 'file-saver';
+import { addDays, differenceInHours, format } from 'date-fns';
+import { supabase } from './supabaseClient';
+import { writeAuditLog } from './auditLogger';
+import { docLabel } from './docMapping';
+import { isDocSatisfied } from './stageGates';
+import { logDocRequests, recordDocRequestReminder, type DocRequestInput } from '@/api/docRequests.api';
+import { commonMergeValues, loadEmailTemplate, renderEmailTemplate, type EmailTemplateContent, type MergeUser, type MergeValues } from './emailTemplates';
+import type { DocRequest, Doctor, Order, PracticeSettings } from './types';
+
+export type DocRequestFormat = DocRequest['format'];
+
+export interface RequestedOrder {
+  order: Order;
+  docs: string[];
+}
+
+/** One letter to a referring doctor's office covering every listed order. */
+export interface DocRequestLetter {
+  doctor: Doctor | null;
+  physicianName: string;
+  orders: RequestedOrder[];
+  /** Set when the letter chases an earlier request. */
+  reminder?: { number: number; firstSentAt: string };
+}
+
+/** Letter wording from the documentation request email templates, and who the letters are from. */
+export interface DocRequestWording {
+  request: EmailTemplateContent;
+  reminder: EmailTemplateContent;
+  sender: MergeUser | null;
+}
+
+export interface SendDocRequestsOptions {
+  format: DocRequestFormat;
+  practice: PracticeSettings;
+  dueDate: string;
+  sentBy: string | null | undefined;
+}
+
+/** The patient's required documents the order has not yet satisfied. */
+export function outstandingDocs(order: Order): string[] {
+  return (order.patients?.required_documents || []).filter((key: string) => !isDocSatisfied(order, key));
+}
+
+/** `referring_physician` holds a doctor id from the referral forms, or a free-text name from imports and edits. */
+export function findDoctor(doctors: Doctor[], referringPhysician: string | null | undefined): Doctor | null {
+  const value = referringPhysician?.trim();
+  if (!value) return null;
+  const lower = value.toLowerCase();
+  return doctors.find(d => d.id === value) || doctors.find(d => d.name?.trim().toLowerCase() === lower) || null;
+}
+
+/** Groups orders with outstanding documents into one letter per referring doctor. Orders with no doctor on file are left out. */
+export function buildDocRequestLetters(orders: Order[], doctors: Doctor[]): DocRequestLetter[] {
+  const letters = new Map<string, DocRequestLetter>();
+  for (const order of orders) {
+    const docs = outstandingDocs(order);
+    const physician = order.patients?.referring_physician?.trim();
+    if (docs.length === 0 || !physician) continue;
+
+    const doctor = findDoctor(doctors, physician);
+    const groupKey = doctor?.id || physician.toLowerCase();
+    const letter: DocRequestLetter = letters.get(groupKey) || { doctor, physicianName: doctor?.name || physician, orders: [] };
+    letter.orders.push({ order, docs });
+    letters.set(groupKey, letter);
+  }
+  return Array.from(letters.values()).sort((a, b) => a.physicianName.localeCompare(b.physicianName));
+}
+
+/** Due date (YYYY-MM-DD) for a request sent today, from the practice's turnaround. */
+export function requestDueDate(practice: Pick<PracticeSettings, 'request_due_days'> | null, from = new Date()): string {
+  return format(addDays(from, practice?.request_due_days || 7), 'yyyy-MM-dd');
+}
+
+const displayDate = (date: string | null | undefined) => (date ? format(new Date(`${date.slice(0, 10)}T00:00:00`), 'MM/dd/yyyy') : 'N/A');
+
+const patientRow = ({ order, docs }: RequestedOrder) => [
+  order.patients?.name || 'Unknown',
+  displayDate(order.patients?.dob),
+  [order.patients?.primary_insurance, order.patients?.policy_number && `#${order.patients.policy_number}`].filter(Boolean).join(' ') || 'N/A',
+  docs.map(docLabel).join('\n'),
+];
+
+const PATIENT_COLUMNS = ['Patient', 'DOB', 'Insurance / Member ID', 'Documents Needed'];
+
+const practiceLines = (practice: PracticeSettings) =>
+  [
+    practice.address,
+    [practice.phone && `Phone: ${practice.phone}`, practice.fax && `Fax: ${practice.fax}`].filter(Boolean).join('   '),
+    practice.email,
+  ].filter(Boolean) as string[];
+
+export async function loadDocRequestWording(sender: MergeUser | null): Promise<DocRequestWording> {
+  const [request, reminder] = await Promise.all([loadEmailTemplate('doc_request'), loadEmailTemplate('doc_request_reminder')]);
+  return { request, reminder, sender };
+}
+
+export function docRequestMergeValues(letter: DocRequestLetter, practice: PracticeSettings, dueDate: string, sender: MergeUser | null): MergeValues {
+  return {
+    ...commonMergeValues(sender, practice),
+    'doctor.name': letter.physicianName,
+    'request.due_date': displayDate(dueDate),
+    'request.patient_count': String(letter.orders.length),
+    'request.first_sent': letter.reminder ? displayDate(letter.reminder.firstSentAt) : '',
+    'request.reminder_number': letter.reminder ? String(letter.reminder.number) : '',
+  };
+}
+
+/** The letter's title (the template subject) and body paragraphs (separated by blank lines in the template). */
+function letterText(letter: DocRequestLetter, practice: PracticeSettings, dueDate: string, wording: DocRequestWording) {
+  const template = letter.reminder ? wording.reminder : wording.request;
+  const { subject, body } = renderEmailTemplate(template, docRequestMergeValues(letter, practice, dueDate, wording.sender));
+  return { title: subject, paragraphs: body.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean) };
+}
+
+const coverRows = (letter: DocRequestLetter, practice: PracticeSettings, title: string, pages?: number) => [
+  ['To', letter.physicianName],
+  ['Attn', letter.doctor?.office_contact_name || 'Office Manager'],
+  ['Fax', letter.doctor?.fax_number || 'N/A'],
+  ['Phone', letter.doctor?.office_phone_number || letter.doctor?.phone_number || 'N/A'],
+  ['From', [practice.contact_name, practice.name].filter(Boolean).join(', ')],
+  ['Fax', practice.fax || 'N/A'],
+  ['Phone', practice.phone || 'N/A'],
+  ['Date', format(new Date(), 'MM/dd/yyyy')],
+  ...(pages ? [['Pages', `${pages} (including cover)`]] : []),
+  ['Re', `${title} - ${letter.orders.length} patient(s)`],
+];
+
+const CONFIDENTIALITY_NOTICE =
+  'CONFIDENTIALITY NOTICE: This facsimile contains protected health information that is privileged and confidential under HIPAA. ' +
+  'It is intended only for the recipient named above. If you have received it in error, please notify the sender by phone and destroy all copies.';
+
+function drawFaxCover(doc: jsPDF, letter: DocRequestLetter, practice: PracticeSettings, title: string, pages: number) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  doc.setFontSize(26);
+  doc.setTextColor('#14b8a6');
+  doc.text('FAX', 14, 26);
+  doc.setFontSize(12);
+  doc.setTextColor(60);
+  doc.text(practice.name, pageWidth - 14, 20, { align: 'right' });
+  doc.setFontSize(9);
+  practiceLines(practice).forEach((line, i) => doc.text(line, pageWidth - 14, 26 + i * 5, { align: 'right' }));
+
+  autoTable(doc, {
+    startY: 48,
+    body: coverRows(letter, practice, title, pages),
+    theme: 'grid',
+    styles: { fontSize: 11, cellPadding: 3 },
+    columnStyles: { 0: { fontStyle: 'bold', cellWidth: 30 } },
+  });
+  let y = (doc as any).lastAutoTable.finalY + 12;
+  doc.setFontSize(11);
+  doc.setTextColor(40);
+  doc.text(doc.splitTextToSize('Please see the attached Documentation Request and return the listed documents by fax.', pageWidth - 28), 14, y);
+  y += 16;
+  doc.setFontSize(8);
+  doc.setTextColor(110);
+  doc.text(doc.splitTextToSize(CONFIDENTIALITY_NOTICE, pageWidth - 28), 14, y);
+}
+
+function drawLetter(doc: jsPDF, letter: DocRequestLetter, practice: PracticeSettings, dueDate: string, text: ReturnType<typeof letterText>) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  doc.setFontSize(14);
+  doc.setTextColor('#14b8a6');
+  doc.text(practice.name, 14, 20);
+  doc.setFontSize(9);
+  doc.setTextColor(100);
+  practiceLines(practice).forEach((line, i) => doc.text(line, 14, 26 + i * 5));
+
+  let y = 48;
+  doc.setFontSize(16);
+  doc.setTextColor(30);
+  doc.text(text.title, 14, y);
+  doc.setFontSize(10);
+  doc.text(`Date: ${format(new Date(), 'MM/dd/yyyy')}`, pageWidth - 14, y - 6, { align: 'right' });
+  doc.setTextColor('#dc2626');
+  doc.text(`Please return by: ${displayDate(dueDate)}`, pageWidth - 14, y, { align: 'right' });
+
+  y += 10;
+  doc.setFontSize(10);
+  doc.setTextColor(40);
+  for (const paragraph of text.paragraphs) {
+    const lines = doc.splitTextToSize(paragraph, pageWidth - 28);
+    doc.text(lines, 14, y);
+    y += lines.length * 5 + 3;
+  }
+
+  autoTable(doc, {
+    startY: y + 2,
+    head: [PATIENT_COLUMNS],
+    body: letter.orders.map(patientRow),
+    theme: 'grid',
+    headStyles: { fillColor: [75, 85, 99] },
+    styles: { fontSize: 9, cellPadding: 2, valign: 'top' },
+  });
+  y = (doc as any).lastAutoTable.finalY + 12;
+  if (y > doc.internal.pageSize.getHeight() - 30) {
+    doc.addPage();
+    y = 20;
+  }
+  doc.setFontSize(10);
+  doc.text('Thank you,', 14, y);
+  doc.text([practice.contact_name, practice.name].filter(Boolean).join(', '), 14, y + 6);
+}
+
+/** One PDF holding a fax cover sheet and letter per doctor. */
+export function generateDocRequestPDF(letters: DocRequestLetter[], practice: PracticeSettings, dueDate: string, wording: DocRequestWording): jsPDF {
+  const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'letter' });
+  letters.forEach((letter, i) => {
+    if (i > 0) doc.addPage();
+    const firstPage = doc.getNumberOfPages();
+    const text = letterText(letter, practice, dueDate, wording);
+    drawLetter(doc, letter, practice, dueDate, text);
+    const letterPages = doc.getNumberOfPages() - firstPage + 1;
+    // The cover states the page count, so it is drawn once the letter is laid out.
+    doc.insertPage(firstPage);
+    drawFaxCover(doc, letter, practice, text.title, letterPages + 1);
+  });
+  return doc;
+}
+
+const docxParagraph = (text: string, options: { bold?: boolean; size?: number; italics?: boolean } = {}) =>
+  new Paragraph({ children: [new TextRun({ text, ...options })], spacing: { after: 160 } });
+
+const docxTable = (rows: string[][], header?: string[]) =>
+  new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      ...(header ? [new TableRow({ children: header.map(h => new TableCell({ children: [docxParagraph(h, { bold: true })] })) })] : []),
+      ...rows.map(row => new TableRow({
+        children: row.map((cell, i) => new TableCell({
+          children: cell.split('\n').map(line => docxParagraph(line, { bold: !header && i === 0 })),
+        })),
+      })),
+    ],
+  });
+
+/** The same letters as `generateDocRequestPDF`, as an editable Word document. */
+export async function generateDocRequestDocx(letters: DocRequestLetter[], practice: PracticeSettings, dueDate: string, wording: DocRequestWording): Promise<Blob> {
+  const letterhead = () => [docxParagraph(practice.name, { bold: true, size: 28 }), ...practiceLines(practice).map(line => docxParagraph(line, { size: 18 }))];
+  const doc = new Document({
+    sections: letters.map(letter => ({ letter, text: letterText(letter, practice, dueDate, wording) })).flatMap(({ letter, text }) => [
+      {
+        children: [
+          docxParagraph('FAX', { bold: true, size: 48 }),
+          ...letterhead(),
+          docxTable(coverRows(letter, practice, text.title)),
+          docxParagraph(' '),
+          docxParagraph('Please see the attached Documentation Request and return the listed documents by fax.'),
+          docxParagraph(CONFIDENTIALITY_NOTICE, { italics: true, size: 16 }),
+        ],
+      },
+      {
+        children: [
+          ...letterhead(),
+          docxParagraph(text.title, { bold: true, size: 32 }),
+          docxParagraph(`Date: ${format(new Date(), 'MM/dd/yyyy')}    Please return by: ${displayDate(dueDate)}`, { bold: true }),
+          ...text.paragraphs.map(paragraph => docxParagraph(paragraph)),
+          docxTable(letter.orders.map(patientRow), PATIENT_COLUMNS),
+          docxParagraph(' '),
+          docxParagraph('Thank you,'),
+          docxParagraph([practice.contact_name, practice.name].filter(Boolean).join(', ')),
+        ],
+      },
+    ]),
+  });
+  return Packer.toBlob(doc);
+}
+
+const fileSafe = (value: string) => value.replace(/[^\w]+/g, '_').replace(/^_|_$/g, '');
+
+const saveLetters = async (letters: DocRequestLetter[], fileFormat: DocRequestFormat, baseName: string, practice: PracticeSettings, dueDate: string, sentBy: string | null | undefined) => {
+  const wording = await loadDocRequestWording(sentBy ? { email: sentBy } : null);
+  if (fileFormat === 'pdf') {
+    generateDocRequestPDF(letters, practice, dueDate, wording).save(`${baseName}.pdf`);
+  } else {
+    saveAs(await generateDocRequestDocx(letters, practice, dueDate, wording), `${baseName}.docx`);
+  }
+};
+
+/**
+ * Generates and downloads the letters, then records a request against every
+ * order they cover so the order shows when and what was last asked for.
+ */
+export async function sendDocRequests(letters: DocRequestLetter[], options: SendDocRequestsOptions) {
+  if (letters.length === 0) return;
+  const { format: fileFormat, practice, dueDate, sentBy } = options;
+  const baseName = letters.length === 1
+    ? `Doc_Request_${fileSafe(letters[0].physicianName)}_${format(new Date(), 'yyyy-MM-dd')}`
+    : `Doc_Requests_${format(new Date(), 'yyyy-MM-dd')}`;
+
+  await saveLetters(letters, fileFormat, baseName, practice, dueDate, sentBy);
+
+  const inputs: DocRequestInput[] = letters.flatMap(letter => {
+    const batchId = crypto.randomUUID();
+    return letter.orders.map(({ order, docs }) => ({
+      order_id: order.id,
+      patient_id: order.patient_id,
+      doctor_id: letter.doctor?.id || null,
+      doc_keys: docs,
+      due_date: dueDate,
+      format: fileFormat,
+      batch_id: batchId,
+      sent_by: sentBy || null,
+    }));
+  });
+  await logDocRequests(inputs);
+
+  for (const letter of letters) {
+    for (const { order, docs } of letter.orders) {
+      await writeAuditLog('doc_request_sent', {
+        changed_by: sentBy,
+        changed_user: order.patients?.name,
+        patient_id: order.patient_id,
+        details: { order_id: order.id, doctor: letter.physicianName, documents: docs, due_date: dueDate },
+      });
+    }
+  }
+}
+
+/** Past its due date and still waiting on the office. */
+export function isOverdue(request: DocRequest, now = new Date()): boolean {
+  return !request.received_at && !!request.due_date && request.due_date < format(now, 'yyyy-MM-dd');
+}
+
+/** Overdue after the practice's allowance of reminders has gone unanswered. */
+export function isEscalated(request: DocRequest, escalateAfterReminders: number, now = new Date()): boolean {
+  return isOverdue(request, now) && request.reminder_count >= escalateAfterReminders;
+}
+
+export interface PhysicianResponsiveness {
+  /** Null groups requests to doctors who are not in the doctors list. */
+  doctorId: string | null;
+  requests: DocRequest[];
+  outstanding: DocRequest[];
+  overdue: number;
+  escalated: number;
+  avgTurnaroundDays: number | null;
+  lastSentAt: string | null;
+}
+
+/** Request counts and turnaround per doctor, slowest offices first. */
+export function summarizeResponsiveness(requests: DocRequest[], escalateAfterReminders: number, now = new Date()): PhysicianResponsiveness[] {
+  const byDoctor = new Map<string | null, DocRequest[]>();
+  for (const request of requests) {
+    byDoctor.set(request.doctor_id, [...(byDoctor.get(request.doctor_id) || []), request]);
+  }
+
+  const rows = Array.from(byDoctor.entries()).map(([doctorId, doctorRequests]): PhysicianResponsiveness => {
+    const received = doctorRequests.filter(r => r.received_at);
+    const turnaroundHours = received.map(r => differenceInHours(new Date(r.received_at!), new Date(r.sent_at)));
+    return {
+      doctorId,
+      requests: doctorRequests,
+      outstanding: doctorRequests.filter(r => !r.received_at),
+      overdue: doctorRequests.filter(r => isOverdue(r, now)).length,
+      escalated: doctorRequests.filter(r => isEscalated(r, escalateAfterReminders, now)).length,
+      avgTurnaroundDays: turnaroundHours.length > 0 ? turnaroundHours.reduce((a, b) => a + b, 0) / turnaroundHours.length / 24 : null,
+      lastSentAt: doctorRequests.reduce<string | null>((latest, r) => (!latest || r.sent_at > latest ? r.sent_at : latest), null),
+    };
+  });
+
+  return rows.sort((a, b) => b.escalated - a.escalated || b.overdue - a.overdue || (b.avgTurnaroundDays ?? 0) - (a.avgTurnaroundDays ?? 0));
+}
+
+/**
+ * Regenerates one letter covering a doctor's open requests, with the documents
+ * each order is still missing today, and counts a reminder against each request.
+ */
+export async function resendDocRequestReminder(
+  openRequests: DocRequest[],
+  recipient: { doctor: Doctor | null; physicianName: string },
+  options: SendDocRequestsOptions,
+) {
+  const { format: fileFormat, practice, dueDate, sentBy } = options;
+  const orderIds = Array.from(new Set(openRequests.map(r => r.order_id)));
+  const { data, error } = await supabase.from('orders').select('*, patients(*)').in('id', orderIds);
+  if (error) throw error;
+
+  const orders = ((data || []) as Order[])
+    .map(order => ({ order, docs: outstandingDocs(order) }))
+    .filter(({ docs }) => docs.length > 0);
+  if (orders.length === 0) throw new Error('These requests have no documents outstanding.');
+
+  const letter: DocRequestLetter = {
+    ...recipient,
+    orders,
+    reminder: {
+      number: Math.max(...openRequests.map(r => r.reminder_count)) + 1,
+      firstSentAt: openRequests.reduce((first, r) => (r.sent_at < first ? r.sent_at : first), openRequests[0].sent_at),
+    },
+  };
+  await saveLetters([letter], fileFormat, `Doc_Request_Reminder_${fileSafe(recipient.physicianName)}_${format(new Date(), 'yyyy-MM-dd')}`, practice, dueDate, sentBy);
+
+  for (const request of openRequests) {
+    await recordDocRequestReminder(request, dueDate);
+  }
+  for (const { order, docs } of orders) {
+    await writeAuditLog('doc_request_reminder', {
+      changed_by: sentBy,
+      changed_user: order.patients?.name,
+      patient_id: order.patient_id,
+      details: { order_id: order.id, doctor: recipient.physicianName, documents: docs, due_date: dueDate, reminder: letter.reminder!.number },
+    });
+  }
+}
@@ -0,0 +1,147 @@
+import { supabase } from './supabaseClient';
+import { writeAuditLog } from './auditLogger';
+import { syncStoplight } from './stoplight';
+import { normalizeDocKeys } from './docMapping';
+import { listDocRuleSets } from '@/api/docRuleSets.api';
+import type { DocRuleSet, Equipment, Order, Patient } from './types';
+
+/** What a referral is matched on when choosing its documentation rule sets. */
+export interface RequirementContext {
+  insuranceProviderId?: string | null;
+  caseType?: string | null;
+  equipmentCategories?: (string | null | undefined)[];
+}
+
+/** Used when no rule set applies, e.g. before any have been configured. */
+export const DEFAULT_REQUIRED_DOCS = ['f2f', 'pt_eval', 'swo', 'dpd', 'hipaa', 'insurance_card'];
+
+/** Active rule sets whose provider, case type and equipment category all match; a null field matches anything. */
+export function matchingRuleSets(ruleSets: DocRuleSet[], context: RequirementContext): DocRuleSet[] {
+  const categories = (context.equipmentCategories || []).filter(Boolean);
+  return ruleSets.filter(set =>
+    set.is_active &&
+    (!set.insurance_provider_id || set.insurance_provider_id === context.insuranceProviderId) &&
+    (!set.case_type || set.case_type === context.caseType) &&
+    (!set.equipment_category || categories.includes(set.equipment_category)),
+  );
+}
+
+/** The union of the documents required by every matching rule set, or null when none match. */
+export function requiredDocumentsFor(ruleSets: DocRuleSet[], context: RequirementContext): string[] | null {
+  const matched = matchingRuleSets(ruleSets, context);
+  if (matched.length === 0) return null;
+  return normalizeDocKeys(matched.flatMap(set => set.doc_keys));
+}
+
+/** Required documents for a new referral; falls back to the defaults when the rule sets cannot be loaded. */
+export async function loadRequiredDocumentsFor(context: RequirementContext): Promise<string[]> {
+  try {
+    return requiredDocumentsFor(await listDocRuleSets(), context) || DEFAULT_REQUIRED_DOCS;
+  } catch (err) {
+    console.error('Failed to load documentation rule sets:', err);
+    return DEFAULT_REQUIRED_DOCS;
+  }
+}
+
+export interface RequiredDocsDiff {
+  added: string[];
+  removed: string[];
+}
+
+/** Keys to add and remove to turn `current` into `proposed`. */
+export function diffRequiredDocuments(current: string[], proposed: string[]): RequiredDocsDiff {
+  const currentKeys = new Set(current);
+  const proposedKeys = new Set(proposed);
+  return {
+    added: proposed.filter(k => !currentKeys.has(k)),
+    removed: current.filter(k => !proposedKeys.has(k)),
+  };
+}
+
+export interface RequiredDocsProposal extends RequiredDocsDiff {
+  orderId: string;
+  patientId: string;
+  patientName: string;
+  current: string[];
+  ruleSets: string[];
+}
+
+/** Columns of an order needed to propose its required documents. */
+type ProposalOrder = Pick<Order, 'id' | 'case_type' | 'patient_id'> & {
+  patients: Pick<Patient, 'name' | 'required_documents' | 'insurance_provider_id'> | null;
+  equipment: Pick<Equipment, 'category'>[] | null;
+};
+
+/**
+ * The change to the patient's required documents implied by the order's current
+ * provider, case type and equipment. Null when nothing would change or no rule
+ * set matches, so an unconfigured system never proposes removing everything.
+ */
+export async function buildRequiredDocsProposal(orderId: string): Promise<RequiredDocsProposal | null> {
+  const [ruleSets, { data, error }] = await Promise.all([
+    listDocRuleSets(),
+    supabase
+      .from('orders')
+      .select('id, case_type, patient_id, patients(name, required_documents, insurance_provider_id), equipment(category)')
+      .eq('id', orderId)
+      .single(),
+  ]);
+  if (error) throw error;
+
+  const order = data as unknown as ProposalOrder;
+  const context: RequirementContext = {
+    insuranceProviderId: order.patients?.insurance_provider_id,
+    caseType: order.case_type,
+    equipmentCategories: (order.equipment || []).map(e => e.category),
+  };
+  const matched = matchingRuleSets(ruleSets, context);
+  if (matched.length === 0) return null;
+
+  const current = order.patients?.required_documents || [];
+  const diff = diffRequiredDocuments(current, normalizeDocKeys(matched.flatMap(set => set.doc_keys)));
+  if (diff.added.length === 0 && diff.removed.length === 0) return null;
+
+  return {
+    ...diff,
+    orderId,
+    patientId: order.patient_id,
+    patientName: order.patients?.name || 'Unknown',
+    current,
+    ruleSets: matched.map(set => set.name),
+  };
+}
+
+/**
+ * Applies the accepted part of a proposal. Added documents start as Missing on
+ * the order; the statuses of removed documents are kept in case they return.
+ */
+export async function applyRequiredDocsChange(
+  proposal: RequiredDocsProposal,
+  accepted: RequiredDocsDiff,
+  changedBy: string | null | undefined,
+) {
+  const removed = new Set(accepted.removed);
+  const required = [...proposal.current.filter(k => !removed.has(k)), ...accepted.added];
+
+  const { error } = await supabase.from('patients').update({ required_documents: required }).eq('id', proposal.patientId);
+  if (error) throw error;
+
+  if (accepted.added.length > 0) {
+    const { data, error: orderError } = await supabase.from('orders').select('document_status').eq('id', proposal.orderId).single();
+    if (orderError) throw orderError;
+    const status: Record<string, string> = { ...(data?.document_status || {}) };
+    for (const key of accepted.added) {
+      if (!status[key]) status[key] = 'Missing';
+    }
+    const { error: updateError } = await supabase.from('orders').update({ document_status: status }).eq('id', proposal.orderId);
+    if (updateError) throw updateError;
+  }
+
+  await writeAuditLog('required_documents_change', {
+    changed_by: changedBy,
+    changed_user: proposal.patientName,
+    patient_id: proposal.patientId,
+    details: { added: accepted.added, removed: accepted.removed, rule_sets: proposal.ruleSets },
+  });
+  await syncStoplight(proposal.orderId, changedBy);
+}
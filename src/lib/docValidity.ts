@@ -0,0 +1,156 @@
+import { supabase } from './supabaseClient';
+import { canonicalDocKey, docLabel } from './docMapping';
+import { writeAuditLog } from './auditLogger';
+import { runDocumentAutomations } from './automation';
+import { syncStoplight } from './stoplight';
+import { listValidityRules } from '@/api/documentValidity.api';
+import type { DocumentValidityRule, Order, ValidityAnchor } from './types';
+
+export const VALIDITY_ANCHORS: Record<ValidityAnchor, string> = {
+  document_date: 'Document date',
+  order_date: 'Order date',
+  f2f_date: 'F2F date',
+};
+
+export type ValidityState = 'valid' | 'expiring' | 'expired';
+
+export interface DocValidity {
+  key: string;
+  label: string;
+  rule: DocumentValidityRule;
+  anchorDate: Date;
+  expiresAt: Date;
+  /** Whole days until expiry; negative once expired. */
+  daysLeft: number;
+  state: ValidityState;
+}
+
+type ValidityOrder = Pick<Order, 'order_date' | 'f2f_date' | 'pt_eval_date' | 'document_status' | 'document_dates'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Order date fields that stand in for a document's own date when none was recorded. */
+const FALLBACK_DATE_FIELDS: Record<string, keyof ValidityOrder> = {
+  f2f: 'f2f_date',
+  pt_eval: 'pt_eval_date',
+};
+
+export const findValidityRule = (rules: DocumentValidityRule[], key: string) =>
+  rules.find(r => r.doc_key === canonicalDocKey(key));
+
+const parseDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  const text = String(value);
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T00:00:00` : text);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+function anchorDate(order: ValidityOrder, key: string, anchor: ValidityAnchor): Date | null {
+  if (anchor === 'order_date') return parseDate(order.order_date);
+  if (anchor === 'f2f_date') return parseDate(order.f2f_date);
+  const fallback = FALLBACK_DATE_FIELDS[canonicalDocKey(key)];
+  return parseDate(order.document_dates?.[key]) || (fallback ? parseDate(order[fallback]) : null);
+}
+
+/** Validity of one document, or null when it has no rule or no date to measure from. */
+export function docValidity(order: ValidityOrder, key: string, rules: DocumentValidityRule[], now: Date = new Date()): DocValidity | null {
+  const rule = findValidityRule(rules, key);
+  if (!rule) return null;
+  const anchor = anchorDate(order, key, rule.anchor);
+  if (!anchor) return null;
+
+  const expiresAt = new Date(anchor.getTime() + rule.valid_days * DAY_MS);
+  const daysLeft = Math.floor((expiresAt.getTime() - now.getTime()) / DAY_MS);
+  const state: ValidityState = daysLeft < 0 ? 'expired' : daysLeft <= rule.warn_days ? 'expiring' : 'valid';
+  return { key, label: docLabel(key), rule, anchorDate: anchor, expiresAt, daysLeft, state };
+}
+
+/** Validity of every Complete or Expired document on the order that has a rule. */
+export function orderDocValidity(order: ValidityOrder, rules: DocumentValidityRule[], now: Date = new Date()): DocValidity[] {
+  return Object.entries(order.document_status || {})
+    .filter(([, status]) => status === 'Complete' || status === 'Expired')
+    .map(([key]) => docValidity(order, key, rules, now))
+    .filter((v): v is DocValidity => !!v);
+}
+
+export function describeValidity(validity: DocValidity): string {
+  const on = validity.expiresAt.toLocaleDateString();
+  if (validity.state === 'expired') return `Expired ${on}`;
+  return `Valid until ${on} (${validity.daysLeft}d)`;
+}
+
+/**
+ * Sets a document's date. A document that was Expired becomes Complete again
+ * when the new date puts it back inside its window. Status and date are written
+ * together so the date trigger keeps the date entered here.
+ */
+export async function updateDocumentDate(orderId: string, key: string, date: string | null, changedBy: string | null) {
+  const [rules, { data, error }] = await Promise.all([
+    listValidityRules(),
+    supabase.from('orders').select('order_date, f2f_date, pt_eval_date, document_status, document_dates').eq('id', orderId).single(),
+  ]);
+  if (error) throw error;
+  const order = data as ValidityOrder;
+
+  const dates: Record<string, string> = { ...(order.document_dates || {}) };
+  if (date) dates[key] = date;
+  else delete dates[key];
+
+  const currentStatus: Record<string, string> = order.document_status || {};
+  let updatedStatus = currentStatus;
+  if (currentStatus[key] === 'Expired') {
+    const validity = docValidity({ ...order, document_dates: dates }, key, rules);
+    if (validity && validity.state !== 'expired') updatedStatus = { ...currentStatus, [key]: 'Complete' };
+  }
+
+  const { error: updateError } = await supabase
+    .from('orders')
+    .update({ document_dates: dates, document_status: updatedStatus })
+    .eq('id', orderId);
+  if (updateError) throw updateError;
+
+  if (updatedStatus !== currentStatus) {
+    await runDocumentAutomations(orderId, currentStatus, updatedStatus, changedBy);
+    await syncStoplight(orderId, changedBy);
+  }
+}
+
+/**
+ * Marks every Complete document that is past its validity window as Expired.
+ * Run from Settings on demand; the `background-sweep` edge function does the
+ * same on a schedule. Returns how many documents expired.
+ */
+export async function expireDocuments(): Promise<number> {
+  const rules = await listValidityRules();
+  if (rules.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from('orders')
+    .select('id, patient_id, order_date, f2f_date, pt_eval_date, document_status, document_dates')
+    .or('is_archived.is.null,is_archived.eq.false');
+  if (error) throw error;
+
+  const now = new Date();
+  let expired = 0;
+  for (const order of (data || []) as (ValidityOrder & Pick<Order, 'id' | 'patient_id'>)[]) {
+    const keys = orderDocValidity(order, rules, now)
+      .filter(v => v.state === 'expired' && order.document_status?.[v.key] === 'Complete')
+      .map(v => v.key);
+    if (keys.length === 0) continue;
+
+    const updatedStatus = { ...order.document_status, ...Object.fromEntries(keys.map(key => [key, 'Expired'])) };
+    const { error: updateError } = await supabase.from('orders').update({ document_status: updatedStatus }).eq('id', order.id);
+    if (updateError) {
+      console.error(`Failed to expire documents on order ${order.id}:`, updateError);
+      continue;
+    }
+    expired += keys.length;
+    await writeAuditLog('doc_status_change', {
+      changed_by: 'System',
+      patient_id: order.patient_id,
+      details: { documents: keys, status: 'Expired', reason: 'Validity window passed' },
+    });
+    await syncStoplight(order.id, 'System');
+  }
+  return expired;
+}
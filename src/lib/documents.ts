@@ -0,0 +1,76 @@
+import { supabase } from './supabaseClient';
+import { writeAuditLog } from './auditLogger';
+import { runDocumentAutomations } from './automation';
+import { syncStoplight } from './stoplight';
+import { deleteOrderDocument, recordOrderDocument, uploadOrderDocument, verifyOrderDocument } from '@/api/documents.api';
+import type { OrderDocument } from './types';
+
+type DocStatus = 'Complete' | 'Missing' | 'Pending';
+
+/**
+ * Sets one key of an order's `document_status`, reading the current map first
+ * so that concurrent changes to other documents are kept, then runs the same
+ * automations and stoplight sync as the checklist toggles.
+ */
+export async function setDocumentStatus(orderId: string, docKey: string, status: DocStatus, changedBy: string | null) {
+  const { data, error } = await supabase.from('orders').select('document_status').eq('id', orderId).single();
+  if (error) throw error;
+  const currentStatus: Record<string, string> = data?.document_status || {};
+  if (currentStatus[docKey] === status) return;
+
+  const updatedStatus = { ...currentStatus, [docKey]: status };
+  const { error: updateError } = await supabase.from('orders').update({ document_status: updatedStatus }).eq('id', orderId);
+  if (updateError) throw updateError;
+  await runDocumentAutomations(orderId, currentStatus, updatedStatus, changedBy);
+  await syncStoplight(orderId, changedBy);
+}
+
+/** Uploads a file for a document; a document that is not yet Complete becomes Pending review. */
+export async function attachDocumentFile(
+  order: { id: string; patient_id: string | null; document_status?: Record<string, string> | null },
+  docKey: string,
+  file: File,
+  uploadedBy: string | null,
+) {
+  const document = await uploadOrderDocument({ orderId: order.id, patientId: order.patient_id, docKey, file, uploadedBy });
+  if (order.document_status?.[docKey] !== 'Complete') {
+    await setDocumentStatus(order.id, docKey, 'Pending', uploadedBy);
+  }
+  await writeAuditLog('document_uploaded', { changed_by: uploadedBy, patient_id: order.patient_id, order_id: order.id, document: docKey, file: file.name });
+  return document;
+}
+
+/** Files a document from a file already in storage, such as an email attachment; like an upload, the document becomes Pending review. */
+export async function fileStoredDocument(
+  order: { id: string; patient_id: string | null; document_status?: Record<string, string> | null },
+  docKey: string,
+  file: Pick<OrderDocument, 'file_name' | 'file_path' | 'mime_type' | 'size_bytes'>,
+  uploadedBy: string | null,
+) {
+  const document = await recordOrderDocument({ ...file, order_id: order.id, patient_id: order.patient_id, doc_key: docKey, uploaded_by: uploadedBy });
+  if (order.document_status?.[docKey] !== 'Complete') {
+    await setDocumentStatus(order.id, docKey, 'Pending', uploadedBy);
+  }
+  await writeAuditLog('document_uploaded', { changed_by: uploadedBy, patient_id: order.patient_id, order_id: order.id, document: docKey, file: file.file_name });
+  return document;
+}
+
+/** Marks a file as checked and the document it belongs to as Complete. */
+export async function verifyDocumentFile(document: OrderDocument, verifiedBy: string | null) {
+  await verifyOrderDocument(document.id, verifiedBy);
+  await setDocumentStatus(document.order_id, document.doc_key, 'Complete', verifiedBy);
+  await writeAuditLog('document_verified', { changed_by: verifiedBy, patient_id: document.patient_id, order_id: document.order_id, document: document.doc_key, file: document.file_name });
+}
+
+/**
+ * Deletes a file. When it was the last file of a document that is still
+ * Pending review, the document goes back to Missing.
+ */
+export async function removeDocumentFile(document: OrderDocument, remaining: OrderDocument[], removedBy: string | null, currentStatus?: string) {
+  await deleteOrderDocument(document);
+  const othersForKey = remaining.filter(d => d.doc_key === document.doc_key && d.id !== document.id);
+  if (othersForKey.length === 0 && currentStatus === 'Pending') {
+    await setDocumentStatus(document.order_id, document.doc_key, 'Missing', removedBy);
+  }
+  await writeAuditLog('document_deleted', { changed_by: removedBy, patient_id: document.patient_id, order_id: document.order_id, document: document.doc_key, file: document.file_name });
+}
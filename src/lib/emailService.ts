@@ -1,14 +1,116 @@
 import { supabase } from './supabaseClient';
-import type { Order } from './types';
+import type { EmailTransportName, Order, OutboxEmail } from './types';
 import type { jsPDF } from 'jspdf';
 import { writeAuditLog } from './auditLogger';
+import { getOutboxEmail, queueEmail, retryOutboxEmail, type OutboxEmailInput } from '@/api/emailOutbox.api';
+import { getPracticeSettings } from '@/api/docRequests.api';
+import { commonMergeValues, loadEmailTemplate, orderMergeValues, renderEmailTemplate, type MergeUser } from './emailTemplates';
 
-export async function sendVendorEmail(order: Order, pdfDoc: jsPDF, userEmail: string | undefined) {
-  const resendApiKey = import.meta.env.VITE_RESEND_KEY;
-  if (!resendApiKey || resendApiKey === 'YOUR_API_KEY') {
-    throw new Error("Resend API key is not configured. Cannot send vendor email.");
+export interface EmailAttachment {
+  filename: string;
+  /** Base64-encoded file content. */
+  content: string;
+  content_type?: string;
+}
+
+export interface EmailMessage {
+  to: string | string[];
+  subject: string;
+  text: string;
+  html?: string;
+  reply_to?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailSendResult {
+  transport: EmailTransportName;
+  id: string | null;
+}
+
+export interface OutboxProcessResult {
+  sent: number;
+  /** Failed this time and scheduled for another attempt. */
+  retrying: number;
+  /** Failed on their last allowed attempt. */
+  failed: number;
+}
+
+/** Each transport's configuration problem (e.g. a missing secret), or null when it is ready to send. */
+export interface EmailTransportStatus {
+  transport: EmailTransportName;
+  problems: Record<EmailTransportName, string | null>;
+}
+
+/** Calls one of the email edge functions (`send-email`, `send-digests`). */
+export async function invokeEmailFunction<T>(name: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error) {
+    // The function answers with `{ error }`; prefer that over the generic HTTP status message.
+    const detail = await (error as any).context?.json?.().catch(() => null);
+    throw new Error(detail?.error || error.message);
   }
+  return data as T;
+}
+
+const invokeSendEmail = <T>(body: Record<string, unknown>) => invokeEmailFunction<T>('send-email', body);
+
+/**
+ * Sends an email through the `send-email` edge function, which uses the transport
+ * configured in Settings. No provider credentials are needed in the browser.
+ */
+export function sendEmail(message: EmailMessage) {
+  return invokeSendEmail<EmailSendResult>({ action: 'send', message });
+}
+
+export function getEmailTransportStatus() {
+  return invokeSendEmail<EmailTransportStatus>({ action: 'status' });
+}
+
+/** Sends due outbox emails, or exactly `ids` when given. Failures are rescheduled server-side. */
+export function processOutbox(ids?: string[]) {
+  return invokeSendEmail<OutboxProcessResult>({ action: 'process_outbox', ids });
+}
+
+/** Sends one queued email now and returns it as it stands afterwards; throws if it was not sent. */
+export async function sendQueuedEmail(id: string): Promise<OutboxEmail> {
+  await processOutbox([id]);
+  const email = await getOutboxEmail(id);
+  if (email.status === 'sent') return email;
+  if (email.status === 'failed') throw new Error(email.last_error || 'The email could not be sent.');
+  throw new Error(`${email.last_error || 'The email could not be sent yet.'} It will be retried automatically.`);
+}
+
+export type OutboxEmailMeta = Partial<Pick<OutboxEmailInput, 'order_id' | 'patient_id' | 'rule_id' | 'created_by'>>;
+
+/** Queues `message` in the durable outbox; it is sent by the next outbox run. */
+export function queueOutgoingEmail(message: EmailMessage, meta: OutboxEmailMeta = {}) {
+  return queueEmail(
+    {
+      to_address: Array.isArray(message.to) ? message.to.join(', ') : message.to,
+      subject: message.subject,
+      body: message.text,
+      reply_to: message.reply_to || null,
+      order_id: meta.order_id ?? null,
+      patient_id: meta.patient_id ?? null,
+      rule_id: meta.rule_id ?? null,
+      created_by: meta.created_by ?? null,
+    },
+    message.attachments,
+  );
+}
 
+/**
+ * Queues `message` and tries to send it straight away. If that attempt fails
+ * the email stays queued and is retried with backoff, and the error is
+ * rethrown so the caller can tell the user.
+ */
+export async function deliverEmail(message: EmailMessage, meta: OutboxEmailMeta = {}) {
+  const email = await queueOutgoingEmail(message, meta);
+  return sendQueuedEmail(email.id);
+}
+
+export async function sendVendorEmail(order: Order, pdfDoc: jsPDF, sender: MergeUser | null) {
+  const userEmail = sender?.email || undefined;
   if (!order.vendor_id) {
     throw new Error("Order does not have a vendor assigned. Cannot send email.");
   }
@@ -24,66 +126,50 @@ export async function sendVendorEmail(order: Order, pdfDoc: jsPDF, userEmail: st
   }
 
   const patientName = order.patients?.name ?? order.patient_name ?? "a patient";
-  
-  // Create a log entry
-  const { data: logEntry, error: logInsertError } = await supabase
+  const pdfB64 = pdfDoc.output('datauristring').split(',')[1];
+
+  const [template, practice] = await Promise.all([loadEmailTemplate('vendor_par_packet'), getPracticeSettings()]);
+  const { subject, body } = renderEmailTemplate(template, {
+    ...commonMergeValues(sender, practice),
+    ...orderMergeValues(order),
+    'vendor.name': vendor.name,
+  });
+
+  const email = await queueOutgoingEmail({
+    to: vendor.email,
+    subject,
+    text: body,
+    attachments: [{
+        filename: `${patientName.replace(/\s/g, "_")}_PAR.pdf`,
+        content: pdfB64,
+        content_type: 'application/pdf',
+    }],
+  }, { order_id: order.id, patient_id: order.patient_id, created_by: userEmail || null });
+
+  // The log entry's status follows the outbox email from here on.
+  const { error: logInsertError } = await supabase
     .from('vendor_log')
     .insert({
         patient_name: patientName,
         vendor_name: vendor.name,
         status: 'pending',
-        sent_by: userEmail || 'System'
-    })
-    .select()
-    .single();
+        sent_by: userEmail || 'System',
+        outbox_id: email.id,
+    });
 
   if (logInsertError) {
       console.error("Failed to create vendor log entry:", logInsertError);
       // Proceed with email sending anyway, but log the error
   }
 
-  const pdfB64 = pdfDoc.output('datauristring').split(',')[1];
-  
-  const payload = {
-    to: vendor.email,
-    from: "Patient Sync <onboarding@resend.dev>", // Replace with your verified Resend domain
-    subject: `New PAR Packet for ${patientName}`,
-    text: `Hello ${vendor.name},\n\nAttached is the preauthorization packet for ${patientName}.\n\nThank you,\nPatient's Choice DME`,
-    attachments: [{
-        filename: `${patientName.replace(/\s/g, "_")}_PAR.pdf`,
-        content: pdfB64,
-    }],
-  };
-
-  try {
-    const response = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${resendApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(payload),
-    });
+  await sendQueuedEmail(email.id);
+  console.log(`Email successfully sent to ${vendor.email}`);
+  await writeAuditLog("email_sent", { changed_by: userEmail, changed_user: patientName, vendor: vendor.name, outbox_id: email.id });
+}
 
-    if (!response.ok) {
-      const errorBody = await response.json();
-      throw new Error(`Failed to send email: ${errorBody.message}`);
-    }
-    
-    console.log(`Email successfully sent to ${vendor.email}`);
-    await writeAuditLog("email_sent", { changed_by: userEmail, changed_user: patientName, vendor: vendor.name });
-
-    // Update log to 'sent'
-    if (logEntry) {
-        await supabase.from('vendor_log').update({ status: 'sent' }).eq('id', logEntry.id);
-    }
-
-  } catch (error) {
-    console.error("Error sending vendor email:", error);
-    // Update log to 'failed'
-    if (logEntry) {
-        await supabase.from('vendor_log').update({ status: 'failed' }).eq('id', logEntry.id);
-    }
-    throw error; // Re-throw the error to be caught by the calling function
-  }
+/** Sends a queued or failed outbox email now instead of waiting for its next attempt. */
+export async function sendOutboxEmail(email: OutboxEmail, userEmail: string | undefined) {
+  await retryOutboxEmail(email);
+  await sendQueuedEmail(email.id);
+  await writeAuditLog("email_sent", { changed_by: userEmail, to: email.to_address, subject: email.subject, outbox_id: email.id });
 }
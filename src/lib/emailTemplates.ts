@@ -0,0 +1,171 @@
+import { format } from 'date-fns';
+import { docLabel } from './docMapping';
+import { isDocSatisfied } from './stageGates';
+import { getEmailTemplateOverride } from '@/api/emailTemplates.api';
+import type { EmailTemplateOverride, Order, PracticeSettings, Profile } from './types';
+
+export type EmailTemplateKey = 'vendor_par_packet' | 'digest' | 'doc_request' | 'doc_request_reminder';
+
+export interface EmailTemplateContent {
+  subject: string;
+  body: string;
+}
+
+/** Values for `{{name}}` merge fields, keyed by the dotted field name. */
+export type MergeValues = Record<string, string>;
+
+/** The person an email is sent by (or for); falls back to the email address when there is no name. */
+export type MergeUser = Partial<Pick<Profile, 'email' | 'full_name'>>;
+
+/** Every merge field a template can use, with the label shown in the template editor. */
+export const MERGE_FIELDS: Record<string, string> = {
+  'today': "Today's date",
+  'patient.name': 'Patient name',
+  'patient.dob': 'Patient date of birth',
+  'patient.insurance': 'Primary insurance',
+  'order.stage': 'Workflow stage',
+  'order.status': 'Stage status',
+  'order.rep': 'Rep',
+  'order.missing_docs': 'Documents still needed',
+  'vendor.name': 'Vendor name',
+  'doctor.name': 'Referring doctor',
+  'user.full_name': 'Your name',
+  'user.first_name': 'Your first name',
+  'user.email': 'Your email',
+  'practice.name': 'Practice name',
+  'practice.phone': 'Practice phone',
+  'practice.fax': 'Practice fax',
+  'practice.contact_name': 'Practice contact',
+  'request.due_date': 'Return-by date',
+  'request.patient_count': 'Patients in the request',
+  'request.first_sent': 'Date first requested',
+  'request.reminder_number': 'Reminder number',
+  'digest.frequency': 'Digest frequency (daily or weekly)',
+  'digest.period': 'Period the digest covers',
+  'digest.sections': 'Digest sections (the report itself)',
+};
+
+const COMMON_FIELDS = ['today', 'user.full_name', 'user.first_name', 'user.email', 'practice.name', 'practice.phone', 'practice.fax', 'practice.contact_name'];
+const ORDER_FIELDS = ['patient.name', 'patient.dob', 'patient.insurance', 'order.stage', 'order.status', 'order.rep', 'order.missing_docs'];
+const REQUEST_FIELDS = ['doctor.name', 'request.due_date', 'request.patient_count'];
+
+export interface EmailTemplateDefinition extends EmailTemplateContent {
+  name: string;
+  description: string;
+  /** Merge fields that have values when this template is rendered. */
+  fields: string[];
+  /** Whether the preview needs an order picked to fill the fields. */
+  usesOrder: boolean;
+}
+
+/** Built-in templates and their default wording. A saved row in `email_templates` overrides the wording. */
+export const EMAIL_TEMPLATES: Record<EmailTemplateKey, EmailTemplateDefinition> = {
+  vendor_par_packet: {
+    name: 'Vendor PAR Packet',
+    description: 'Emailed to the vendor with the PAR packet PDF attached.',
+    fields: [...ORDER_FIELDS, 'vendor.name', ...COMMON_FIELDS],
+    usesOrder: true,
+    subject: 'New PAR Packet for {{patient.name}}',
+    body: 'Hello {{vendor.name}},\n\nAttached is the preauthorization packet for {{patient.name}}.\n\nThank you,\n{{user.full_name}}\n{{practice.name}}',
+  },
+  // Scheduled digests fall back to a copy of this wording in supabase/functions/_shared/digest.ts.
+  digest: {
+    name: 'Digest',
+    description: "The daily or weekly digest users subscribe to in the Email Center. Here the \"user\" fields are the subscriber's.",
+    fields: ['digest.frequency', 'digest.period', 'digest.sections', ...COMMON_FIELDS],
+    usesOrder: false,
+    subject: 'Your Patient Sync {{digest.frequency}} digest for {{today}}',
+    body: 'Hello {{user.first_name}},\n\nHere is your {{digest.frequency}} digest covering {{digest.period}}.\n\n{{digest.sections}}\n\nHave a great day!\n- {{practice.name}}',
+  },
+  doc_request: {
+    name: 'Documentation Request Letter',
+    description: "The faxed letter asking a doctor's office for missing documents. The subject is the letter title; the patient table and signature are added after the body.",
+    fields: [...REQUEST_FIELDS, ...COMMON_FIELDS],
+    usesOrder: true,
+    subject: 'Documentation Request',
+    body:
+      'Dear {{doctor.name}} and office staff,\n\n' +
+      '{{practice.name}} is processing equipment orders for the patient(s) below, who were referred by your office. ' +
+      'Their insurance requires the following documentation before the order can be submitted for authorization.\n\n' +
+      'Please fax the documents to {{practice.fax}} by {{request.due_date}}. If you have questions, call {{practice.contact_name}} at {{practice.phone}}.',
+  },
+  doc_request_reminder: {
+    name: 'Documentation Request Reminder',
+    description: 'The letter sent when chasing a documentation request that has not been answered.',
+    fields: [...REQUEST_FIELDS, 'request.first_sent', 'request.reminder_number', ...COMMON_FIELDS],
+    usesOrder: true,
+    subject: 'Documentation Request - Reminder #{{request.reminder_number}}',
+    body:
+      'Dear {{doctor.name}} and office staff,\n\n' +
+      'We first requested the documents below on {{request.first_sent}} and have not yet received them.\n\n' +
+      '{{practice.name}} is processing equipment orders for the patient(s) below, who were referred by your office. ' +
+      'Their insurance requires the following documentation before the order can be submitted for authorization.\n\n' +
+      'Please fax the documents to {{practice.fax}} by {{request.due_date}}. If you have questions, call {{practice.contact_name}} at {{practice.phone}}.',
+  },
+};
+
+const asText = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim());
+
+export const displayDate = (date: string | null | undefined) =>
+  date ? format(new Date(`${date.slice(0, 10)}T00:00:00`), 'MM/dd/yyyy') : '';
+
+/** Replaces each `{{field}}` with its value. Fields without a value are left as written so mistakes stay visible. */
+export function renderTemplate(text: string, values: MergeValues): string {
+  return text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key: string) => (key in values ? values[key] : match));
+}
+
+export function renderEmailTemplate(template: EmailTemplateContent, values: MergeValues): EmailTemplateContent {
+  return { subject: renderTemplate(template.subject, values), body: renderTemplate(template.body, values) };
+}
+
+/** Fields used by the template that `values` has nothing for. */
+export function unknownMergeFields(template: EmailTemplateContent, values: MergeValues): string[] {
+  const used = `${template.subject}\n${template.body}`.matchAll(/\{\{\s*([\w.]+)\s*\}\}/g);
+  return Array.from(new Set(Array.from(used, m => m[1]))).filter(key => !(key in values));
+}
+
+export function orderMergeValues(order: Order): MergeValues {
+  const missing = (order.patients?.required_documents || []).filter((key: string) => !isDocSatisfied(order, key));
+  return {
+    'patient.name': asText(order.patients?.name ?? order.patient_name) || 'the patient',
+    'patient.dob': displayDate(order.patients?.dob),
+    'patient.insurance': asText(order.patients?.primary_insurance),
+    'order.stage': asText(order.workflow_stage),
+    'order.status': asText(order.status),
+    'order.rep': asText(order.rep_name),
+    'order.missing_docs': missing.map(docLabel).join(', ') || 'None',
+    'vendor.name': asText(order.vendors?.name),
+  };
+}
+
+export function userMergeValues(user: MergeUser | null | undefined): MergeValues {
+  const fullName = asText(user?.full_name) || asText(user?.email);
+  return {
+    'user.full_name': fullName,
+    'user.first_name': fullName.split(/[\s@]/)[0],
+    'user.email': asText(user?.email),
+  };
+}
+
+export function practiceMergeValues(practice: PracticeSettings | null | undefined): MergeValues {
+  return {
+    'practice.name': asText(practice?.name),
+    'practice.phone': asText(practice?.phone) || 'our office',
+    'practice.fax': asText(practice?.fax) || 'our office',
+    'practice.contact_name': asText(practice?.contact_name) || asText(practice?.name) || 'our office',
+  };
+}
+
+/** Values every template has: today's date, the sending user and the practice letterhead. */
+export function commonMergeValues(user: MergeUser | null | undefined, practice: PracticeSettings | null | undefined): MergeValues {
+  return { today: format(new Date(), 'MM/dd/yyyy'), ...userMergeValues(user), ...practiceMergeValues(practice) };
+}
+
+/** The template's current wording: the saved edit if there is one, otherwise the built-in default. */
+export function resolveEmailTemplate(key: EmailTemplateKey, override: Pick<EmailTemplateOverride, 'subject' | 'body'> | null | undefined): EmailTemplateContent {
+  return override ? { subject: override.subject, body: override.body } : { subject: EMAIL_TEMPLATES[key].subject, body: EMAIL_TEMPLATES[key].body };
+}
+
+export async function loadEmailTemplate(key: EmailTemplateKey): Promise<EmailTemplateContent> {
+  return resolveEmailTemplate(key, await getEmailTemplateOverride(key));
+}
@@ -0,0 +1,301 @@
+/**
+ * A small parser for .eml files (RFC 5322 messages with MIME bodies): headers
+ * with encoded words, nested multipart bodies, base64 and quoted-printable
+ * transfer encodings, and attachments. It covers emails saved from a mail
+ * client; signed or encrypted bodies and winmail.dat attachments are not unpacked.
+ */
+
+export interface EmailAddress {
+  name: string;
+  address: string;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+export interface ParsedEmail {
+  messageId: string | null;
+  from: EmailAddress | null;
+  subject: string;
+  date: Date | null;
+  /** The plain-text body, or the HTML body converted to text when there is no plain one. */
+  text: string;
+  attachments: EmailAttachment[];
+}
+
+/** Lower-cased header name → unfolded value. The first occurrence wins. */
+type Headers = Map<string, string>;
+
+interface MimePart {
+  headers: Headers;
+  /** Raw body as a binary string, one character per byte. */
+  body: string;
+}
+
+interface Collected {
+  text: string[];
+  html: string[];
+  attachments: EmailAttachment[];
+}
+
+const toBinaryString = (bytes: Uint8Array) => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return result;
+};
+
+const toBytes = (binary: string) => Uint8Array.from(binary, char => char.charCodeAt(0) & 0xff);
+
+function decodeBytes(bytes: Uint8Array, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase() || 'utf-8').decode(bytes);
+  } catch {
+    // Unknown charset label.
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/** `=?utf-8?B?...?=` and `=?iso-8859-1?Q?...?=` words in a header value. */
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([bBqQ])\?([^?]*)\?=/g, (match, charset: string, encoding: string, text: string) => {
+      try {
+        const binary = encoding.toUpperCase() === 'B'
+          ? atob(text)
+          : text.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+        return decodeBytes(toBytes(binary), charset.split('*')[0]);
+      } catch {
+        return match;
+      }
+    });
+}
+
+function splitHeaderAndBody(raw: string): { headerText: string; body: string } {
+  const match = /\r?\n\r?\n/.exec(raw);
+  if (!match) return { headerText: raw, body: '' };
+  return { headerText: raw.slice(0, match.index), body: raw.slice(match.index + match[0].length) };
+}
+
+function parseHeaders(headerText: string): Headers {
+  const headers: Headers = new Map();
+  // Header text may carry raw UTF-8 (RFC 6532), so it is decoded before unfolding.
+  const unfolded = decodeBytes(toBytes(headerText)).replace(/\r?\n[ \t]+/g, ' ');
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return headers;
+}
+
+function parsePart(raw: string): MimePart {
+  const { headerText, body } = splitHeaderAndBody(raw);
+  return { headers: parseHeaders(headerText), body };
+}
+
+/** Splits on `;` outside quotes. */
+function splitParams(value: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    if (char === ';' && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * `text/plain; charset="utf-8"` → `{ value: 'text/plain', params: { charset: 'utf-8' } }`.
+ * RFC 2231 parameters (`filename*=utf-8''...` and `filename*0*=` continuations) are joined and decoded.
+ */
+function parseHeaderParams(header: string | undefined): { value: string; params: Record<string, string> } {
+  const [value = '', ...rest] = splitParams(header || '');
+  const raw: Record<string, string> = {};
+  for (const param of rest) {
+    const eq = param.indexOf('=');
+    if (eq <= 0) continue;
+    raw[param.slice(0, eq).trim().toLowerCase()] = param.slice(eq + 1).trim().replace(/^"(.*)"$/, '$1');
+  }
+
+  const params: Record<string, string> = {};
+  for (const base of new Set(Object.keys(raw).map(key => key.split('*')[0]))) {
+    const extended = Object.keys(raw).some(key => key !== base && key.split('*')[0] === base);
+    if (!extended) {
+      params[base] = decodeEncodedWords(raw[base]);
+      continue;
+    }
+    const segments = raw[`${base}*`] !== undefined
+      ? [{ text: raw[`${base}*`], encoded: true }]
+      : Object.keys(raw)
+          .map(k => /^(.+)\*(\d+)(\*?)$/.exec(k))
+          .filter((m): m is RegExpExecArray => !!m && m[1] === base)
+          .sort((a, b) => Number(a[2]) - Number(b[2]))
+          .map(m => ({ text: raw[m[0]], encoded: m[3] === '*' }));
+    let charset = 'utf-8';
+    let binary = '';
+    segments.forEach((segment, i) => {
+      let text = segment.text;
+      if (segment.encoded && i === 0) {
+        const prefixed = /^([^']*)'[^']*'(.*)$/.exec(text);
+        if (prefixed) {
+          charset = prefixed[1] || charset;
+          text = prefixed[2];
+        }
+      }
+      binary += segment.encoded ? text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))) : text;
+    });
+    params[base] = decodeBytes(toBytes(binary), charset);
+  }
+  return { value: value.trim().toLowerCase(), params };
+}
+
+function decodeTransferEncoding(body: string, encoding: string | undefined): Uint8Array {
+  switch ((encoding || '').trim().toLowerCase()) {
+    case 'base64': {
+      const clean = body.replace(/[^A-Za-z0-9+/]/g, '');
+      try {
+        return toBytes(atob(clean.padEnd(Math.ceil(clean.length / 4) * 4, '=')));
+      } catch {
+        return toBytes(body);
+      }
+    }
+    case 'quoted-printable':
+      return toBytes(body.replace(/=\r?\n/g, '').replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))));
+    default:
+      return toBytes(body);
+  }
+}
+
+/** Body parts of a multipart body; the preamble and epilogue are dropped. */
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+  for (const line of body.split(/\r?\n/)) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `${delimiter}--`) break;
+    if (trimmed === delimiter) {
+      if (current) parts.push(current.join('\r\n'));
+      current = [];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  if (current) parts.push(current.join('\r\n'));
+  return parts;
+}
+
+const FALLBACK_EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/tiff': 'tif',
+};
+
+function collect(part: MimePart, out: Collected) {
+  const type = parseHeaderParams(part.headers.get('content-type') || 'text/plain');
+  const disposition = parseHeaderParams(part.headers.get('content-disposition'));
+  const contentType = type.value || 'text/plain';
+
+  if (contentType.startsWith('multipart/')) {
+    const boundary = type.params.boundary;
+    if (!boundary) return;
+    const children = splitMultipart(part.body, boundary).map(parsePart);
+    if (contentType === 'multipart/alternative') {
+      // Keep one version of the body, preferring plain text.
+      const childType = (child: MimePart) => parseHeaderParams(child.headers.get('content-type') || 'text/plain').value;
+      const preferred = children.find(c => childType(c) === 'text/plain')
+        || children.find(c => childType(c).startsWith('multipart/'))
+        || children[children.length - 1];
+      if (preferred) collect(preferred, out);
+      return;
+    }
+    children.forEach(child => collect(child, out));
+    return;
+  }
+
+  const filename = disposition.params.filename || type.params.name || '';
+  const isAttachment = disposition.value === 'attachment' || !!filename;
+
+  // A forwarded email attached whole: its body and attachments belong to this referral too.
+  if (contentType === 'message/rfc822') {
+    collect(parsePart(toBinaryString(decodeTransferEncoding(part.body, part.headers.get('content-transfer-encoding')))), out);
+    return;
+  }
+
+  if (!isAttachment && (contentType === 'text/plain' || contentType === 'text/html')) {
+    const text = decodeBytes(decodeTransferEncoding(part.body, part.headers.get('content-transfer-encoding')), type.params.charset);
+    (contentType === 'text/plain' ? out.text : out.html).push(text);
+    return;
+  }
+
+  // Inline images referenced from the HTML body are signatures and logos, not documents.
+  if (disposition.value !== 'attachment' && part.headers.has('content-id') && contentType.startsWith('image/')) return;
+  if (!isAttachment && !FALLBACK_EXTENSIONS[contentType]) return;
+
+  out.attachments.push({
+    filename: filename || `attachment-${out.attachments.length + 1}.${FALLBACK_EXTENSIONS[contentType] || 'bin'}`,
+    contentType,
+    content: decodeTransferEncoding(part.body, part.headers.get('content-transfer-encoding')),
+  });
+}
+
+/** Readable text from an HTML body, keeping paragraph and line breaks. */
+export function htmlToText(html: string): string {
+  const marked = html
+    .replace(/<(style|script|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n');
+  const text = new DOMParser().parseFromString(marked, 'text/html').documentElement.textContent || '';
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** `"Dr. Jane Smith" <jsmith@clinic.com>`, `jsmith@clinic.com (Jane Smith)` or a bare address. */
+export function parseAddress(value: string | undefined): EmailAddress | null {
+  const decoded = decodeEncodedWords(value || '').trim();
+  if (!decoded) return null;
+  const angled = /^(.*?)<([^>]+)>/.exec(decoded);
+  if (angled) {
+    return { name: angled[1].trim().replace(/^"(.*)"$/, '$1').trim(), address: angled[2].trim().toLowerCase() };
+  }
+  const commented = /^([^\s(]+)\s*\(([^)]*)\)/.exec(decoded);
+  if (commented) return { name: commented[2].trim(), address: commented[1].toLowerCase() };
+  return { name: '', address: decoded.split(/[\s,]/)[0].toLowerCase() };
+}
+
+export function parseEml(data: ArrayBuffer | Uint8Array): ParsedEmail {
+  const message = parsePart(toBinaryString(data instanceof Uint8Array ? data : new Uint8Array(data)));
+  const out: Collected = { text: [], html: [], attachments: [] };
+  collect(message, out);
+
+  const date = message.headers.get('date') ? new Date(message.headers.get('date')!) : null;
+  const text = out.text.length > 0 ? out.text.join('\n\n') : out.html.map(htmlToText).join('\n\n');
+
+  return {
+    messageId: message.headers.get('message-id')?.replace(/^<|>$/g, '').trim() || null,
+    from: parseAddress(message.headers.get('from')),
+    subject: decodeEncodedWords(message.headers.get('subject') || '').trim(),
+    date: date && !isNaN(date.getTime()) ? date : null,
+    text: text.replace(/\r\n/g, '\n').trim(),
+    attachments: out.attachments,
+  };
+}
@@ -1,3 +1,4 @@
+import * as XLSX from 'xlsx';
 import { saveAs } from 'file-saver';
 import { generateCsv } from './generators/csv';
 import { generateDocx } from './generators/docx';
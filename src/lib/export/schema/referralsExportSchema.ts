@@ -1,8 +1,6 @@
 import { Order } from '@/lib/types';
 import { formatDateForExport, daysOld, mostRecentDenial } from '@/lib/utils';
-import workflowData from '@/../schemas/workflow.json';
-
-const allStages = workflowData.workflow.map(w => w.stage);
+import { workflowStageNames } from '@/lib/workflowDefinition';
 
 // Shared column schema
 export const referralExportOrder = [
@@ -76,6 +74,7 @@ export const flattenReferralForExport = (r: Order, exportTimestamp: Date) => {
     else if (referralAge <= 90) referralAgingCategory = '61-90 Days';
     else referralAgingCategory = '91+ Days';
 
+    const allStages = workflowStageNames(r.workflow_version);
     const stageIndex = allStages.indexOf(r.workflow_stage || '');
     const workflowProgress = stageIndex !== -1 ? Math.round(((stageIndex + 1) / allStages.length) * 100) : 0;
     const isUrgent = referralAge > 90 && docsMissingCount > 0;
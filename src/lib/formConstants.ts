@@ -88,6 +88,16 @@ export const appealOutcomeOptions = [
     { value: 'Withdrawn', label: 'Withdrawn' },
 ];
 
+export const equipmentCategoryOptions = [
+    { value: 'Wheelchair', label: 'Wheelchair' },
+    { value: 'Power Wheelchair', label: 'Power Wheelchair' },
+    { value: 'Scooter', label: 'Scooter' },
+    { value: 'Seating', label: 'Seating' },
+    { value: 'Respiratory', label: 'Respiratory' },
+    { value: 'Wound', label: 'Wound' },
+    { value: 'Other', label: 'Other' },
+];
+
 export const equipmentTypeOptions = [
     { value: 'Power Wheelchair', label: 'Power Wheelchair' },
     { value: 'Manual Wheelchair', label: 'Manual Wheelchair' },
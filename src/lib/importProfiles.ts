@@ -0,0 +1,316 @@
+import type { ImportProfile } from './types';
+import { stringSimilarity } from './utils';
+import legacyMapping from '@/../schemas/import_mapping.json';
+
+export type SheetMatrix = unknown[][];
+
+/** One worksheet of an uploaded file with the overrides chosen for it. */
+export interface ImportSheet {
+  name: string;
+  matrix: SheetMatrix;
+  selected: boolean;
+  rep_name: string;
+  /** True once the user has typed a rep, so switching profiles keeps it. */
+  repOverridden: boolean;
+  /** Target field → value, applied on top of the profile constants. */
+  constants: Record<string, string>;
+}
+
+export interface ImportTargetField {
+  value: string;
+  label: string;
+  entity: 'patient' | 'order';
+  column: string;
+  aliases?: string[];
+}
+
+/**
+ * Fields an import row can be mapped onto. `value` is the key used in profiles and
+ * mapped rows; `entity`/`column` say where it is written on import.
+ */
+export const IMPORT_TARGET_FIELDS: ImportTargetField[] = [
+  { value: 'patient_name', label: 'Patient Name', entity: 'patient', column: 'name', aliases: ['client name', 'client', 'patient', 'full name'] },
+  { value: 'dob', label: 'Date of Birth', entity: 'patient', column: 'dob', aliases: ['birth date', 'birthdate', 'd o b'] },
+  { value: 'gender', label: 'Gender', entity: 'patient', column: 'gender', aliases: ['sex'] },
+  { value: 'phone_number', label: 'Phone Number', entity: 'patient', column: 'phone_number', aliases: ['phone', 'telephone', 'cell', 'mobile', 'home phone'] },
+  { value: 'email', label: 'Email', entity: 'patient', column: 'email', aliases: ['e mail', 'email address'] },
+  { value: 'address_line1', label: 'Address Line 1', entity: 'patient', column: 'address_line1', aliases: ['address', 'street', 'street address', 'address 1'] },
+  { value: 'address_line2', label: 'Address Line 2', entity: 'patient', column: 'address_line2', aliases: ['address 2', 'apt', 'suite'] },
+  { value: 'city', label: 'City', entity: 'patient', column: 'city' },
+  { value: 'state', label: 'State', entity: 'patient', column: 'state', aliases: ['st'] },
+  { value: 'zip', label: 'ZIP Code', entity: 'patient', column: 'zip', aliases: ['zip code', 'postal code', 'zipcode'] },
+  { value: 'insurance_primary', label: 'Primary Insurance', entity: 'patient', column: 'primary_insurance', aliases: ['primary insurance name', 'insurance', 'payer', 'primary payer'] },
+  { value: 'policy_number', label: 'Policy Number', entity: 'patient', column: 'policy_number', aliases: ['member id', 'policy', 'subscriber id'] },
+  { value: 'group_number', label: 'Group Number', entity: 'patient', column: 'group_number', aliases: ['group'] },
+  { value: 'referring_physician', label: 'Referring Physician', entity: 'patient', column: 'referring_physician', aliases: ['doctor', 'physician', 'referring doctor', 'prescriber'] },
+  { value: 'pcp_name', label: 'PCP Name', entity: 'patient', column: 'pcp_name', aliases: ['pcp', 'primary care'] },
+  { value: 'diagnosis', label: 'Diagnosis', entity: 'patient', column: 'diagnosis', aliases: ['dx', 'dx code'] },
+  { value: 'import_source', label: 'Import Source', entity: 'patient', column: 'source' },
+  { value: 'chair_type', label: 'Chair Type', entity: 'order', column: 'chair_type', aliases: ['chair', 'item', 'product'] },
+  { value: 'accessories', label: 'Accessories', entity: 'order', column: 'accessories', aliases: ['first item', 'accessory'] },
+  { value: 'rep_name', label: 'Rep Name', entity: 'order', column: 'rep_name', aliases: ['rep', 'sales rep', 'salesperson'] },
+  { value: 'referral_date', label: 'Referral Date', entity: 'order', column: 'referral_date', aliases: ['date received', 'order date', 'referred'] },
+  { value: 'referral_source', label: 'Referral Source', entity: 'order', column: 'referral_source', aliases: ['source', 'referred by'] },
+  { value: 'case_type', label: 'Case Type', entity: 'order', column: 'case_type' },
+  { value: 'po_number', label: 'PO Number', entity: 'order', column: 'po_number', aliases: ['po', 'purchase order'] },
+  { value: 'authorization_number', label: 'Authorization Number', entity: 'order', column: 'authorization_number', aliases: ['auth', 'auth number', 'prior auth'] },
+  { value: 'clinical_notes', label: 'Clinical Notes', entity: 'order', column: 'clinical_notes', aliases: ['notes', 'comments'] },
+  { value: 'workflow_stage', label: 'Workflow Stage', entity: 'order', column: 'workflow_stage', aliases: ['stage'] },
+  { value: 'status', label: 'Status', entity: 'order', column: 'status' },
+];
+
+const targetByValue = new Map(IMPORT_TARGET_FIELDS.map(t => [t.value, t]));
+
+/** Patient columns that a dedupe key is compared against on existing records. */
+export const DEDUPE_FIELD_COLUMNS: Record<string, string> = {
+  patient_name: 'name',
+  insurance_primary: 'primary_insurance',
+  dob: 'dob',
+  phone_number: 'phone_number',
+  policy_number: 'policy_number',
+};
+
+/**
+ * Fallback profile built from the bundled `import_mapping.json`, used when the
+ * `import_profiles` table is empty or not yet migrated.
+ */
+export const LEGACY_IMPORT_PROFILE: ImportProfile = {
+  id: 'legacy',
+  name: 'Open Order Report (built-in)',
+  description: 'Bundled schemas/import_mapping.json',
+  header_row_index: legacyMapping.header_row_index,
+  fields: legacyMapping.fields,
+  constants: legacyMapping.constants,
+  defaults: legacyMapping.defaults,
+  dedupe_keys: legacyMapping.dedupe_keys,
+  is_default: true,
+  created_at: '',
+  updated_at: '',
+};
+
+export type ImportTransform = 'none' | 'trim' | 'uppercase' | 'titlecase' | 'name_first_last' | 'date' | 'phone';
+
+export const IMPORT_TRANSFORMS: { value: ImportTransform; label: string }[] = [
+  { value: 'none', label: 'As is' },
+  { value: 'trim', label: 'Trim whitespace' },
+  { value: 'uppercase', label: 'UPPERCASE' },
+  { value: 'titlecase', label: 'Title Case' },
+  { value: 'name_first_last', label: '"Last, First" → "First Last"' },
+  { value: 'date', label: 'Date (YYYY-MM-DD)' },
+  { value: 'phone', label: 'Phone (555-555-5555)' },
+];
+
+export interface ColumnMapping {
+  source: string;
+  /** Target field key, or null when the column is ignored. */
+  target: string | null;
+  transform: ImportTransform;
+  samples: string[];
+  /** True when the target came from header similarity rather than the profile. */
+  suggested: boolean;
+}
+
+const normHeader = (s: unknown) => (s ?? '').toString().trim().toLowerCase();
+
+const toDateString = (d: Date) => d.toISOString().slice(0, 10);
+
+export function applyTransform(value: unknown, transform: ImportTransform): unknown {
+  if (value === null || value === undefined || value === '') return value;
+  if (value instanceof Date) return toDateString(value);
+  const str = value.toString();
+  switch (transform) {
+    case 'trim':
+      return str.trim();
+    case 'uppercase':
+      return str.trim().toUpperCase();
+    case 'titlecase':
+      return str.trim().toLowerCase().replace(/\b\w/g, c => c.toUpperCase());
+    case 'name_first_last': {
+      const [last, first] = str.split(',').map(part => part.trim());
+      return first ? `${first} ${last}` : str.trim();
+    }
+    case 'date': {
+      const parsed = new Date(str);
+      return isNaN(parsed.getTime()) ? str.trim() : toDateString(parsed);
+    }
+    case 'phone': {
+      const digits = str.replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+      return digits.length === 10 ? `${digits.slice(0, 3)}-${digits.slice(3, 6)}-${digits.slice(6)}` : str.trim();
+    }
+    default:
+      return value;
+  }
+}
+
+/** One data row of a sheet, keyed by header. */
+export interface SheetRow {
+  values: Record<string, any>;
+  /** 0-based index of the row in the sheet matrix, so `matrixIndex + 1` is its spreadsheet row number. */
+  matrixIndex: number;
+}
+
+/**
+ * Turns a raw sheet (array of rows) into header-keyed rows, using the row at
+ * `headerRowIndex` as the header and skipping everything above it and any blank rows.
+ */
+export function rowsFromMatrix(matrix: SheetMatrix, headerRowIndex: number): SheetRow[] {
+  const headers = headersFromMatrix(matrix, headerRowIndex);
+  const rows: SheetRow[] = [];
+  matrix.forEach((row, matrixIndex) => {
+    if (matrixIndex <= headerRowIndex || !row.some(cell => cell !== null && cell !== undefined && cell !== '')) return;
+    const values: Record<string, any> = {};
+    headers.forEach((h, i) => {
+      if (h) values[h] = row[i];
+    });
+    rows.push({ values, matrixIndex });
+  });
+  return rows;
+}
+
+export function headersFromMatrix(matrix: SheetMatrix, headerRowIndex: number): string[] {
+  return (matrix[headerRowIndex] || []).map(h => (h ?? '').toString().trim());
+}
+
+/** Best target field for a header by name similarity, or null below `threshold`. */
+export function suggestTarget(header: string, threshold = 0.6): { target: string; score: number } | null {
+  let best: { target: string; score: number } | null = null;
+  for (const field of IMPORT_TARGET_FIELDS) {
+    const candidates = [field.value, field.label, ...(field.aliases || [])];
+    const score = Math.max(...candidates.map(c => stringSimilarity(header, c)));
+    if (score >= threshold && (!best || score > best.score)) {
+      best = { target: field.value, score };
+    }
+  }
+  return best;
+}
+
+/**
+ * Builds the initial column mapping for a file: profile mappings first, then
+ * header-similarity suggestions for the remaining columns. A target is only
+ * suggested once.
+ */
+export function buildColumnMappings(matrix: SheetMatrix, profile: ImportProfile, sampleSize = 3): ColumnMapping[] {
+  const headers = headersFromMatrix(matrix, profile.header_row_index).filter(Boolean);
+  const rows = rowsFromMatrix(matrix, profile.header_row_index);
+  const profileFields = new Map(Object.entries(profile.fields).map(([src, target]) => [normHeader(src), target]));
+  const used = new Set<string>(profileFields.values());
+
+  return headers.map(source => {
+    const samples = rows
+      .map(r => r.values[source])
+      .filter(v => v !== null && v !== undefined && v !== '')
+      .slice(0, sampleSize)
+      .map(v => (v instanceof Date ? toDateString(v) : v.toString()));
+
+    const fromProfile = profileFields.get(normHeader(source));
+    if (fromProfile) {
+      return { source, target: fromProfile, transform: 'trim' as ImportTransform, samples, suggested: false };
+    }
+    const suggestion = suggestTarget(source);
+    if (suggestion && !used.has(suggestion.target)) {
+      used.add(suggestion.target);
+      const transform: ImportTransform = suggestion.target === 'dob' || suggestion.target === 'referral_date'
+        ? 'date'
+        : suggestion.target === 'phone_number' ? 'phone' : 'trim';
+      return { source, target: suggestion.target, transform, samples, suggested: true };
+    }
+    return { source, target: null, transform: 'none' as ImportTransform, samples, suggested: false };
+  });
+}
+
+/** Rep named in A1 of reports that carry a title row above the header (e.g. "Sales Rep: Jane Doe"). */
+function titleRep(matrix: SheetMatrix, profile: ImportProfile): string {
+  const titleCell = profile.header_row_index > 0 ? (matrix[0]?.[0] ?? '').toString() : '';
+  return titleCell.replace(/^.*?:\s*/i, '').trim();
+}
+
+/**
+ * Default rep for a sheet: the rep in A1 if the report has one, otherwise the
+ * profile constant, then the sheet name for multi-tab workbooks.
+ */
+export function repFromSheet(matrix: SheetMatrix, profile: ImportProfile, sheetName?: string): string {
+  return titleRep(matrix, profile) || profile.constants?.rep_name || sheetName || 'Unknown Rep';
+}
+
+/**
+ * The profile as applied to one sheet, with the sheet's own constants winning
+ * over the profile's. A rep the user typed or A1 named replaces the profile's
+ * rep constant; a fallback rep (profile constant or sheet name) is only a
+ * default, so a mapped rep column still wins.
+ */
+export function profileForSheet(profile: ImportProfile, sheet: ImportSheet): ImportProfile {
+  const rep = sheet.rep_name.trim();
+  const repIsExplicit = !!rep && (sheet.repOverridden || !!titleRep(sheet.matrix, profile));
+  return {
+    ...profile,
+    defaults: rep && !repIsExplicit ? { ...profile.defaults, rep_name: rep } : profile.defaults,
+    constants: { ...profile.constants, ...(repIsExplicit ? { rep_name: rep } : {}), ...sheet.constants },
+  };
+}
+
+/**
+ * Column mappings across several sheets: the first sheet's mapping for a header
+ * wins, and headers only found on later sheets are appended.
+ */
+export function mergeColumnMappings(sheets: ImportSheet[], profile: ImportProfile): ColumnMapping[] {
+  const merged = new Map<string, ColumnMapping>();
+  for (const sheet of sheets) {
+    const used = new Set(Array.from(merged.values()).map(c => c.target).filter(Boolean));
+    for (const column of buildColumnMappings(sheet.matrix, profile)) {
+      if (merged.has(column.source)) continue;
+      merged.set(column.source, column.target && used.has(column.target)
+        ? { ...column, target: null, transform: 'none', suggested: false }
+        : column);
+    }
+  }
+  return Array.from(merged.values());
+}
+
+export function mapRow(row: Record<string, any>, columns: ColumnMapping[], profile: ImportProfile): Record<string, any> {
+  const mappedRow: Record<string, any> = {};
+  for (const column of columns) {
+    if (!column.target) continue;
+    const value = applyTransform(row[column.source], column.transform);
+    if (value !== null && value !== undefined && value !== '') {
+      mappedRow[column.target] = value;
+    }
+  }
+  // Defaults only fill gaps; constants always win.
+  return { ...profile.defaults, ...mappedRow, ...profile.constants };
+}
+
+/**
+ * Splits a mapped row into `patients` and `orders` column payloads. When `only`
+ * is given, just those target keys are included.
+ */
+export function splitByEntity(row: Record<string, any>, only?: string[]) {
+  const patient: Record<string, any> = {};
+  const order: Record<string, any> = {};
+  for (const key in row) {
+    if (only && !only.includes(key)) continue;
+    const target = targetByValue.get(key);
+    if (!target) continue;
+    (target.entity === 'patient' ? patient : order)[target.column] = row[key];
+  }
+  return { patient, order };
+}
+
+/** Share (0–1) of a profile's mapped source columns that appear in its header row. */
+export function scoreProfile(matrix: SheetMatrix, profile: ImportProfile): number {
+  const expected = Object.keys(profile.fields).map(normHeader);
+  if (expected.length === 0) return 0;
+  const headers = new Set((matrix[profile.header_row_index] || []).map(normHeader));
+  return expected.filter(h => headers.has(h)).length / expected.length;
+}
+
+/** Picks the profile whose header row best matches the file, or null if none match at all. */
+export function detectProfile(matrix: SheetMatrix, profiles: ImportProfile[]): { profile: ImportProfile; score: number } | null {
+  let best: { profile: ImportProfile; score: number } | null = null;
+  for (const profile of profiles) {
+    const score = scoreProfile(matrix, profile);
+    if (score > 0 && (!best || score > best.score)) {
+      best = { profile, score };
+    }
+  }
+  return best;
+}
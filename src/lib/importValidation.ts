@@ -0,0 +1,121 @@
+import * as XLSX from 'xlsx';
+import { IMPORT_TARGET_FIELDS } from './importProfiles';
+import { resolveInsurance, type InsuranceIndex } from './patientMatching';
+
+export interface ImportCellError {
+  /** Target field the rule checked. */
+  field: string;
+  /** Source column the value came from, when the field was mapped from the file. */
+  column: string | null;
+  value: unknown;
+  message: string;
+}
+
+export interface ValidationContext {
+  insuranceIndex: InsuranceIndex;
+  /** Target field → source column, for reporting errors against the spreadsheet. */
+  columnsByTarget: Record<string, string>;
+}
+
+type Rule = (value: unknown, row: Record<string, any>, ctx: ValidationContext) => string | null;
+
+const US_STATES = new Set([
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA', 'KS', 'KY', 'LA', 'ME',
+  'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI',
+  'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY', 'PR', 'VI', 'GU', 'AS', 'MP',
+]);
+
+const isBlank = (value: unknown) => value === null || value === undefined || value.toString().trim() === '';
+
+const parseDate = (value: unknown): Date | null => {
+  const date = value instanceof Date ? value : new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const required: Rule = value => (isBlank(value) ? 'Required' : null);
+
+const validDate: Rule = value => {
+  if (isBlank(value)) return null;
+  return parseDate(value) ? null : 'Not a valid date';
+};
+
+const pastDate: Rule = value => {
+  if (isBlank(value)) return null;
+  const date = parseDate(value);
+  if (!date) return 'Not a valid date';
+  if (date.getTime() > Date.now()) return 'Date is in the future';
+  if (date.getFullYear() < 1900) return 'Date is before 1900';
+  return null;
+};
+
+const phone: Rule = value => {
+  if (isBlank(value)) return null;
+  const digits = value!.toString().replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+  return digits.length === 10 ? null : 'Phone must have 10 digits';
+};
+
+const email: Rule = value => {
+  if (isBlank(value)) return null;
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value!.toString().trim()) ? null : 'Not a valid email';
+};
+
+const usState: Rule = value => {
+  if (isBlank(value)) return null;
+  return US_STATES.has(value!.toString().trim().toUpperCase()) ? null : 'Use a two-letter state code';
+};
+
+const zip: Rule = value => {
+  if (isBlank(value)) return null;
+  return /^\d{5}(-\d{4})?$/.test(value!.toString().trim()) ? null : 'ZIP must be 12345 or 12345-6789';
+};
+
+const knownPayer: Rule = (value, _row, ctx) => {
+  if (isBlank(value)) return null;
+  return resolveInsurance(value as string, ctx.insuranceIndex) ? null : 'Unknown payer — add it or an alias under Settings → Insurance';
+};
+
+/** Rules per target field, applied in order; the first failure is reported. */
+export const IMPORT_VALIDATION_RULES: Record<string, Rule[]> = {
+  patient_name: [required],
+  dob: [pastDate],
+  referral_date: [validDate],
+  phone_number: [phone],
+  email: [email],
+  state: [usState],
+  zip: [zip],
+  insurance_primary: [knownPayer],
+};
+
+export function validateImportRow(row: Record<string, any>, ctx: ValidationContext): ImportCellError[] {
+  const errors: ImportCellError[] = [];
+  for (const [field, rules] of Object.entries(IMPORT_VALIDATION_RULES)) {
+    const value = row[field];
+    for (const rule of rules) {
+      const message = rule(value, row, ctx);
+      if (message) {
+        errors.push({ field, column: ctx.columnsByTarget[field] ?? null, value, message });
+        break;
+      }
+    }
+  }
+  return errors;
+}
+
+const fieldLabel = (field: string) => IMPORT_TARGET_FIELDS.find(f => f.value === field)?.label ?? field;
+
+export const describeCellError = (error: ImportCellError) =>
+  `${error.column ?? fieldLabel(error.field)}: ${error.message}`;
+
+/** Writes the rejected source rows, unchanged, with their sheet, row number and an "Errors" column. */
+export function buildRejectedRowsWorkbook(rejected: { source: Record<string, any>; sheet?: string; originalRow: number; errors: ImportCellError[] }[]) {
+  const rows = rejected.map(r => ({
+    ...(r.sheet ? { 'Sheet': r.sheet } : {}),
+    'Row': r.originalRow,
+    ...r.source,
+    'Errors': r.errors.map(describeCellError).join('; '),
+  }));
+  const ws = XLSX.utils.json_to_sheet(rows);
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, 'Rejected Rows');
+  return wb;
+}
@@ -0,0 +1,372 @@
+import { format } from 'date-fns';
+import { supabase } from './supabaseClient';
+import { writeAuditLog } from './auditLogger';
+import { parseEml, type EmailAddress, type ParsedEmail } from './emlParser';
+import { MATCH_THRESHOLDS, normalizePersonName, resolveInsurance, scorePatientMatch, type InsuranceIndex } from './patientMatching';
+import { docTypes } from './docMapping';
+import { findDoctor } from './docRequests';
+import { loadRequiredDocumentsFor } from './docRules';
+import { fileStoredDocument } from './documents';
+import { stringSimilarity } from './utils';
+import { loadInsuranceIndex } from '@/api/insuranceAliases.api';
+import {
+  claimInboundReferral,
+  completeInboundReferral,
+  createInboundReferral,
+  deleteInboundReferral,
+  inboundReferralExists,
+  releaseInboundReferral,
+  removeInboundAttachments,
+  updateInboundAttachment,
+  uploadInboundAttachment,
+} from '@/api/inboundReferrals.api';
+import type { Doctor, InboundPatientMatch, InboundReferral, InboundReferralAttachment, InboundReferralSource, Order, Patient, ReferralDraft } from './types';
+
+/** Where accepted email referrals say they came from. */
+export const EMAIL_REFERRAL_SOURCE = 'Email';
+
+const MAX_PATIENT_MATCHES = 3;
+/** Doctor names are short, so a fuzzy match needs to be closer than a patient match. */
+const DOCTOR_MATCH_THRESHOLD = 0.8;
+
+const LINE_START = String.raw`^[\s*•>-]*`;
+const LINE_VALUE = String.raw`\s*#?\s*[:-]\s*(.+)$`;
+
+/** Labelled lines in the email, e.g. "Patient Name: John Smith" or "DOB - 01/02/1950". */
+const FIELD_PATTERNS: Record<keyof ReferralDraft, RegExp> = {
+  name: new RegExp(`${LINE_START}(?:patient|pt)(?:'s)?(?:\\s+name)?${LINE_VALUE}`, 'im'),
+  dob: new RegExp(`${LINE_START}(?:dob|d\\.o\\.b\\.?|date\\s+of\\s+birth|birth\\s*date)${LINE_VALUE}`, 'im'),
+  phone_number: new RegExp(`${LINE_START}(?:patient\\s+)?(?:phone|cell|mobile|home\\s+phone|tel(?:ephone)?)(?:\\s+(?:number|no\\.?))?${LINE_VALUE}`, 'im'),
+  primary_insurance: new RegExp(`${LINE_START}(?:primary\\s+)?(?:insurance|payer|plan)(?:\\s+(?:name|provider|company))?${LINE_VALUE}`, 'im'),
+  referring_physician: new RegExp(`${LINE_START}(?:referring\\s+)?(?:physician|doctor|provider)(?:\\s+name)?${LINE_VALUE}`, 'im'),
+};
+
+/** "Referral for John Smith", "New Referral: Smith, John - DME" after any Fwd:/Re: prefixes. */
+const SUBJECT_NAME = /referral\s*(?:for|[:–-])\s*(.+)$/i;
+
+const cleanValue = (value: string | undefined) => value?.replace(/\s+/g, ' ').trim().slice(0, 120) || null;
+
+/** MM/DD/YYYY, M/D/YY or YYYY-MM-DD as an ISO date; anything else is left for staff to enter. */
+export function parseDob(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const iso = /(\d{4})-(\d{1,2})-(\d{1,2})/.exec(value);
+  const us = /(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/.exec(value);
+  let year: number, month: number, day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+    // A two-digit year in the future is last century.
+    if (us[3].length === 2) year += year > new Date().getFullYear() % 100 ? 1900 : 2000;
+  } else {
+    return null;
+  }
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return format(date, 'yyyy-MM-dd');
+}
+
+/** Reads the referral fields from the email's labelled lines, falling back to the subject for the patient's name. */
+export function extractReferralDraft(email: Pick<ParsedEmail, 'subject' | 'text'>): ReferralDraft {
+  const match = (field: keyof ReferralDraft) => cleanValue(FIELD_PATTERNS[field].exec(email.text)?.[1]);
+  const subject = email.subject.replace(/^((re|fwd?|fw)\s*:\s*)+/i, '');
+  const subjectName = cleanValue(SUBJECT_NAME.exec(subject)?.[1]?.split(/\s+[-–(|]\s*/)[0]);
+  return {
+    name: match('name') || subjectName,
+    dob: parseDob(match('dob')),
+    phone_number: match('phone_number'),
+    primary_insurance: match('primary_insurance'),
+    referring_physician: match('referring_physician'),
+  };
+}
+
+const normalizeDoctorName = (name: string | null | undefined) =>
+  normalizePersonName((name || '').replace(/\b(dr|md|do|np|pa|pa-c|fnp|dpm)\b\.?/gi, ' '));
+
+/** The sender's office on file, then the doctor named in the email, then the closest name to either. */
+export function suggestDoctor(doctors: Doctor[], draft: ReferralDraft, from: EmailAddress | null): Doctor | null {
+  const sender = from?.address.toLowerCase();
+  const byOffice = sender ? doctors.find(d => d.office_contact_email?.trim().toLowerCase() === sender) : undefined;
+  if (byOffice) return byOffice;
+
+  const named = findDoctor(doctors, draft.referring_physician);
+  if (named) return named;
+
+  let best: { doctor: Doctor; score: number } | null = null;
+  for (const name of [draft.referring_physician, from?.name]) {
+    const wanted = normalizeDoctorName(name);
+    if (!wanted) continue;
+    for (const doctor of doctors) {
+      const score = stringSimilarity(wanted, normalizeDoctorName(doctor.name));
+      if (score >= DOCTOR_MATCH_THRESHOLD && (!best || score > best.score)) best = { doctor, score };
+    }
+  }
+  return best?.doctor ?? null;
+}
+
+/** Existing patients the draft probably is, best first. */
+export async function suggestPatients(draft: ReferralDraft, index: InsuranceIndex): Promise<InboundPatientMatch[]> {
+  if (!draft.name) return [];
+  const { data, error } = await supabase.rpc('find_patient_match_candidates', { p_names: [draft.name] });
+  if (error) throw error;
+
+  const input = { patient_name: draft.name, dob: draft.dob, phone_number: draft.phone_number, insurance_primary: draft.primary_insurance };
+  return ((data || []) as Patient[])
+    .map(patient => ({ patient, ...scorePatientMatch(input, patient, index) }))
+    .filter(m => m.score >= MATCH_THRESHOLDS.probable)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_PATIENT_MATCHES)
+    .map(({ patient, score, reasons }) => ({ patient_id: patient.id, name: patient.name, dob: patient.dob ?? null, score, reasons }));
+}
+
+/** The document an attachment most likely is, from its file name; referral paperwork when nothing matches. */
+export function guessDocKey(fileName: string): string {
+  const words = ` ${fileName.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+  const phrase = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  const found = docTypes.find(type =>
+    [type.key, ...type.aliases, type.label].map(phrase).some(name => name && words.includes(` ${name} `)));
+  return found?.key ?? 'referral_form';
+}
+
+const contentTypeFor = (fileName: string, contentType: string) =>
+  contentType !== 'application/octet-stream' ? contentType : /\.pdf$/i.test(fileName) ? 'application/pdf' : contentType;
+
+/**
+ * Parses an .eml file into a pending draft referral: the sender, subject,
+ * body and attachments, the referral fields read from it and the suggested
+ * patient and doctor. Returns null when the email was already imported.
+ */
+export async function importEmlFile(file: File, source: InboundReferralSource, importedBy: string | null): Promise<InboundReferral | null> {
+  const email = parseEml(await file.arrayBuffer());
+  const dedupeKey = email.messageId ? `message:${email.messageId}` : `file:${file.name}:${file.size}`;
+  if (await inboundReferralExists(dedupeKey)) return null;
+
+  const [index, { data: doctors, error: doctorsError }] = await Promise.all([
+    loadInsuranceIndex(),
+    supabase.from('doctors').select('*'),
+  ]);
+  if (doctorsError) throw doctorsError;
+
+  const draft = extractReferralDraft(email);
+  const payer = resolveInsurance(draft.primary_insurance, index);
+  if (payer) draft.primary_insurance = payer.name;
+  const doctor = suggestDoctor((doctors || []) as Doctor[], draft, email.from);
+
+  let inbound: InboundReferral;
+  try {
+    inbound = await createInboundReferral({
+      source,
+      file_name: file.name,
+      dedupe_key: dedupeKey,
+      message_id: email.messageId,
+      from_name: email.from?.name || null,
+      from_address: email.from?.address || null,
+      subject: email.subject || null,
+      body: email.text || null,
+      received_at: email.date?.toISOString() ?? null,
+      draft,
+      patient_matches: await suggestPatients(draft, index),
+      suggested_doctor_id: doctor?.id ?? null,
+      created_by: importedBy,
+    });
+  } catch (error) {
+    // Another tab or the folder watcher imported it at the same moment.
+    if ((error as { code?: string } | null)?.code === '23505') return null;
+    throw error;
+  }
+
+  const attachments: InboundReferralAttachment[] = [];
+  try {
+    for (const attachment of email.attachments) {
+      const stored = await uploadInboundAttachment(inbound.id, {
+        name: attachment.filename,
+        type: contentTypeFor(attachment.filename, attachment.contentType),
+        content: attachment.content,
+      });
+      const docKey = guessDocKey(attachment.filename);
+      if (docKey !== stored.doc_key) await updateInboundAttachment(stored.id, { doc_key: docKey });
+      attachments.push({ ...stored, doc_key: docKey });
+    }
+  } catch (error) {
+    // Never leave a draft without the attachments it arrived with; the email can be imported again.
+    await removeInboundAttachments(attachments).catch(() => undefined);
+    await deleteInboundReferral(inbound.id).catch(() => undefined);
+    throw error;
+  }
+
+  await writeAuditLog('inbound_referral_imported', { changed_by: importedBy, file: file.name, from: email.from?.address, subject: email.subject, attachments: attachments.length });
+  return { ...inbound, inbound_referral_attachments: attachments };
+}
+
+/** What staff confirmed in the triage queue. */
+export interface InboundDecision {
+  draft: ReferralDraft;
+  doctorId: string | null;
+  /** Attachment id → document key to file it as. */
+  docKeys: Record<string, string>;
+}
+
+async function fileAttachments(
+  order: Pick<Order, 'id' | 'patient_id' | 'document_status'>,
+  inbound: InboundReferral,
+  docKeys: Record<string, string>,
+  filedBy: string | null,
+) {
+  for (const attachment of inbound.inbound_referral_attachments || []) {
+    if (attachment.document_id) continue;
+    const docKey = docKeys[attachment.id] || attachment.doc_key;
+    const document = await fileStoredDocument(order, docKey, attachment, filedBy);
+    await updateInboundAttachment(attachment.id, { doc_key: docKey, document_id: document.id });
+  }
+}
+
+async function providerFor(name: string | null | undefined) {
+  if (!name?.trim()) return null;
+  const index = await loadInsuranceIndex();
+  const known = resolveInsurance(name, index);
+  if (known) return known;
+  const normalizedName = name.trim().toUpperCase();
+  const { data, error } = await supabase.from('insurance_providers').insert({ name: normalizedName, source: 'email' }).select('id, name').single();
+  if (error) throw error;
+  return data as { id: string; name: string };
+}
+
+async function createOrder(patient: Pick<Patient, 'id' | 'required_documents' | 'stoplight_status'>, receivedAt: string | null, repName: string | null) {
+  const document_status = Object.fromEntries((patient.required_documents || []).map((key: string) => [key, 'Missing']));
+  const { data, error } = await supabase
+    .from('orders')
+    .insert({
+      patient_id: patient.id,
+      referral_source: EMAIL_REFERRAL_SOURCE,
+      workflow_stage: 'Referral Received',
+      status: 'Pending Intake',
+      rep_name: repName || 'System',
+      referral_date: receivedAt || new Date().toISOString(),
+      is_archived: false,
+      stoplight_status: patient.stoplight_status || 'green',
+      document_status,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as Order;
+}
+
+/**
+ * Runs `work` with the draft claimed. If it fails before a patient or order
+ * exists, the draft goes back to the queue; after that it stays resolved so
+ * the referral is not created twice, and the error says what is left to do.
+ */
+async function withClaim(inbound: InboundReferral, status: 'accepted' | 'merged', by: string | null, work: (created: (ids: { patient_id: string; order_id: string }) => void) => Promise<void>) {
+  if (!(await claimInboundReferral(inbound.id, status, by))) {
+    throw new Error('This email has already been handled by someone else.');
+  }
+  const state: { created: { patient_id: string; order_id: string } | null } = { created: null };
+  try {
+    await work(ids => { state.created = ids; });
+  } catch (error) {
+    if (!state.created) {
+      await releaseInboundReferral(inbound.id).catch(() => undefined);
+      throw error;
+    }
+    await completeInboundReferral(inbound.id, state.created).catch(() => undefined);
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`The referral was saved, but its attachments could not all be filed: ${message}`);
+  }
+}
+
+/** Creates a new patient and referral from the draft and files its attachments on the order. */
+export async function acceptInboundReferral(inbound: InboundReferral, decision: InboundDecision, acceptedBy: string | null) {
+  const { draft, doctorId } = decision;
+  if (!draft.name?.trim()) throw new Error('The patient name is required.');
+
+  let result = { patient_id: '', order_id: '' };
+  await withClaim(inbound, 'accepted', acceptedBy, async created => {
+    const provider = await providerFor(draft.primary_insurance);
+    const required_documents = await loadRequiredDocumentsFor({ insuranceProviderId: provider?.id ?? null });
+
+    const { data: patient, error } = await supabase
+      .from('patients')
+      .insert({
+        name: draft.name!.trim(),
+        dob: draft.dob || null,
+        phone_number: draft.phone_number || null,
+        primary_insurance: provider?.name ?? null,
+        insurance_provider_id: provider?.id ?? null,
+        referring_physician: doctorId || draft.referring_physician || null,
+        required_documents,
+        stoplight_status: 'green',
+      })
+      .select()
+      .single();
+    if (error) throw error;
+
+    const order = await createOrder(patient as Patient, inbound.received_at, acceptedBy);
+    result = { patient_id: patient.id, order_id: order.id };
+    created(result);
+
+    await completeInboundReferral(inbound.id, { ...result, draft, suggested_doctor_id: doctorId });
+    await writeAuditLog('inbound_referral_accepted', { changed_by: acceptedBy, changed_user: patient.name, patient_id: patient.id, order_id: order.id, file: inbound.file_name });
+    await fileAttachments(order, inbound, decision.docKeys, acceptedBy);
+  });
+  return result;
+}
+
+/**
+ * Adds the draft to an existing patient: blank patient details are filled in
+ * from the email and the attachments are filed on the patient's latest open
+ * order, or on a new referral when the patient has none.
+ */
+export async function mergeInboundReferral(inbound: InboundReferral, patientId: string, decision: InboundDecision, mergedBy: string | null) {
+  const { draft, doctorId } = decision;
+
+  let result = { patient_id: patientId, order_id: '' };
+  await withClaim(inbound, 'merged', mergedBy, async created => {
+    const { data, error } = await supabase.from('patients').select('*, orders(*)').eq('id', patientId).single();
+    if (error) throw error;
+    const patient = data as Patient & { orders: Order[] };
+
+    const fill: Partial<Patient> = {};
+    if (!patient.dob && draft.dob) fill.dob = draft.dob;
+    if (!patient.phone_number && draft.phone_number) fill.phone_number = draft.phone_number;
+    if (!patient.referring_physician && (doctorId || draft.referring_physician)) fill.referring_physician = doctorId || draft.referring_physician;
+    if (!patient.primary_insurance && draft.primary_insurance) {
+      const provider = await providerFor(draft.primary_insurance);
+      fill.primary_insurance = provider?.name ?? null;
+      fill.insurance_provider_id = provider?.id ?? null;
+    }
+    if (Object.keys(fill).length > 0) {
+      const { error: updateError } = await supabase.from('patients').update(fill).eq('id', patientId);
+      if (updateError) throw updateError;
+    }
+
+    const openOrder = [...(patient.orders || [])]
+      .filter(o => !o.is_archived)
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
+    const order = openOrder ?? await createOrder(patient, inbound.received_at, mergedBy);
+    result = { patient_id: patientId, order_id: order.id };
+    created(result);
+
+    await completeInboundReferral(inbound.id, { ...result, draft, suggested_doctor_id: doctorId });
+    await writeAuditLog('inbound_referral_merged', {
+      changed_by: mergedBy,
+      changed_user: patient.name,
+      patient_id: patientId,
+      order_id: order.id,
+      file: inbound.file_name,
+      filled: Object.keys(fill),
+      new_order: !openOrder,
+    });
+    await fileAttachments(order, inbound, decision.docKeys, mergedBy);
+  });
+  return result;
+}
+
+/** Closes the draft without creating anything; its attachment files are deleted. */
+export async function discardInboundReferral(inbound: InboundReferral, discardedBy: string | null) {
+  if (!(await claimInboundReferral(inbound.id, 'discarded', discardedBy))) {
+    throw new Error('This email has already been handled by someone else.');
+  }
+  await removeInboundAttachments(inbound.inbound_referral_attachments || []);
+  await writeAuditLog('inbound_referral_discarded', { changed_by: discardedBy, file: inbound.file_name, from: inbound.from_address, subject: inbound.subject });
+}
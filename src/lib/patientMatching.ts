@@ -0,0 +1,176 @@
+import type { Patient } from './types';
+import { stringSimilarity } from './utils';
+
+/** Upper-cased provider name or alias → canonical provider. */
+export type InsuranceIndex = Map<string, { id: string; name: string }>;
+
+export interface MatchInput {
+  patient_name?: string | null;
+  dob?: string | null;
+  phone_number?: string | null;
+  insurance_primary?: string | null;
+  policy_number?: string | null;
+}
+
+export interface PatientMatch<P extends Patient = Patient> {
+  patient: P;
+  /** 0–1 confidence. */
+  score: number;
+  /** True when every dedupe key agrees after normalization. */
+  exact: boolean;
+  reasons: string[];
+}
+
+export const MATCH_THRESHOLDS = {
+  /** Below this the name is considered a different person regardless of other signals. */
+  name: 0.6,
+  /** Minimum overall score to surface a probable match for review. */
+  probable: 0.7,
+};
+
+const WEIGHTS = { name: 0.55, dob: 0.25, phone: 0.1, insurance: 0.1 };
+
+/** "Smith, John A." and "john a smith" both become "a john smith". */
+export function normalizePersonName(name: string | null | undefined): string {
+  if (!name) return '';
+  let value = name.toString().trim();
+  const comma = value.indexOf(',');
+  if (comma > -1) {
+    value = `${value.slice(comma + 1)} ${value.slice(0, comma)}`;
+  }
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+export function normalizePhone(phone: string | null | undefined): string {
+  return (phone ?? '').toString().replace(/\D/g, '').slice(-10);
+}
+
+export function normalizeDate(value: string | null | undefined): string {
+  if (!value) return '';
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value.toString().trim() : date.toISOString().slice(0, 10);
+}
+
+export function resolveInsurance(name: string | null | undefined, index: InsuranceIndex) {
+  const key = (name ?? '').toString().trim().toUpperCase();
+  if (!key) return null;
+  return index.get(key) ?? null;
+}
+
+/** Canonical provider name when known, otherwise the trimmed upper-cased input. */
+export function canonicalInsurance(name: string | null | undefined, index: InsuranceIndex): string {
+  return resolveInsurance(name, index)?.name ?? (name ?? '').toString().trim().toUpperCase();
+}
+
+/** Normalizes one dedupe key's value so that equivalent spellings compare equal. */
+export function normalizeDedupeValue(key: string, value: unknown, index: InsuranceIndex): string {
+  const str = value === null || value === undefined ? '' : value.toString();
+  switch (key) {
+    case 'patient_name':
+      return normalizePersonName(str);
+    case 'insurance_primary':
+      return canonicalInsurance(str, index);
+    case 'dob':
+      return normalizeDate(str);
+    case 'phone_number':
+      return normalizePhone(str);
+    default:
+      return str.trim().toUpperCase();
+  }
+}
+
+const patientValues = (p: Patient): MatchInput => ({
+  patient_name: p.name,
+  dob: p.dob,
+  phone_number: p.phone_number,
+  insurance_primary: p.insurance_providers?.name ?? p.primary_insurance,
+  policy_number: p.policy_number,
+});
+
+export function scorePatientMatch(input: MatchInput, patient: Patient, index: InsuranceIndex): { score: number; reasons: string[] } {
+  const existing = patientValues(patient);
+  const nameScore = stringSimilarity(normalizePersonName(input.patient_name), normalizePersonName(existing.patient_name));
+  if (nameScore < MATCH_THRESHOLDS.name) return { score: 0, reasons: [] };
+
+  const reasons = [`Name ${Math.round(nameScore * 100)}%`];
+  let weighted = WEIGHTS.name * nameScore;
+  let total = WEIGHTS.name;
+  let dobConflict = false;
+
+  const dobA = normalizeDate(input.dob);
+  const dobB = normalizeDate(existing.dob);
+  if (dobA && dobB) {
+    total += WEIGHTS.dob;
+    if (dobA === dobB) {
+      weighted += WEIGHTS.dob;
+      reasons.push('DOB matches');
+    } else {
+      dobConflict = true;
+      reasons.push('DOB differs');
+    }
+  }
+
+  const phoneA = normalizePhone(input.phone_number);
+  const phoneB = normalizePhone(existing.phone_number);
+  if (phoneA.length === 10 && phoneB.length === 10) {
+    total += WEIGHTS.phone;
+    if (phoneA === phoneB) {
+      weighted += WEIGHTS.phone;
+      reasons.push('Phone matches');
+    }
+  }
+
+  const insA = canonicalInsurance(input.insurance_primary, index);
+  const insB = canonicalInsurance(existing.insurance_primary, index);
+  if (insA && insB) {
+    total += WEIGHTS.insurance;
+    if (insA === insB) {
+      weighted += WEIGHTS.insurance;
+      reasons.push('Same payer');
+    } else {
+      reasons.push('Different payer');
+    }
+  }
+
+  let score = weighted / total;
+  // Two people with the same name but different birthdays are almost always different patients.
+  if (dobConflict) score = Math.min(score, 0.5);
+  return { score, reasons };
+}
+
+/**
+ * Finds the best existing patient for an import row. An exact match means every
+ * dedupe key agrees after normalization; otherwise the highest fuzzy score at or
+ * above `MATCH_THRESHOLDS.probable` is returned for the user to confirm.
+ */
+export function findPatientMatch<P extends Patient>(
+  input: MatchInput,
+  candidates: P[],
+  dedupeKeys: string[],
+  columns: Record<string, string>,
+  index: InsuranceIndex,
+): PatientMatch<P> | null {
+  if (dedupeKeys.length > 0) {
+    const exact = candidates.find(p => dedupeKeys.every(k => {
+      const inputValue = normalizeDedupeValue(k, (input as Record<string, unknown>)[k], index);
+      const patientValue = normalizeDedupeValue(k, (p as Record<string, unknown>)[columns[k]], index);
+      return inputValue !== '' && inputValue === patientValue;
+    }));
+    if (exact) return { patient: exact, score: 1, exact: true, reasons: ['Dedupe keys match'] };
+  }
+
+  let best: PatientMatch<P> | null = null;
+  for (const patient of candidates) {
+    const { score, reasons } = scorePatientMatch(input, patient, index);
+    if (score >= MATCH_THRESHOLDS.probable && (!best || score > best.score)) {
+      best = { patient, score, exact: false, reasons };
+    }
+  }
+  return best;
+}
@@ -3,10 +3,8 @@ import autoTable from "jspdf-autotable";
 import QRCode from 'qrcode';
 import type { Order, AuditLogEntry, Denial, User } from "@/lib/types";
 import { getLogoDataUrl, daysOld } from './utils';
-import workflowData from '@/../schemas/workflow.json';
-import { labelMap, DocKey } from './docMapping';
-
-const allStages = workflowData.workflow.map(w => w.stage);
+import { workflowStageNames } from '@/lib/workflowDefinition';
+import { docLabel } from './docMapping';
 
 const stageColors = [
   '#14b8a6', '#0d9488', '#0f766e', '#0ea5e9', '#3b82f6', '#6366f1',
@@ -161,6 +159,7 @@ export async function generatePatientSnapshotPDF({
   doc.setTextColor(100);
   doc.text("Workflow Progress:", 14, startY);
   startY += 5;
+  const allStages = workflowStageNames(order.workflow_version);
   const currentStageIndex = allStages.indexOf(order.workflow_stage || '');
   const barWidth = (pageWidth - 28) / allStages.length;
   allStages.forEach((stage, i) => {
@@ -194,7 +193,7 @@ export async function generatePatientSnapshotPDF({
 
   const docsBody = requiredDocs.map(key => {
       const status = order.document_status?.[key] === 'Complete' ? '✓' : '✗';
-      return [labelMap[key as DocKey] || key, status];
+      return [docLabel(key), status];
   });
   autoTable(doc, {
     startY,
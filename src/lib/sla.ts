@@ -0,0 +1,84 @@
+import { findStageDefinition } from './workflowDefinition';
+import type { Order } from './types';
+
+export type SlaState = 'on_track' | 'at_risk' | 'breached';
+
+export interface SlaInfo {
+  stage: string;
+  enteredAt: Date;
+  daysInStage: number;
+  targetDays: number;
+  dueDate: Date;
+  /** Negative once the order is past due. */
+  daysRemaining: number;
+  state: SlaState;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Share of the stage target after which an order is flagged as at risk. */
+export const SLA_AT_RISK_RATIO = 0.75;
+
+/** Target days for a stage in the given workflow version (the active one by default). */
+export function stageTargetDays(stage: string, version?: number | null): number | undefined {
+  return findStageDefinition(stage, version)?.target_days;
+}
+
+export const SLA_STATE_LABELS: Record<SlaState, string> = {
+  on_track: 'On track',
+  at_risk: 'At risk',
+  breached: 'Breached',
+};
+
+type SlaOrder = Pick<Order, 'workflow_stage' | 'last_stage_change' | 'created_at' | 'is_archived' | 'workflow_version'> & {
+  workflow_history?: { new_stage: string | null; changed_at: string | null }[] | null;
+};
+
+/**
+ * When the order entered its current stage: the latest `workflow_history` move
+ * into that stage, falling back to `last_stage_change` and then `created_at`.
+ */
+export function stageEnteredAt(order: SlaOrder): Date {
+  const entries = (order.workflow_history || [])
+    .filter(h => h.new_stage === order.workflow_stage && h.changed_at)
+    .map(h => new Date(h.changed_at as string).getTime())
+    .filter(t => !isNaN(t));
+  if (entries.length > 0) return new Date(Math.max(...entries));
+  return new Date(order.last_stage_change || order.created_at);
+}
+
+/** SLA position of an order in its current stage, or null when the stage has no target or the order is archived. */
+export function computeSla(order: SlaOrder, now: Date = new Date()): SlaInfo | null {
+  const stage = order.workflow_stage;
+  if (!stage || order.is_archived) return null;
+  const targetDays = stageTargetDays(stage, order.workflow_version);
+  if (!targetDays) return null;
+
+  const enteredAt = stageEnteredAt(order);
+  const elapsed = (now.getTime() - enteredAt.getTime()) / DAY_MS;
+  const dueDate = new Date(enteredAt.getTime() + targetDays * DAY_MS);
+  const daysRemaining = targetDays - elapsed;
+
+  let state: SlaState = 'on_track';
+  if (daysRemaining < 0) state = 'breached';
+  else if (elapsed >= targetDays * SLA_AT_RISK_RATIO || daysRemaining < 1) state = 'at_risk';
+
+  return { stage, enteredAt, daysInStage: Math.max(0, elapsed), targetDays, dueDate, daysRemaining, state };
+}
+
+/** True when the order is not yet breached and falls due before the end of this week (Sunday). */
+export function isDueThisWeek(sla: SlaInfo | null, now: Date = new Date()): boolean {
+  if (!sla || sla.state === 'breached') return false;
+  const endOfWeek = new Date(now);
+  endOfWeek.setDate(now.getDate() + ((7 - now.getDay()) % 7));
+  endOfWeek.setHours(23, 59, 59, 999);
+  return sla.dueDate <= endOfWeek;
+}
+
+export function describeSla(sla: SlaInfo): string {
+  const due = sla.dueDate.toLocaleDateString();
+  if (sla.state === 'breached') {
+    return `${Math.floor(-sla.daysRemaining)}d past the ${sla.targetDays}d target for ${sla.stage} (due ${due})`;
+  }
+  return `${Math.floor(sla.daysInStage)}d of ${sla.targetDays}d in ${sla.stage}, due ${due}`;
+}
@@ -0,0 +1,105 @@
+import { canonicalDocKey, docLabel } from './docMapping';
+import { getWorkflow, type WorkflowStageDefinition } from './workflowDefinition';
+import type { Order } from './types';
+
+export interface GateRequirement {
+  key: string;
+  label: string;
+}
+
+export interface StageGateGroup {
+  stage: string;
+  /** `exit` groups come from the workflow definition; the `entry` group is the patient's own required documents before PAR. */
+  kind: 'exit' | 'entry';
+  fields: GateRequirement[];
+  docs: GateRequirement[];
+}
+
+export interface StageGateResult {
+  passed: boolean;
+  missing: StageGateGroup[];
+}
+
+export interface StageGateOverride {
+  reason: string;
+  missing: string[];
+}
+
+const PAR_STAGE = 'Preauthorization (PAR)';
+
+/**
+ * Workflow definition field keys that are captured on the referral. Keys not listed
+ * here (copay, hcpcs_code, ...) have nowhere to be entered yet and are not enforced.
+ */
+const FIELD_ACCESSORS: Record<string, { label: string; get: (order: Order) => unknown }> = {
+  rep_name: { label: 'Rep', get: o => o.rep_name },
+  patient_name: { label: 'Patient Name', get: o => o.patients?.name },
+  insurance_primary: { label: 'Primary Insurance', get: o => o.patients?.primary_insurance },
+  chair_type: { label: 'Chair Type', get: o => o.chair_type },
+  referral_date: { label: 'Referral Date', get: o => o.referral_date },
+  dob: { label: 'Date of Birth', get: o => o.patients?.dob },
+  address: { label: 'Address', get: o => o.patients?.address_line1 },
+  doctor: { label: 'Referring Doctor', get: o => o.patients?.referring_physician },
+  pcp: { label: 'Primary Care Provider', get: o => o.patients?.pcp_name },
+  diagnosis: { label: 'Diagnosis', get: o => o.patients?.diagnosis },
+  vendor_name: { label: 'Vendor', get: o => o.vendor_id },
+  confirmation_number: { label: 'Authorization Number', get: o => o.authorization_number },
+};
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+export function isDocSatisfied(order: Pick<Order, 'document_status'>, key: string): boolean {
+  const status: string | undefined = order.document_status?.[key];
+  return status === 'Complete' || status === 'Not Required';
+}
+
+function exitGroup(order: Order, stage: WorkflowStageDefinition): StageGateGroup {
+  const fields = stage.fields
+    .filter(key => FIELD_ACCESSORS[key] && isBlank(FIELD_ACCESSORS[key].get(order)))
+    .map(key => ({ key, label: FIELD_ACCESSORS[key].label }));
+  const docs = Array.from(new Set(stage.required_docs.map(canonicalDocKey)))
+    .filter(key => !isDocSatisfied(order, key))
+    .map(key => ({ key, label: docLabel(key) }));
+  return { stage: stage.stage, kind: 'exit', fields, docs };
+}
+
+/**
+ * Checks a forward move to `target`: every stage being left (the current one and
+ * any skipped) must meet the exit criteria of the order's workflow version, and
+ * moving into or past PAR also requires the patient's own required documents.
+ * Moves backward or sideways always pass.
+ */
+export function evaluateStageGate(order: Order, target: string): StageGateResult {
+  const { workflow } = getWorkflow(order.workflow_version);
+  const stages = workflow.map(s => s.stage);
+  const fromIndex = stages.indexOf(order.workflow_stage || '');
+  const toIndex = stages.indexOf(target);
+  if (fromIndex === -1 || toIndex <= fromIndex) return { passed: true, missing: [] };
+
+  const groups = workflow.slice(fromIndex, toIndex).map(stage => exitGroup(order, stage));
+
+  const parIndex = stages.indexOf(PAR_STAGE);
+  if (fromIndex < parIndex && toIndex >= parIndex) {
+    const listed = new Set(groups.flatMap(g => g.docs.map(d => d.key)));
+    const docs = (order.patients?.required_documents || [])
+      .filter((key: string) => !isDocSatisfied(order, key) && !listed.has(key))
+      .map((key: string) => ({ key, label: docLabel(key) }));
+    groups.push({ stage: PAR_STAGE, kind: 'entry', fields: [], docs });
+  }
+
+  const missing = groups.filter(g => g.fields.length > 0 || g.docs.length > 0);
+  return { passed: missing.length === 0, missing };
+}
+
+/** True when moving the order to `target` takes it from before PAR to PAR or later. */
+export function entersPar(order: Pick<Order, 'workflow_stage' | 'workflow_version'>, target: string): boolean {
+  const stages = getWorkflow(order.workflow_version).workflow.map(s => s.stage);
+  const parIndex = stages.indexOf(PAR_STAGE);
+  const fromIndex = stages.indexOf(order.workflow_stage || '');
+  return parIndex !== -1 && fromIndex !== -1 && fromIndex < parIndex && stages.indexOf(target) >= parIndex;
+}
+
+/** Flat "Stage: item" list of what a gate is missing, for history notes and the audit log. */
+export function describeGateMissing(result: StageGateResult): string[] {
+  return result.missing.flatMap(g => [...g.fields, ...g.docs].map(item => `${g.stage}: ${item.label}`));
+}
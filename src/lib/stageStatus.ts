@@ -0,0 +1,20 @@
+import { findStageDefinition } from './workflowDefinition';
+
+/** Allowed sub-statuses for a stage, in the order the workflow definition lists them. */
+export function statusesForStage(stage: string | null | undefined, version?: number | null): string[] {
+  return findStageDefinition(stage, version)?.status || [];
+}
+
+export function isValidStageStatus(stage: string | null | undefined, status: string | null | undefined, version?: number | null): boolean {
+  return !!status && statusesForStage(stage, version).includes(status);
+}
+
+/** The order's status if it belongs to `stage`, otherwise the stage's first listed status. */
+export function resolveStageStatus(stage: string | null | undefined, status: string | null | undefined, version?: number | null): string {
+  if (isValidStageStatus(stage, status, version)) return status as string;
+  return statusesForStage(stage, version)[0] || '';
+}
+
+export function stageStatusOptions(stage: string | null | undefined, version?: number | null) {
+  return statusesForStage(stage, version).map(status => ({ value: status, label: status }));
+}
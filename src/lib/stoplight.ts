@@ -0,0 +1,281 @@
+import { supabase } from './supabaseClient';
+import { computeSla, describeSla } from './sla';
+import { isBackward } from './utils';
+import { docLabel } from './docMapping';
+import { isDocSatisfied } from './stageGates';
+import { writeAuditLog } from './auditLogger';
+import { getStoplightCriteria, logStoplightChange } from '@/api/stoplight.api';
+import type { Denial, Order, StoplightColor, StoplightCriteria, StoplightHistoryEntry } from './types';
+
+export const DEFAULT_STOPLIGHT_CRITERIA: StoplightCriteria = {
+  sla_breach_color: 'red',
+  sla_at_risk_color: 'yellow',
+  open_denial_color: 'red',
+  missing_docs_days: 14,
+  missing_docs_color: 'yellow',
+  regression_days: 30,
+  regression_color: 'yellow',
+};
+
+export const STOPLIGHT_LABELS: Record<StoplightColor, string> = {
+  green: 'Good to Go',
+  yellow: 'Risk / Needs Review',
+  red: 'Declined / Stop',
+};
+
+const SEVERITY: Record<StoplightColor, number> = { green: 0, yellow: 1, red: 2 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Columns needed to compute and store an order's stoplight. */
+const STOPLIGHT_SELECT = [
+  'id', 'patient_id', 'workflow_stage', 'last_stage_change', 'created_at', 'is_archived', 'workflow_version', 'document_status',
+  'stoplight_status', 'stoplight_reason', 'stoplight_override', 'stoplight_override_until', 'stoplight_override_reason', 'stoplight_override_by',
+  'patients(required_documents)', 'denials(resolved, appeal_outcome)', 'workflow_history(previous_stage, new_stage, changed_at)',
+].join(', ');
+
+type StoplightOrder = Pick<Order,
+  | 'id' | 'patient_id' | 'workflow_stage' | 'last_stage_change' | 'created_at' | 'is_archived' | 'workflow_version' | 'document_status'
+  | 'stoplight_status' | 'stoplight_reason' | 'stoplight_override' | 'stoplight_override_until' | 'stoplight_override_reason' | 'stoplight_override_by'
+> & {
+  patients?: { required_documents?: string[] | null } | null;
+  denials?: Pick<Denial, 'resolved' | 'appeal_outcome'>[] | null;
+  workflow_history?: { previous_stage: string | null; new_stage: string | null; changed_at: string | null }[] | null;
+};
+
+export interface StoplightResult {
+  color: StoplightColor;
+  /** Why each criterion that was met fired, worst first. */
+  reasons: string[];
+}
+
+/** A denial stays open until it is resolved or its appeal is approved or withdrawn. */
+export const isDenialOpen = (denial: Pick<Denial, 'resolved' | 'appeal_outcome'>) =>
+  !denial.resolved && denial.appeal_outcome !== 'Approved' && denial.appeal_outcome !== 'Withdrawn';
+
+/** Colour an order should have under `criteria`: the worst colour of every criterion it meets, or green. */
+export function computeStoplight(order: StoplightOrder, criteria: StoplightCriteria, now: Date = new Date()): StoplightResult {
+  const hits: { color: StoplightColor; reason: string }[] = [];
+
+  const sla = computeSla(order, now);
+  if (sla?.state === 'breached' && criteria.sla_breach_color) {
+    hits.push({ color: criteria.sla_breach_color, reason: `SLA breached: ${describeSla(sla)}` });
+  } else if (sla?.state === 'at_risk' && criteria.sla_at_risk_color) {
+    hits.push({ color: criteria.sla_at_risk_color, reason: `SLA at risk: ${describeSla(sla)}` });
+  }
+
+  const openDenials = (order.denials || []).filter(isDenialOpen).length;
+  if (openDenials > 0 && criteria.open_denial_color) {
+    hits.push({ color: criteria.open_denial_color, reason: `${openDenials} open denial${openDenials === 1 ? '' : 's'}` });
+  }
+
+  const ageDays = (now.getTime() - new Date(order.created_at).getTime()) / DAY_MS;
+  if (criteria.missing_docs_color && ageDays >= criteria.missing_docs_days) {
+    const missing = (order.patients?.required_documents || []).filter(key => !isDocSatisfied(order, key));
+    if (missing.length > 0) {
+      const names = missing.map(docLabel).join(', ');
+      hits.push({ color: criteria.missing_docs_color, reason: `Missing after ${Math.floor(ageDays)}d: ${names}` });
+    }
+  }
+
+  if (criteria.regression_color) {
+    const since = now.getTime() - criteria.regression_days * DAY_MS;
+    const regressions = (order.workflow_history || []).filter(h =>
+      h.changed_at && new Date(h.changed_at).getTime() >= since && isBackward(h.previous_stage, h.new_stage, order.workflow_version)
+    );
+    if (regressions.length > 0) {
+      const latest = regressions.reduce((a, b) => (new Date(a.changed_at as string) > new Date(b.changed_at as string) ? a : b));
+      hits.push({
+        color: criteria.regression_color,
+        reason: `Moved back to ${latest.new_stage} on ${new Date(latest.changed_at as string).toLocaleDateString()}`
+          + (regressions.length > 1 ? ` (${regressions.length} regressions in ${criteria.regression_days}d)` : ''),
+      });
+    }
+  }
+
+  hits.sort((a, b) => SEVERITY[b.color] - SEVERITY[a.color]);
+  return { color: hits[0]?.color || 'green', reasons: hits.map(h => h.reason) };
+}
+
+export const isOverrideActive = (order: Pick<Order, 'stoplight_override' | 'stoplight_override_until'>, now: Date = new Date()) =>
+  !!order.stoplight_override && (!order.stoplight_override_until || new Date(order.stoplight_override_until) > now);
+
+function describeOverride(order: Pick<Order, 'stoplight_override_until' | 'stoplight_override_reason' | 'stoplight_override_by'>) {
+  const until = order.stoplight_override_until ? ` until ${new Date(order.stoplight_override_until).toLocaleDateString()}` : '';
+  const by = order.stoplight_override_by ? ` by ${order.stoplight_override_by}` : '';
+  return `Pinned${by}${until}${order.stoplight_override_reason ? `: ${order.stoplight_override_reason}` : ''}`;
+}
+
+/** The saved criteria, or the defaults when none are saved or they cannot be read. */
+export async function loadStoplightCriteria(): Promise<StoplightCriteria> {
+  try {
+    return (await getStoplightCriteria()) || DEFAULT_STOPLIGHT_CRITERIA;
+  } catch (error) {
+    console.error('Failed to load stoplight criteria, using defaults:', error);
+    return DEFAULT_STOPLIGHT_CRITERIA;
+  }
+}
+
+/**
+ * Mirrors the stoplight on the patient for the patient list: the worst colour
+ * of their open orders, so one green order does not hide another's red.
+ */
+async function syncPatientStoplight(patientId: string) {
+  const { data, error } = await supabase
+    .from('orders')
+    .select('stoplight_status')
+    .eq('patient_id', patientId)
+    .or('is_archived.is.null,is_archived.eq.false');
+  if (error) throw error;
+  const colors = (data || []).map(o => o.stoplight_status as StoplightColor | null).filter((c): c is StoplightColor => !!c && c in SEVERITY);
+  if (colors.length === 0) return;
+  const worst = colors.reduce((a, b) => (SEVERITY[b] > SEVERITY[a] ? b : a));
+  const { error: updateError } = await supabase.from('patients').update({ stoplight_status: worst }).eq('id', patientId);
+  if (updateError) throw updateError;
+}
+
+async function recordColorChange(order: StoplightOrder, to: StoplightColor, source: StoplightHistoryEntry['source'], reason: string | null, changedBy: string | null) {
+  if (order.patient_id) await syncPatientStoplight(order.patient_id);
+  await logStoplightChange({
+    order_id: order.id,
+    patient_id: order.patient_id,
+    from_color: order.stoplight_status || null,
+    to_color: to,
+    source,
+    reason,
+    changed_by: changedBy,
+  });
+}
+
+/**
+ * Stores the computed colour and reason on the order, unless an unexpired
+ * override is pinned. Expired overrides are cleared. Returns whether the
+ * colour changed.
+ */
+async function applyStoplight(order: StoplightOrder, criteria: StoplightCriteria, changedBy: string | null, now: Date): Promise<boolean> {
+  if (order.is_archived) return false;
+  const overrideExpired = !!order.stoplight_override && !isOverrideActive(order, now);
+
+  let color: StoplightColor;
+  let reason: string | null;
+  if (order.stoplight_override && !overrideExpired) {
+    color = order.stoplight_override;
+    reason = describeOverride(order);
+  } else {
+    const result = computeStoplight(order, criteria, now);
+    color = result.color;
+    reason = result.reasons.length > 0 ? result.reasons.join('; ') : null;
+  }
+
+  const colorChanged = color !== (order.stoplight_status || null);
+  if (!colorChanged && !overrideExpired && reason === (order.stoplight_reason || null)) return false;
+
+  // Only written if the colour is still the one read, so when a tab and the
+  // background sweep recompute the same order at once just one of them logs it.
+  let update = supabase
+    .from('orders')
+    .update({
+      stoplight_status: color,
+      stoplight_reason: reason,
+      ...(overrideExpired && { stoplight_override: null, stoplight_override_until: null, stoplight_override_reason: null, stoplight_override_by: null }),
+    })
+    .eq('id', order.id);
+  update = order.stoplight_status ? update.eq('stoplight_status', order.stoplight_status) : update.is('stoplight_status', null);
+  const { data: updated, error } = await update.select('id');
+  if (error) throw error;
+  if (!updated?.length) return false;
+
+  if (colorChanged) {
+    await recordColorChange(order, color, overrideExpired ? 'override_expired' : 'computed', reason, changedBy);
+  }
+  return colorChanged;
+}
+
+/**
+ * Recomputes one order's stoplight after something it depends on changed.
+ * Never throws: a stoplight problem must not undo the change that caused it.
+ */
+export async function syncStoplight(orderId: string, changedBy?: string | null): Promise<boolean> {
+  try {
+    const [criteria, { data, error }] = await Promise.all([
+      loadStoplightCriteria(),
+      supabase.from('orders').select(STOPLIGHT_SELECT).eq('id', orderId).single(),
+    ]);
+    if (error) throw error;
+    return await applyStoplight(data as unknown as StoplightOrder, criteria, changedBy || null, new Date());
+  } catch (error) {
+    console.error(`Stoplight sync for order ${orderId} failed:`, error);
+    return false;
+  }
+}
+
+/**
+ * Recomputes every active order after the criteria are edited. SLA and
+ * missing-document criteria also change with time alone; the `background-sweep`
+ * edge function recomputes them on a schedule. Returns how many orders changed colour.
+ */
+export async function syncAllStoplights(changedBy?: string | null): Promise<number> {
+  const criteria = await loadStoplightCriteria();
+  const { data, error } = await supabase
+    .from('orders')
+    .select(STOPLIGHT_SELECT)
+    .or('is_archived.is.null,is_archived.eq.false');
+  if (error) throw error;
+
+  const now = new Date();
+  let changed = 0;
+  for (const order of (data || []) as unknown as StoplightOrder[]) {
+    try {
+      if (await applyStoplight(order, criteria, changedBy || null, now)) changed++;
+    } catch (err) {
+      console.error(`Stoplight sync for order ${order.id} failed:`, err);
+    }
+  }
+  return changed;
+}
+
+export interface StoplightOverrideInput {
+  color: StoplightColor;
+  /** ISO timestamp after which the computed colour takes over again; null pins it indefinitely. */
+  until: string | null;
+  reason: string;
+  pinnedBy: string | null;
+}
+
+/** Pins a manual colour on an order until the override expires or is cleared. */
+export async function pinStoplightOverride(orderId: string, input: StoplightOverrideInput) {
+  const { data, error } = await supabase.from('orders').select(STOPLIGHT_SELECT).eq('id', orderId).single();
+  if (error) throw error;
+  const order = data as unknown as StoplightOrder;
+
+  const pinned = {
+    stoplight_override: input.color,
+    stoplight_override_until: input.until,
+    stoplight_override_reason: input.reason.trim() || null,
+    stoplight_override_by: input.pinnedBy,
+  };
+  const reason = describeOverride(pinned);
+  const { error: updateError } = await supabase
+    .from('orders')
+    .update({ ...pinned, stoplight_status: input.color, stoplight_reason: reason })
+    .eq('id', orderId);
+  if (updateError) throw updateError;
+
+  if (input.color !== (order.stoplight_status || null)) {
+    await recordColorChange(order, input.color, 'override', reason, input.pinnedBy);
+  }
+  await writeAuditLog('stoplight_update', {
+    changed_by: input.pinnedBy,
+    patient_id: order.patient_id,
+    details: { from: order.stoplight_status, to: input.color, reason: 'Manual Override', until: input.until, note: pinned.stoplight_override_reason },
+  });
+}
+
+/** Removes a pinned colour and goes back to the computed one. */
+export async function clearStoplightOverride(orderId: string, clearedBy: string | null) {
+  const { error } = await supabase
+    .from('orders')
+    .update({ stoplight_override: null, stoplight_override_until: null, stoplight_override_reason: null, stoplight_override_by: null })
+    .eq('id', orderId);
+  if (error) throw error;
+  await syncStoplight(orderId, clearedBy);
+}
@@ -121,13 +121,13 @@ export const stoplightSteps: Step[] = [
   },
   {
     target: '#tour-stoplight-dot',
-    content: 'You can see the current status of any referral with this colored dot.',
+    content: 'You can see the current status of any referral with this colored dot. The color is worked out from SLA, denials, missing documents and stage regressions; hover over it to see why.',
     title: 'Status at a Glance',
   },
   {
     target: '#tour-stoplight-changer',
-    content: 'Click here to manually change the stoplight status. This is useful when conditions change, like receiving new information.',
-    title: 'Change Status',
+    content: 'Click here to pin a different color until a date of your choice, for example when you know something the system does not. The computed color returns when the pin expires or is cleared.',
+    title: 'Pin a Status',
     placement: 'bottom',
   },
   {
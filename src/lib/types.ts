@@ -91,15 +91,24 @@ export type Order = Database['public']['Tables']['orders']['Row'] & {
   authorization_number?: string | null;
   order_date?: string | null;
   // Dynamic Document Fields
-  document_status?: Record<string, 'Complete' | 'Missing' | 'Pending'> | null;
+  document_status?: Record<string, 'Complete' | 'Missing' | 'Pending' | 'Expired'> | null;
+  // Date of each document (YYYY-MM-DD), stamped when it becomes Complete; used for validity windows
+  document_dates?: Record<string, string> | null;
   // New Admin Fields
   case_type?: string | null;
   payer_region?: string | null;
   referral_source?: string | null;
+  // Workflow definition version the order follows (`workflow_definitions.version`)
+  workflow_version?: number | null;
   // Snapshot PDF fields
   justification?: string | null;
-  // Stoplight Status
-  stoplight_status?: 'green' | 'yellow' | 'red' | null;
+  // Stoplight Status: computed from `stoplight_criteria` unless a manual override is pinned
+  stoplight_status?: StoplightColor | null;
+  stoplight_reason?: string | null;
+  stoplight_override?: StoplightColor | null;
+  stoplight_override_until?: string | null;
+  stoplight_override_reason?: string | null;
+  stoplight_override_by?: string | null;
   // Joined Data
   denials?: Denial[];
   equipment?: Equipment[];
@@ -169,6 +178,392 @@ export type MarketingInService = Database['public']['Tables']['marketing_in_serv
     status?: InServiceStatus;
 };
 
+// Import mapping profiles (`import_profiles` table)
+export type ImportProfile = {
+  id: string;
+  name: string;
+  description: string | null;
+  header_row_index: number;
+  fields: Record<string, string>;
+  constants: Record<string, string>;
+  defaults: Record<string, string>;
+  dedupe_keys: string[];
+  is_default: boolean;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Import batches (`import_batches` / `import_batch_items` tables)
+export type ImportBatch = {
+  id: string;
+  file_name: string;
+  profile_id: string | null;
+  profile_name: string | null;
+  rep_name: string | null;
+  created_by: string | null;
+  created_by_email: string | null;
+  created_at: string;
+  status: 'applied' | 'rolled_back';
+  imported_count: number;
+  updated_count: number;
+  skipped_count: number;
+  rolled_back_at: string | null;
+  rolled_back_by: string | null;
+};
+
+export type ImportBatchItem = {
+  id: string;
+  batch_id: string;
+  entity: 'patient' | 'order' | 'equipment';
+  record_id: string;
+  action: 'created' | 'updated';
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  created_at: string;
+};
+
+// Automation rules (`automation_rules` / `automation_runs` tables)
+export type AutomationTrigger = 'stage_entered' | 'denial_logged' | 'document_completed';
+export type AutomationOperator = 'equals' | 'not_equals' | 'contains' | 'is_blank' | 'is_not_blank';
+
+export type AutomationCondition = {
+  field: string;
+  operator: AutomationOperator;
+  value?: string | null;
+};
+
+export type AutomationAction =
+  | { type: 'set_field'; field: string; value: string }
+  | { type: 'add_note'; body: string }
+  | { type: 'create_task'; title: string; due_in_days?: number | null; assigned_to?: string | null }
+  | { type: 'queue_email'; to: string; subject: string; body: string };
+
+export type AutomationRule = {
+  id: string;
+  name: string;
+  description: string | null;
+  is_enabled: boolean;
+  trigger_type: AutomationTrigger;
+  trigger_value: string | null;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type AutomationRun = {
+  id: string;
+  rule_id: string | null;
+  rule_name: string;
+  trigger_type: AutomationTrigger;
+  trigger_value: string | null;
+  order_id: string | null;
+  patient_id: string | null;
+  status: 'success' | 'failed';
+  actions_taken: string[];
+  error: string | null;
+  triggered_by: string | null;
+  created_at: string;
+  patients?: { name: string } | null;
+};
+
+// Follow-up tasks (`order_tasks` table)
+export type OrderTask = {
+  id: string;
+  order_id: string;
+  patient_id: string | null;
+  title: string;
+  due_date: string | null;
+  assigned_to: string | null;
+  is_done: boolean;
+  completed_at: string | null;
+  completed_by: string | null;
+  rule_id: string | null;
+  created_by: string | null;
+  created_at: string;
+};
+
+// Queued emails (`email_outbox` table)
+export type OutboxEmailStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+/** Attachment metadata; the base64 content is only read by the `send-email` function. */
+export type OutboxAttachment = {
+  id: string;
+  filename: string;
+  content_type: string | null;
+  size_bytes: number;
+};
+
+export type OutboxEmail = {
+  id: string;
+  /** One address, or several separated by commas. */
+  to_address: string;
+  subject: string;
+  body: string;
+  reply_to: string | null;
+  status: OutboxEmailStatus;
+  order_id: string | null;
+  patient_id: string | null;
+  rule_id: string | null;
+  attempts: number;
+  max_attempts: number;
+  /** Null once the email is sent, has failed for good or was cancelled. */
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  last_error: string | null;
+  transport: EmailTransportName | null;
+  provider_message_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  sent_at: string | null;
+  patients?: { name: string } | null;
+  email_outbox_attachments?: OutboxAttachment[];
+};
+
+// PAR packet sends (`vendor_log` table); the status mirrors the linked outbox email.
+export type VendorLog = {
+  id: string;
+  patient_name: string;
+  vendor_name: string;
+  status: 'pending' | 'sent' | 'failed' | 'cancelled';
+  sent_by: string;
+  sent_at: string;
+  outbox_id: string | null;
+  email_outbox?: OutboxEmail | null;
+};
+
+export type StoplightColor = 'green' | 'yellow' | 'red';
+
+export type ValidityAnchor = 'document_date' | 'order_date' | 'f2f_date';
+
+/** Documents required for referrals that match a provider, case type and equipment category; null matches any. */
+export type DocRuleSet = {
+  id: string;
+  name: string;
+  insurance_provider_id: string | null;
+  case_type: string | null;
+  equipment_category: string | null;
+  doc_keys: string[];
+  is_active: boolean;
+  updated_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+};
+
+export type DocumentValidityRule = {
+  doc_key: string;
+  valid_days: number;
+  anchor: ValidityAnchor;
+  warn_days: number;
+  description: string | null;
+  updated_by?: string | null;
+  updated_at?: string;
+};
+
+/** A file uploaded against a document key on an order; the file itself is in the `documents` bucket. */
+export type OrderDocument = {
+  id: string;
+  order_id: string;
+  patient_id: string | null;
+  doc_key: string;
+  file_name: string;
+  file_path: string;
+  mime_type: string | null;
+  size_bytes: number | null;
+  verified: boolean;
+  verified_by: string | null;
+  verified_at: string | null;
+  uploaded_by: string | null;
+  uploaded_at: string;
+};
+
+/** Single-row table; a null colour turns that criterion off. */
+export type StoplightCriteria = {
+  sla_breach_color: StoplightColor | null;
+  sla_at_risk_color: StoplightColor | null;
+  open_denial_color: StoplightColor | null;
+  missing_docs_days: number;
+  missing_docs_color: StoplightColor | null;
+  regression_days: number;
+  regression_color: StoplightColor | null;
+  updated_by?: string | null;
+  updated_at?: string;
+};
+
+export type StoplightHistoryEntry = {
+  id: string;
+  order_id: string;
+  patient_id: string | null;
+  from_color: StoplightColor | null;
+  to_color: StoplightColor;
+  source: 'computed' | 'override' | 'override_expired';
+  reason: string | null;
+  changed_by: string | null;
+  changed_at: string;
+};
+
+/** Single-row table; the letterhead and fax cover details printed on documentation requests. */
+export type PracticeSettings = {
+  name: string;
+  address: string | null;
+  phone: string | null;
+  fax: string | null;
+  email: string | null;
+  contact_name: string | null;
+  request_due_days: number;
+  escalate_after_reminders: number;
+  updated_by?: string | null;
+  updated_at?: string;
+};
+
+/**
+ * One order covered by a Documentation Request letter; orders batched into one letter share `batch_id`.
+ * `received_at` is set by the database once every requested document is Complete or Not Required.
+ */
+export type DocRequest = {
+  id: string;
+  order_id: string;
+  patient_id: string | null;
+  doctor_id: string | null;
+  doc_keys: string[];
+  due_date: string | null;
+  format: 'pdf' | 'docx';
+  batch_id: string;
+  sent_by: string | null;
+  sent_at: string;
+  reminder_count: number;
+  last_reminded_at: string | null;
+  received_at: string | null;
+  doctors?: { name: string } | null;
+  patients?: { name: string } | null;
+};
+
+export type EmailTransportName = 'resend' | 'smtp' | 'local';
+
+/** Single-row table read by the `send-email` edge function; the API key and SMTP password are function secrets. */
+export type EmailSettings = {
+  transport: EmailTransportName;
+  from_name: string;
+  from_address: string;
+  reply_to: string | null;
+  smtp_host: string | null;
+  smtp_port: number;
+  smtp_secure: boolean;
+  smtp_username: string | null;
+  updated_by?: string | null;
+  updated_at?: string;
+};
+
+/** A message the local transport recorded instead of sending. */
+export type DevMailboxMessage = {
+  id: string;
+  from_address: string;
+  to_addresses: string[];
+  reply_to: string | null;
+  subject: string;
+  text_body: string | null;
+  html_body: string | null;
+  attachments: { filename: string; content_type: string | null; size_bytes: number }[];
+  created_by: string | null;
+  created_at: string;
+};
+
+// Edited email templates (`email_templates` table); templates without a row use their built-in wording.
+export type EmailTemplateOverride = {
+  key: string;
+  subject: string;
+  body: string;
+  updated_by: string | null;
+  updated_at: string;
+};
+
+// Digest subscriptions (`digest_subscriptions` table), one per user
+export type DigestFrequency = 'daily' | 'weekly';
+export type DigestSection = 'accounts' | 'sla_breaches' | 'new_denials' | 'tasks_due' | 'in_services';
+/** `mine` is the user's own book of business: orders where they are the rep and tasks assigned to them. */
+export type DigestScope = 'mine' | 'all';
+
+export type DigestFilters = {
+  payers?: string[];
+  stages?: string[];
+};
+
+export type DigestSubscription = {
+  id: string;
+  user_id: string;
+  email: string;
+  frequency: DigestFrequency;
+  /** Day of the week (0 = Sunday) a weekly digest goes out. */
+  send_day: number;
+  sections: DigestSection[];
+  scope: DigestScope;
+  filters: DigestFilters;
+  is_active: boolean;
+  last_sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Inbound referral emails (`inbound_referrals` table), parsed into drafts for triage
+export type InboundReferralStatus = 'pending' | 'accepted' | 'merged' | 'discarded';
+export type InboundReferralSource = 'upload' | 'folder';
+
+/** Referral fields read from an inbound email; staff correct them before accepting. */
+export type ReferralDraft = {
+  name?: string | null;
+  dob?: string | null;
+  phone_number?: string | null;
+  primary_insurance?: string | null;
+  referring_physician?: string | null;
+};
+
+export type InboundPatientMatch = {
+  patient_id: string;
+  name: string;
+  dob: string | null;
+  score: number;
+  reasons: string[];
+};
+
+export type InboundReferralAttachment = {
+  id: string;
+  inbound_id: string;
+  file_name: string;
+  mime_type: string | null;
+  size_bytes: number | null;
+  file_path: string;
+  doc_key: string;
+  document_id: string | null;
+  created_at: string;
+};
+
+export type InboundReferral = {
+  id: string;
+  source: InboundReferralSource;
+  file_name: string;
+  dedupe_key: string;
+  message_id: string | null;
+  from_name: string | null;
+  from_address: string | null;
+  subject: string | null;
+  body: string | null;
+  received_at: string | null;
+  draft: ReferralDraft;
+  patient_matches: InboundPatientMatch[];
+  suggested_doctor_id: string | null;
+  status: InboundReferralStatus;
+  patient_id: string | null;
+  order_id: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  inbound_referral_attachments?: InboundReferralAttachment[];
+};
+
 // RPC Function Types
 export type DenialSummary = {
     patient_id: string;
@@ -1,16 +1,16 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
 import type { WorkflowStage, Denial } from './types';
-import workflowSchema from '@/../schemas/workflow.json';
+import { workflowStageNames } from './workflowDefinition';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-const stages: string[] = workflowSchema.workflow.map(w => w.stage);
-
-export function isBackward(from: string | null, to: string | null): boolean {
+/** True when `to` comes before `from` in the given workflow version (the active one by default). */
+export function isBackward(from: string | null, to: string | null, version?: number | null): boolean {
     if (!from || !to) return false;
+    const stages = workflowStageNames(version);
     const fromIndex = stages.indexOf(from);
     const toIndex = stages.indexOf(to);
     if (fromIndex === -1 || toIndex === -1) return false;
@@ -142,3 +142,37 @@ export const mostRecentDenial = (denials?: Denial[] | null): Denial | undefined
   // Ensure we don't mutate the original array
   return [...denials].sort((a, b) => new Date(b.denial_date).getTime() - new Date(a.denial_date).getTime())[0];
 };
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Similarity score between 0 and 1 combining edit distance and token overlap,
+ * so that "Primary Insurance Name" scores well against "primary insurance".
+ */
+export function stringSimilarity(a: string, b: string): number {
+  const clean = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  const x = clean(a);
+  const y = clean(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  const editScore = 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+  const xTokens = new Set(x.split(' '));
+  const yTokens = new Set(y.split(' '));
+  const shared = [...xTokens].filter(t => yTokens.has(t)).length;
+  const tokenScore = shared / Math.max(xTokens.size, yTokens.size);
+  return Math.max(editScore, tokenScore);
+}
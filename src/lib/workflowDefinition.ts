@@ -0,0 +1,101 @@
+import bundledWorkflow from '../../schemas/workflow.json';
+import { useWorkflowStore } from '@/state/useWorkflowStore';
+
+export interface WorkflowStageDefinition {
+  stage: string;
+  target_days: number;
+  ui_section?: string;
+  fields: string[];
+  required_docs: string[];
+  status: string[];
+}
+
+export interface WorkflowDefinition {
+  version: number;
+  workflow: WorkflowStageDefinition[];
+  /** Key of the named pipeline this version belongs to. Versions are numbered across all pipelines. */
+  pipeline: string;
+  name: string;
+  /**
+   * Case types routed to this pipeline; empty means any case type. Orders are routed
+   * once, on insert, by the `set_order_workflow_version` trigger; changing an order's
+   * case type or payer later leaves it on the pipeline it started on.
+   */
+  case_types: string[];
+  /** Primary payers routed to this pipeline; empty means any payer. */
+  payers: string[];
+  is_active?: boolean;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at?: string | null;
+}
+
+export const DEFAULT_PIPELINE = 'standard';
+
+/** The workflow.json shipped with the app. Seeded as version 1 and used until the database copy loads. */
+export const BUNDLED_WORKFLOW: WorkflowDefinition = {
+  version: 1,
+  workflow: bundledWorkflow.workflow,
+  pipeline: DEFAULT_PIPELINE,
+  name: 'Standard',
+  case_types: [],
+  payers: [],
+  is_active: true,
+};
+
+/** The definition for `version`, falling back to the active Standard one when the version is unknown or not given. */
+export function getWorkflow(version?: number | null): WorkflowDefinition {
+  const { definitions, activeVersion } = useWorkflowStore.getState();
+  return (version != null && definitions[version]) || definitions[activeVersion] || BUNDLED_WORKFLOW;
+}
+
+export function workflowStageNames(version?: number | null): string[] {
+  return getWorkflow(version).workflow.map(s => s.stage);
+}
+
+/** The active version of every pipeline, Standard first. */
+export function activeWorkflows(): WorkflowDefinition[] {
+  const { definitions } = useWorkflowStore.getState();
+  const active = Object.values(definitions).filter(d => d.is_active);
+  if (active.length === 0) return [getWorkflow()];
+  return active.sort((a, b) => Number(b.pipeline === DEFAULT_PIPELINE) - Number(a.pipeline === DEFAULT_PIPELINE) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Every stage used by an active pipeline, in pipeline order with Standard first.
+ * For views and filters that span orders on different pipelines.
+ */
+export function allStageNames(): string[] {
+  const names: string[] = [];
+  activeWorkflows().forEach(d => d.workflow.forEach(s => {
+    if (!names.includes(s.stage)) names.push(s.stage);
+  }));
+  return names;
+}
+
+/** A stage's definition in `version`, or in the first active pipeline that has it when no version is given. */
+export function findStageDefinition(stage: string | null | undefined, version?: number | null): WorkflowStageDefinition | undefined {
+  if (!stage) return undefined;
+  if (version != null) return getWorkflow(version).workflow.find(s => s.stage === stage);
+  for (const definition of activeWorkflows()) {
+    const found = definition.workflow.find(s => s.stage === stage);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/** Problems that would stop a definition from being published, or an empty list. */
+export function validateWorkflowDefinition(workflow: WorkflowStageDefinition[]): string[] {
+  const errors: string[] = [];
+  if (workflow.length === 0) errors.push('The workflow needs at least one stage.');
+  const seen = new Set<string>();
+  workflow.forEach((s, i) => {
+    const name = s.stage.trim();
+    if (!name) errors.push(`Stage ${i + 1} needs a name.`);
+    else if (seen.has(name)) errors.push(`"${name}" is listed more than once.`);
+    seen.add(name);
+    if (!Number.isFinite(s.target_days) || s.target_days < 0) errors.push(`"${name || `Stage ${i + 1}`}" needs a target of 0 days or more.`);
+    if (new Set(s.status).size !== s.status.length) errors.push(`"${name}" has duplicate statuses.`);
+  });
+  return errors;
+}
@@ -1,14 +1,17 @@
 import React, { useState, useMemo } from "react";
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from "../lib/supabaseClient";
-import { X } from "lucide-react";
+import { Send, X } from "lucide-react";
 import { Btn } from "../components/ui/Btn";
 import { Input } from "../components/ui/Input";
 import { Select } from "../components/ui/Select";
 import { useDebounce } from "../hooks/useDebounce";
 import type { Order, DocumentTemplate } from "../lib/types";
 import ComplianceTable from '../components/ComplianceTable';
-import workflowData from '../../schemas/workflow.json';
+import ExpiringDocumentsWorklist from '../components/ExpiringDocumentsWorklist';
+import DocRequestModal from '../components/DocRequestModal';
+import { useValidityRules } from '../hooks/useValidityRules';
+import { allStageNames } from '@/lib/workflowDefinition';
 import TableSkeleton from "../components/ui/TableSkeleton";
 
 const Compliance: React.FC = () => {
@@ -16,8 +19,10 @@ const Compliance: React.FC = () => {
   const [insuranceFilter, setInsuranceFilter] = useState('');
   const [stageFilter, setStageFilter] = useState('');
   const [showArchived, setShowArchived] = useState(false);
+  const [showRequestModal, setShowRequestModal] = useState(false);
 
   const debouncedPatientFilter = useDebounce(patientFilter, 250);
+  const { rules: validityRules } = useValidityRules();
 
   const { data: templates, isLoading: isLoadingTemplates } = useQuery({
     queryKey: ['document_templates'],
@@ -101,7 +106,7 @@ const Compliance: React.FC = () => {
     ];
   }, [orders]);
 
-  const stageOptions = useMemo(() => ([{ label: 'All Stages', value: '' }, ...workflowData.workflow.map(s => ({ label: s.stage, value: s.stage }))]), []);
+  const stageOptions = useMemo(() => ([{ label: 'All Stages', value: '' }, ...allStageNames().map(stage => ({ label: stage, value: stage }))]), []);
 
   const resetFilters = () => {
     setPatientFilter('');
@@ -115,7 +120,12 @@ const Compliance: React.FC = () => {
   return (
     <div className="p-4 md:p-6 overflow-y-auto h-full pb-nav-safe">
       <div className="space-y-4 py-6">
-        <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-200">Compliance Tracker</h1>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-200">Compliance Tracker</h1>
+          <Btn variant="outline" size="sm" onClick={() => setShowRequestModal(true)} disabled={isLoadingOrders || showArchived}>
+            <Send className="h-4 w-4 mr-1.5" /> Request Missing Docs
+          </Btn>
+        </div>
         
         <div className="kpi-grid">
             <div className="kpi-tile bg-white dark:bg-zinc-900 text-center">
@@ -181,6 +191,10 @@ const Compliance: React.FC = () => {
           </div>
         </div>
 
+        {!isLoadingOrders && validityRules.length > 0 && (
+          <ExpiringDocumentsWorklist orders={filteredOrders} rules={validityRules} />
+        )}
+
         <div className="table-wrap sticky-header">
             {(isLoadingOrders || isLoadingTemplates) ? (
             <TableSkeleton />
@@ -189,6 +203,7 @@ const Compliance: React.FC = () => {
             )}
         </div>
       </div>
+      <DocRequestModal isOpen={showRequestModal} onClose={() => setShowRequestModal(false)} orders={filteredOrders} />
     </div>
   );
 };
@@ -0,0 +1,279 @@
+import React, { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { Loader2, Timer, Hourglass, TrendingDown, Undo2, Download } from "lucide-react";
+import { supabase } from "../lib/supabaseClient";
+import { toast } from "../lib/toast";
+import { cn } from "../lib/utils";
+import { generateExport } from "../lib/export/generateExport";
+import type { ColumnDefinition } from "../lib/export/reportSchemas";
+import { useExportCenter, type ExportFormat } from "../state/useExportCenter";
+import {
+  computeStageMetrics,
+  computeGroupedMetrics,
+  CYCLE_TIME_DIMENSIONS,
+  type CycleTimeDimension,
+  type CycleTimeOrder,
+  type StageMetrics,
+} from "../lib/cycleTime";
+import DateRangePicker from "@/components/dashboard/DateRangePicker";
+import { Select } from "../components/ui/Select";
+import { Btn } from "../components/ui/Btn";
+import EmptyState from "../components/ui/EmptyState";
+
+const CycleKpiCard: React.FC<{ title: string; value: string; icon: React.ElementType }> = ({ title, value, icon: Icon }) => (
+    <div className="kpi-tile bg-white dark:bg-zinc-900">
+        <div className="flex items-center gap-3">
+            <div className="bg-teal-100 dark:bg-teal-900/50 p-2 rounded-lg">
+                <Icon className="h-5 w-5 text-teal-600 dark:text-teal-400" />
+            </div>
+            <div className="min-w-0">
+                <p className="text-xs text-muted">{title}</p>
+                <p className="text-base font-semibold text-text truncate">{value}</p>
+            </div>
+        </div>
+    </div>
+);
+
+const EXPORT_COLUMNS: ColumnDefinition[] = [
+  { key: 'group', label: 'Group', isDefault: true, isPHI: false, type: 'string' },
+  { key: 'stage', label: 'Stage', isDefault: true, isPHI: false, type: 'string' },
+  { key: 'entered', label: 'Cases Entered', isDefault: true, isPHI: false, type: 'number' },
+  { key: 'in_stage', label: 'Currently In Stage', isDefault: true, isPHI: false, type: 'number' },
+  { key: 'median_days', label: 'Median Days', isDefault: true, isPHI: false, type: 'number' },
+  { key: 'p90_days', label: 'P90 Days', isDefault: true, isPHI: false, type: 'number' },
+  { key: 'conversion_pct', label: 'Conversion %', isDefault: true, isPHI: false, type: 'number' },
+  { key: 'regressed', label: 'Regressed', isDefault: true, isPHI: false, type: 'number' },
+  { key: 'regression_pct', label: 'Regression %', isDefault: true, isPHI: false, type: 'number' },
+];
+
+const dimensionOptions = Object.entries(CYCLE_TIME_DIMENSIONS).map(([value, label]) => ({ value, label }));
+
+const fmtDays = (days: number | null) => days === null ? '—' : `${days.toFixed(1)}d`;
+const fmtPct = (rate: number | null) => rate === null ? '—' : `${Math.round(rate * 100)}%`;
+const round1 = (n: number | null) => n === null ? null : Math.round(n * 10) / 10;
+const pct = (rate: number | null) => rate === null ? null : Math.round(rate * 1000) / 10;
+
+/** Shades a regression share from neutral (0%) to red (50%+). */
+const regressionTone = (rate: number | null) => {
+  if (rate === null || rate === 0) return 'text-muted';
+  if (rate >= 0.25) return 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300 font-semibold';
+  if (rate >= 0.1) return 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300';
+  return 'text-text';
+};
+
+const toExportRows = (group: string, stages: StageMetrics[]) => stages.map(s => ({
+  group,
+  stage: s.stage,
+  entered: s.entered,
+  in_stage: s.inStage,
+  median_days: round1(s.medianDays),
+  p90_days: round1(s.p90Days),
+  conversion_pct: pct(s.conversion),
+  regressed: s.regressed,
+  regression_pct: pct(s.regressionRate),
+}));
+
+export default function CycleTime() {
+  const [dateRange, setDateRange] = useState(() => {
+    const to = new Date();
+    const from = new Date(new Date().setDate(to.getDate() - 89));
+    return { from, to };
+  });
+  const [dimension, setDimension] = useState<CycleTimeDimension>('payer');
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const exportConfig = useExportCenter(state => state.config);
+
+  const fromIso = new Date(new Date(dateRange.from).setHours(0, 0, 0, 0)).toISOString();
+  const toIso = new Date(new Date(dateRange.to).setHours(23, 59, 59, 999)).toISOString();
+
+  const { data: orders = [], isLoading } = useQuery<CycleTimeOrder[]>({
+    queryKey: ['cycle_time_orders', fromIso, toIso],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('id, workflow_stage, workflow_version, created_at, rep_name, case_type, referral_source, patients(primary_insurance), workflow_history(previous_stage, new_stage, changed_at)')
+        .gte('created_at', fromIso)
+        .lte('created_at', toIso);
+      if (error) throw error;
+      return data as unknown as CycleTimeOrder[];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const stageMetrics = useMemo(() => computeStageMetrics(orders), [orders]);
+  const groups = useMemo(() => computeGroupedMetrics(orders, dimension), [orders, dimension]);
+
+  const kpis = useMemo(() => {
+    const timed = stageMetrics.filter(s => s.medianDays !== null);
+    const slowest = timed.reduce<StageMetrics | null>((max, s) => !max || (s.medianDays ?? 0) > (max.medianDays ?? 0) ? s : max, null);
+    const converting = stageMetrics.filter(s => s.conversion !== null && s.entered > 0);
+    const dropOff = converting.reduce<StageMetrics | null>((min, s) => !min || (s.conversion ?? 1) < (min.conversion ?? 1) ? s : min, null);
+    const regressing = stageMetrics.filter(s => s.regressed > 0);
+    const worstRegression = regressing.reduce<StageMetrics | null>((max, s) => !max || (s.regressionRate ?? 0) > (max.regressionRate ?? 0) ? s : max, null);
+    return { slowest, dropOff, worstRegression };
+  }, [stageMetrics]);
+
+  const chartData = useMemo(() => stageMetrics.map(s => ({
+    stage: s.stage,
+    Median: round1(s.medianDays) ?? 0,
+    P90: round1(s.p90Days) ?? 0,
+  })), [stageMetrics]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    const data = [
+      ...toExportRows('All cases', stageMetrics),
+      ...groups.flatMap(g => toExportRows(`${CYCLE_TIME_DIMENSIONS[dimension]}: ${g.key}`, g.stages)),
+    ];
+    const result = await generateExport({
+      data,
+      reportName: 'Stage Cycle Time',
+      columns: EXPORT_COLUMNS,
+      config: {
+        ...exportConfig,
+        format,
+        columns: EXPORT_COLUMNS.map(c => c.key),
+        filters: { dateRange: { from: fromIso, to: toIso }, groupBy: dimension },
+      },
+    });
+    setExporting(null);
+    if (result.success) {
+      toast(`Export "${result.filename}" started.`, 'ok');
+    } else {
+      toast('Export failed. Check console for details.', 'err');
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto space-y-4 px-4 sm:px-6 lg:px-8 py-6 pb-nav-safe">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div className="flex flex-wrap items-end gap-3">
+          <DateRangePicker value={dateRange} onChange={setDateRange} />
+          <Select
+            label="Break down by"
+            options={dimensionOptions}
+            value={dimension}
+            onChange={e => setDimension(e.target.value as CycleTimeDimension)}
+            wrapperClassName="w-48"
+          />
+        </div>
+        <div className="flex gap-2">
+          {(['csv', 'xlsx'] as ExportFormat[]).map(format => (
+            <Btn key={format} variant="outline" size="sm" onClick={() => handleExport(format)} disabled={!!exporting || orders.length === 0}>
+              {exporting === format ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              {format.toUpperCase()}
+            </Btn>
+          ))}
+        </div>
+      </div>
+
+      <div className="kpi-grid">
+        <CycleKpiCard title="Cases (Created in Range)" value={orders.length.toString()} icon={Timer} />
+        <CycleKpiCard title="Slowest Stage (Median)" value={kpis.slowest ? `${kpis.slowest.stage} · ${fmtDays(kpis.slowest.medianDays)}` : 'N/A'} icon={Hourglass} />
+        <CycleKpiCard title="Biggest Drop-off" value={kpis.dropOff ? `${kpis.dropOff.stage} · ${fmtPct(kpis.dropOff.conversion)}` : 'N/A'} icon={TrendingDown} />
+        <CycleKpiCard title="Most Regressions" value={kpis.worstRegression ? `${kpis.worstRegression.stage} · ${fmtPct(kpis.worstRegression.regressionRate)}` : 'N/A'} icon={Undo2} />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-80">
+          <Loader2 className="h-10 w-10 animate-spin text-teal-500" />
+        </div>
+      ) : orders.length === 0 ? (
+        <EmptyState title="No cases in range" message="Widen the date range to see stage cycle times." />
+      ) : (
+        <>
+          <div className="soft-card p-3 md:p-4">
+            <h3 className="text-sm font-semibold text-text mb-3">Days in Stage</h3>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={chartData} margin={{ top: 5, right: 10, left: -20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="var(--color-border)" />
+                <XAxis dataKey="stage" stroke="var(--color-muted)" fontSize={11} interval={0} angle={-20} textAnchor="end" height={70} />
+                <YAxis stroke="var(--color-muted)" fontSize={12} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'var(--color-surface)',
+                    borderColor: 'var(--color-border)',
+                    borderRadius: '0.5rem',
+                    fontSize: '12px',
+                  }}
+                />
+                <Legend wrapperStyle={{ fontSize: '12px' }} />
+                <Bar dataKey="Median" fill="#0d9488" />
+                <Bar dataKey="P90" fill="#f59e0b" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="soft-card p-3 md:p-4">
+            <h3 className="text-sm font-semibold text-text mb-3">Stage Funnel</h3>
+            <div className="table-wrap">
+              <table className="min-w-full w-full text-sm table-compact">
+                <thead className="bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 uppercase text-xs">
+                  <tr>
+                    <th className="text-left">Stage</th>
+                    <th className="text-right">Entered</th>
+                    <th className="text-right">In Stage Now</th>
+                    <th className="text-right">Median</th>
+                    <th className="text-right">P90</th>
+                    <th className="text-right">Moved On</th>
+                    <th className="text-right">Regressed</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-border-color">
+                  {stageMetrics.map(s => (
+                    <tr key={s.stage}>
+                      <td className="font-medium">{s.stage}</td>
+                      <td className="text-right">{s.entered}</td>
+                      <td className="text-right text-muted">{s.inStage}</td>
+                      <td className="text-right">{fmtDays(s.medianDays)}</td>
+                      <td className="text-right">{fmtDays(s.p90Days)}</td>
+                      <td className="text-right">{fmtPct(s.conversion)}</td>
+                      <td className="text-right">
+                        <span className={cn("rounded px-1.5 py-0.5", regressionTone(s.regressionRate))}>
+                          {fmtPct(s.regressionRate)}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="soft-card p-3 md:p-4">
+            <h3 className="text-sm font-semibold text-text mb-3">Regression Rate by {CYCLE_TIME_DIMENSIONS[dimension]}</h3>
+            <div className="table-wrap">
+              <table className="min-w-full w-full text-sm table-compact">
+                <thead className="bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 uppercase text-xs">
+                  <tr>
+                    <th className="text-left">{CYCLE_TIME_DIMENSIONS[dimension]}</th>
+                    <th className="text-right">Cases</th>
+                    {stageMetrics.map(s => (
+                      <th key={s.stage} className="text-right whitespace-nowrap" title={s.stage}>{s.stage.split(' ')[0]}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-border-color">
+                  {groups.map(g => (
+                    <tr key={g.key}>
+                      <td className="font-medium">{g.key}</td>
+                      <td className="text-right">{g.orders}</td>
+                      {g.stages.map(s => (
+                        <td key={s.stage} className="text-right" title={`${s.regressed} of ${s.entered} regressed from ${s.stage}`}>
+                          <span className={cn("rounded px-1.5 py-0.5", regressionTone(s.regressionRate))}>
+                            {fmtPct(s.regressionRate)}
+                          </span>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { Loader2, Package, FileCheck, ShieldX, GitMerge, Clock, ListTodo, AlertOctagon, Activity } from 'lucide-react';
+import { Loader2, Package, FileCheck, ShieldX, GitMerge, Clock, ListTodo, AlertOctagon, Activity, Flame } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useQueryClient } from '@tanstack/react-query';
 import EmptyState from '@/components/ui/EmptyState';
@@ -12,6 +12,7 @@ import DashboardSection from '@/components/dashboard/DashboardSection';
 import DateRangePicker from '@/components/dashboard/DateRangePicker';
 import ChangeStrip from '@/components/dashboard/ChangeStrip';
 import StoplightAnalytics from '@/components/dashboard/StoplightAnalytics';
+import HotListPanel from '@/components/dashboard/HotListPanel';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabaseClient';
 import type { AuditLogEntry } from '@/lib/types';
@@ -97,13 +98,16 @@ const Dashboard: React.FC = () => {
               <DashboardSection id="workflow-pipeline" title="Workflow Pipeline" icon={Package}>
                 <WorkflowPipelineChart orders={metrics.orders} />
               </DashboardSection>
+              <DashboardSection id="hot-list" title="Hot List · SLA" icon={Flame}>
+                <HotListPanel />
+              </DashboardSection>
               <DashboardSection id="my-queue" title="My Queue" icon={ListTodo}>
                 <EmptyState title="Coming Soon" message="Your actionable queue of tasks will appear here." />
               </DashboardSection>
             </div>
             <div className="lg:col-span-1 space-y-4">
               <DashboardSection id="stoplight-status" title="Stoplight Status" icon={AlertOctagon}>
-                <StoplightAnalytics counts={metrics.stoplightCounts} />
+                <StoplightAnalytics counts={metrics.stoplightCounts} changes={metrics.stoplightChanges} />
               </DashboardSection>
               <DashboardSection id="recent-activity" title="Recent Activity" icon={Activity}>
                 <ActivityFeed feed={activityFeed} isLoading={isLoadingActivity} />
@@ -5,7 +5,8 @@ import { Plus, Loader2 } from 'lucide-react';
 import { supabase } from '../lib/supabaseClient';
 import { useAuth } from '../contexts/AuthContext';
 import { useSearch } from '../contexts/SearchContext';
-import StageChangeModal from '../components/StageChangeModal';
+import StageChangeModal, { type StageChangeUpdate } from '../components/StageChangeModal';
+import { recordStageChange } from '../api/workflowHistory.api';
 import PatientModal from '../components/PatientModal';
 import PatientDetailDrawer from '../components/PatientDetailDrawer';
 import QuickAddModal from '../components/QuickAddModal';
@@ -14,7 +15,7 @@ import ExportButton from '../components/ExportButton';
 import ReferralTable from '../components/ReferralTable';
 import { Btn } from '../components/ui/Btn';
 import type { Order, WorkflowStage, Doctor, Vendor, Patient } from '../lib/types';
-import workflowData from '../../schemas/workflow.json';
+import { workflowStageNames } from '@/lib/workflowDefinition';
 import { writeAuditLog } from '../lib/auditLogger';
 import { toast } from '../lib/toast';
 
@@ -131,10 +132,32 @@ const DataGrid: React.FC = () => {
     setShowStageModal(true);
   };
 
-  const handleStageChange = async (update: { newStage: WorkflowStage; note: string }) => {
+  const handleStageChange = async (update: StageChangeUpdate) => {
     if (!activeOrder) return;
-    await supabase.from('workflow_history').insert({ order_id: activeOrder.id, previous_stage: activeOrder.workflow_stage, new_stage: update.newStage, note: update.note, changed_by: user?.email || 'System' });
-    await supabase.from('orders').update({ workflow_stage: update.newStage, last_stage_note: update.note, last_stage_change: new Date().toISOString() }).eq('id', activeOrder.id);
+    try {
+      await recordStageChange({
+        order_id: activeOrder.id,
+        patient_id: activeOrder.patient_id,
+        previous_stage: activeOrder.workflow_stage,
+        new_stage: update.newStage,
+        previous_status: activeOrder.status ?? null,
+        new_status: update.newStatus || null,
+        note: update.note,
+        changed_by: user?.email || 'System',
+        override: update.override,
+      });
+    } catch (error) {
+      console.error('Failed to record stage change:', error);
+      toast('Failed to update stage.', 'err');
+      return;
+    }
+    const isStageChange = update.newStage !== activeOrder.workflow_stage;
+    await supabase.from('orders').update({
+      workflow_stage: update.newStage,
+      status: update.newStatus || null,
+      last_stage_note: update.note,
+      ...(isStageChange && { last_stage_change: new Date().toISOString() }),
+    }).eq('id', activeOrder.id);
     setShowStageModal(false);
     setActiveOrder(null);
     invalidateAndRefetch();
@@ -193,7 +216,7 @@ const DataGrid: React.FC = () => {
     setShowPatientModal(true);
   };
 
-  const workflowStages = workflowData.workflow.map(w => w.stage) as WorkflowStage[];
+  const workflowStages = workflowStageNames(activeOrder?.workflow_version) as WorkflowStage[];
 
   return (
     <div className="h-full overflow-y-auto p-4 md:p-6 space-y-[var(--compact-gap)]">
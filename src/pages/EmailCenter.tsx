@@ -1,23 +1,39 @@
 import React, { useEffect, useState, useCallback } from "react";
 import { supabase } from "../lib/supabaseClient";
 import { useAuth } from "../contexts/AuthContext";
-import { sendDailySummary } from "../lib/summaryEmail";
-import { sendVendorEmail } from "../lib/emailService";
+import { sendVendorEmail, sendOutboxEmail } from "../lib/emailService";
 import { generateBrandedPDF } from "../lib/pdfUtils";
 import { Btn } from "../components/ui/Btn";
-import { Mail, Send, Loader2, Check } from "lucide-react";
+import { Send, Loader2, Check, X } from "lucide-react";
 import WeeklyReminder from "../components/WeeklyReminder";
-import type { Order, DocumentTemplate } from "../lib/types";
-import { useQuery } from '@tanstack/react-query';
+import DigestSubscriptionPanel from "../components/DigestSubscriptionPanel";
+import type { Order, DocumentTemplate, OutboxEmail } from "../lib/types";
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { listOutbox, cancelOutboxEmail } from "../api/emailOutbox.api";
 import { toast } from '../lib/toast';
 
 const EmailCenter: React.FC = () => {
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const [orders, setOrders] = useState<Order[]>([]);
   const [pageLoading, setPageLoading] = useState(true);
-  const [summaryLoading, setSummaryLoading] = useState(false);
-  const [summaryStatus, setSummaryStatus] = useState<'idle' | 'success'>('idle');
   const [vendorSendState, setVendorSendState] = useState<Record<string, 'sending' | 'sent'>>({});
+  const queryClient = useQueryClient();
+
+  const { data: outbox = [] } = useQuery({
+    queryKey: ['email_outbox'],
+    queryFn: () => listOutbox(),
+  });
+
+  const outboxMutation = useMutation({
+    mutationFn: async ({ email, action }: { email: OutboxEmail; action: 'send' | 'cancel' }) => {
+      if (action === 'send') await sendOutboxEmail(email, user?.email);
+      else await cancelOutboxEmail(email.id);
+      return action;
+    },
+    onSuccess: (action) => toast(action === 'send' ? 'Email sent.' : 'Email cancelled.', 'ok'),
+    onError: (error: any) => toast(`Failed to send email: ${error.message}`, 'err'),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['email_outbox'] }),
+  });
 
   const { data: templates } = useQuery({
     queryKey: ['document_templates'],
@@ -57,41 +73,18 @@ const EmailCenter: React.FC = () => {
     fetchReadyOrders();
   }, [fetchReadyOrders]);
 
-  const handleSummary = async () => {
-    setSummaryLoading(true);
-    try {
-      await sendDailySummary();
-      setSummaryStatus('success');
-      toast('Daily summary sent successfully!', 'ok');
-    } catch (error: any) {
-      console.error("Failed to send summary email:", error);
-      if (error.message.includes('Resend API key is not configured')) {
-        toast('Email failed: Resend API key is not configured.', 'err');
-      } else {
-        toast(`Failed to send summary: ${error.message}`, 'err');
-      }
-    } finally {
-      setSummaryLoading(false);
-      setTimeout(() => setSummaryStatus('idle'), 3000);
-    }
-  };
-
   const handleVendorSend = async (order: Order) => {
     if (!templates) return;
     setVendorSendState(prev => ({ ...prev, [order.id]: 'sending' }));
     try {
       let logoDataUrl: string | undefined;
       const pdfDoc = generateBrandedPDF(order, templates, logoDataUrl);
-      await sendVendorEmail(order, pdfDoc, user?.email);
+      await sendVendorEmail(order, pdfDoc, profile ?? { email: user?.email });
       setVendorSendState(prev => ({ ...prev, [order.id]: 'sent' }));
       toast(`PAR Packet sent for ${order.patients?.name}.`, 'ok');
     } catch (error: any) {
       console.error(`Failed to send manual email for order ${order.id}:`, error);
-      if (error.message.includes('Resend API key is not configured')) {
-        toast('Email failed: Resend API key is not configured.', 'err');
-      } else {
-        toast(`Failed to send email: ${error.message}`, 'err');
-      }
+      toast(`Failed to send email: ${error.message}`, 'err');
       setVendorSendState(prev => {
         const newState = { ...prev };
         delete newState[order.id];
@@ -103,12 +96,7 @@ const EmailCenter: React.FC = () => {
   return (
     <div className="h-full overflow-y-auto space-y-[var(--compact-gap)] pb-nav-safe md:pb-8">
       <WeeklyReminder />
-      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-end gap-2">
-        <Btn onClick={handleSummary} disabled={summaryLoading}>
-            {summaryLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : (summaryStatus === 'success' ? <Check className="h-4 w-4 mr-2" /> : <Mail className="h-4 w-4 mr-2" />)}
-            {summaryLoading ? 'Sending...' : (summaryStatus === 'success' ? 'Summary Sent!' : 'Send Daily Summary')}
-        </Btn>
-      </div>
+      <DigestSubscriptionPanel />
 
       <div className="soft-card overflow-x-auto">
         {pageLoading ? (
@@ -151,6 +139,53 @@ const EmailCenter: React.FC = () => {
             </table>
         )}
       </div>
+
+      {outbox.length > 0 && (
+        <div className="soft-card overflow-x-auto">
+          <div className="p-4 border-b">
+            <h3 className="font-semibold text-gray-800">Queued Emails</h3>
+            <p className="text-xs text-gray-500 mt-1">Emails waiting to be sent or retried. Failed sends are retried automatically with increasing delays.</p>
+          </div>
+          <table className="min-w-full w-full text-sm table-compact">
+            <thead className="bg-gray-100 text-gray-600 uppercase text-xs">
+              <tr>
+                <th className="text-left">Patient</th>
+                <th className="text-left">To</th>
+                <th className="text-left">Subject</th>
+                <th className="text-left">Status</th>
+                <th className="text-center">Action</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {outbox.map(email => {
+                const isBusy = email.status === 'sending' || (outboxMutation.isPending && outboxMutation.variables?.email.id === email.id);
+                return (
+                  <tr key={email.id} className="hover:bg-gray-50">
+                    <td className="font-medium text-gray-900">{email.patients?.name || "—"}</td>
+                    <td className="text-gray-500">{email.to_address}</td>
+                    <td className="text-gray-500" title={email.body}>{email.subject}</td>
+                    <td className={email.status === 'failed' ? 'text-red-600' : 'text-gray-500'} title={email.last_error || undefined}>
+                      {email.status === 'failed' ? `Failed after ${email.attempts} attempts` : email.status === 'sending' ? 'Sending' : 'Queued'}
+                      {email.status === 'queued' && email.attempts > 0 && email.next_attempt_at && (
+                        <span className="block text-xs text-amber-600">Retry {new Date(email.next_attempt_at).toLocaleTimeString()}</span>
+                      )}
+                    </td>
+                    <td className="text-center whitespace-nowrap space-x-1">
+                      <Btn variant="outline" size="sm" onClick={() => outboxMutation.mutate({ email, action: 'send' })} disabled={isBusy}>
+                        {isBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                        {email.status === 'failed' ? 'Retry' : 'Send Now'}
+                      </Btn>
+                      <Btn variant="ghost" size="sm" onClick={() => outboxMutation.mutate({ email, action: 'cancel' })} disabled={isBusy} aria-label="Cancel email">
+                        <X className="h-4 w-4" />
+                      </Btn>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 }
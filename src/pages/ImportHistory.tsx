@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, RotateCcw, Eye, FilePlus, GitMerge } from "lucide-react";
+import { Btn } from "../components/ui/Btn";
+import SlideOver from "../components/ui/SlideOver";
+import SimpleConfirmationModal from "../components/ui/SimpleConfirmationModal";
+import EmptyState from "../components/ui/EmptyState";
+import { useAuth } from "../contexts/AuthContext";
+import { writeAuditLog } from "../lib/auditLogger";
+import { toast } from "../lib/toast";
+import { cn } from "../lib/utils";
+import type { ImportBatch, ImportBatchItem } from "../lib/types";
+import { listImportBatches, listImportBatchItems, rollbackImportBatch } from "../api/importBatches.api";
+
+const entityLabel: Record<ImportBatchItem['entity'], string> = {
+  patient: 'Patient',
+  order: 'Order',
+  equipment: 'Equipment',
+};
+
+const describeRecord = (item: ImportBatchItem) => {
+  const rec = item.after || {};
+  return rec.name || rec.patient_name || rec.chair_type || rec.equipment_type || item.record_id.slice(0, 8);
+};
+
+const BatchEffect: React.FC<{ batch: ImportBatch }> = ({ batch }) => {
+  const { data: items = [], isLoading } = useQuery({
+    queryKey: ['import_batch_items', batch.id],
+    queryFn: () => listImportBatchItems(batch.id),
+  });
+
+  const created = useMemo(() => items.filter(i => i.action === 'created'), [items]);
+  const updated = useMemo(() => items.filter(i => i.action === 'updated'), [items]);
+
+  if (isLoading) {
+    return <div className="flex justify-center py-12"><Loader2 className="h-6 w-6 animate-spin text-teal-500" /></div>;
+  }
+
+  return (
+    <div className="space-y-6 text-sm">
+      <section>
+        <h3 className="font-semibold flex items-center gap-2 mb-2"><FilePlus className="h-4 w-4 text-green-500" /> Created ({created.length})</h3>
+        {created.length === 0 ? <p className="text-muted">No records were created.</p> : (
+          <ul className="space-y-1">
+            {created.map(item => (
+              <li key={item.id} className="p-2 bg-gray-50 dark:bg-zinc-800 rounded flex justify-between">
+                <span>{describeRecord(item)}</span>
+                <span className="text-xs text-muted">{entityLabel[item.entity]}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+      <section>
+        <h3 className="font-semibold flex items-center gap-2 mb-2"><GitMerge className="h-4 w-4 text-blue-500" /> Updated ({updated.length})</h3>
+        {updated.length === 0 ? <p className="text-muted">No existing records were changed.</p> : (
+          <ul className="space-y-2">
+            {updated.map(item => (
+              <li key={item.id} className="p-2 bg-gray-50 dark:bg-zinc-800 rounded">
+                <div className="flex justify-between">
+                  <span className="font-medium">{entityLabel[item.entity]} {item.record_id.slice(0, 8)}</span>
+                </div>
+                <ul className="text-xs mt-1 pl-4 space-y-0.5">
+                  {Object.keys(item.after || {}).map(field => (
+                    <li key={field}>
+                      <span className="font-medium">{field}:</span> {JSON.stringify(item.before?.[field] ?? null)} → <span className="font-semibold text-accent">{JSON.stringify(item.after?.[field])}</span>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
+
+const ImportHistory: React.FC = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [viewingBatch, setViewingBatch] = useState<ImportBatch | null>(null);
+  const [batchToRollback, setBatchToRollback] = useState<ImportBatch | null>(null);
+
+  const { data: batches = [], isLoading } = useQuery<ImportBatch[]>({
+    queryKey: ['import_batches'],
+    queryFn: listImportBatches,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (batch: ImportBatch) => rollbackImportBatch(batch.id, user?.email),
+    onSuccess: async (_, batch) => {
+      await writeAuditLog('import_rolled_back', {
+        changed_by: user?.email,
+        batchId: batch.id,
+        fileName: batch.file_name,
+        imported: batch.imported_count,
+        updated: batch.updated_count,
+      });
+      toast(`Import "${batch.file_name}" rolled back.`, 'ok');
+      queryClient.invalidateQueries({ queryKey: ['import_batches'] });
+      queryClient.invalidateQueries({ queryKey: ['referrals_direct_all'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard_orders_all'] });
+    },
+    onError: (error: any) => {
+      toast(`Rollback failed: ${error.message}`, 'err');
+    },
+    onSettled: () => {
+      setBatchToRollback(null);
+    },
+  });
+
+  return (
+    <div className="h-full overflow-y-auto px-4 sm:px-6 lg:px-8 py-6 space-y-[var(--compact-gap)] pb-nav-safe">
+      <div className="soft-card overflow-x-auto">
+        {isLoading ? (
+          <div className="flex justify-center items-center h-64"><Loader2 className="h-8 w-8 animate-spin text-teal-500" /></div>
+        ) : batches.length === 0 ? (
+          <EmptyState title="No imports yet" message="Reports uploaded through the import wizard will appear here." />
+        ) : (
+          <table className="min-w-full w-full text-sm table-compact">
+            <thead className="bg-gray-100 text-gray-600 uppercase text-xs">
+              <tr>
+                <th className="text-left">File</th>
+                <th className="text-left">Profile</th>
+                <th className="text-left">Imported By</th>
+                <th className="text-left">Date</th>
+                <th className="text-right">New</th>
+                <th className="text-right">Updated</th>
+                <th className="text-left">Status</th>
+                <th className="text-center">Action</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {batches.map(batch => (
+                <tr key={batch.id} className={cn("hover:bg-emerald-50/40 transition-colors", batch.status === 'rolled_back' && 'opacity-60')}>
+                  <td className="font-medium text-gray-800">{batch.file_name}</td>
+                  <td className="text-gray-500">{batch.profile_name || '—'}</td>
+                  <td className="text-gray-500">{batch.created_by_email || '—'}</td>
+                  <td className="text-gray-500">{new Date(batch.created_at).toLocaleString()}</td>
+                  <td className="text-right">{batch.imported_count}</td>
+                  <td className="text-right">{batch.updated_count}</td>
+                  <td>
+                    {batch.status === 'rolled_back' ? (
+                      <span className="text-xs text-muted" title={batch.rolled_back_at ? `${new Date(batch.rolled_back_at).toLocaleString()} by ${batch.rolled_back_by || 'unknown'}` : undefined}>Rolled back</span>
+                    ) : (
+                      <span className="text-xs text-emerald-700">Applied</span>
+                    )}
+                  </td>
+                  <td className="text-center">
+                    <div className="flex justify-center gap-1.5">
+                      <Btn variant="outline" size="sm" onClick={() => setViewingBatch(batch)} aria-label={`View ${batch.file_name}`}><Eye className="h-3 w-3" /></Btn>
+                      <Btn variant="outline" size="sm" onClick={() => setBatchToRollback(batch)} disabled={batch.status === 'rolled_back'} aria-label={`Roll back ${batch.file_name}`}>
+                        <RotateCcw className="h-3 w-3" /> Roll back
+                      </Btn>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <SlideOver isOpen={!!viewingBatch} onClose={() => setViewingBatch(null)} title={viewingBatch ? `Import: ${viewingBatch.file_name}` : ''}>
+        {viewingBatch && <BatchEffect batch={viewingBatch} />}
+      </SlideOver>
+
+      <SimpleConfirmationModal
+        isOpen={!!batchToRollback}
+        onClose={() => setBatchToRollback(null)}
+        onConfirm={() => batchToRollback && rollbackMutation.mutate(batchToRollback)}
+        isLoading={rollbackMutation.isPending}
+        title="Roll Back Import"
+        message={`This restores ${batchToRollback?.updated_count ?? 0} updated record(s) to their prior values and deletes ${batchToRollback?.imported_count ?? 0} record(s) created by "${batchToRollback?.file_name}". Changes made to those records after the import will be lost.`}
+        confirmButtonText="Roll Back"
+        confirmButtonVariant="danger"
+      />
+    </div>
+  );
+};
+
+export default ImportHistory;
@@ -10,11 +10,12 @@ import type { Patient, Order, WorkflowStage, Denial, Equipment } from '@/lib/typ
 import ViewPatientDetails from '@/components/ViewPatientDetails';
 import WorkflowHub from '@/components/WorkflowHub';
 import AddNoteModal from '@/components/AddNoteModal';
-import StageChangeModal from '@/components/StageChangeModal';
+import StageChangeModal, { type StageChangeUpdate } from '@/components/StageChangeModal';
+import { recordStageChange } from '@/api/workflowHistory.api';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from '@/lib/toast';
 import { isBackward } from '@/lib/utils';
-import workflowData from '../../schemas/workflow.json';
+import { workflowStageNames } from '@/lib/workflowDefinition';
 import { useNoteMutations } from '@/hooks/useNoteMutations';
 import { addNote as apiAddNote } from '@/api/notes.api';
 import { useExportCenter } from '@/state/useExportCenter';
@@ -74,23 +75,48 @@ const PatientDetailPage: React.FC = () => {
         addNote.mutate(note);
     };
 
-    const handleStageSave = async ({ newStage, note, regressionReason }: { newStage: WorkflowStage; note: string; regressionReason?: string }) => {
+    const handleStageSave = async ({ newStage, newStatus, note, regressionReason, override }: StageChangeUpdate) => {
         if (!order || !patient) return;
         
-        const isRegression = isBackward(order.workflow_stage, newStage);
+        const isRegression = isBackward(order.workflow_stage, newStage, order.workflow_version);
+        const isStageChange = newStage !== order.workflow_stage;
     
-        const { error: orderError } = await supabase.from('orders').update({ workflow_stage: newStage, last_stage_note: note, last_stage_change: new Date().toISOString() }).eq('id', order.id);
+        const { error: orderError } = await supabase.from('orders').update({
+            workflow_stage: newStage,
+            status: newStatus || null,
+            last_stage_note: note,
+            ...(isStageChange && { last_stage_change: new Date().toISOString() }),
+        }).eq('id', order.id);
         if (orderError) { 
             toast('Failed to update stage.', 'err');
             return;
         }
 
+        try {
+            await recordStageChange({
+                order_id: order.id,
+                patient_id: patient.id,
+                previous_stage: order.workflow_stage,
+                new_stage: newStage,
+                previous_status: order.status ?? null,
+                new_status: newStatus || null,
+                note,
+                changed_by: user?.email || 'System',
+                override,
+            });
+        } catch (error) {
+            console.error('Failed to record stage change:', error);
+            toast('Stage updated, but the history entry could not be saved.', 'err');
+        }
+
         await apiAddNote({
             patient_id: patient.id,
             body: note,
             source: 'stage_change',
             stage_from: order.workflow_stage,
             stage_to: newStage,
+            status_from: order.status ?? null,
+            status_to: newStatus || null,
         });
         
         if (isRegression && regressionReason) {
@@ -104,7 +130,7 @@ const PatientDetailPage: React.FC = () => {
             });
         }
     
-        toast('Stage updated.', 'ok'); 
+        toast(isStageChange ? 'Stage updated.' : 'Status updated.', 'ok'); 
         refetch();
         queryClient.invalidateQueries({ queryKey: ['referrals_direct_all'] });
         queryClient.invalidateQueries({ queryKey: ['dashboard_metrics'] });
@@ -147,7 +173,7 @@ const PatientDetailPage: React.FC = () => {
         }
     };
 
-    const workflowStages = workflowData.workflow.map(w => w.stage) as WorkflowStage[];
+    const workflowStages = workflowStageNames(order?.workflow_version) as WorkflowStage[];
 
     if (isLoading) {
         return <div className="flex justify-center items-center h-full"><Loader2 className="h-8 w-8 animate-spin text-accent" /></div>;
@@ -11,10 +11,11 @@ import type { Patient, Order, WorkflowStage, Denial, Equipment } from '../lib/ty
 import { Loader2, Edit, FileText, Activity, Archive, RotateCcw, X, Save } from "lucide-react";
 import { useMediaQuery } from "@/hooks/useMediaQuery";
 import { cn } from "@/lib/utils";
-import StageChangeModal from '../components/StageChangeModal';
+import StageChangeModal, { type StageChangeUpdate } from '../components/StageChangeModal';
+import { recordStageChange } from '../api/workflowHistory.api';
 import AddNoteModal from '../components/AddNoteModal';
 import SimpleConfirmationModal from '../components/ui/SimpleConfirmationModal';
-import workflowData from '../../schemas/workflow.json';
+import { workflowStageNames } from '@/lib/workflowDefinition';
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useUIState } from '@/state/useUIState';
 import { isBackward, formatDateForExport } from "../lib/utils";
@@ -175,15 +176,17 @@ export default function PatientDrawerAdaptive({ patientId, open, onClose, onUpda
     }
   };
 
-  const handleStageSave = async ({ newStage, note, regressionReason }: { newStage: WorkflowStage; note: string; regressionReason?: string }) => {
+  const handleStageSave = async ({ newStage, newStatus, note, regressionReason, override }: StageChangeUpdate) => {
     if (!order || !patient) return;
     
-    const isRegression = isBackward(order.workflow_stage, newStage);
+    const isRegression = isBackward(order.workflow_stage, newStage, order.workflow_version);
+    const isStageChange = newStage !== order.workflow_stage;
 
     const { error: orderError } = await supabase.from('orders').update({
         workflow_stage: newStage,
+        status: newStatus || null,
         last_stage_note: note,
-        last_stage_change: new Date().toISOString()
+        ...(isStageChange && { last_stage_change: new Date().toISOString() }),
     }).eq('id', order.id);
 
     if (orderError) { 
@@ -191,12 +194,31 @@ export default function PatientDrawerAdaptive({ patientId, open, onClose, onUpda
         return;
     }
 
+    try {
+        await recordStageChange({
+            order_id: order.id,
+            patient_id: patient.id,
+            previous_stage: order.workflow_stage,
+            new_stage: newStage,
+            previous_status: order.status ?? null,
+            new_status: newStatus || null,
+            note,
+            changed_by: user?.email || 'System',
+            override,
+        });
+    } catch (error) {
+        console.error('Failed to record stage change:', error);
+        toast('Stage updated, but the history entry could not be saved.', 'err');
+    }
+
     await apiAddNote({
       patient_id: patient.id,
       body: note,
       source: 'stage_change',
       stage_from: order.workflow_stage,
       stage_to: newStage,
+      status_from: order.status ?? null,
+      status_to: newStatus || null,
     });
     
     if (isRegression && regressionReason) {
@@ -210,7 +232,7 @@ export default function PatientDrawerAdaptive({ patientId, open, onClose, onUpda
         });
     }
 
-    toast('Stage updated.', 'ok'); 
+    toast(isStageChange ? 'Stage updated.' : 'Status updated.', 'ok'); 
     onUpdate(); 
     queryClient.invalidateQueries({ queryKey: ['dashboard_metrics'] });
     queryClient.invalidateQueries({ queryKey: ['regression_insights'] });
@@ -279,7 +301,7 @@ export default function PatientDrawerAdaptive({ patientId, open, onClose, onUpda
   };
 
   const referralStartDate = order?.referral_date ? formatDateForExport(order.referral_date, true) : '—';
-  const workflowStages = workflowData.workflow.map(w => w.stage) as WorkflowStage[];
+  const workflowStages = workflowStageNames(order?.workflow_version) as WorkflowStage[];
 
   const header = (
     <div
@@ -293,7 +315,7 @@ export default function PatientDrawerAdaptive({ patientId, open, onClose, onUpda
               <div className="mt-0.5 text-xs text-muted flex flex-wrap items-center gap-x-3">
                   <span>{patient.primary_insurance || 'No Payer'}</span>
                   <span className="text-gray-300 dark:text-gray-600">•</span>
-                  <span>{order?.workflow_stage || 'No Stage'}</span>
+                  <span>{order?.workflow_stage || 'No Stage'}{order?.status ? ` · ${order.status}` : ''}</span>
                   <span className="text-gray-300 dark:text-gray-600">•</span>
                   <span className="bg-yellow-400 dark:bg-yellow-500 text-black font-bold px-2 py-0.5 rounded-md">
                     Start Date: {referralStartDate}
@@ -303,7 +325,7 @@ export default function PatientDrawerAdaptive({ patientId, open, onClose, onUpda
         </div>
         <div className="flex items-center space-x-2 flex-shrink-0">
           {!isEditMode && !isLoading && patient && order && (
-            <StoplightStatusControl orderId={order.id} patientId={patient.id} currentStatus={order.stoplight_status} onUpdate={handleStoplightUpdate} />
+            <StoplightStatusControl order={order} onUpdate={handleStoplightUpdate} />
           )}
           {!isEditMode && !isLoading && (
             <>
@@ -83,21 +83,21 @@ const PatientEditDrawer: React.FC<PatientEditDrawerProps> = ({ patientId, onClos
     };
 
     if (formState.telehealth_enabled) {
-        addDoc('TELE_EVAL');
-        addDoc('TELE_CONSENT');
+        addDoc('telehealth_eval');
+        addDoc('telehealth_form');
     }
     if (formState.financial_assistance) {
-        addDoc('FIN_HARDSHIP');
-        addDoc('ABN');
+        addDoc('financial_hardship_form');
+        addDoc('abn_form');
     }
     if (formState.primary_insurance?.toLowerCase().includes('medicaid') || formState.primary_insurance?.toLowerCase().includes('uhc')) {
-        addDoc('AUTH_FORM');
-        addDoc('PAR_REQ');
+        addDoc('auth_form');
+        addDoc('par_req');
     }
     if (orderFormState.chair_type?.toLowerCase().includes('power')) {
-        addDoc('ATP_EVAL');
-        addDoc('LMN');
-        addDoc('HOME_ASSESS');
+        addDoc('atp_eval');
+        addDoc('lmn');
+        addDoc('home_assessment');
     }
 
     if (changed) {
@@ -83,7 +83,7 @@ const Patients: React.FC = () => {
             return false;
         }
         
-        const { firstName, lastName, dob, insurance, dateStart, dateEnd, workflowStage, docFilterKey, docFilterStatus } = advancedFilters;
+        const { firstName, lastName, dob, insurance, dateStart, dateEnd, workflowStage, workflowStatus, docFilterKey, docFilterStatus } = advancedFilters;
 
         if (firstName && !patient.name?.toLowerCase().includes(firstName.toLowerCase())) return false;
         if (lastName && !patient.name?.toLowerCase().includes(lastName.toLowerCase())) return false;
@@ -104,6 +104,7 @@ const Patients: React.FC = () => {
                     if (new Date(order.referral_date) > endDate) return false;
                 }
                 if (workflowStage && order.workflow_stage !== workflowStage) return false;
+                if (workflowStage && workflowStatus && order.status !== workflowStatus) return false;
                 if (docFilterKey && docFilterStatus) {
                     const isRequired = patient.required_documents?.includes(docFilterKey);
                     const isComplete = order.document_status?.[docFilterKey] === 'Complete';
@@ -0,0 +1,157 @@
+import React, { useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Eye, FolderOpen, Loader2, Paperclip, Upload, X } from "lucide-react";
+import { Btn } from "../components/ui/Btn";
+import { Select } from "../components/ui/Select";
+import SlideOver from "../components/ui/SlideOver";
+import EmptyState from "../components/ui/EmptyState";
+import InboundReferralReview from "../components/InboundReferralReview";
+import { useAuth } from "../contexts/AuthContext";
+import { canWatchFolders, pickFolder, useInboundFolder } from "../state/useInboundFolder";
+import { importEmlFile } from "../lib/inboundReferrals";
+import { toast } from "../lib/toast";
+import { listInboundReferrals } from "../api/inboundReferrals.api";
+import type { InboundReferral, InboundReferralStatus } from "../lib/types";
+
+const STATUS_OPTIONS: { value: InboundReferralStatus; label: string }[] = [
+  { value: 'pending', label: 'Waiting for Review' },
+  { value: 'accepted', label: 'Accepted' },
+  { value: 'merged', label: 'Merged' },
+  { value: 'discarded', label: 'Discarded' },
+];
+
+const ReferralInbox: React.FC = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<InboundReferralStatus>('pending');
+  const [reviewing, setReviewing] = useState<InboundReferral | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const { folder, lastScanAt, lastError, watch, stop } = useInboundFolder();
+
+  const { data: drafts = [], isLoading } = useQuery({
+    queryKey: ['inbound_referrals', status],
+    queryFn: () => listInboundReferrals([status]),
+  });
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setIsImporting(true);
+    let imported = 0;
+    let duplicates = 0;
+    for (const file of files) {
+      try {
+        if (await importEmlFile(file, 'upload', user?.email ?? null)) imported++;
+        else duplicates++;
+      } catch (error: any) {
+        console.error(`Could not import ${file.name}:`, error);
+        toast(`Could not import ${file.name}: ${error.message}`, 'err');
+      }
+    }
+    setIsImporting(false);
+    if (imported > 0) toast(`${imported} email${imported === 1 ? '' : 's'} added to the inbox.`, 'ok');
+    if (duplicates > 0) toast(`${duplicates} email${duplicates === 1 ? ' was' : 's were'} already imported.`, 'warning');
+    queryClient.invalidateQueries({ queryKey: ['inbound_referrals'] });
+  };
+
+  const handleWatch = async () => {
+    try {
+      watch(await pickFolder());
+    } catch (error: any) {
+      // Closing the picker is not an error.
+      if (error?.name !== 'AbortError') toast(`Could not open the folder: ${error.message}`, 'err');
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto px-4 sm:px-6 lg:px-8 py-6 space-y-[var(--compact-gap)] pb-nav-safe">
+      <div className="soft-card p-4 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h2 className="text-base font-semibold text-gray-800">Referral Inbox</h2>
+          <p className="text-xs text-gray-500 mt-1 max-w-xl">
+            Referral emails saved as .eml files become draft referrals here, with the patient details read from the email and their attachments ready to file.
+            {folder
+              ? ` Watching "${folder.name}" for new .eml files${lastScanAt ? `, last checked ${new Date(lastScanAt).toLocaleTimeString()}` : ''}.`
+              : canWatchFolders() ? ' You can also watch a folder that emails are saved into; it is checked every minute while Patient Sync is open.' : ''}
+          </p>
+          {lastError && <p className="text-xs text-red-600 mt-1">{lastError}</p>}
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <Select
+            id="inbox-status"
+            label="Show"
+            wrapperClassName="w-48"
+            value={status}
+            onChange={e => setStatus(e.target.value as InboundReferralStatus)}
+            options={STATUS_OPTIONS}
+          />
+          {canWatchFolders() && (folder ? (
+            <Btn variant="outline" onClick={stop}><X className="h-4 w-4 mr-2" /> Stop Watching</Btn>
+          ) : (
+            <Btn variant="outline" onClick={handleWatch}><FolderOpen className="h-4 w-4 mr-2" /> Watch Folder</Btn>
+          ))}
+          <input ref={fileInputRef} type="file" accept=".eml,message/rfc822" multiple className="hidden" onChange={handleFiles} />
+          <Btn onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+            {isImporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Upload .eml
+          </Btn>
+        </div>
+      </div>
+
+      <div className="soft-card overflow-x-auto">
+        {isLoading ? (
+          <div className="flex justify-center items-center h-64"><Loader2 className="h-8 w-8 animate-spin text-teal-500" /></div>
+        ) : drafts.length === 0 ? (
+          <EmptyState
+            title={status === 'pending' ? 'Inbox is empty' : `No ${STATUS_OPTIONS.find(o => o.value === status)?.label.toLowerCase()} emails`}
+            message={status === 'pending' ? 'Upload referral emails saved as .eml files to start a draft referral.' : 'Emails appear here once they have been triaged.'}
+          />
+        ) : (
+          <table className="min-w-full w-full text-sm table-compact">
+            <thead className="bg-gray-100 text-gray-600 uppercase text-xs">
+              <tr>
+                <th className="text-left">Received</th>
+                <th className="text-left">From</th>
+                <th className="text-left">Subject</th>
+                <th className="text-left">Patient</th>
+                <th className="text-left">Suggested Match</th>
+                <th className="text-center">Files</th>
+                <th className="text-center">Action</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {drafts.map(draft => {
+                const match = draft.patient_matches[0];
+                return (
+                  <tr key={draft.id} className="hover:bg-emerald-50/40 transition-colors">
+                    <td className="text-gray-500 whitespace-nowrap">{new Date(draft.received_at || draft.created_at).toLocaleString()}</td>
+                    <td className="text-gray-500">{draft.from_name || draft.from_address || '—'}</td>
+                    <td className="font-medium text-gray-800">{draft.subject || draft.file_name}</td>
+                    <td className="text-gray-700">{draft.draft?.name || <span className="text-amber-600">Not found</span>}</td>
+                    <td className="text-gray-500">{match ? `${match.name} (${Math.round(match.score * 100)}%)` : 'New patient'}</td>
+                    <td className="text-center text-gray-500">
+                      <span className="inline-flex items-center gap-1"><Paperclip className="h-3 w-3" />{draft.inbound_referral_attachments?.length ?? 0}</span>
+                    </td>
+                    <td className="text-center">
+                      <Btn variant="outline" size="sm" onClick={() => setReviewing(draft)} aria-label={`Review ${draft.subject || draft.file_name}`}>
+                        <Eye className="h-3 w-3" /> {draft.status === 'pending' ? 'Review' : 'View'}
+                      </Btn>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <SlideOver isOpen={!!reviewing} onClose={() => setReviewing(null)} title={reviewing ? reviewing.subject || reviewing.file_name : ''}>
+        {reviewing && <InboundReferralReview key={reviewing.id} inbound={reviewing} onDone={() => setReviewing(null)} />}
+      </SlideOver>
+    </div>
+  );
+};
+
+export default ReferralInbox;
@@ -5,12 +5,17 @@ import { supabase } from '../lib/supabaseClient';
 import { useMediaQuery } from '../hooks/useMediaQuery';
 import { useDebounce } from '../hooks/useDebounce';
 import PatientDrawerAdaptive from '../components/PatientDrawerAdaptive';
-import StageChangeModal from '../components/StageChangeModal';
+import StageChangeModal, { type StageChangeUpdate } from '../components/StageChangeModal';
+import { recordStageChange } from '../api/workflowHistory.api';
+import { evaluateStageGate } from '../lib/stageGates';
+import { runDocumentAutomations } from '../lib/automation';
+import { syncStoplight } from '../lib/stoplight';
+import { resolveStageStatus } from '../lib/stageStatus';
 import SimpleConfirmationModal from '../components/ui/SimpleConfirmationModal';
 import ReferralsListMobile from '../components/ReferralsListMobile';
 import ReferralGrid from '../components/ReferralGrid';
 import type { Order, WorkflowStage, ArchiveFilter } from '../lib/types';
-import workflowData from '../../schemas/workflow.json';
+import { allStageNames, workflowStageNames } from '@/lib/workflowDefinition';
 import { toast } from '../lib/toast';
 import ReferralFilterBar from '../components/ReferralFilterBar';
 import { Loader2 } from 'lucide-react';
@@ -26,6 +31,7 @@ import { generatePatientSnapshotPDF } from '@/lib/pdfUtils';
 import { useExportCenter } from '@/state/useExportCenter';
 import { addNote as apiAddNote } from '@/api/notes.api';
 import { isBackward } from '@/lib/utils';
+import { computeSla, isDueThisWeek } from '@/lib/sla';
 
 const Referrals: React.FC = () => {
     const { term } = useSearch();
@@ -65,6 +71,9 @@ const Referrals: React.FC = () => {
         const region = searchParams.get('region');
         const rep = searchParams.get('rep');
         const stoplight = searchParams.get('stoplight_status');
+        const sla = searchParams.get('sla');
+        const stage = searchParams.get('stage');
+        const status = searchParams.get('status');
 
         const newFilters: AdvancedFilters = {};
         if (insurance) newFilters.insurance = insurance;
@@ -72,6 +81,9 @@ const Referrals: React.FC = () => {
         if (dateEnd) newFilters.dateEnd = dateEnd;
         if (region) newFilters.payer_region = region;
         if (rep) newFilters.rep_name = rep;
+        if (sla) newFilters.sla = sla;
+        if (stage) newFilters.workflowStage = stage;
+        if (stage && status) newFilters.workflowStatus = status;
         if (stoplight) setStoplightFilter(stoplight);
 
         if (Object.keys(newFilters).length > 0) {
@@ -88,7 +100,7 @@ const Referrals: React.FC = () => {
         queryFn: async () => {
             const { data, error } = await supabase
                 .from('orders')
-                .select('*, patients(*), denials(id), equipment(id)');
+                .select('*, patients(*), denials(id), equipment(id), workflow_history(new_stage, changed_at)');
             if (error) throw error;
             return data as Order[];
         }
@@ -115,7 +127,7 @@ const Referrals: React.FC = () => {
             filtered = filtered.filter(order => order.stoplight_status === stoplightFilter);
         }
 
-        const { firstName, lastName, dob, insurance, dateStart, dateEnd, workflowStage, docFilterKey, docFilterStatus, payer_region, rep_name } = advancedFilters;
+        const { firstName, lastName, dob, insurance, dateStart, dateEnd, workflowStage, workflowStatus, docFilterKey, docFilterStatus, payer_region, rep_name, sla } = advancedFilters;
         if (Object.values(advancedFilters).some(v => v)) {
             filtered = filtered.filter(order => {
                 const patient = order.patients;
@@ -147,6 +159,7 @@ endDate.setHours(23, 59, 59, 999);
                 }
 
                 if (workflowStage && order.workflow_stage !== workflowStage) return false;
+                if (workflowStage && workflowStatus && order.status !== workflowStatus) return false;
 
                 if (docFilterKey && docFilterStatus) {
                     const isRequired = order.patients?.required_documents?.includes(docFilterKey);
@@ -159,6 +172,12 @@ endDate.setHours(23, 59, 59, 999);
 
                 if (payer_region && order.payer_region !== payer_region) return false;
                 if (rep_name && order.rep_name !== rep_name) return false;
+
+                if (sla) {
+                    const orderSla = computeSla(order);
+                    if (sla === 'breached' && orderSla?.state !== 'breached') return false;
+                    if (sla === 'due_this_week' && !isDueThisWeek(orderSla)) return false;
+                }
                 
                 return true;
             });
@@ -234,21 +253,40 @@ endDate.setHours(23, 59, 59, 999);
         }
     };
 
-    const handleStageSave = async ({ newStage, note, regressionReason }: { newStage: WorkflowStage; note: string; regressionReason?: string }) => {
+    const handleStageSave = async ({ newStage, newStatus, note, regressionReason, override }: StageChangeUpdate) => {
         if (!selectedOrder || !selectedOrder.patients) return;
         
-        const isRegression = isBackward(selectedOrder.workflow_stage, newStage);
+        const isRegression = isBackward(selectedOrder.workflow_stage, newStage, selectedOrder.workflow_version);
+        const isStageChange = newStage !== selectedOrder.workflow_stage;
     
         const { error: orderError } = await supabase.from('orders').update({
             workflow_stage: newStage,
+            status: newStatus || null,
             last_stage_note: note,
-            last_stage_change: new Date().toISOString()
+            ...(isStageChange && { last_stage_change: new Date().toISOString() }),
         }).eq('id', selectedOrder.id);
     
         if (orderError) { 
             toast('Failed to update stage.', 'err');
             return;
         }
+
+        try {
+            await recordStageChange({
+                order_id: selectedOrder.id,
+                patient_id: selectedOrder.patient_id,
+                previous_stage: selectedOrder.workflow_stage,
+                new_stage: newStage,
+                previous_status: selectedOrder.status ?? null,
+                new_status: newStatus || null,
+                note,
+                changed_by: user?.email || 'System',
+                override,
+            });
+        } catch (error) {
+            console.error('Failed to record stage change:', error);
+            toast('Stage updated, but the history entry could not be saved.', 'err');
+        }
     
         await apiAddNote({
           patient_id: selectedOrder.patient_id,
@@ -256,6 +294,8 @@ endDate.setHours(23, 59, 59, 999);
           source: 'stage_change',
           stage_from: selectedOrder.workflow_stage,
           stage_to: newStage,
+          status_from: selectedOrder.status ?? null,
+          status_to: newStatus || null,
         });
         
         if (isRegression && regressionReason) {
@@ -269,7 +309,7 @@ endDate.setHours(23, 59, 59, 999);
             });
         }
     
-        toast('Stage updated.', 'ok'); 
+        toast(isStageChange ? 'Stage updated.' : 'Status updated.', 'ok'); 
         invalidateAndRefetch();
         queryClient.invalidateQueries({ queryKey: ['dashboard_metrics'] });
         queryClient.invalidateQueries({ queryKey: ['regression_insights'] });
@@ -321,7 +361,7 @@ endDate.setHours(23, 59, 59, 999);
         setOrderToDelete(null);
     };
     
-    const workflowStages = workflowData.workflow.map(w => w.stage) as WorkflowStage[];
+    const workflowStages = allStageNames() as WorkflowStage[];
 
     const filterOptions = [
         "Referral Received",
@@ -370,33 +410,86 @@ endDate.setHours(23, 59, 59, 999);
     const handleMassStageUpdate = async ({ newStage, note }: { newStage: WorkflowStage; note: string }) => {
         if (selectedOrderIds.length === 0) return;
 
-        const ordersToUpdate = allOrders?.filter(o => selectedOrderIds.includes(o.id)) || [];
+        const selected = allOrders?.filter(o => selectedOrderIds.includes(o.id)) || [];
+        // Referrals whose pipeline has no such stage, or that fail their stage gate, are left where they are;
+        // bulk moves can't be overridden.
+        const ordersToUpdate = selected.filter(o =>
+            workflowStageNames(o.workflow_version).includes(newStage) && evaluateStageGate(o, newStage).passed
+        );
+        const blockedCount = selected.length - ordersToUpdate.length;
 
-        const { error: updateError } = await supabase
-            .from('orders')
-            .update({
-                workflow_stage: newStage,
-                last_stage_note: note,
-                last_stage_change: new Date().toISOString()
-            })
-            .in('id', selectedOrderIds);
+        if (ordersToUpdate.length === 0) {
+            toast(`None of the selected referrals can move to "${newStage}".`, 'err');
+            return;
+        }
+
+        // The default status for the stage can differ between workflow versions.
+        const byVersion = new Map<number | null, string[]>();
+        ordersToUpdate.forEach(o => {
+            const version = o.workflow_version ?? null;
+            byVersion.set(version, [...(byVersion.get(version) || []), o.id]);
+        });
+        const changedAt = new Date().toISOString();
+        const newStatusFor = (order: Order) => resolveStageStatus(newStage, null, order.workflow_version ?? null) || null;
+        const results = await Promise.all(Array.from(byVersion.entries()).map(([version, ids]) =>
+            supabase
+                .from('orders')
+                .update({
+                    workflow_stage: newStage,
+                    status: resolveStageStatus(newStage, null, version) || null,
+                    last_stage_note: note,
+                    last_stage_change: changedAt
+                })
+                .in('id', ids)
+        ));
+        const updateError = results.find(r => r.error)?.error;
         
         if (updateError) {
-            toast(`Failed to update ${selectedOrderIds.length} referrals.`, 'err');
+            toast(`Failed to update ${ordersToUpdate.length} referrals.`, 'err');
             return;
         }
 
+        // Each referral gets the same history entry as a single stage change, so SLA timers,
+        // cycle time and regression analytics see bulk moves too.
+        let historyFailures = 0;
+        for (const order of ordersToUpdate) {
+            try {
+                await recordStageChange({
+                    order_id: order.id,
+                    patient_id: order.patient_id,
+                    previous_stage: order.workflow_stage,
+                    new_stage: newStage,
+                    previous_status: order.status ?? null,
+                    new_status: newStatusFor(order),
+                    note,
+                    changed_by: user?.email || 'System',
+                });
+            } catch (error) {
+                console.error(`Failed to record stage change for order ${order.id}:`, error);
+                historyFailures++;
+            }
+        }
+        if (historyFailures > 0) {
+            toast(`Stage updated, but ${historyFailures} history entr${historyFailures === 1 ? 'y' : 'ies'} could not be saved.`, 'err');
+        }
+
         const notePayloads = ordersToUpdate.map(order => ({
             patient_id: order.patient_id,
             body: note,
             source: 'stage_change' as const,
             stage_from: order.workflow_stage,
             stage_to: newStage,
+            status_from: order.status ?? null,
+            status_to: newStatusFor(order),
         }));
 
         await supabase.from('patient_notes').insert(notePayloads);
 
-        toast(`${selectedOrderIds.length} referrals updated to "${newStage}".`, 'ok');
+        if (blockedCount > 0) {
+            toast(`${ordersToUpdate.length} referrals updated to "${newStage}". ${blockedCount} skipped: stage not in their pipeline or missing requirements.`, 'warning');
+        } else {
+            toast(`${ordersToUpdate.length} referrals updated to "${newStage}".`, 'ok');
+        }
         invalidateAndRefetch();
         setSelectedOrderIds([]);
         setShowMassUpdateModal(false);
@@ -415,6 +508,12 @@ endDate.setHours(23, 59, 59, 999);
         if (error) {
             toast(`Failed to update documents: ${error.message}`, 'err');
         } else {
+            const selected = allOrders?.filter(o => selectedOrderIds.includes(o.id)) || [];
+            for (const order of selected) {
+                const after = { ...(order.document_status || {}), ...Object.fromEntries(docKeys.map(key => [key, 'Complete'])) };
+                await runDocumentAutomations(order.id, order.document_status, after, user?.email);
+                await syncStoplight(order.id, user?.email);
+            }
             toast(`${docKeys.length} document(s) for ${selectedOrderIds.length} referrals updated.`, 'ok');
             invalidateAndRefetch();
             setSelectedOrderIds([]);
@@ -510,7 +609,7 @@ endDate.setHours(23, 59, 59, 999);
             {showStageModal && selectedOrder && (
                 <StageChangeModal
                     current={selectedOrder.workflow_stage as WorkflowStage}
-                    stages={workflowStages}
+                    stages={workflowStageNames(selectedOrder.workflow_version) as WorkflowStage[]}
                     onSave={handleStageSave}
                     onClose={() => setShowStageModal(false)}
                     order={selectedOrder}
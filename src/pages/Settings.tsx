@@ -4,11 +4,19 @@ import { cn } from '../lib/utils';
 import { AUTHORIZED_ADMINS } from '../lib/constants';
 import ProfilePanel from '../components/settings/ProfilePanel';
 import DoctorsPanel from '../components/settings/DoctorsPanel';
+import PracticeSettingsPanel from '../components/settings/PracticeSettingsPanel';
 import VendorsPanel from '../components/settings/VendorsPanel';
 import AdminPanel from '../components/settings/AdminPanel';
 import InsurancePanel from '../components/settings/InsurancePanel';
+import ImportProfilesPanel from '../components/settings/ImportProfilesPanel';
+import WorkflowEditorPanel from '../components/settings/WorkflowEditorPanel';
+import AutomationRulesPanel from '../components/settings/AutomationRulesPanel';
+import StoplightCriteriaPanel from '../components/settings/StoplightCriteriaPanel';
+import DocumentValidityPanel from '../components/settings/DocumentValidityPanel';
+import EmailSettingsPanel from '../components/settings/EmailSettingsPanel';
+import EmailTemplatesPanel from '../components/settings/EmailTemplatesPanel';
 
-type SettingsTab = 'profile' | 'doctors' | 'vendors' | 'insurance' | 'admin';
+type SettingsTab = 'profile' | 'doctors' | 'vendors' | 'insurance' | 'imports' | 'workflow' | 'automation' | 'stoplight' | 'validity' | 'email' | 'templates' | 'admin';
 
 const Settings: React.FC = () => {
   const { user } = useAuth();
@@ -24,15 +32,34 @@ const Settings: React.FC = () => {
           <TabButton name="Manage Doctors" isActive={activeTab === 'doctors'} onClick={() => setActiveTab('doctors')} />
           <TabButton name="Manage Vendors" isActive={activeTab === 'vendors'} onClick={() => setActiveTab('vendors')} />
           <TabButton name="Manage Insurance" isActive={activeTab === 'insurance'} onClick={() => setActiveTab('insurance')} />
+          <TabButton name="Import Profiles" isActive={activeTab === 'imports'} onClick={() => setActiveTab('imports')} />
+          {isAdmin && <TabButton name="Workflow" isActive={activeTab === 'workflow'} onClick={() => setActiveTab('workflow')} />}
+          {isAdmin && <TabButton name="Automation" isActive={activeTab === 'automation'} onClick={() => setActiveTab('automation')} />}
+          {isAdmin && <TabButton name="Stoplight" isActive={activeTab === 'stoplight'} onClick={() => setActiveTab('stoplight')} />}
+          {isAdmin && <TabButton name="Doc Validity" isActive={activeTab === 'validity'} onClick={() => setActiveTab('validity')} />}
+          {isAdmin && <TabButton name="Email" isActive={activeTab === 'email'} onClick={() => setActiveTab('email')} />}
+          {isAdmin && <TabButton name="Email Templates" isActive={activeTab === 'templates'} onClick={() => setActiveTab('templates')} />}
           {isAdmin && <TabButton name="Admin Tools" isActive={activeTab === 'admin'} onClick={() => setActiveTab('admin')} />}
         </nav>
       </div>
 
       <div id="tour-settings-panel" className="pt-4">
         {activeTab === 'profile' && <ProfilePanel />}
-        {activeTab === 'doctors' && <DoctorsPanel />}
+        {activeTab === 'doctors' && (
+          <div className="space-y-4">
+            <DoctorsPanel />
+            <PracticeSettingsPanel />
+          </div>
+        )}
         {activeTab === 'vendors' && <VendorsPanel />}
         {activeTab === 'insurance' && <InsurancePanel />}
+        {activeTab === 'imports' && <ImportProfilesPanel />}
+        {activeTab === 'workflow' && isAdmin && <WorkflowEditorPanel />}
+        {activeTab === 'automation' && isAdmin && <AutomationRulesPanel />}
+        {activeTab === 'stoplight' && isAdmin && <StoplightCriteriaPanel />}
+        {activeTab === 'validity' && isAdmin && <DocumentValidityPanel />}
+        {activeTab === 'email' && isAdmin && <EmailSettingsPanel />}
+        {activeTab === 'templates' && isAdmin && <EmailTemplatesPanel />}
         {activeTab === 'admin' && isAdmin && <AdminPanel />}
       </div>
     </div>
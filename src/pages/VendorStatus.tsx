@@ -1,21 +1,67 @@
-import React, { useEffect, useState, useCallback, useMemo } from "react";
-import { supabase } from "../lib/supabaseClient";
-import { CheckCircle, Clock, AlertTriangle, Loader2 } from "lucide-react";
+import React, { useState, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle, Clock, AlertTriangle, Loader2, Ban, ChevronDown, ChevronRight, Paperclip, RotateCw, X } from "lucide-react";
 import { cn } from "../lib/utils";
 import { mockVendorLogs } from '../lib/mockData';
 import EmptyState from "@/components/ui/EmptyState";
+import { Btn } from "@/components/ui/Btn";
+import { useAuth } from "@/contexts/AuthContext";
+import { cancelOutboxEmail, listVendorLog } from "@/api/emailOutbox.api";
+import { sendOutboxEmail } from "@/lib/emailService";
+import { writeAuditLog } from "@/lib/auditLogger";
+import { toast } from "@/lib/toast";
+import type { OutboxEmail, VendorLog } from "@/lib/types";
 
-type Status = 'all' | 'sent' | 'pending' | 'failed';
+type Status = 'all' | VendorLog['status'];
 
 const STATUS_CONFIG: Record<string, { icon: React.ElementType, color: string, bg: string }> = {
   sent: { icon: CheckCircle, color: "text-green-700 dark:text-green-300", bg: "bg-green-50 dark:bg-green-900/20" },
   pending: { icon: Clock, color: "text-amber-700 dark:text-amber-300", bg: "bg-amber-50 dark:bg-amber-900/20" },
   failed: { icon: AlertTriangle, color: "text-red-700 dark:text-red-300", bg: "bg-red-50 dark:bg-red-900/20" },
+  cancelled: { icon: Ban, color: "text-gray-600 dark:text-gray-300", bg: "bg-gray-100 dark:bg-zinc-800" },
 };
 
-const VendorLogItem: React.FC<{ log: any }> = ({ log }) => {
+const formatSize = (bytes: number) => bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+/** The outbox email behind a log entry: delivery attempts, last error and exactly what was (or will be) sent. */
+const DeliveryDetails: React.FC<{ email: OutboxEmail }> = ({ email }) => (
+    <div className="mt-3 space-y-3 text-sm">
+        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-xs">
+            <div><dt className="inline text-muted">Attempts: </dt><dd className="inline text-text">{email.attempts} of {email.max_attempts}</dd></div>
+            {email.last_attempt_at && <div><dt className="inline text-muted">Last attempt: </dt><dd className="inline text-text">{new Date(email.last_attempt_at).toLocaleString()}</dd></div>}
+            {email.status === 'queued' && email.next_attempt_at && <div><dt className="inline text-muted">Next attempt: </dt><dd className="inline text-text">{new Date(email.next_attempt_at).toLocaleString()}</dd></div>}
+            {email.sent_at && <div><dt className="inline text-muted">Delivered: </dt><dd className="inline text-text">{new Date(email.sent_at).toLocaleString()}{email.transport && ` via ${email.transport}`}</dd></div>}
+            {email.provider_message_id && <div><dt className="inline text-muted">Message ID: </dt><dd className="inline text-text break-all">{email.provider_message_id}</dd></div>}
+        </dl>
+        {email.last_error && (
+            <p className="text-xs text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20 rounded p-2">Last error: {email.last_error}</p>
+        )}
+        <div className="rounded-lg border border-border-color/50 p-3 space-y-1">
+            <p className="text-xs text-muted">To: <span className="text-text">{email.to_address}</span></p>
+            {email.reply_to && <p className="text-xs text-muted">Reply-To: <span className="text-text">{email.reply_to}</span></p>}
+            <p className="text-xs text-muted">Subject: <span className="text-text">{email.subject}</span></p>
+            <pre className="whitespace-pre-wrap font-sans text-xs text-text pt-2">{email.body}</pre>
+            {(email.email_outbox_attachments || []).map(a => (
+                <p key={a.id} className="flex items-center gap-1.5 text-xs text-muted pt-1">
+                    <Paperclip className="h-3 w-3" />
+                    <span className="text-text">{a.filename}</span> · {a.content_type || 'unknown type'} · {formatSize(a.size_bytes)}
+                </p>
+            ))}
+        </div>
+    </div>
+);
+
+const VendorLogItem: React.FC<{
+    log: VendorLog;
+    busy: boolean;
+    onRetry: (email: OutboxEmail) => void;
+    onCancel: (email: OutboxEmail) => void;
+}> = ({ log, busy, onRetry, onCancel }) => {
+    const [expanded, setExpanded] = useState(false);
     const config = STATUS_CONFIG[log.status] || STATUS_CONFIG.pending;
     const Icon = config.icon;
+    const email = log.email_outbox;
+    const canAct = !!email && (email.status === 'failed' || email.status === 'queued');
     return (
         <li className="soft-card p-4">
             <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
@@ -28,42 +74,77 @@ const VendorLogItem: React.FC<{ log: any }> = ({ log }) => {
                     <span>{log.status.charAt(0).toUpperCase() + log.status.slice(1)}</span>
                 </div>
             </div>
-            <div className="mt-3 pt-3 border-t border-border-color/50 text-xs text-muted flex justify-between">
+            {email?.status === 'queued' && email.last_error && email.next_attempt_at && (
+                <p className="mt-2 text-xs text-amber-700 dark:text-amber-300">
+                    Attempt {email.attempts} failed; retrying {new Date(email.next_attempt_at).toLocaleString()}.
+                </p>
+            )}
+            <div className="mt-3 pt-3 border-t border-border-color/50 text-xs text-muted flex flex-wrap items-center justify-between gap-2">
                 <span>Sent by: {log.sent_by}</span>
-                <time dateTime={log.sent_at}>{new Date(log.sent_at).toLocaleString()}</time>
+                <div className="flex items-center gap-2">
+                    <time dateTime={log.sent_at}>{new Date(log.sent_at).toLocaleString()}</time>
+                    {email && (
+                        <button onClick={() => setExpanded(!expanded)} className="flex items-center gap-0.5 font-medium text-teal-600 hover:underline focus-ring rounded">
+                            {expanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />} Details
+                        </button>
+                    )}
+                </div>
             </div>
+            {email && expanded && <DeliveryDetails email={email} />}
+            {canAct && (
+                <div className="mt-3 flex justify-end gap-2">
+                    <Btn variant="ghost" size="sm" onClick={() => onCancel(email)} disabled={busy}>
+                        <X className="h-4 w-4 mr-1.5" /> Cancel
+                    </Btn>
+                    <Btn variant="outline" size="sm" onClick={() => onRetry(email)} disabled={busy}>
+                        {busy ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <RotateCw className="h-4 w-4 mr-1.5" />}
+                        {email.status === 'failed' ? 'Retry' : 'Send Now'}
+                    </Btn>
+                </div>
+            )}
         </li>
     );
 };
 
 const VendorStatus: React.FC = () => {
-  const [logs, setLogs] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [statusFilter, setStatusFilter] = useState<Status>('all');
 
-  const fetchLogs = useCallback(async () => {
-    setLoading(true);
-    try {
-        const { data, error } = await supabase.from("vendor_log").select("*").order("sent_at", { ascending: false });
-        if (error) throw error;
-        
-        if (import.meta.env.DEV && (!data || data.length === 0)) {
-            console.log("Using mock data for vendor status page.");
-            setLogs(mockVendorLogs);
-        } else {
-            setLogs(data || []);
+  const { data: logs = [], isLoading: loading } = useQuery({
+    queryKey: ['vendor_log'],
+    queryFn: async () => {
+        try {
+            const data = await listVendorLog();
+            if (import.meta.env.DEV && data.length === 0) {
+                console.log("Using mock data for vendor status page.");
+                return mockVendorLogs as VendorLog[];
+            }
+            return data;
+        } catch (error) {
+            console.error("Error fetching vendor logs:", error);
+            return [];
         }
-    } catch (error) {
-        console.error("Error fetching vendor logs:", error);
-        setLogs([]);
-    } finally {
-        setLoading(false);
-    }
-  }, []);
+    },
+  });
 
-  useEffect(() => {
-    fetchLogs();
-  }, [fetchLogs]);
+  const deliveryMutation = useMutation({
+    mutationFn: async ({ email, action }: { email: OutboxEmail; action: 'retry' | 'cancel' }) => {
+        if (action === 'retry') {
+            await sendOutboxEmail(email, user?.email);
+        } else {
+            await cancelOutboxEmail(email.id);
+            await writeAuditLog('email_cancelled', { changed_by: user?.email, patient_id: email.patient_id, to: email.to_address, subject: email.subject, outbox_id: email.id });
+        }
+        return action;
+    },
+    onSuccess: action => toast(action === 'retry' ? 'PAR packet sent.' : 'Send cancelled.', 'ok'),
+    onError: (error: any) => toast(`Error: ${error.message}`, 'err'),
+    onSettled: () => {
+        queryClient.invalidateQueries({ queryKey: ['vendor_log'] });
+        queryClient.invalidateQueries({ queryKey: ['email_outbox'] });
+    },
+  });
 
   const filteredLogs = useMemo(() => {
       if (statusFilter === 'all') return logs;
@@ -74,7 +155,7 @@ const VendorStatus: React.FC = () => {
     <div className="h-full overflow-y-auto space-y-4 p-4 md:p-6 pb-nav-safe md:pb-8">
         <div className="soft-card p-3 flex flex-wrap items-center gap-2">
             <span className="text-sm font-medium text-muted mr-2">Filter by status:</span>
-            {(['all', 'sent', 'pending', 'failed'] as Status[]).map(status => (
+            {(['all', 'sent', 'pending', 'failed', 'cancelled'] as Status[]).map(status => (
                 <button
                     key={status}
                     onClick={() => setStatusFilter(status)}
@@ -99,7 +180,15 @@ const VendorStatus: React.FC = () => {
             />
         ) : (
             <ul className="space-y-3">
-                {filteredLogs.map(log => <VendorLogItem key={log.id} log={log} />)}
+                {filteredLogs.map(log => (
+                    <VendorLogItem
+                        key={log.id}
+                        log={log}
+                        busy={deliveryMutation.isPending && deliveryMutation.variables?.email.id === log.outbox_id}
+                        onRetry={email => deliveryMutation.mutate({ email, action: 'retry' })}
+                        onCancel={email => deliveryMutation.mutate({ email, action: 'cancel' })}
+                    />
+                ))}
             </ul>
         )}
     </div>
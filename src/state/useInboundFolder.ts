@@ -0,0 +1,32 @@
+import { create } from "zustand";
+
+/** The parts of the File System Access API used here; TypeScript's DOM library does not declare them yet. */
+export type WatchedFolder = FileSystemDirectoryHandle & {
+  values(): AsyncIterableIterator<FileSystemDirectoryHandle | FileSystemFileHandle>;
+};
+
+type PickerWindow = Window & { showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<WatchedFolder> };
+
+/** Chromium-based browsers only; elsewhere emails are uploaded by hand. */
+export const canWatchFolders = () => typeof window !== 'undefined' && typeof (window as PickerWindow).showDirectoryPicker === 'function';
+
+export const pickFolder = () => (window as PickerWindow).showDirectoryPicker!({ mode: 'read' });
+
+interface InboundFolderState {
+  /** Kept in memory only, so the folder has to be picked again after a reload. */
+  folder: WatchedFolder | null;
+  lastScanAt: string | null;
+  lastError: string | null;
+  watch: (folder: WatchedFolder) => void;
+  stop: () => void;
+  recordScan: (error?: string | null) => void;
+}
+
+export const useInboundFolder = create<InboundFolderState>((set) => ({
+  folder: null,
+  lastScanAt: null,
+  lastError: null,
+  watch: (folder) => set({ folder, lastScanAt: null, lastError: null }),
+  stop: () => set({ folder: null, lastScanAt: null, lastError: null }),
+  recordScan: (error = null) => set({ lastScanAt: new Date().toISOString(), lastError: error }),
+}));
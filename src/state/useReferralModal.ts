@@ -1,6 +1,5 @@
 import { create } from "zustand";
 import type { Patient, Order } from "../lib/types";
-import { docTemplates, DocKey } from "@/lib/docMapping";
 
 type Mode = "quick" | "full";
 
@@ -8,10 +7,6 @@ export type ReferralForm = Partial<Patient> & Partial<Order> & {
     stoplight_status?: 'green' | 'yellow' | 'red';
 };
 
-// Find the standard template and get its keys to use as the default
-const standardTemplate = docTemplates.find(t => t.id === 'standard_wc');
-const defaultRequiredDocs = standardTemplate ? standardTemplate.keys : [];
-
 const initialForm: ReferralForm = {
     name: "",
     primary_insurance: "",
@@ -30,7 +25,6 @@ const initialForm: ReferralForm = {
     state: "",
     zip: "",
     preferred_contact_method: "",
-    required_documents: defaultRequiredDocs, // Set default here
     document_status: {},
     stoplight_status: 'green',
 };
@@ -0,0 +1,22 @@
+import { create } from "zustand";
+import { buildRequiredDocsProposal, type RequiredDocsProposal } from "@/lib/docRules";
+
+interface RequiredDocsModalState {
+  proposal: RequiredDocsProposal | null;
+  /** Works out the order's required documents and opens the diff when they would change. */
+  proposeFor: (orderId: string) => Promise<void>;
+  closeModal: () => void;
+}
+
+export const useRequiredDocsModal = create<RequiredDocsModalState>((set) => ({
+  proposal: null,
+  proposeFor: async (orderId) => {
+    try {
+      const proposal = await buildRequiredDocsProposal(orderId);
+      if (proposal) set({ proposal });
+    } catch (err) {
+      console.error('Failed to propose required documents:', err);
+    }
+  },
+  closeModal: () => set({ proposal: null }),
+}));
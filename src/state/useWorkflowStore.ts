@@ -0,0 +1,25 @@
+import { create } from 'zustand';
+import { DEFAULT_PIPELINE, type WorkflowDefinition } from '@/lib/workflowDefinition';
+
+interface WorkflowState {
+  /** Every published definition, keyed by version. */
+  definitions: Record<number, WorkflowDefinition>;
+  /** Active version of the Standard pipeline, used when an order's own version is unknown. */
+  activeVersion: number;
+  isLoaded: boolean;
+  setDefinitions: (definitions: WorkflowDefinition[]) => void;
+}
+
+export const useWorkflowStore = create<WorkflowState>((set) => ({
+  definitions: {},
+  activeVersion: 1,
+  isLoaded: false,
+  setDefinitions: (definitions) => set({
+    definitions: Object.fromEntries(definitions.map(d => [d.version, d])),
+    activeVersion: definitions.find(d => d.is_active && d.pipeline === DEFAULT_PIPELINE)?.version
+      ?? definitions.find(d => d.is_active)?.version
+      ?? definitions[definitions.length - 1]?.version
+      ?? 1,
+    isLoaded: true,
+  }),
+}));
@@ -0,0 +1,379 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { addDays, endOfWeek, startOfDay, startOfWeek, subDays } from 'npm:date-fns@4';
+import { formatInTimeZone, fromZonedTime, toZonedTime } from 'npm:date-fns-tz@3';
+
+// Builds and queues the digests users subscribe to in the Email Center. It runs here rather than in
+// the browser so a digest goes out whether or not its subscriber has the app open.
+
+export type DigestSection = 'accounts' | 'sla_breaches' | 'new_denials' | 'tasks_due' | 'in_services';
+
+/** What a digest covers; a saved subscription or unsaved edits to one. */
+export interface DigestOptions {
+  user_id: string;
+  frequency: 'daily' | 'weekly';
+  /** Day of the week (0 = Sunday) a weekly digest goes out. */
+  send_day: number;
+  sections: DigestSection[];
+  scope: 'mine' | 'all';
+  filters: { payers?: string[]; stages?: string[] } | null;
+  last_sent_at: string | null;
+}
+
+interface DigestSubscription extends DigestOptions {
+  id: string;
+  email: string;
+  is_active: boolean;
+}
+
+/** The subscriber; rep and assignee fields are matched against their name or email. */
+export interface DigestRecipient {
+  email?: string | null;
+  full_name?: string | null;
+}
+
+export interface DigestRunResult {
+  /** Outbox ids of the digests queued by this run. */
+  queued: string[];
+  /** Subscriptions that were due but could not be built; they are tried again on the next run. */
+  failed: { subscription_id: string; error: string }[];
+}
+
+interface DigestSectionResult {
+  title: string;
+  /** One-line overview shown above the items, e.g. counts. */
+  summary?: string;
+  items: string[];
+}
+
+interface Digest {
+  since: Date;
+  generatedAt: Date;
+  sections: DigestSectionResult[];
+}
+
+/** Digests follow the practice's calendar: periods start at local midnight and nothing goes out before the send hour. */
+const TIME_ZONE = Deno.env.get('DIGEST_TIME_ZONE') || 'UTC';
+const SEND_HOUR = Number(Deno.env.get('DIGEST_SEND_HOUR') ?? 7);
+
+const MAX_ITEMS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keep the titles and the default wording in step with DIGEST_SECTIONS in src/lib/digest.ts
+// and EMAIL_TEMPLATES.digest in src/lib/emailTemplates.ts.
+const SECTION_TITLES: Record<DigestSection, string> = {
+  accounts: 'Accounts',
+  sla_breaches: 'SLA Breaches',
+  new_denials: 'New Denials',
+  tasks_due: 'Tasks Due',
+  in_services: 'In-Services This Week',
+};
+
+const DEFAULT_TEMPLATE = {
+  subject: 'Your Patient Sync {{digest.frequency}} digest for {{today}}',
+  body: 'Hello {{user.first_name}},\n\nHere is your {{digest.frequency}} digest covering {{digest.period}}.\n\n{{digest.sections}}\n\nHave a great day!\n- {{practice.name}}',
+};
+
+const ORDER_SELECT = 'id, workflow_stage, workflow_version, status, rep_name, is_archived, created_at, last_stage_change, document_status, ' +
+  'patients(name, primary_insurance, required_documents), workflow_history(new_stage, changed_at)';
+
+type DigestOrder = {
+  id: string;
+  workflow_stage: string | null;
+  workflow_version: number | null;
+  rep_name: string | null;
+  created_at: string;
+  last_stage_change: string | null;
+  document_status: Record<string, string> | null;
+  patients: { name: string | null; primary_insurance: string | null; required_documents: string[] | null } | null;
+  workflow_history: { new_stage: string | null; changed_at: string | null }[] | null;
+};
+
+/** Wall-clock time in the practice's time zone. */
+const localNow = (now: Date) => toZonedTime(now, TIME_ZONE);
+const formatLocal = (value: string | Date, pattern: string) => formatInTimeZone(typeof value === 'string' ? new Date(value) : value, TIME_ZONE, pattern);
+
+/** Start of the period the digest is sent for: today, or the latest `send_day` for weekly digests. */
+export function digestPeriodStart(options: Pick<DigestOptions, 'frequency' | 'send_day'>, now = new Date()): Date {
+  const today = startOfDay(localNow(now));
+  const start = options.frequency === 'daily' ? today : subDays(today, (today.getDay() - options.send_day + 7) % 7);
+  return fromZonedTime(start, TIME_ZONE);
+}
+
+/** Whether the subscription has not been sent yet this period. A missed send is caught up by the next run. */
+function isDigestDue(subscription: DigestSubscription, now: Date): boolean {
+  if (!subscription.is_active || localNow(now).getHours() < SEND_HOUR) return false;
+  return !subscription.last_sent_at || new Date(subscription.last_sent_at) < digestPeriodStart(subscription, now);
+}
+
+/** New denials are counted from the last send, or from one period back for a first digest. */
+function digestSince(options: Pick<DigestOptions, 'frequency' | 'last_sent_at'>, now: Date): Date {
+  return options.last_sent_at ? new Date(options.last_sent_at) : subDays(now, options.frequency === 'weekly' ? 7 : 1);
+}
+
+const sameText = (a: string | null | undefined, b: string | null | undefined) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const isRecipient = (value: string | null | undefined, recipient: DigestRecipient) =>
+  sameText(value, recipient.email) || sameText(value, recipient.full_name);
+
+function inFilters(order: DigestOrder, options: DigestOptions): boolean {
+  const { payers = [], stages = [] } = options.filters || {};
+  if (payers.length > 0 && !payers.some(p => sameText(p, order.patients?.primary_insurance))) return false;
+  if (stages.length > 0 && !stages.includes(order.workflow_stage || '')) return false;
+  return true;
+}
+
+const isDocSatisfied = (order: DigestOrder, key: string) =>
+  order.document_status?.[key] === 'Complete' || order.document_status?.[key] === 'Not Required';
+
+const patientName = (order: DigestOrder | undefined) => order?.patients?.name || 'Unknown patient';
+
+/** Stage target days by workflow version; orders without a known version follow the active Standard pipeline. */
+async function loadTargetDays(admin: SupabaseClient) {
+  const { data, error } = await admin.from('workflow_definitions').select('version, definition, pipeline, is_active');
+  if (error) throw new Error(`Could not load workflow definitions: ${error.message}`);
+  const byVersion = new Map<number, Map<string, number>>();
+  let fallback: Map<string, number> = new Map();
+  for (const row of data || []) {
+    const stages = new Map<string, number>(
+      ((row.definition?.workflow || []) as { stage: string; target_days: number }[]).map(s => [s.stage, s.target_days]),
+    );
+    byVersion.set(row.version, stages);
+    if (row.is_active && row.pipeline === 'standard') fallback = stages;
+  }
+  return (order: DigestOrder) =>
+    ((order.workflow_version != null && byVersion.get(order.workflow_version)) || fallback).get(order.workflow_stage || '');
+}
+
+async function loadDocLabels(admin: SupabaseClient) {
+  const { data, error } = await admin.from('document_templates').select('abbrev, name');
+  if (error) throw new Error(`Could not load document types: ${error.message}`);
+  const labels = new Map<string, string>((data || []).map(t => [t.abbrev, t.name]));
+  return (key: string) => labels.get(key) || key;
+}
+
+async function accountsSection(admin: SupabaseClient, orders: DigestOrder[]): Promise<DigestSectionResult> {
+  const docLabel = await loadDocLabels(admin);
+  const missing = orders
+    .map(order => ({ order, docs: (order.patients?.required_documents || []).filter(key => !isDocSatisfied(order, key)) }))
+    .filter(({ docs }) => docs.length > 0);
+  return {
+    title: SECTION_TITLES.accounts,
+    summary: `${orders.length} open, ${orders.length - missing.length} with all documents, ${missing.length} missing documents.`,
+    items: missing.map(({ order, docs }) =>
+      `${patientName(order)} (${order.patients?.primary_insurance || 'No payer'}), ${order.workflow_stage || 'No stage'}: needs ${docs.map(docLabel).join(', ')}`),
+  };
+}
+
+/** Orders past their stage's target, measured from when they entered the stage (as in src/lib/sla.ts). */
+async function slaSection(admin: SupabaseClient, orders: DigestOrder[], now: Date): Promise<DigestSectionResult> {
+  const targetDays = await loadTargetDays(admin);
+  const breached = orders
+    .map(order => {
+      const target = targetDays(order);
+      if (!order.workflow_stage || !target) return null;
+      const entries = (order.workflow_history || [])
+        .filter(h => h.new_stage === order.workflow_stage && h.changed_at)
+        .map(h => new Date(h.changed_at as string).getTime())
+        .filter(t => !isNaN(t));
+      const enteredAt = entries.length > 0 ? Math.max(...entries) : new Date(order.last_stage_change || order.created_at).getTime();
+      const daysOver = (now.getTime() - enteredAt) / DAY_MS - target;
+      return daysOver > 0 ? { order, target, daysOver } : null;
+    })
+    .filter((b): b is { order: DigestOrder; target: number; daysOver: number } => !!b)
+    .sort((a, b) => b.daysOver - a.daysOver);
+  return {
+    title: SECTION_TITLES.sla_breaches,
+    items: breached.map(({ order, target, daysOver }) =>
+      `${patientName(order)}, ${order.workflow_stage}: ${Math.ceil(daysOver)} day(s) over the ${target}-day target`),
+  };
+}
+
+async function denialsSection(admin: SupabaseClient, ordersById: Map<string, DigestOrder>, since: Date): Promise<DigestSectionResult> {
+  const { data, error } = await admin
+    .from('denials')
+    .select('order_id, denial_date, payer, reason_code, denial_reason, created_at')
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(`Could not load denials: ${error.message}`);
+  const denials = (data || []).filter(d => ordersById.has(d.order_id));
+  return {
+    title: SECTION_TITLES.new_denials,
+    items: denials.map(d => {
+      const order = ordersById.get(d.order_id);
+      const reason = [d.reason_code, d.denial_reason].filter(Boolean).join(' ') || 'No reason given';
+      const date = d.denial_date ? formatLocal(`${d.denial_date.slice(0, 10)}T12:00:00Z`, 'MM/dd') : formatLocal(d.created_at, 'MM/dd');
+      return `${patientName(order)} (${d.payer || order?.patients?.primary_insurance || 'No payer'}), ${date}: ${reason}`;
+    }),
+  };
+}
+
+async function tasksSection(admin: SupabaseClient, options: DigestOptions, recipient: DigestRecipient, ordersById: Map<string, DigestOrder>, now: Date): Promise<DigestSectionResult> {
+  const today = formatLocal(now, 'yyyy-MM-dd');
+  const horizon = options.frequency === 'weekly' ? formatLocal(addDays(now, 6), 'yyyy-MM-dd') : today;
+  const { data, error } = await admin
+    .from('order_tasks')
+    .select('title, due_date, assigned_to, order_id, patients(name)')
+    .eq('is_done', false)
+    .lte('due_date', horizon)
+    .order('due_date');
+  if (error) throw new Error(`Could not load tasks: ${error.message}`);
+  const tasks = (data || []).filter(task =>
+    options.scope === 'mine' ? isRecipient(task.assigned_to, recipient) : ordersById.has(task.order_id));
+  return {
+    title: SECTION_TITLES.tasks_due,
+    items: tasks.map((task: any) => {
+      const date = `${task.due_date.slice(5, 7)}/${task.due_date.slice(8, 10)}`;
+      const due = task.due_date < today ? `overdue since ${date}` : `due ${date}`;
+      const who = options.scope === 'all' && task.assigned_to ? `, ${task.assigned_to}` : '';
+      return `${task.title} (${task.patients?.name || patientName(ordersById.get(task.order_id))}${who}), ${due}`;
+    }),
+  };
+}
+
+async function inServicesSection(admin: SupabaseClient, options: DigestOptions, now: Date): Promise<DigestSectionResult> {
+  const local = localNow(now);
+  let query = admin
+    .from('marketing_in_services')
+    .select('topic, start_at, location, status, user_id, marketing_leads(name)')
+    .gte('start_at', fromZonedTime(startOfWeek(local), TIME_ZONE).toISOString())
+    .lte('start_at', fromZonedTime(endOfWeek(local), TIME_ZONE).toISOString())
+    .order('start_at');
+  if (options.scope === 'mine') query = query.eq('user_id', options.user_id);
+  const { data, error } = await query;
+  if (error) throw new Error(`Could not load in-services: ${error.message}`);
+  const events = (data || []).filter(e => e.status !== 'Cancelled');
+  return {
+    title: SECTION_TITLES.in_services,
+    items: events.map((e: any) =>
+      `${formatLocal(e.start_at, 'EEE MM/dd h:mm a')}: ${e.topic || 'In-service'}${e.marketing_leads?.name ? ` with ${e.marketing_leads.name}` : ''}${e.location ? ` at ${e.location}` : ''}`),
+  };
+}
+
+/**
+ * Builds the digest for one subscriber: the sections they chose, limited to
+ * their own book of business (or every account) and their payer and stage filters.
+ */
+async function buildDigest(admin: SupabaseClient, options: DigestOptions, recipient: DigestRecipient, now: Date): Promise<Digest> {
+  const since = digestSince(options, now);
+  const wants = (section: DigestSection) => options.sections.includes(section);
+
+  const { data, error } = await admin.from('orders').select(ORDER_SELECT).eq('is_archived', false);
+  if (error) throw new Error(`Could not load orders: ${error.message}`);
+  const orders = ((data || []) as unknown as DigestOrder[]).filter(order =>
+    (options.scope === 'all' || isRecipient(order.rep_name, recipient)) && inFilters(order, options));
+  const ordersById = new Map(orders.map(order => [order.id, order]));
+
+  const sections: DigestSectionResult[] = [];
+  if (wants('accounts')) sections.push(await accountsSection(admin, orders));
+  if (wants('sla_breaches')) sections.push(await slaSection(admin, orders, now));
+  if (wants('new_denials')) sections.push(await denialsSection(admin, ordersById, since));
+  if (wants('tasks_due')) sections.push(await tasksSection(admin, options, recipient, ordersById, now));
+  if (wants('in_services')) sections.push(await inServicesSection(admin, options, now));
+
+  return { since, generatedAt: now, sections };
+}
+
+function renderDigestSections(digest: Digest): string {
+  if (digest.sections.length === 0) return 'No sections are selected for this digest.';
+  return digest.sections
+    .map(section => {
+      const lines = [`${section.title.toUpperCase()} (${section.items.length})`];
+      if (section.summary) lines.push(section.summary);
+      const shown = section.items.slice(0, MAX_ITEMS);
+      lines.push(...(shown.length > 0 ? shown.map(item => `- ${item}`) : ['Nothing to report.']));
+      if (section.items.length > shown.length) lines.push(`...and ${section.items.length - shown.length} more.`);
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
+
+/** Values for the `{{digest.*}}` merge fields. */
+export async function digestMergeValues(admin: SupabaseClient, options: DigestOptions, recipient: DigestRecipient, now = new Date()): Promise<Record<string, string>> {
+  const digest = await buildDigest(admin, options, recipient, now);
+  return {
+    'digest.frequency': options.frequency,
+    'digest.period': `${formatLocal(digest.since, 'MM/dd/yyyy')} to ${formatLocal(digest.generatedAt, 'MM/dd/yyyy')}`,
+    'digest.sections': renderDigestSections(digest),
+  };
+}
+
+const asText = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim());
+
+/** The digest email as the template in Settings words it, with the subscriber as the "user". */
+async function renderDigestEmail(admin: SupabaseClient, options: DigestOptions, recipient: DigestRecipient, now: Date) {
+  const [digestValues, template, practice] = await Promise.all([
+    digestMergeValues(admin, options, recipient, now),
+    admin.from('email_templates').select('subject, body').eq('key', 'digest').maybeSingle(),
+    admin.from('practice_settings').select('name, phone, fax, contact_name').eq('id', 1).maybeSingle(),
+  ]);
+  if (template.error) throw new Error(`Could not load the digest template: ${template.error.message}`);
+  if (practice.error) throw new Error(`Could not load the practice settings: ${practice.error.message}`);
+
+  const fullName = asText(recipient.full_name) || asText(recipient.email);
+  const values: Record<string, string> = {
+    today: formatLocal(now, 'MM/dd/yyyy'),
+    'user.full_name': fullName,
+    'user.first_name': fullName.split(/[\s@]/)[0],
+    'user.email': asText(recipient.email),
+    'practice.name': asText(practice.data?.name),
+    'practice.phone': asText(practice.data?.phone) || 'our office',
+    'practice.fax': asText(practice.data?.fax) || 'our office',
+    'practice.contact_name': asText(practice.data?.contact_name) || asText(practice.data?.name) || 'our office',
+    ...digestValues,
+  };
+  const render = (text: string) => text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key: string) => (key in values ? values[key] : match));
+  const { subject, body } = template.data || DEFAULT_TEMPLATE;
+  return { subject: render(subject), body: render(body).trim() };
+}
+
+export async function loadRecipient(admin: SupabaseClient, userId: string, fallbackEmail: string | null): Promise<DigestRecipient> {
+  const { data } = await admin.from('profiles').select('email, full_name').eq('id', userId).maybeSingle();
+  return data ?? { email: fallbackEmail };
+}
+
+/**
+ * Queues every digest that is due in the outbox. Each subscription is claimed by
+ * stamping `last_sent_at` first, so overlapping runs never send one twice; if the
+ * digest then cannot be built the stamp is put back and the next run tries again.
+ */
+export async function queueDueDigests(admin: SupabaseClient, now = new Date()): Promise<DigestRunResult> {
+  const { data, error } = await admin.from('digest_subscriptions').select('*').eq('is_active', true);
+  if (error) throw new Error(`Could not load digest subscriptions: ${error.message}`);
+
+  const result: DigestRunResult = { queued: [], failed: [] };
+  for (const subscription of (data || []) as DigestSubscription[]) {
+    if (!isDigestDue(subscription, now)) continue;
+
+    const { data: claimed, error: claimError } = await admin
+      .from('digest_subscriptions')
+      .update({ last_sent_at: now.toISOString() })
+      .eq('id', subscription.id)
+      .or(`last_sent_at.is.null,last_sent_at.lt.${digestPeriodStart(subscription, now).toISOString()}`)
+      .select('id');
+    if (claimError) throw new Error(`Could not claim digest subscriptions: ${claimError.message}`);
+    if (!claimed?.length) continue;
+
+    try {
+      const recipient = await loadRecipient(admin, subscription.user_id, subscription.email);
+      const { subject, body } = await renderDigestEmail(admin, subscription, recipient, now);
+      const { data: email, error: queueError } = await admin
+        .from('email_outbox')
+        .insert({ to_address: subscription.email, subject, body, created_by: recipient.email || null })
+        .select('id')
+        .single();
+      if (queueError) throw new Error(`Could not queue the digest: ${queueError.message}`);
+      result.queued.push(email.id);
+
+      await admin.from('audit_log').insert({
+        action: 'digest_sent',
+        changed_by: 'System',
+        details: { to: subscription.email, frequency: subscription.frequency, sections: subscription.sections },
+      });
+    } catch (err) {
+      await admin.from('digest_subscriptions').update({ last_sent_at: subscription.last_sent_at }).eq('id', subscription.id);
+      result.failed.push({ subscription_id: subscription.id, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return result;
+}
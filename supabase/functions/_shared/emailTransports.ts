@@ -0,0 +1,145 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import nodemailer from 'npm:nodemailer@6.9.14';
+
+export type EmailTransportName = 'resend' | 'smtp' | 'local';
+
+export interface EmailAttachment {
+  filename: string;
+  /** Base64-encoded file content. */
+  content: string;
+  content_type?: string;
+}
+
+export interface EmailMessage {
+  to: string | string[];
+  subject: string;
+  text: string;
+  html?: string;
+  reply_to?: string;
+  attachments?: EmailAttachment[];
+}
+
+/** The single row of `public.email_settings`. Secrets are never stored there; they are function secrets. */
+export interface EmailSettings {
+  transport: EmailTransportName;
+  from_name: string;
+  from_address: string;
+  reply_to: string | null;
+  smtp_host: string | null;
+  smtp_port: number;
+  smtp_secure: boolean;
+  smtp_username: string | null;
+}
+
+export interface SendResult {
+  transport: EmailTransportName;
+  /** The provider's message id, or the local mailbox row id. */
+  id: string | null;
+}
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  /** Why the transport cannot send right now, e.g. a missing secret; null when it is ready. */
+  configurationError(settings: EmailSettings): string | null;
+  send(message: EmailMessage, settings: EmailSettings, sentBy: string | null): Promise<SendResult>;
+}
+
+const recipients = (to: string | string[]) => (Array.isArray(to) ? to : [to]);
+const sender = (settings: EmailSettings) => `${settings.from_name} <${settings.from_address}>`;
+
+const resendTransport: EmailTransport = {
+  name: 'resend',
+  configurationError: () => (Deno.env.get('RESEND_API_KEY') ? null : 'The RESEND_API_KEY function secret is not set.'),
+  async send(message, settings) {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${Deno.env.get('RESEND_API_KEY')}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: sender(settings),
+        to: recipients(message.to),
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        reply_to: message.reply_to || settings.reply_to || undefined,
+        attachments: message.attachments?.map(a => ({ filename: a.filename, content: a.content })),
+      }),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(`Resend rejected the email: ${body.message || response.statusText}`);
+    return { transport: 'resend', id: body.id || null };
+  },
+};
+
+const smtpTransport: EmailTransport = {
+  name: 'smtp',
+  configurationError(settings) {
+    if (!settings.smtp_host) return 'No SMTP host is configured.';
+    if (settings.smtp_username && !Deno.env.get('SMTP_PASSWORD')) return 'The SMTP_PASSWORD function secret is not set.';
+    return null;
+  },
+  async send(message, settings) {
+    const transporter = nodemailer.createTransport({
+      host: settings.smtp_host!,
+      port: settings.smtp_port,
+      secure: settings.smtp_secure,
+      auth: settings.smtp_username ? { user: settings.smtp_username, pass: Deno.env.get('SMTP_PASSWORD') } : undefined,
+    });
+    const info = await transporter.sendMail({
+      from: sender(settings),
+      to: recipients(message.to).join(', '),
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      replyTo: message.reply_to || settings.reply_to || undefined,
+      attachments: message.attachments?.map(a => ({ filename: a.filename, content: a.content, encoding: 'base64', contentType: a.content_type })),
+    });
+    return { transport: 'smtp', id: info.messageId || null };
+  },
+};
+
+/** Records the message in `public.dev_mailbox` instead of sending it; for development and testing. */
+const localTransport = (admin: SupabaseClient): EmailTransport => ({
+  name: 'local',
+  configurationError: () => null,
+  async send(message, settings, sentBy) {
+    const { data, error } = await admin
+      .from('dev_mailbox')
+      .insert({
+        from_address: sender(settings),
+        to_addresses: recipients(message.to),
+        reply_to: message.reply_to || settings.reply_to,
+        subject: message.subject,
+        text_body: message.text,
+        html_body: message.html || null,
+        attachments: (message.attachments || []).map(a => ({
+          filename: a.filename,
+          content_type: a.content_type || null,
+          // Size of the decoded file.
+          size_bytes: Math.floor((a.content.length * 3) / 4),
+        })),
+        created_by: sentBy,
+      })
+      .select('id')
+      .single();
+    if (error) throw new Error(`Could not write to the local mailbox: ${error.message}`);
+    return { transport: 'local', id: data.id };
+  },
+});
+
+export function getTransport(name: EmailTransportName, admin: SupabaseClient): EmailTransport {
+  switch (name) {
+    case 'resend': return resendTransport;
+    case 'smtp': return smtpTransport;
+    case 'local': return localTransport(admin);
+    default: throw new Error(`Unknown email transport "${name}".`);
+  }
+}
+
+export async function loadEmailSettings(admin: SupabaseClient): Promise<EmailSettings> {
+  const { data, error } = await admin.from('email_settings').select('*').eq('id', 1).single();
+  if (error) throw new Error(`Could not load email settings: ${error.message}`);
+  return data as EmailSettings;
+}
@@ -0,0 +1,95 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { getTransport, type EmailMessage, type EmailSettings } from './emailTransports.ts';
+
+const BACKOFF_BASE_SECONDS = 60;
+const BACKOFF_MAX_SECONDS = 6 * 60 * 60;
+
+export interface OutboxProcessResult {
+  sent: number;
+  /** Failed this time and scheduled for another attempt. */
+  retrying: number;
+  /** Failed on their last allowed attempt. */
+  failed: number;
+}
+
+interface ClaimedEmail {
+  id: string;
+  to_address: string;
+  subject: string;
+  body: string;
+  reply_to: string | null;
+  attempts: number;
+  max_attempts: number;
+  created_by: string | null;
+}
+
+/** 1, 2, 4, 8... minutes after each failed attempt, capped at six hours. */
+export function retryDelaySeconds(attempts: number) {
+  return Math.min(BACKOFF_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_SECONDS);
+}
+
+async function buildMessage(admin: SupabaseClient, email: ClaimedEmail): Promise<EmailMessage> {
+  const { data, error } = await admin
+    .from('email_outbox_attachments')
+    .select('filename, content_type, content')
+    .eq('email_id', email.id)
+    .order('created_at');
+  if (error) throw new Error(`Could not load attachments: ${error.message}`);
+
+  return {
+    to: email.to_address.split(',').map(address => address.trim()).filter(Boolean),
+    subject: email.subject,
+    text: email.body,
+    reply_to: email.reply_to || undefined,
+    attachments: (data || []).map(a => ({ filename: a.filename, content: a.content, content_type: a.content_type || undefined })),
+  };
+}
+
+/**
+ * Claims due outbox messages (or exactly `ids`, for a manual retry), sends each
+ * with the configured transport and records the outcome. A failed message is
+ * rescheduled with exponential backoff until it runs out of attempts.
+ */
+export async function processOutbox(admin: SupabaseClient, settings: EmailSettings, ids?: string[]): Promise<OutboxProcessResult> {
+  const { data, error } = await admin.rpc('claim_outbox_emails', { p_limit: ids?.length || 10, p_ids: ids?.length ? ids : null });
+  if (error) throw new Error(`Could not claim outbox emails: ${error.message}`);
+
+  const result: OutboxProcessResult = { sent: 0, retrying: 0, failed: 0 };
+  const transport = getTransport(settings.transport, admin);
+
+  for (const email of (data || []) as ClaimedEmail[]) {
+    try {
+      const problem = transport.configurationError(settings);
+      if (problem) throw new Error(problem);
+
+      const sent = await transport.send(await buildMessage(admin, email), settings, email.created_by);
+      await admin
+        .from('email_outbox')
+        .update({
+          status: 'sent',
+          sent_at: new Date().toISOString(),
+          next_attempt_at: null,
+          last_error: null,
+          transport: sent.transport,
+          provider_message_id: sent.id,
+        })
+        .eq('id', email.id);
+      result.sent++;
+    } catch (err) {
+      const canRetry = email.attempts < email.max_attempts;
+      await admin
+        .from('email_outbox')
+        .update({
+          status: canRetry ? 'queued' : 'failed',
+          next_attempt_at: canRetry ? new Date(Date.now() + retryDelaySeconds(email.attempts) * 1000).toISOString() : null,
+          last_error: err instanceof Error ? err.message : String(err),
+          transport: settings.transport,
+        })
+        .eq('id', email.id);
+      if (canRetry) result.retrying++;
+      else result.failed++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,363 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+// Keeps time-driven order state current: documents past their validity window are expired, then
+// every active order's stoplight is recomputed (SLA and missing-document criteria change with time
+// alone). It follows src/lib/docValidity.ts and src/lib/stoplight.ts, and runs here so the sweep
+// happens once per interval whether or not anyone has the app open.
+
+type StoplightColor = 'green' | 'yellow' | 'red';
+type ValidityAnchor = 'document_date' | 'order_date' | 'f2f_date';
+
+interface StoplightCriteria {
+  sla_breach_color: StoplightColor | null;
+  sla_at_risk_color: StoplightColor | null;
+  open_denial_color: StoplightColor | null;
+  missing_docs_days: number;
+  missing_docs_color: StoplightColor | null;
+  regression_days: number;
+  regression_color: StoplightColor | null;
+}
+
+interface ValidityRule {
+  doc_key: string;
+  valid_days: number;
+  anchor: ValidityAnchor;
+}
+
+interface SweepOrder {
+  id: string;
+  patient_id: string | null;
+  workflow_stage: string | null;
+  workflow_version: number | null;
+  last_stage_change: string | null;
+  created_at: string;
+  order_date: string | null;
+  f2f_date: string | null;
+  pt_eval_date: string | null;
+  document_status: Record<string, string> | null;
+  document_dates: Record<string, string> | null;
+  stoplight_status: StoplightColor | null;
+  stoplight_reason: string | null;
+  stoplight_override: StoplightColor | null;
+  stoplight_override_until: string | null;
+  stoplight_override_reason: string | null;
+  stoplight_override_by: string | null;
+  patients: { required_documents: string[] | null } | null;
+  denials: { resolved: boolean | null; appeal_outcome: string | null }[] | null;
+  workflow_history: { previous_stage: string | null; new_stage: string | null; changed_at: string | null }[] | null;
+}
+
+interface StageDefinition {
+  stage: string;
+  target_days: number;
+}
+
+export interface SweepResult {
+  /** Documents marked Expired. */
+  expired: number;
+  /** Orders whose stoplight colour changed. */
+  changed: number;
+}
+
+const ORDER_SELECT = [
+  'id', 'patient_id', 'workflow_stage', 'workflow_version', 'last_stage_change', 'created_at',
+  'order_date', 'f2f_date', 'pt_eval_date', 'document_status', 'document_dates',
+  'stoplight_status', 'stoplight_reason', 'stoplight_override', 'stoplight_override_until', 'stoplight_override_reason', 'stoplight_override_by',
+  'patients(required_documents)', 'denials(resolved, appeal_outcome)', 'workflow_history(previous_stage, new_stage, changed_at)',
+].join(', ');
+
+const DEFAULT_CRITERIA: StoplightCriteria = {
+  sla_breach_color: 'red',
+  sla_at_risk_color: 'yellow',
+  open_denial_color: 'red',
+  missing_docs_days: 14,
+  missing_docs_color: 'yellow',
+  regression_days: 30,
+  regression_color: 'yellow',
+};
+
+const SEVERITY: Record<StoplightColor, number> = { green: 0, yellow: 1, red: 2 };
+const SLA_AT_RISK_RATIO = 0.75;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Order date fields that stand in for a document's own date when none was recorded. */
+const FALLBACK_DATE_FIELDS: Record<string, 'f2f_date' | 'pt_eval_date'> = {
+  f2f: 'f2f_date',
+  pt_eval: 'pt_eval_date',
+};
+
+const isDocSatisfied = (order: SweepOrder, key: string) =>
+  order.document_status?.[key] === 'Complete' || order.document_status?.[key] === 'Not Required';
+
+const isDenialOpen = (denial: { resolved: boolean | null; appeal_outcome: string | null }) =>
+  !denial.resolved && denial.appeal_outcome !== 'Approved' && denial.appeal_outcome !== 'Withdrawn';
+
+const parseDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  const text = String(value);
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T00:00:00` : text);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+async function writeAuditLog(admin: SupabaseClient, action: string, details: Record<string, unknown>) {
+  const { error } = await admin.from('audit_log').insert({ action, changed_by: 'System', changed_user: null, details });
+  if (error) console.error('Audit Log Error:', error);
+}
+
+/**
+ * Stages by workflow version. An unknown or missing version follows the active Standard pipeline;
+ * with no version, a stage is looked up in every active pipeline, Standard first (as in src/lib/workflowDefinition.ts).
+ */
+async function loadWorkflows(admin: SupabaseClient) {
+  const { data, error } = await admin.from('workflow_definitions').select('version, definition, pipeline, name, is_active');
+  if (error) throw new Error(`Could not load workflow definitions: ${error.message}`);
+  const byVersion = new Map<number, StageDefinition[]>();
+  const active: { pipeline: string; name: string; stages: StageDefinition[] }[] = [];
+  for (const row of data || []) {
+    const stages = (row.definition?.workflow || []) as StageDefinition[];
+    byVersion.set(row.version, stages);
+    if (row.is_active) active.push({ pipeline: row.pipeline, name: row.name, stages });
+  }
+  active.sort((a, b) => Number(b.pipeline === 'standard') - Number(a.pipeline === 'standard') || a.name.localeCompare(b.name));
+  const standard = active.find(d => d.pipeline === 'standard')?.stages || active[0]?.stages || [];
+
+  const stagesFor = (version: number | null) => (version != null && byVersion.get(version)) || standard;
+  return {
+    stagesFor,
+    findStage: (stage: string, version: number | null) =>
+      version != null
+        ? stagesFor(version).find(s => s.stage === stage)
+        : active.map(d => d.stages.find(s => s.stage === stage)).find(Boolean),
+  };
+}
+
+type Workflows = Awaited<ReturnType<typeof loadWorkflows>>;
+
+async function loadDocLabels(admin: SupabaseClient) {
+  const { data, error } = await admin.from('document_templates').select('abbrev, name');
+  if (error) throw new Error(`Could not load document types: ${error.message}`);
+  const labels = new Map<string, string>((data || []).map(t => [t.abbrev, t.name]));
+  return (key: string) => labels.get(key) || key;
+}
+
+/** The saved criteria, or the defaults when none are saved. */
+async function loadCriteria(admin: SupabaseClient): Promise<StoplightCriteria> {
+  const { data, error } = await admin.from('stoplight_criteria').select('*').eq('id', 1).maybeSingle();
+  if (error) throw new Error(`Could not load stoplight criteria: ${error.message}`);
+  return (data as StoplightCriteria | null) || DEFAULT_CRITERIA;
+}
+
+/** When a document falls out of its validity window, or null when there is no date to measure from. */
+function expiresAt(order: SweepOrder, key: string, rule: ValidityRule): Date | null {
+  let anchor: Date | null;
+  if (rule.anchor === 'order_date') anchor = parseDate(order.order_date);
+  else if (rule.anchor === 'f2f_date') anchor = parseDate(order.f2f_date);
+  else {
+    const fallback = FALLBACK_DATE_FIELDS[key];
+    anchor = parseDate(order.document_dates?.[key]) || (fallback ? parseDate(order[fallback]) : null);
+  }
+  return anchor ? new Date(anchor.getTime() + rule.valid_days * DAY_MS) : null;
+}
+
+/**
+ * Marks every Complete document past its validity window as Expired, updating `orders` in place so
+ * the stoplight pass sees the new status. Document keys and rule keys are both canonical.
+ */
+async function expireDocuments(admin: SupabaseClient, orders: SweepOrder[], now: Date): Promise<number> {
+  const { data, error } = await admin.from('document_validity_rules').select('doc_key, valid_days, anchor');
+  if (error) throw new Error(`Could not load document validity rules: ${error.message}`);
+  const rules = new Map<string, ValidityRule>(((data || []) as ValidityRule[]).map(r => [r.doc_key, r]));
+  if (rules.size === 0) return 0;
+
+  let expired = 0;
+  for (const order of orders) {
+    const keys = Object.entries(order.document_status || {})
+      .filter(([key, status]) => {
+        const rule = rules.get(key);
+        if (status !== 'Complete' || !rule) return false;
+        const expiry = expiresAt(order, key, rule);
+        return !!expiry && Math.floor((expiry.getTime() - now.getTime()) / DAY_MS) < 0;
+      })
+      .map(([key]) => key);
+    if (keys.length === 0) continue;
+
+    const updatedStatus = { ...order.document_status, ...Object.fromEntries(keys.map(key => [key, 'Expired'])) };
+    const { error: updateError } = await admin.from('orders').update({ document_status: updatedStatus }).eq('id', order.id);
+    if (updateError) {
+      console.error(`Failed to expire documents on order ${order.id}:`, updateError);
+      continue;
+    }
+    order.document_status = updatedStatus;
+    expired += keys.length;
+    await writeAuditLog(admin, 'doc_status_change', {
+      patient_id: order.patient_id,
+      details: { documents: keys, status: 'Expired', reason: 'Validity window passed' },
+    });
+  }
+  return expired;
+}
+
+function describeSla(order: SweepOrder, workflows: Workflows, now: Date): { state: 'at_risk' | 'breached'; text: string } | null {
+  const stage = order.workflow_stage;
+  const targetDays = stage ? workflows.findStage(stage, order.workflow_version)?.target_days : undefined;
+  if (!stage || !targetDays) return null;
+
+  const entries = (order.workflow_history || [])
+    .filter(h => h.new_stage === stage && h.changed_at)
+    .map(h => new Date(h.changed_at as string).getTime())
+    .filter(t => !isNaN(t));
+  const enteredAt = entries.length > 0 ? Math.max(...entries) : new Date(order.last_stage_change || order.created_at).getTime();
+  const elapsed = (now.getTime() - enteredAt) / DAY_MS;
+  const daysRemaining = targetDays - elapsed;
+  const due = new Date(enteredAt + targetDays * DAY_MS).toLocaleDateString();
+
+  if (daysRemaining < 0) {
+    return { state: 'breached', text: `${Math.floor(-daysRemaining)}d past the ${targetDays}d target for ${stage} (due ${due})` };
+  }
+  if (elapsed >= targetDays * SLA_AT_RISK_RATIO || daysRemaining < 1) {
+    return { state: 'at_risk', text: `${Math.floor(Math.max(0, elapsed))}d of ${targetDays}d in ${stage}, due ${due}` };
+  }
+  return null;
+}
+
+/** Colour an order should have under `criteria`, worst criterion first, as in `computeStoplight`. */
+function computeStoplight(order: SweepOrder, criteria: StoplightCriteria, workflows: Workflows, docLabel: (key: string) => string, now: Date) {
+  const hits: { color: StoplightColor; reason: string }[] = [];
+
+  const sla = describeSla(order, workflows, now);
+  if (sla?.state === 'breached' && criteria.sla_breach_color) {
+    hits.push({ color: criteria.sla_breach_color, reason: `SLA breached: ${sla.text}` });
+  } else if (sla?.state === 'at_risk' && criteria.sla_at_risk_color) {
+    hits.push({ color: criteria.sla_at_risk_color, reason: `SLA at risk: ${sla.text}` });
+  }
+
+  const openDenials = (order.denials || []).filter(isDenialOpen).length;
+  if (openDenials > 0 && criteria.open_denial_color) {
+    hits.push({ color: criteria.open_denial_color, reason: `${openDenials} open denial${openDenials === 1 ? '' : 's'}` });
+  }
+
+  const ageDays = (now.getTime() - new Date(order.created_at).getTime()) / DAY_MS;
+  if (criteria.missing_docs_color && ageDays >= criteria.missing_docs_days) {
+    const missing = (order.patients?.required_documents || []).filter(key => !isDocSatisfied(order, key));
+    if (missing.length > 0) {
+      hits.push({ color: criteria.missing_docs_color, reason: `Missing after ${Math.floor(ageDays)}d: ${missing.map(docLabel).join(', ')}` });
+    }
+  }
+
+  if (criteria.regression_color) {
+    const since = now.getTime() - criteria.regression_days * DAY_MS;
+    const stages = workflows.stagesFor(order.workflow_version).map(s => s.stage);
+    const regressions = (order.workflow_history || []).filter(h => {
+      if (!h.changed_at || new Date(h.changed_at).getTime() < since || !h.previous_stage || !h.new_stage) return false;
+      const from = stages.indexOf(h.previous_stage);
+      const to = stages.indexOf(h.new_stage);
+      return from !== -1 && to !== -1 && to < from;
+    });
+    if (regressions.length > 0) {
+      const latest = regressions.reduce((a, b) => (new Date(a.changed_at as string) > new Date(b.changed_at as string) ? a : b));
+      hits.push({
+        color: criteria.regression_color,
+        reason: `Moved back to ${latest.new_stage} on ${new Date(latest.changed_at as string).toLocaleDateString()}`
+          + (regressions.length > 1 ? ` (${regressions.length} regressions in ${criteria.regression_days}d)` : ''),
+      });
+    }
+  }
+
+  hits.sort((a, b) => SEVERITY[b.color] - SEVERITY[a.color]);
+  return { color: hits[0]?.color || 'green' as StoplightColor, reasons: hits.map(h => h.reason) };
+}
+
+function describeOverride(order: SweepOrder) {
+  const until = order.stoplight_override_until ? ` until ${new Date(order.stoplight_override_until).toLocaleDateString()}` : '';
+  const by = order.stoplight_override_by ? ` by ${order.stoplight_override_by}` : '';
+  return `Pinned${by}${until}${order.stoplight_override_reason ? `: ${order.stoplight_override_reason}` : ''}`;
+}
+
+/** The worst colour of the patient's open orders, mirrored on the patient for the patient list. */
+async function syncPatientStoplight(admin: SupabaseClient, patientId: string) {
+  const { data, error } = await admin
+    .from('orders')
+    .select('stoplight_status')
+    .eq('patient_id', patientId)
+    .or('is_archived.is.null,is_archived.eq.false');
+  if (error) throw new Error(`Could not load the patient's orders: ${error.message}`);
+  const colors = (data || []).map(o => o.stoplight_status as StoplightColor | null).filter((c): c is StoplightColor => !!c && c in SEVERITY);
+  if (colors.length === 0) return;
+  const worst = colors.reduce((a, b) => (SEVERITY[b] > SEVERITY[a] ? b : a));
+  const { error: updateError } = await admin.from('patients').update({ stoplight_status: worst }).eq('id', patientId);
+  if (updateError) throw new Error(`Could not update the patient's stoplight: ${updateError.message}`);
+}
+
+/**
+ * Stores the computed colour and reason, unless an unexpired override is pinned; expired overrides
+ * are cleared. Compares against the colour read, so a tab recomputing the same order at once
+ * cannot log the change twice. Returns whether the colour changed.
+ */
+async function applyStoplight(admin: SupabaseClient, order: SweepOrder, criteria: StoplightCriteria, workflows: Workflows, docLabel: (key: string) => string, now: Date) {
+  const overrideActive = !!order.stoplight_override && (!order.stoplight_override_until || new Date(order.stoplight_override_until) > now);
+  const overrideExpired = !!order.stoplight_override && !overrideActive;
+
+  let color: StoplightColor;
+  let reason: string | null;
+  if (order.stoplight_override && overrideActive) {
+    color = order.stoplight_override;
+    reason = describeOverride(order);
+  } else {
+    const result = computeStoplight(order, criteria, workflows, docLabel, now);
+    color = result.color;
+    reason = result.reasons.length > 0 ? result.reasons.join('; ') : null;
+  }
+
+  const colorChanged = color !== (order.stoplight_status || null);
+  if (!colorChanged && !overrideExpired && reason === (order.stoplight_reason || null)) return false;
+
+  let update = admin
+    .from('orders')
+    .update({
+      stoplight_status: color,
+      stoplight_reason: reason,
+      ...(overrideExpired && { stoplight_override: null, stoplight_override_until: null, stoplight_override_reason: null, stoplight_override_by: null }),
+    })
+    .eq('id', order.id);
+  update = order.stoplight_status ? update.eq('stoplight_status', order.stoplight_status) : update.is('stoplight_status', null);
+  const { data: updated, error } = await update.select('id');
+  if (error) throw new Error(error.message);
+  if (!updated?.length || !colorChanged) return false;
+
+  if (order.patient_id) await syncPatientStoplight(admin, order.patient_id);
+  const { error: historyError } = await admin.from('stoplight_history').insert({
+    order_id: order.id,
+    patient_id: order.patient_id,
+    from_color: order.stoplight_status || null,
+    to_color: color,
+    source: overrideExpired ? 'override_expired' : 'computed',
+    reason,
+    changed_by: 'System',
+  });
+  if (historyError) throw new Error(`Could not record the colour change: ${historyError.message}`);
+  return true;
+}
+
+/** Expires documents, then recomputes the stoplight of every active order. */
+export async function runSweep(admin: SupabaseClient, now = new Date()): Promise<SweepResult> {
+  const [criteria, workflows, docLabel, { data, error }] = await Promise.all([
+    loadCriteria(admin),
+    loadWorkflows(admin),
+    loadDocLabels(admin),
+    admin.from('orders').select(ORDER_SELECT).or('is_archived.is.null,is_archived.eq.false'),
+  ]);
+  if (error) throw new Error(`Could not load orders: ${error.message}`);
+  const orders = (data || []) as unknown as SweepOrder[];
+
+  const expired = await expireDocuments(admin, orders, now);
+
+  let changed = 0;
+  for (const order of orders) {
+    try {
+      if (await applyStoplight(admin, order, criteria, workflows, docLabel, now)) changed++;
+    } catch (err) {
+      console.error(`Stoplight sync for order ${order.id} failed:`, err);
+    }
+  }
+  return { expired, changed };
+}
@@ -0,0 +1,26 @@
+// Runs the periodic sweep of time-driven order state: expired documents, then stoplight colours.
+// A pg_cron job calls `run` every 15 minutes with the service role key; nobody else may call it.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { runSweep } from '../_shared/sweep.ts';
+
+type BackgroundSweepRequest = { action: 'run' };
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Only the scheduler can run the background sweep.' }, 403);
+  }
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+  try {
+    const request = (await req.json()) as BackgroundSweepRequest;
+    if (request.action !== 'run') return jsonResponse({ error: `Unknown action: ${request.action}` }, 400);
+    return jsonResponse(await runSweep(admin));
+  } catch (err) {
+    console.error('background-sweep failed:', err);
+    return jsonResponse({ error: err instanceof Error ? err.message : String(err) }, 500);
+  }
+});
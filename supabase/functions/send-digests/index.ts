@@ -0,0 +1,48 @@
+// Sends the daily and weekly digests users subscribe to. A pg_cron job calls `run` every hour with the
+// service role key; each due digest is queued in `email_outbox` and sent through the configured transport.
+// Signed-in users call `preview` to see their digest (or unsaved edits to it) without sending anything.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { loadEmailSettings } from '../_shared/emailTransports.ts';
+import { processOutbox } from '../_shared/outbox.ts';
+import { digestMergeValues, loadRecipient, queueDueDigests, type DigestOptions } from '../_shared/digest.ts';
+
+type SendDigestsRequest =
+  | { action: 'run' }
+  | { action: 'preview'; options: DigestOptions };
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const admin = createClient(supabaseUrl, serviceRoleKey);
+  const authorization = req.headers.get('Authorization') || '';
+
+  try {
+    const request = (await req.json()) as SendDigestsRequest;
+
+    if (request.action === 'run') {
+      if (authorization !== `Bearer ${serviceRoleKey}`) return jsonResponse({ error: 'Only the scheduler can send digests.' }, 403);
+      const digests = await queueDueDigests(admin);
+      const outbox = digests.queued.length > 0
+        ? await processOutbox(admin, await loadEmailSettings(admin), digests.queued)
+        : { sent: 0, retrying: 0, failed: 0 };
+      return jsonResponse({ ...digests, outbox });
+    }
+
+    const caller = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: authorization } },
+    });
+    const { data: { user } } = await caller.auth.getUser();
+    if (!user) return jsonResponse({ error: 'You must be signed in to preview a digest.' }, 401);
+
+    // Previews are always of the caller's own digest.
+    const options: DigestOptions = { ...request.options, user_id: user.id };
+    const values = await digestMergeValues(admin, options, await loadRecipient(admin, user.id, user.email ?? null));
+    return jsonResponse({ values });
+  } catch (err) {
+    console.error('send-digests failed:', err);
+    return jsonResponse({ error: err instanceof Error ? err.message : String(err) }, 500);
+  }
+});
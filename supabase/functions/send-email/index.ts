@@ -0,0 +1,73 @@
+// Sends every email the app produces through the transport chosen in `public.email_settings`,
+// either directly (`send`) or by working through the durable `email_outbox` queue (`process_outbox`).
+// A pg_cron job runs `process_outbox` every minute with the service role key; open tabs also run it as a fast path.
+// API keys and SMTP passwords are function secrets (RESEND_API_KEY, SMTP_PASSWORD), so they never reach the browser.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getTransport, loadEmailSettings, type EmailMessage, type EmailTransportName } from '../_shared/emailTransports.ts';
+import { processOutbox } from '../_shared/outbox.ts';
+
+const TRANSPORTS: EmailTransportName[] = ['resend', 'smtp', 'local'];
+
+type SendEmailRequest =
+  | { action: 'send'; message: EmailMessage }
+  | { action: 'process_outbox'; ids?: string[] }
+  | { action: 'status' };
+
+function validateMessage(message: EmailMessage | undefined): string | null {
+  if (!message) return 'No message was provided.';
+  const to = Array.isArray(message.to) ? message.to : [message.to];
+  if (to.length === 0 || to.some(address => !address?.includes('@'))) return 'Every recipient needs a valid email address.';
+  if (!message.subject?.trim()) return 'The email needs a subject.';
+  if (!message.text?.trim() && !message.html?.trim()) return 'The email needs a body.';
+  return null;
+}
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const authorization = req.headers.get('Authorization') || '';
+  // The pg_cron job calls with the service role key; everyone else must be signed in.
+  const fromScheduler = authorization === `Bearer ${serviceRoleKey}`;
+  let user: { email?: string } | null = null;
+  if (!fromScheduler) {
+    const caller = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: authorization } },
+    });
+    ({ data: { user } } = await caller.auth.getUser());
+    if (!user) return jsonResponse({ error: 'You must be signed in to send email.' }, 401);
+  }
+
+  const admin = createClient(supabaseUrl, serviceRoleKey);
+
+  try {
+    const request = (await req.json()) as SendEmailRequest;
+    if (fromScheduler && request.action !== 'process_outbox') {
+      return jsonResponse({ error: 'The scheduler can only process the outbox.' }, 403);
+    }
+    const settings = await loadEmailSettings(admin);
+
+    if (request.action === 'status') {
+      const problems = Object.fromEntries(TRANSPORTS.map(name => [name, getTransport(name, admin).configurationError(settings)]));
+      return jsonResponse({ transport: settings.transport, problems });
+    }
+
+    if (request.action === 'process_outbox') {
+      return jsonResponse(await processOutbox(admin, settings, request.ids));
+    }
+
+    const invalid = validateMessage(request.message);
+    if (invalid) return jsonResponse({ error: invalid }, 400);
+
+    const transport = getTransport(settings.transport, admin);
+    const problem = transport.configurationError(settings);
+    if (problem) return jsonResponse({ error: problem }, 400);
+
+    return jsonResponse(await transport.send(request.message, settings, user?.email ?? null));
+  } catch (err) {
+    console.error('send-email failed:', err);
+    return jsonResponse({ error: err instanceof Error ? err.message : String(err) }, 500);
+  }
+});
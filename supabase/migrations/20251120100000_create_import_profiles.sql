@@ -0,0 +1,76 @@
+/*
+  # [Feature] Saved Import Mapping Profiles
+  [This migration adds a table of named import mapping profiles so that reports from different reps and vendors can be imported with their own column layouts.]
+
+  ## Query Description: [This operation creates the `public.import_profiles` table and seeds it with the mapping that was previously hard-coded in `schemas/import_mapping.json`. It is a non-destructive, structural change.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.import_profiles
+    - Columns: id, name, description, header_row_index, fields, constants, defaults, dedupe_keys, is_default, created_by, created_at, updated_at
+
+  ## Security Implications:
+  - RLS Status: Enabled
+  - Policy Changes: Yes, authenticated users can read and manage profiles.
+  - Auth Requirements: Authenticated user
+
+  ## Performance Impact:
+  - Indexes: Unique index on lower(name), partial unique index enforcing a single default profile.
+  - Triggers: Added `moddatetime` trigger for `updated_at`.
+  - Estimated Impact: Negligible.
+*/
+
+create extension if not exists moddatetime with schema extensions;
+
+create table if not exists public.import_profiles (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text null,
+  header_row_index integer not null default 0 check (header_row_index >= 0),
+  fields jsonb not null default '{}'::jsonb,
+  constants jsonb not null default '{}'::jsonb,
+  defaults jsonb not null default '{}'::jsonb,
+  dedupe_keys text[] not null default '{patient_name,insurance_primary}',
+  is_default boolean not null default false,
+  created_by uuid null references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_import_profiles_name on public.import_profiles (lower(name));
+create unique index if not exists idx_import_profiles_single_default on public.import_profiles (is_default) where is_default;
+
+drop trigger if exists set_updated_at on public.import_profiles;
+create trigger set_updated_at
+before update on public.import_profiles
+for each row
+execute procedure extensions.moddatetime(updated_at);
+
+alter table public.import_profiles enable row level security;
+
+drop policy if exists "import_profiles_read" on public.import_profiles;
+create policy "import_profiles_read" on public.import_profiles
+for select to authenticated using (true);
+
+drop policy if exists "import_profiles_manage" on public.import_profiles;
+create policy "import_profiles_manage" on public.import_profiles
+for all to authenticated using (true) with check (true);
+
+-- Seed the legacy Open Order Report mapping as the default profile.
+insert into public.import_profiles (name, description, header_row_index, fields, constants, defaults, dedupe_keys, is_default)
+values (
+  'Open Order Report',
+  'Legacy mapping from schemas/import_mapping.json.',
+  1,
+  '{"Name":"chair_type","First Item":"accessories","Primary Insurance Name":"insurance_primary","Client Name":"patient_name"}'::jsonb,
+  '{"rep_name":"Kristin Segal","import_source":"Open Order Report"}'::jsonb,
+  '{"workflow_stage":"Referral Received","status":"Pending Intake"}'::jsonb,
+  '{patient_name,insurance_primary}',
+  true
+)
+on conflict do nothing;
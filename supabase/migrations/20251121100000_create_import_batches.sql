@@ -0,0 +1,126 @@
+/*
+  # [Feature] Import Batches with Rollback
+  [Records every report import as a batch with the records it created or updated, so a bad spreadsheet can be undone.]
+
+  ## Query Description: [This operation creates `public.import_batches` and `public.import_batch_items`, plus the `rollback_import_batch` function. Rollback restores the before-image of every updated record and deletes every record the batch created, in a single transaction. The function itself is destructive for the rows a batch created.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Medium"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.import_batches
+    - Columns: id, file_name, profile_id, profile_name, rep_name, created_by, created_by_email, created_at, status, imported_count, updated_count, skipped_count, rolled_back_at, rolled_back_by
+  - Table: public.import_batch_items
+    - Columns: id, batch_id, entity, record_id, action, before, after, created_at
+  - Function: public.rollback_import_batch(p_batch_id uuid)
+
+  ## Security Implications:
+  - RLS Status: Enabled on both tables.
+  - Policy Changes: Yes, authenticated users can read and write batches.
+  - Auth Requirements: Authenticated user. The rollback function runs with the invoker's permissions.
+
+  ## Performance Impact:
+  - Indexes: Added on import_batch_items(batch_id) and import_batches(created_at desc).
+  - Triggers: None.
+  - Estimated Impact: Low.
+*/
+
+create table if not exists public.import_batches (
+  id uuid primary key default gen_random_uuid(),
+  file_name text not null,
+  profile_id uuid null references public.import_profiles(id) on delete set null,
+  profile_name text null,
+  rep_name text null,
+  created_by uuid null references public.profiles(id) on delete set null,
+  created_by_email text null,
+  created_at timestamptz not null default now(),
+  status text not null default 'applied' check (status in ('applied', 'rolled_back')),
+  imported_count integer not null default 0,
+  updated_count integer not null default 0,
+  skipped_count integer not null default 0,
+  rolled_back_at timestamptz null,
+  rolled_back_by text null
+);
+
+create table if not exists public.import_batch_items (
+  id uuid primary key default gen_random_uuid(),
+  batch_id uuid not null references public.import_batches(id) on delete cascade,
+  entity text not null check (entity in ('patient', 'order', 'equipment')),
+  record_id uuid not null,
+  action text not null check (action in ('created', 'updated')),
+  before jsonb null,
+  after jsonb null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_import_batches_created_at on public.import_batches (created_at desc);
+create index if not exists idx_import_batch_items_batch on public.import_batch_items (batch_id);
+
+alter table public.import_batches enable row level security;
+alter table public.import_batch_items enable row level security;
+
+drop policy if exists "import_batches_all" on public.import_batches;
+create policy "import_batches_all" on public.import_batches
+for all to authenticated using (true) with check (true);
+
+drop policy if exists "import_batch_items_all" on public.import_batch_items;
+create policy "import_batch_items_all" on public.import_batch_items
+for all to authenticated using (true) with check (true);
+
+create or replace function public.rollback_import_batch(p_batch_id uuid, p_rolled_back_by text default null)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_status text;
+  v_item record;
+  v_table text;
+  v_cols text;
+  v_vals text;
+begin
+  select status into v_status from public.import_batches where id = p_batch_id for update;
+  if v_status is null then
+    raise exception 'Import batch % not found', p_batch_id;
+  end if;
+  if v_status = 'rolled_back' then
+    raise exception 'Import batch % has already been rolled back', p_batch_id;
+  end if;
+
+  -- 1. Restore before-images of updated records, newest first.
+  for v_item in
+    select * from public.import_batch_items
+    where batch_id = p_batch_id and action = 'updated' and before is not null and before <> '{}'::jsonb
+    order by created_at desc
+  loop
+    v_table := case v_item.entity when 'patient' then 'patients' when 'order' then 'orders' when 'equipment' then 'equipment' end;
+    select string_agg(quote_ident(k), ', '), string_agg('r.' || quote_ident(k), ', ')
+      into v_cols, v_vals
+      from jsonb_object_keys(v_item.before) as k;
+    execute format(
+      'update public.%I t set (%s) = (select %s from jsonb_populate_record(null::public.%I, $1) r) where t.id = $2',
+      v_table, v_cols, v_vals, v_table
+    ) using v_item.before, v_item.record_id;
+  end loop;
+
+  -- 2. Delete created records, children before parents.
+  delete from public.equipment
+    where id in (select record_id from public.import_batch_items where batch_id = p_batch_id and entity = 'equipment' and action = 'created');
+  delete from public.workflow_history
+    where order_id in (select record_id from public.import_batch_items where batch_id = p_batch_id and entity = 'order' and action = 'created');
+  delete from public.orders
+    where id in (select record_id from public.import_batch_items where batch_id = p_batch_id and entity = 'order' and action = 'created');
+  delete from public.patients
+    where id in (select record_id from public.import_batch_items where batch_id = p_batch_id and entity = 'patient' and action = 'created');
+
+  update public.import_batches
+    set status = 'rolled_back', rolled_back_at = now(), rolled_back_by = p_rolled_back_by
+    where id = p_batch_id;
+end;
+$$;
+
+grant execute on function public.rollback_import_batch(uuid, text) to authenticated;
@@ -0,0 +1,79 @@
+/*
+  # [Feature] Fuzzy Patient Matching for Imports
+  [Adds insurance provider aliases and a trigram-based candidate lookup so imports can match "Smith, John" to "John Smith" and "UHC" to "UNITEDHEALTHCARE".]
+
+  ## Query Description: [This operation creates the `public.insurance_provider_aliases` table, seeds a few common payer abbreviations for providers that already exist, and adds the `find_patient_match_candidates` function. It is non-destructive.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.insurance_provider_aliases
+    - Columns: id, provider_id, alias, created_at
+  - Function: public.find_patient_match_candidates(p_names text[], p_threshold real)
+
+  ## Security Implications:
+  - RLS Status: Enabled on the new table.
+  - Policy Changes: Yes, authenticated users can read and manage aliases.
+  - Auth Requirements: Authenticated user. The function runs with the invoker's permissions.
+
+  ## Performance Impact:
+  - Indexes: Unique index on upper(alias). The lookup uses the existing `idx_patients_name_trgm` index.
+  - Triggers: None.
+  - Estimated Impact: Low.
+*/
+
+create extension if not exists pg_trgm with schema extensions;
+
+create table if not exists public.insurance_provider_aliases (
+  id uuid primary key default gen_random_uuid(),
+  provider_id uuid not null references public.insurance_providers(id) on delete cascade,
+  alias text not null,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_insurance_provider_aliases_alias on public.insurance_provider_aliases (upper(trim(alias)));
+create index if not exists idx_insurance_provider_aliases_provider on public.insurance_provider_aliases (provider_id);
+
+alter table public.insurance_provider_aliases enable row level security;
+
+drop policy if exists "insurance_aliases_read" on public.insurance_provider_aliases;
+create policy "insurance_aliases_read" on public.insurance_provider_aliases
+for select to authenticated using (true);
+
+drop policy if exists "insurance_aliases_manage" on public.insurance_provider_aliases;
+create policy "insurance_aliases_manage" on public.insurance_provider_aliases
+for all to authenticated using (true) with check (true);
+
+-- Seed common abbreviations where the canonical provider already exists.
+insert into public.insurance_provider_aliases (provider_id, alias)
+select ip.id, seed.alias
+from (values
+  ('UNITEDHEALTHCARE', 'UHC'),
+  ('UNITEDHEALTHCARE', 'UNITED HEALTHCARE'),
+  ('UNITEDHEALTHCARE', 'UNITED HEALTH CARE'),
+  ('BLUE CROSS BLUE SHIELD', 'BCBS'),
+  ('MEDICARE', 'MCR'),
+  ('MEDICAID', 'MCD')
+) as seed(provider_name, alias)
+join public.insurance_providers ip on ip.name = seed.provider_name
+on conflict do nothing;
+
+create or replace function public.find_patient_match_candidates(p_names text[], p_threshold real default 0.3)
+returns setof public.patients
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  select distinct p.*
+  from public.patients p
+  join unnest(p_names) as n(name)
+    on similarity(lower(p.name), lower(n.name)) >= p_threshold
+  where coalesce(p.archived, false) = false;
+$$;
+
+grant execute on function public.find_patient_match_candidates(text[], real) to authenticated;
@@ -0,0 +1,34 @@
+/*
+  # [Feature] Stage Gate Overrides
+  [Records when an admin moves a referral forward even though the stage's exit criteria are not met.]
+
+  ## Query Description: [This operation adds two nullable columns to `public.workflow_history` holding the override reason and the list of requirements that were missing at the time. Existing rows are unaffected.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.workflow_history
+    - Added Columns: override_reason (text), override_missing (jsonb)
+
+  ## Security Implications:
+  - RLS Status: Unchanged.
+  - Policy Changes: No.
+  - Auth Requirements: None.
+
+  ## Performance Impact:
+  - Indexes: Partial index on overridden transitions.
+  - Triggers: None.
+  - Estimated Impact: Low.
+*/
+
+alter table public.workflow_history
+  add column if not exists override_reason text,
+  add column if not exists override_missing jsonb;
+
+create index if not exists idx_workflow_history_overrides
+  on public.workflow_history (changed_at desc)
+  where override_reason is not null;
@@ -0,0 +1,38 @@
+/*
+  # [Feature] Stage Sub-Status History
+  [Tracks changes to an order's stage-specific status (e.g. PAR "Submitted" -> "Approved") alongside stage changes.]
+
+  ## Query Description: [This operation adds nullable status columns to `public.workflow_history` and `public.patient_notes` so status changes are logged the same way stage changes are. Existing rows are unaffected.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.workflow_history
+    - Added Columns: previous_status (text), new_status (text)
+  - Table: public.patient_notes
+    - Added Columns: status_from (text), status_to (text)
+
+  ## Security Implications:
+  - RLS Status: Unchanged.
+  - Policy Changes: No.
+  - Auth Requirements: None.
+
+  ## Performance Impact:
+  - Indexes: Added on orders(workflow_stage, status) for the stage + status filter.
+  - Triggers: None.
+  - Estimated Impact: Low.
+*/
+
+alter table public.workflow_history
+  add column if not exists previous_status text,
+  add column if not exists new_status text;
+
+alter table public.patient_notes
+  add column if not exists status_from text,
+  add column if not exists status_to text;
+
+create index if not exists idx_orders_stage_status on public.orders (workflow_stage, status);
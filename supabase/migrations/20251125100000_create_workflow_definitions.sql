@@ -0,0 +1,363 @@
+/*
+  # [Feature] Versioned Workflow Definitions
+  [Moves the pipeline definition from the bundled workflow.json into the database so admins can edit it without a deploy. Every published edit becomes a new version, and each order records the version it follows.]
+
+  ## Query Description: [This operation creates the `public.workflow_definitions` table and seeds version 1 from the current workflow.json. It adds `workflow_version` to `public.orders`, backfills existing orders to version 1 and stamps new orders with the active version. It also adds `publish_workflow_definition` and a version-aware `is_backward` overload. Existing data is preserved.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Medium"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.workflow_definitions
+    - Columns: id, version, definition, is_active, notes, created_by, created_at
+  - Table: public.orders
+    - Added Columns: workflow_version (int)
+  - Function: public.publish_workflow_definition(p_definition jsonb, p_notes text)
+  - Function: public.is_backward(from_stage text, to_stage text, p_version int)
+  - Trigger: set_order_workflow_version on public.orders
+
+  ## Security Implications:
+  - RLS Status: Enabled on the new table.
+  - Policy Changes: Yes, authenticated users can read definitions and publish new versions.
+  - Auth Requirements: Authenticated user. Functions run with the invoker's permissions.
+
+  ## Performance Impact:
+  - Indexes: Unique index on version and a partial unique index guaranteeing a single active version.
+  - Triggers: A before-insert trigger on orders.
+  - Estimated Impact: Low.
+*/
+
+create table if not exists public.workflow_definitions (
+  id uuid primary key default gen_random_uuid(),
+  version int not null unique,
+  definition jsonb not null,
+  is_active boolean not null default false,
+  notes text,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_workflow_definitions_active
+  on public.workflow_definitions (is_active)
+  where is_active;
+
+alter table public.workflow_definitions enable row level security;
+
+create policy "Authenticated users can read workflow definitions"
+on public.workflow_definitions for select
+to authenticated
+using (true);
+
+create policy "Authenticated users can publish workflow definitions"
+on public.workflow_definitions for insert
+to authenticated
+with check (true);
+
+create policy "Authenticated users can update workflow definitions"
+on public.workflow_definitions for update
+to authenticated
+using (true);
+
+-- Version 1 is the workflow.json that shipped with the app.
+insert into public.workflow_definitions (version, definition, is_active, notes, created_by)
+values (1, '{
+  "workflow": [
+    {
+      "stage": "Referral Received",
+      "target_days": 2,
+      "ui_section": "Referral Tab",
+      "fields": [
+        "rep_name",
+        "patient_name",
+        "insurance_primary",
+        "chair_type",
+        "accessories",
+        "referral_date",
+        "notes"
+      ],
+      "required_docs": [
+        "referral_form",
+        "rx"
+      ],
+      "status": [
+        "Pending Intake",
+        "Duplicate",
+        "Archived"
+      ]
+    },
+    {
+      "stage": "Patient Intake & Demographics",
+      "target_days": 3,
+      "ui_section": "Patient Info Tab",
+      "fields": [
+        "patient_name",
+        "dob",
+        "address",
+        "insurance_primary",
+        "insurance_secondary",
+        "doctor",
+        "pcp",
+        "diagnosis",
+        "clinical_notes"
+      ],
+      "required_docs": [
+        "face_sheet",
+        "insurance_card"
+      ],
+      "status": [
+        "In Progress",
+        "Missing Info"
+      ]
+    },
+    {
+      "stage": "Insurance Verification",
+      "target_days": 2,
+      "ui_section": "Insurance Tab",
+      "fields": [
+        "plan_type",
+        "copay",
+        "deductible",
+        "verified_by",
+        "verification_date"
+      ],
+      "required_docs": [
+        "aor_form"
+      ],
+      "status": [
+        "Verified",
+        "Pending",
+        "Denied"
+      ]
+    },
+    {
+      "stage": "Clinical Review",
+      "target_days": 5,
+      "ui_section": "Clinical Tab",
+      "fields": [
+        "dx_code",
+        "hcpcs_code",
+        "reviewer",
+        "review_notes"
+      ],
+      "required_docs": [
+        "pt_eval",
+        "f2f_note"
+      ],
+      "status": [
+        "Reviewed",
+        "Needs Info"
+      ]
+    },
+    {
+      "stage": "ATP / PT Assessment",
+      "target_days": 7,
+      "ui_section": "Assessment Tab",
+      "fields": [
+        "atp_name",
+        "assessment_date",
+        "assessment_result",
+        "assessment_notes"
+      ],
+      "required_docs": [
+        "atp_eval_form"
+      ],
+      "status": [
+        "Scheduled",
+        "Completed",
+        "Rescheduled"
+      ]
+    },
+    {
+      "stage": "Documentation Verification",
+      "target_days": 3,
+      "ui_section": "Documents Tab",
+      "fields": [
+        "f2f_note",
+        "pt_eval",
+        "swo",
+        "dpd",
+        "telehealth_form",
+        "aor_form"
+      ],
+      "required_docs": [
+        "f2f_note",
+        "pt_eval",
+        "swo",
+        "dpd",
+        "telehealth_form",
+        "aor_form"
+      ],
+      "status": [
+        "Complete",
+        "Missing",
+        "Flagged"
+      ]
+    },
+    {
+      "stage": "Preauthorization (PAR)",
+      "target_days": 10,
+      "ui_section": "Preauth Tab",
+      "fields": [
+        "payer_name",
+        "submission_date",
+        "confirmation_number",
+        "auth_status"
+      ],
+      "required_docs": [
+        "par_cover",
+        "submission_log"
+      ],
+      "status": [
+        "Submitted",
+        "Approved",
+        "Denied"
+      ]
+    },
+    {
+      "stage": "Vendor / Order Processing",
+      "target_days": 5,
+      "ui_section": "Vendor Tab",
+      "fields": [
+        "vendor_name",
+        "model",
+        "po_number",
+        "eta",
+        "serial_number"
+      ],
+      "required_docs": [
+        "vendor_quote",
+        "purchase_order"
+      ],
+      "status": [
+        "Ordered",
+        "Backordered",
+        "Delivered"
+      ]
+    },
+    {
+      "stage": "Delivery & Billing",
+      "target_days": 7,
+      "ui_section": "Delivery Tab",
+      "fields": [
+        "delivery_date",
+        "technician",
+        "claim_number",
+        "billing_date"
+      ],
+      "required_docs": [
+        "pod",
+        "delivery_ticket"
+      ],
+      "status": [
+        "Delivered",
+        "Billed",
+        "Paid"
+      ]
+    },
+    {
+      "stage": "Post-Delivery Follow-up / Archive",
+      "target_days": 14,
+      "ui_section": "Follow-Up Tab",
+      "fields": [
+        "followup_date",
+        "contact_name",
+        "followup_result",
+        "archive_flag"
+      ],
+      "required_docs": [
+        "audit_checklist"
+      ],
+      "status": [
+        "Closed",
+        "Audit Ready"
+      ]
+    }
+  ]
+}'::jsonb, true, 'Initial definition imported from workflow.json', 'System')
+on conflict (version) do nothing;
+
+alter table public.orders
+  add column if not exists workflow_version int references public.workflow_definitions(version);
+
+update public.orders set workflow_version = 1 where workflow_version is null;
+
+create or replace function public.set_order_workflow_version()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if new.workflow_version is null then
+    select version into new.workflow_version
+    from public.workflow_definitions
+    where is_active;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_order_workflow_version on public.orders;
+create trigger set_order_workflow_version
+before insert on public.orders
+for each row
+execute function public.set_order_workflow_version();
+
+create or replace function public.publish_workflow_definition(p_definition jsonb, p_notes text default null)
+returns public.workflow_definitions
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_row public.workflow_definitions;
+begin
+  update public.workflow_definitions set is_active = false where is_active;
+
+  insert into public.workflow_definitions (version, definition, is_active, notes, created_by)
+  values (
+    (select coalesce(max(version), 0) + 1 from public.workflow_definitions),
+    p_definition,
+    true,
+    p_notes,
+    coalesce(auth.jwt() ->> 'email', 'System')
+  )
+  returning * into v_row;
+
+  return v_row;
+end;
+$$;
+
+create or replace function public.is_backward(from_stage text, to_stage text, p_version int)
+returns boolean
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  stages text[];
+  from_idx int;
+  to_idx int;
+begin
+  select array_agg(s ->> 'stage' order by ord)
+  into stages
+  from public.workflow_definitions d,
+       jsonb_array_elements(d.definition -> 'workflow') with ordinality as t(s, ord)
+  where d.version = p_version;
+
+  if stages is null then
+    return public.is_backward(from_stage, to_stage);
+  end if;
+
+  from_idx := array_position(stages, from_stage);
+  to_idx := array_position(stages, to_stage);
+  if from_idx is null or to_idx is null then
+    return false;
+  end if;
+  return to_idx < from_idx;
+end;
+$$;
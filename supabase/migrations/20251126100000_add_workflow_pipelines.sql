@@ -0,0 +1,134 @@
+/*
+  # [Feature] Named Workflow Pipelines
+  [Lets several pipelines run side by side, each chosen by an order's case type and optionally its payer. A Repair pipeline without the ATP / PT Assessment stage is seeded alongside the existing Standard pipeline.]
+
+  ## Query Description: [This operation adds pipeline columns to `public.workflow_definitions` and makes the single-active rule apply per pipeline instead of globally. Version numbers stay unique across all pipelines, so `orders.workflow_version` still identifies both the pipeline and its version. `publish_workflow_definition` gains pipeline arguments, and new orders are stamped with the active version of the best matching pipeline. Existing orders keep their version. Existing data is preserved.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Medium"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.workflow_definitions
+    - Added Columns: pipeline (text), name (text), case_types (text[]), payers (text[])
+  - Function: public.publish_workflow_definition(p_definition jsonb, p_notes text, p_pipeline text, p_name text, p_case_types text[], p_payers text[])
+  - Function: public.set_order_workflow_version() (replaced)
+
+  ## Security Implications:
+  - RLS Status: Unchanged.
+  - Policy Changes: No.
+  - Auth Requirements: Authenticated user. Functions run with the invoker's permissions.
+
+  ## Performance Impact:
+  - Indexes: The active-version unique index is rebuilt per pipeline.
+  - Triggers: The order insert trigger now reads the patient's primary insurance.
+  - Estimated Impact: Low.
+*/
+
+alter table public.workflow_definitions
+  add column if not exists pipeline text not null default 'standard',
+  add column if not exists name text not null default 'Standard',
+  add column if not exists case_types text[] not null default '{}',
+  add column if not exists payers text[] not null default '{}';
+
+drop index if exists public.idx_workflow_definitions_active;
+create unique index if not exists idx_workflow_definitions_active
+  on public.workflow_definitions (pipeline)
+  where is_active;
+
+-- Repairs skip the ATP assessment; everything else follows the Standard stages.
+insert into public.workflow_definitions (version, definition, is_active, notes, created_by, pipeline, name, case_types)
+select
+  (select coalesce(max(version), 0) + 1 from public.workflow_definitions),
+  jsonb_build_object('workflow', (
+    select jsonb_agg(s order by ord)
+    from jsonb_array_elements(d.definition -> 'workflow') with ordinality as t(s, ord)
+    where s ->> 'stage' <> 'ATP / PT Assessment'
+  )),
+  true,
+  'Repair pipeline without the ATP / PT Assessment stage',
+  'System',
+  'repair',
+  'Repair',
+  array['Repair']
+from public.workflow_definitions d
+where d.pipeline = 'standard' and d.is_active
+  and not exists (select 1 from public.workflow_definitions where pipeline = 'repair');
+
+drop function if exists public.publish_workflow_definition(jsonb, text);
+
+create or replace function public.publish_workflow_definition(
+  p_definition jsonb,
+  p_notes text default null,
+  p_pipeline text default 'standard',
+  p_name text default null,
+  p_case_types text[] default null,
+  p_payers text[] default null
+)
+returns public.workflow_definitions
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_previous public.workflow_definitions;
+  v_row public.workflow_definitions;
+begin
+  select * into v_previous
+  from public.workflow_definitions
+  where pipeline = p_pipeline and is_active;
+
+  update public.workflow_definitions set is_active = false
+  where pipeline = p_pipeline and is_active;
+
+  insert into public.workflow_definitions (version, definition, is_active, notes, created_by, pipeline, name, case_types, payers)
+  values (
+    (select coalesce(max(version), 0) + 1 from public.workflow_definitions),
+    p_definition,
+    true,
+    p_notes,
+    coalesce(auth.jwt() ->> 'email', 'System'),
+    p_pipeline,
+    coalesce(p_name, v_previous.name, initcap(p_pipeline)),
+    coalesce(p_case_types, v_previous.case_types, '{}'),
+    coalesce(p_payers, v_previous.payers, '{}')
+  )
+  returning * into v_row;
+
+  return v_row;
+end;
+$$;
+
+-- Most specific active pipeline wins: case type and payer, then case type alone,
+-- then a pipeline with no case types, falling back to Standard.
+create or replace function public.set_order_workflow_version()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_payer text;
+begin
+  if new.workflow_version is null then
+    select primary_insurance into v_payer
+    from public.patients
+    where id = new.patient_id;
+
+    select version into new.workflow_version
+    from public.workflow_definitions
+    where is_active
+      and (cardinality(case_types) = 0 or new.case_type = any(case_types))
+      and (cardinality(payers) = 0 or v_payer = any(payers))
+    order by
+      (cardinality(case_types) > 0) desc,
+      (cardinality(payers) > 0) desc,
+      (pipeline = 'standard') desc,
+      version desc
+    limit 1;
+  end if;
+  return new;
+end;
+$$;
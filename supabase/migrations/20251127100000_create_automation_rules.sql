@@ -0,0 +1,169 @@
+/*
+  # [Feature] Automation Rules
+  [Admin-configurable rules that run when an order enters a stage, a denial is logged or a document becomes Complete. Matching rules can set a field, add a note, create a task or queue an email, and every execution is logged.]
+
+  ## Query Description: [This operation creates `public.automation_rules`, the `public.automation_runs` execution log, `public.order_tasks` for follow-up tasks, and `public.email_outbox` for emails queued by rules. Two example rules are seeded disabled. No existing data is modified.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.automation_rules
+    - Columns: id, name, description, is_enabled, trigger_type, trigger_value, conditions, actions, created_by, created_at, updated_at
+  - Table: public.automation_runs
+    - Columns: id, rule_id, rule_name, trigger_type, trigger_value, order_id, patient_id, status, actions_taken, error, triggered_by, created_at
+  - Table: public.order_tasks
+    - Columns: id, order_id, patient_id, title, due_date, assigned_to, is_done, completed_at, completed_by, rule_id, created_by, created_at
+  - Table: public.email_outbox
+    - Columns: id, to_address, subject, body, status, order_id, patient_id, rule_id, error, created_by, created_at, sent_at
+
+  ## Security Implications:
+  - RLS Status: Enabled on all new tables.
+  - Policy Changes: Yes, authenticated users can read and write rules, tasks and queued emails, and read and insert run logs.
+  - Auth Requirements: Authenticated user.
+
+  ## Performance Impact:
+  - Indexes: Rules by trigger, runs by rule/order and date, open tasks by order, outbox by status.
+  - Triggers: Keeps automation_rules.updated_at current.
+  - Estimated Impact: Low.
+*/
+
+create table if not exists public.automation_rules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  is_enabled boolean not null default true,
+  trigger_type text not null check (trigger_type in ('stage_entered', 'denial_logged', 'document_completed')),
+  -- Stage name or document key the trigger is limited to; null matches any.
+  trigger_value text,
+  conditions jsonb not null default '[]'::jsonb,
+  actions jsonb not null default '[]'::jsonb,
+  created_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_automation_rules_trigger
+  on public.automation_rules (trigger_type)
+  where is_enabled;
+
+drop trigger if exists handle_updated_at on public.automation_rules;
+create trigger handle_updated_at
+before update on public.automation_rules
+for each row
+execute procedure moddatetime(updated_at);
+
+create table if not exists public.automation_runs (
+  id uuid primary key default gen_random_uuid(),
+  rule_id uuid references public.automation_rules(id) on delete set null,
+  rule_name text not null,
+  trigger_type text not null,
+  trigger_value text,
+  order_id uuid references public.orders(id) on delete set null,
+  patient_id uuid references public.patients(id) on delete set null,
+  status text not null check (status in ('success', 'failed')),
+  actions_taken jsonb not null default '[]'::jsonb,
+  error text,
+  triggered_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_automation_runs_created_at on public.automation_runs (created_at desc);
+create index if not exists idx_automation_runs_rule on public.automation_runs (rule_id);
+create index if not exists idx_automation_runs_order on public.automation_runs (order_id);
+
+create table if not exists public.order_tasks (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders(id) on delete cascade,
+  patient_id uuid references public.patients(id) on delete cascade,
+  title text not null,
+  due_date date,
+  assigned_to text,
+  is_done boolean not null default false,
+  completed_at timestamptz,
+  completed_by text,
+  rule_id uuid references public.automation_rules(id) on delete set null,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_order_tasks_open on public.order_tasks (order_id) where not is_done;
+
+create table if not exists public.email_outbox (
+  id uuid primary key default gen_random_uuid(),
+  to_address text not null,
+  subject text not null,
+  body text not null,
+  status text not null default 'queued' check (status in ('queued', 'sent', 'failed', 'cancelled')),
+  order_id uuid references public.orders(id) on delete set null,
+  patient_id uuid references public.patients(id) on delete set null,
+  rule_id uuid references public.automation_rules(id) on delete set null,
+  error text,
+  created_by text,
+  created_at timestamptz not null default now(),
+  sent_at timestamptz
+);
+
+create index if not exists idx_email_outbox_status on public.email_outbox (status, created_at);
+
+alter table public.automation_rules enable row level security;
+alter table public.automation_runs enable row level security;
+alter table public.order_tasks enable row level security;
+alter table public.email_outbox enable row level security;
+
+create policy "Authenticated users can manage automation rules"
+on public.automation_rules for all
+to authenticated
+using (true)
+with check (true);
+
+create policy "Authenticated users can read automation runs"
+on public.automation_runs for select
+to authenticated
+using (true);
+
+create policy "Authenticated users can log automation runs"
+on public.automation_runs for insert
+to authenticated
+with check (true);
+
+create policy "Authenticated users can manage order tasks"
+on public.order_tasks for all
+to authenticated
+using (true)
+with check (true);
+
+create policy "Authenticated users can manage the email outbox"
+on public.email_outbox for all
+to authenticated
+using (true)
+with check (true);
+
+-- Examples of the side-effects that used to be hand-coded; admins can enable or edit them.
+insert into public.automation_rules (name, description, is_enabled, trigger_type, trigger_value, conditions, actions, created_by)
+select * from (values
+  (
+    'Flag referral red on denial',
+    'Replaces the manual stoplight prompt after logging a denial.',
+    false,
+    'denial_logged',
+    null::text,
+    '[]'::jsonb,
+    '[{"type": "set_field", "field": "stoplight_status", "value": "red"}, {"type": "add_note", "body": "Stoplight set to red after a denial was logged."}]'::jsonb,
+    'System'
+  ),
+  (
+    'Follow up on PAR submission',
+    'Creates a follow-up task when a referral enters PAR.',
+    false,
+    'stage_entered',
+    'Preauthorization (PAR)',
+    '[]'::jsonb,
+    '[{"type": "create_task", "title": "Check PAR status for {{patient_name}}", "due_in_days": 5}]'::jsonb,
+    'System'
+  )
+) as seed (name, description, is_enabled, trigger_type, trigger_value, conditions, actions, created_by)
+where not exists (select 1 from public.automation_rules);
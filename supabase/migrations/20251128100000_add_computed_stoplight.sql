@@ -0,0 +1,100 @@
+/*
+  # [Feature] Computed Stoplight Status
+  [The stoplight colour is now computed from configurable criteria: SLA breach, open denials, documents missing past N days and recent regressions. Users can pin a manual override until an expiry date, and every colour change is recorded.]
+
+  ## Query Description: [This operation creates the single-row `public.stoplight_criteria` table with default thresholds and the `public.stoplight_history` table. It adds the reason and override columns to `public.orders`. The disabled example automation rule that set the stoplight on denials is removed, because open denials are now a stoplight criterion. Existing stoplight colours are kept until they are next recomputed.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.stoplight_criteria
+    - Columns: id, sla_breach_color, sla_at_risk_color, open_denial_color, missing_docs_days, missing_docs_color, regression_days, regression_color, updated_by, updated_at
+  - Table: public.stoplight_history
+    - Columns: id, order_id, patient_id, from_color, to_color, source, reason, changed_by, changed_at
+  - Table: public.orders
+    - Added Columns: stoplight_reason, stoplight_override, stoplight_override_until, stoplight_override_reason, stoplight_override_by
+
+  ## Security Implications:
+  - RLS Status: Enabled on the new tables.
+  - Policy Changes: Yes, authenticated users can read and update the criteria, and read and insert history.
+  - Auth Requirements: Authenticated user.
+
+  ## Performance Impact:
+  - Indexes: History by order and by change date.
+  - Triggers: Keeps stoplight_criteria.updated_at current.
+  - Estimated Impact: Low.
+*/
+
+create table if not exists public.stoplight_criteria (
+  id int primary key default 1 check (id = 1),
+  -- Each colour column is the colour a referral turns when the criterion is met; null turns the criterion off.
+  sla_breach_color text default 'red' check (sla_breach_color in ('yellow', 'red')),
+  sla_at_risk_color text default 'yellow' check (sla_at_risk_color in ('yellow', 'red')),
+  open_denial_color text default 'red' check (open_denial_color in ('yellow', 'red')),
+  missing_docs_days int not null default 14 check (missing_docs_days >= 0),
+  missing_docs_color text default 'yellow' check (missing_docs_color in ('yellow', 'red')),
+  regression_days int not null default 30 check (regression_days > 0),
+  regression_color text default 'yellow' check (regression_color in ('yellow', 'red')),
+  updated_by text,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.stoplight_criteria (id) values (1) on conflict (id) do nothing;
+
+drop trigger if exists handle_updated_at on public.stoplight_criteria;
+create trigger handle_updated_at
+before update on public.stoplight_criteria
+for each row
+execute procedure moddatetime(updated_at);
+
+create table if not exists public.stoplight_history (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders(id) on delete cascade,
+  patient_id uuid references public.patients(id) on delete cascade,
+  from_color text,
+  to_color text not null check (to_color in ('green', 'yellow', 'red')),
+  source text not null check (source in ('computed', 'override', 'override_expired')),
+  reason text,
+  changed_by text,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists idx_stoplight_history_order on public.stoplight_history (order_id, changed_at desc);
+create index if not exists idx_stoplight_history_changed_at on public.stoplight_history (changed_at desc);
+
+alter table public.orders
+  add column if not exists stoplight_reason text,
+  add column if not exists stoplight_override text check (stoplight_override in ('green', 'yellow', 'red')),
+  add column if not exists stoplight_override_until timestamptz,
+  add column if not exists stoplight_override_reason text,
+  add column if not exists stoplight_override_by text;
+
+alter table public.stoplight_criteria enable row level security;
+alter table public.stoplight_history enable row level security;
+
+create policy "Authenticated users can read stoplight criteria"
+on public.stoplight_criteria for select
+to authenticated
+using (true);
+
+create policy "Authenticated users can update stoplight criteria"
+on public.stoplight_criteria for update
+to authenticated
+using (true);
+
+create policy "Authenticated users can read stoplight history"
+on public.stoplight_history for select
+to authenticated
+using (true);
+
+create policy "Authenticated users can record stoplight history"
+on public.stoplight_history for insert
+to authenticated
+with check (true);
+
+delete from public.automation_rules
+where name = 'Flag referral red on denial' and created_by = 'System' and not is_enabled;
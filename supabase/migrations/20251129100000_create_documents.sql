@@ -0,0 +1,73 @@
+/*
+  # [Feature] Document File Storage
+  [Files for the document checklist. Users upload a file against a document key on an order. The upload marks the document Pending until someone verifies the file, which marks it Complete and records who verified it and when.]
+
+  ## Query Description: [This operation creates the `public.documents` table, following the sketch in `schemas/data_model.json`, and a private `documents` storage bucket that only authenticated users can read and write. No existing data is modified.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.documents
+    - Columns: id, order_id, patient_id, doc_key, file_name, file_path, mime_type, size_bytes, verified, verified_by, verified_at, uploaded_by, uploaded_at
+  - Storage Bucket: documents (private)
+
+  ## Security Implications:
+  - RLS Status: Enabled.
+  - Policy Changes: Yes, authenticated users can manage document rows and the files in the `documents` bucket.
+  - Auth Requirements: Authenticated user.
+
+  ## Performance Impact:
+  - Indexes: Documents by order and doc key.
+  - Triggers: None.
+  - Estimated Impact: Low.
+*/
+
+create table if not exists public.documents (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders(id) on delete cascade,
+  patient_id uuid references public.patients(id) on delete cascade,
+  doc_key text not null,
+  file_name text not null,
+  -- Object path inside the `documents` storage bucket.
+  file_path text not null,
+  mime_type text,
+  size_bytes bigint,
+  verified boolean not null default false,
+  verified_by text,
+  verified_at timestamptz,
+  uploaded_by text,
+  uploaded_at timestamptz not null default now()
+);
+
+create index if not exists idx_documents_order on public.documents (order_id, doc_key);
+
+alter table public.documents enable row level security;
+
+create policy "Authenticated users can manage documents"
+on public.documents for all
+to authenticated
+using (true)
+with check (true);
+
+insert into storage.buckets (id, name, public)
+values ('documents', 'documents', false)
+on conflict (id) do nothing;
+
+create policy "Authenticated users can read document files"
+on storage.objects for select
+to authenticated
+using (bucket_id = 'documents');
+
+create policy "Authenticated users can upload document files"
+on storage.objects for insert
+to authenticated
+with check (bucket_id = 'documents');
+
+create policy "Authenticated users can delete document files"
+on storage.objects for delete
+to authenticated
+using (bucket_id = 'documents');
@@ -0,0 +1,96 @@
+/*
+  # [Feature] Document Validity Windows
+  [Per document type validity rules. A Complete document expires a set number of days after its anchor date: the document's own date, the order date or the F2F date. Expired documents are marked "Expired" so that they no longer count toward PAR.]
+
+  ## Query Description: [This operation creates `public.document_validity_rules` with starting rules for the F2F, SWO and PT evaluation. It adds `orders.document_dates`, a map of document key to the document's date. A trigger stamps today's date when a document becomes Complete, unless the same update sets the date. Existing Complete documents have no date, so they are not expired until a date is entered; the F2F and PT evaluation fall back to the order's F2F and PT eval dates.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.document_validity_rules
+    - Columns: doc_key, valid_days, anchor, warn_days, description, updated_by, updated_at
+  - Table: public.orders
+    - Added Columns: document_dates
+  - Function: public.stamp_document_dates()
+
+  ## Security Implications:
+  - RLS Status: Enabled on the new table.
+  - Policy Changes: Yes, authenticated users can read and manage validity rules.
+  - Auth Requirements: Authenticated user.
+
+  ## Performance Impact:
+  - Indexes: Primary key on doc_key.
+  - Triggers: Stamps document dates on orders; keeps document_validity_rules.updated_at current.
+  - Estimated Impact: Low.
+*/
+
+create table if not exists public.document_validity_rules (
+  -- Matched case-insensitively against the keys in orders.document_status.
+  doc_key text primary key,
+  valid_days int not null check (valid_days > 0),
+  anchor text not null default 'document_date' check (anchor in ('document_date', 'order_date', 'f2f_date')),
+  -- How many days before expiry a document shows as expiring.
+  warn_days int not null default 30 check (warn_days >= 0),
+  description text,
+  updated_by text,
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists handle_updated_at on public.document_validity_rules;
+create trigger handle_updated_at
+before update on public.document_validity_rules
+for each row
+execute procedure moddatetime(updated_at);
+
+alter table public.document_validity_rules enable row level security;
+
+create policy "Authenticated users can manage document validity rules"
+on public.document_validity_rules for all
+to authenticated
+using (true)
+with check (true);
+
+insert into public.document_validity_rules (doc_key, valid_days, anchor, warn_days, description)
+values
+  ('f2f', 180, 'document_date', 30, 'Face-to-face visit must be within 6 months.'),
+  ('swo', 365, 'document_date', 30, 'Standard written order is valid for a year.'),
+  ('pt_eval', 180, 'document_date', 30, 'PT evaluation must be within 6 months.')
+on conflict (doc_key) do nothing;
+
+alter table public.orders
+  add column if not exists document_dates jsonb not null default '{}'::jsonb;
+
+create or replace function public.stamp_document_dates()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_key text;
+begin
+  new.document_dates := coalesce(new.document_dates, '{}'::jsonb);
+  for v_key in select jsonb_object_keys(coalesce(new.document_status, '{}'::jsonb)) loop
+    if new.document_status ->> v_key = 'Complete'
+      and (tg_op = 'INSERT' or coalesce(old.document_status ->> v_key, '') <> 'Complete')
+      and (
+        (tg_op = 'INSERT' and new.document_dates ->> v_key is null)
+        or (tg_op = 'UPDATE' and new.document_dates ->> v_key is not distinct from old.document_dates ->> v_key)
+      )
+    then
+      new.document_dates := new.document_dates || jsonb_build_object(v_key, current_date);
+    end if;
+  end loop;
+  return new;
+end;
+$$;
+
+drop trigger if exists stamp_document_dates on public.orders;
+create trigger stamp_document_dates
+before insert or update of document_status on public.orders
+for each row
+execute procedure public.stamp_document_dates();
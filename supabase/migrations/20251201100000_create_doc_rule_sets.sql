@@ -0,0 +1,70 @@
+/*
+  # [Feature] Documentation Rule Sets
+  [Documentation requirements keyed by insurance provider, case type and equipment category, replacing the document templates that were hard-coded in the app. A referral requires the documents of every active rule set it matches.]
+
+  ## Query Description: [This operation creates `public.doc_rule_sets`. A null provider, case type or equipment category matches any referral. It seeds a Standard set that applies to every referral, an AOR set for providers whose name contains "UHC" or "UnitedHealth", and a clinical set for power wheelchairs. Existing patients' required documents are not changed.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.doc_rule_sets
+    - Columns: id, name, insurance_provider_id, case_type, equipment_category, doc_keys, is_active, updated_by, created_at, updated_at
+
+  ## Security Implications:
+  - RLS Status: Enabled on the new table.
+  - Policy Changes: Yes, authenticated users can read and manage rule sets.
+  - Auth Requirements: Authenticated user.
+
+  ## Performance Impact:
+  - Indexes: Added on insurance_provider_id.
+  - Triggers: Keeps updated_at current.
+  - Estimated Impact: Low.
+*/
+
+create table if not exists public.doc_rule_sets (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  -- Null matches any provider, case type or equipment category.
+  insurance_provider_id uuid references public.insurance_providers(id) on delete cascade,
+  case_type text,
+  equipment_category text,
+  doc_keys text[] not null default '{}',
+  is_active boolean not null default true,
+  updated_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists doc_rule_sets_insurance_provider_id_idx on public.doc_rule_sets (insurance_provider_id);
+
+drop trigger if exists handle_updated_at on public.doc_rule_sets;
+create trigger handle_updated_at
+before update on public.doc_rule_sets
+for each row
+execute procedure moddatetime(updated_at);
+
+alter table public.doc_rule_sets enable row level security;
+
+create policy "Authenticated users can manage documentation rule sets"
+on public.doc_rule_sets for all
+to authenticated
+using (true)
+with check (true);
+
+insert into public.doc_rule_sets (name, doc_keys)
+select 'Standard', array['f2f', 'pt_eval', 'swo', 'dpd', 'hipaa', 'insurance_card']
+where not exists (select 1 from public.doc_rule_sets);
+
+insert into public.doc_rule_sets (name, insurance_provider_id, doc_keys)
+select 'UHC (Requires AOR)', p.id, array['aor']
+from public.insurance_providers p
+where (p.name ilike '%uhc%' or p.name ilike '%unitedhealth%')
+  and not exists (select 1 from public.doc_rule_sets r where r.insurance_provider_id = p.id);
+
+insert into public.doc_rule_sets (name, equipment_category, doc_keys)
+select 'Power Wheelchair Clinical Packet', 'Power Wheelchair', array['lmn', 'atp_eval', 'home_assessment']
+where not exists (select 1 from public.doc_rule_sets where equipment_category = 'Power Wheelchair');
@@ -0,0 +1,182 @@
+/*
+  # [Data Migration] Canonical Document Keys
+  [Documents were keyed two ways: lowercase keys (`f2f`, `insurance_card`) in the checklists and uppercase or suffixed spellings (`F2F`, `INS_CARD`, `f2f_note`, `aor_form`) from the patient forms, imports and the workflow definition. This rewrites every stored key to the canonical key from the document type registry in src/lib/docMapping.ts.]
+
+  ## Query Description: [This operation adds `canonical_doc_key`, `canonical_doc_keys` and `canonical_doc_map`, then rewrites the document keys stored on patients, orders, documents, validity rules, rule sets, automation rules and workflow definitions. When two spellings of one document carry different statuses the most advanced status wins (Complete, Not Required, Pending, Expired, Missing), and the latest document date is kept. The `stamp_document_dates` trigger is disabled during the rewrite so existing dates are not restamped. Back up before running; the original spellings are not kept.]
+
+  ## Metadata:
+  - Schema-Category: "Data"
+  - Impact-Level: "Medium"
+  - Requires-Backup: true
+  - Reversible: false
+
+  ## Structure Details:
+  - Function: public.canonical_doc_key(text)
+  - Function: public.canonical_doc_keys(text[])
+  - Function: public.canonical_doc_map(jsonb)
+  - Tables updated: patients, orders, documents, document_validity_rules, doc_rule_sets, automation_rules, workflow_definitions
+
+  ## Security Implications:
+  - RLS Status: Unchanged.
+  - Policy Changes: No.
+  - Auth Requirements: None.
+
+  ## Performance Impact:
+  - Indexes: None.
+  - Triggers: stamp_document_dates is disabled for the duration of the rewrite.
+  - Estimated Impact: One pass over patients and orders.
+*/
+
+-- Keep the aliases in step with `docTypes` in src/lib/docMapping.ts.
+create or replace function public.canonical_doc_key(p_key text)
+returns text
+language sql
+immutable
+as $$
+  select case k
+    when 'prescription' then 'rx'
+    when 'f2f_note' then 'f2f'
+    when 'face_to_face' then 'f2f'
+    when 'ins_card' then 'insurance_card'
+    when 'aor_form' then 'aor'
+    when 'tele_consent' then 'telehealth_form'
+    when 'telehealth_consent' then 'telehealth_form'
+    when 'abn' then 'abn_form'
+    when 'atp_eval_form' then 'atp_eval'
+    when 'home_assess' then 'home_assessment'
+    when 'seat_eval' then 'seating_eval'
+    when 'tele_eval' then 'telehealth_eval'
+    when 'fin_hardship' then 'financial_hardship_form'
+    when '6mwt' then 'six_minute_walk'
+    when 'dress_log' then 'dressing_log'
+    when 'photo_consent' then 'wound_photo_consent'
+    when 'wound_photo' then 'wound_photo_consent'
+    when 'insurance_verification' then 'ins_verify'
+    when 'denial' then 'denial_letter'
+    when 'appeal' then 'appeal_packet'
+    when 'proof_of_delivery' then 'pod'
+    when 'del_ticket' then 'delivery_ticket'
+    when 'del_photo' then 'delivery_photo'
+    when 'misc' then 'misc_docs'
+    else k
+  end
+  from (select regexp_replace(lower(btrim(p_key)), '[\s-]+', '_', 'g') as k) normalized;
+$$;
+
+-- Canonical keys for a list, in order and without duplicates.
+create or replace function public.canonical_doc_keys(p_keys text[])
+returns text[]
+language sql
+immutable
+as $$
+  select coalesce(array_agg(key order by first_position), '{}')
+  from (
+    select public.canonical_doc_key(raw) as key, min(position) as first_position
+    from unnest(p_keys) with ordinality as t(raw, position)
+    where coalesce(btrim(raw), '') <> ''
+    group by 1
+  ) keys;
+$$;
+
+-- Re-keys a document_status map, keeping the most advanced status when spellings collide.
+create or replace function public.canonical_doc_map(p_status jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(jsonb_object_agg(key, status), '{}'::jsonb)
+  from (
+    select distinct on (public.canonical_doc_key(e.key))
+      public.canonical_doc_key(e.key) as key,
+      e.value as status
+    from jsonb_each(coalesce(p_status, '{}'::jsonb)) e
+    order by
+      public.canonical_doc_key(e.key),
+      case e.value #>> '{}'
+        when 'Complete' then 1
+        when 'Not Required' then 2
+        when 'Pending' then 3
+        when 'Expired' then 4
+        when 'Missing' then 5
+        else 6
+      end
+  ) merged;
+$$;
+
+update public.patients
+set required_documents = public.canonical_doc_keys(required_documents)
+where required_documents is not null
+  and required_documents is distinct from public.canonical_doc_keys(required_documents);
+
+update public.patients
+set document_status = public.canonical_doc_map(document_status)
+where document_status is not null
+  and document_status is distinct from public.canonical_doc_map(document_status);
+
+alter table public.orders disable trigger stamp_document_dates;
+
+update public.orders
+set document_status = public.canonical_doc_map(document_status)
+where document_status is not null
+  and document_status is distinct from public.canonical_doc_map(document_status);
+
+update public.orders o
+set document_dates = dates.merged
+from (
+  select id, coalesce(jsonb_object_agg(key, latest), '{}'::jsonb) as merged
+  from (
+    select o2.id, public.canonical_doc_key(e.key) as key, max(e.value #>> '{}') as latest
+    from public.orders o2, jsonb_each(o2.document_dates) e
+    group by o2.id, public.canonical_doc_key(e.key)
+  ) per_key
+  group by id
+) dates
+where o.id = dates.id
+  and o.document_dates is distinct from dates.merged;
+
+alter table public.orders enable trigger stamp_document_dates;
+
+update public.documents
+set doc_key = public.canonical_doc_key(doc_key)
+where doc_key <> public.canonical_doc_key(doc_key);
+
+-- A rule under an old spelling is dropped when the canonical key already has one.
+delete from public.document_validity_rules r
+where r.doc_key <> public.canonical_doc_key(r.doc_key)
+  and exists (
+    select 1 from public.document_validity_rules c
+    where c.doc_key = public.canonical_doc_key(r.doc_key)
+  );
+
+update public.document_validity_rules
+set doc_key = public.canonical_doc_key(doc_key)
+where doc_key <> public.canonical_doc_key(doc_key);
+
+update public.doc_rule_sets
+set doc_keys = public.canonical_doc_keys(doc_keys)
+where doc_keys is distinct from public.canonical_doc_keys(doc_keys);
+
+update public.automation_rules
+set trigger_value = public.canonical_doc_key(trigger_value)
+where trigger_type = 'document_completed'
+  and trigger_value is not null
+  and trigger_value <> public.canonical_doc_key(trigger_value);
+
+update public.workflow_definitions w
+set definition = jsonb_set(
+  w.definition,
+  '{workflow}',
+  (
+    select jsonb_agg(
+      case when stage ? 'required_docs' then
+        jsonb_set(stage, '{required_docs}', to_jsonb(public.canonical_doc_keys(array(
+          select jsonb_array_elements_text(stage -> 'required_docs')
+        ))))
+      else stage end
+      order by position
+    )
+    from jsonb_array_elements(w.definition -> 'workflow') with ordinality as s(stage, position)
+  )
+)
+where jsonb_typeof(w.definition -> 'workflow') = 'array'
+  and jsonb_array_length(w.definition -> 'workflow') > 0;
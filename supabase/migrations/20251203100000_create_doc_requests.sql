@@ -0,0 +1,90 @@
+/*
+  # [Feature] Documentation Requests to Physicians
+  [Staff generate a Documentation Request letter with a fax cover sheet listing a referral's missing documents, either for one order or batched into one letter per referring doctor. Each letter sent is recorded against every order it covers.]
+
+  ## Query Description: [This operation creates the single-row `public.practice_settings` table, which holds the letterhead and fax cover details printed on the letters, and the `public.doc_requests` table, which records each request sent for an order. No existing data is changed.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.practice_settings
+    - Columns: id, name, address, phone, fax, email, contact_name, request_due_days, updated_by, updated_at
+  - Table: public.doc_requests
+    - Columns: id, order_id, patient_id, doctor_id, doc_keys, due_date, format, batch_id, sent_by, sent_at
+
+  ## Security Implications:
+  - RLS Status: Enabled on the new tables.
+  - Policy Changes: Yes, authenticated users can read and update the practice settings, and read and insert requests.
+  - Auth Requirements: Authenticated user.
+
+  ## Performance Impact:
+  - Indexes: Requests by order and by doctor.
+  - Triggers: Keeps practice_settings.updated_at current.
+  - Estimated Impact: Low.
+*/
+
+create table if not exists public.practice_settings (
+  id int primary key default 1 check (id = 1),
+  name text not null default 'Patient''s Choice DME',
+  address text,
+  phone text,
+  fax text,
+  email text,
+  contact_name text,
+  -- Days the office is given to return the documents; sets the letter's due date.
+  request_due_days int not null default 7 check (request_due_days > 0),
+  updated_by text,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.practice_settings (id) values (1) on conflict (id) do nothing;
+
+drop trigger if exists handle_updated_at on public.practice_settings;
+create trigger handle_updated_at
+before update on public.practice_settings
+for each row
+execute procedure moddatetime(updated_at);
+
+create table if not exists public.doc_requests (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders(id) on delete cascade,
+  patient_id uuid references public.patients(id) on delete cascade,
+  doctor_id uuid references public.doctors(id) on delete set null,
+  doc_keys text[] not null default '{}',
+  due_date date,
+  format text not null check (format in ('pdf', 'docx')),
+  -- Shared by every order covered by the same letter.
+  batch_id uuid not null default gen_random_uuid(),
+  sent_by text,
+  sent_at timestamptz not null default now()
+);
+
+create index if not exists idx_doc_requests_order on public.doc_requests (order_id, sent_at desc);
+create index if not exists idx_doc_requests_doctor on public.doc_requests (doctor_id, sent_at desc);
+
+alter table public.practice_settings enable row level security;
+alter table public.doc_requests enable row level security;
+
+create policy "Authenticated users can read practice settings"
+on public.practice_settings for select
+to authenticated
+using (true);
+
+create policy "Authenticated users can update practice settings"
+on public.practice_settings for update
+to authenticated
+using (true);
+
+create policy "Authenticated users can read doc requests"
+on public.doc_requests for select
+to authenticated
+using (true);
+
+create policy "Authenticated users can record doc requests"
+on public.doc_requests for insert
+to authenticated
+with check (true);
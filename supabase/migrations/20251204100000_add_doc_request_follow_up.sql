@@ -0,0 +1,86 @@
+/*
+  # [Feature] Documentation Request Follow-up
+  [Tracks each documentation request until the doctor's office returns the documents: how many reminders were sent and when the documents were received. This feeds the Physician Responsiveness view under Manage Doctors.]
+
+  ## Query Description: [This operation adds `reminder_count`, `last_reminded_at` and `received_at` to `public.doc_requests`, and `escalate_after_reminders` to `public.practice_settings`. A trigger on `public.orders` marks a request received once every document it asked for is Complete or Not Required. Existing requests whose documents are already in are marked received now.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.doc_requests
+    - Added Columns: reminder_count, last_reminded_at, received_at
+  - Table: public.practice_settings
+    - Added Columns: escalate_after_reminders
+  - Function: public.mark_doc_requests_received()
+  - Trigger: mark_doc_requests_received on public.orders
+
+  ## Security Implications:
+  - RLS Status: Unchanged.
+  - Policy Changes: Yes, authenticated users can update doc requests to record reminders.
+  - Auth Requirements: Authenticated user.
+
+  ## Performance Impact:
+  - Indexes: Open requests by doctor.
+  - Triggers: Runs when an order's document_status changes; touches only that order's open requests.
+  - Estimated Impact: Low.
+*/
+
+alter table public.doc_requests
+  add column if not exists reminder_count int not null default 0,
+  add column if not exists last_reminded_at timestamptz,
+  add column if not exists received_at timestamptz;
+
+alter table public.practice_settings
+  -- An overdue request is escalated once this many reminders have gone unanswered.
+  add column if not exists escalate_after_reminders int not null default 2 check (escalate_after_reminders >= 0);
+
+create index if not exists idx_doc_requests_open
+  on public.doc_requests (doctor_id)
+  where received_at is null;
+
+create policy "Authenticated users can update doc requests"
+on public.doc_requests for update
+to authenticated
+using (true);
+
+create or replace function public.mark_doc_requests_received()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  update public.doc_requests r
+  set received_at = now()
+  where r.order_id = new.id
+    and r.received_at is null
+    and not exists (
+      select 1
+      from unnest(r.doc_keys) as k(doc_key)
+      where coalesce(new.document_status ->> k.doc_key, '') not in ('Complete', 'Not Required')
+    );
+  return new;
+end;
+$$;
+
+drop trigger if exists mark_doc_requests_received on public.orders;
+create trigger mark_doc_requests_received
+after update of document_status on public.orders
+for each row
+when (new.document_status is distinct from old.document_status)
+execute procedure public.mark_doc_requests_received();
+
+update public.doc_requests r
+set received_at = now()
+from public.orders o
+where o.id = r.order_id
+  and r.received_at is null
+  and not exists (
+    select 1
+    from unnest(r.doc_keys) as k(doc_key)
+    where coalesce(o.document_status ->> k.doc_key, '') not in ('Complete', 'Not Required')
+  );
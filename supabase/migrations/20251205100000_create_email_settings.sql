@@ -0,0 +1,89 @@
+/*
+  # [Feature] Email Transport Settings
+  [Email used to go straight from the browser to Resend with an API key in the bundle. Every email now goes through the `send-email` edge function, which sends it with the transport chosen here: Resend, a generic SMTP server, or a local mailbox for development and testing. The Resend API key and SMTP password are function secrets (`RESEND_API_KEY`, `SMTP_PASSWORD`) and are never stored in the database.]
+
+  ## Query Description: [This operation creates the single-row `public.email_settings` table, defaulting to Resend with the sender the app used before, and the `public.dev_mailbox` table that the local transport writes to instead of sending. No existing data is changed. After deploying, set the secrets with `supabase secrets set RESEND_API_KEY=...` and remove VITE_RESEND_KEY from the app's environment.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.email_settings
+    - Columns: id, transport, from_name, from_address, reply_to, smtp_host, smtp_port, smtp_secure, smtp_username, updated_by, updated_at
+  - Table: public.dev_mailbox
+    - Columns: id, from_address, to_addresses, reply_to, subject, text_body, html_body, attachments, created_by, created_at
+
+  ## Security Implications:
+  - RLS Status: Enabled on the new tables.
+  - Policy Changes: Yes, authenticated users can read and update the email settings and read and clear the local mailbox. Only the edge function (service role) writes to the mailbox.
+  - Auth Requirements: Authenticated user.
+
+  ## Performance Impact:
+  - Indexes: Mailbox by creation date.
+  - Triggers: Keeps email_settings.updated_at current.
+  - Estimated Impact: Low.
+*/
+
+create table if not exists public.email_settings (
+  id int primary key default 1 check (id = 1),
+  transport text not null default 'resend' check (transport in ('resend', 'smtp', 'local')),
+  from_name text not null default 'Patient Sync',
+  from_address text not null default 'onboarding@resend.dev',
+  reply_to text,
+  smtp_host text,
+  smtp_port int not null default 587 check (smtp_port > 0),
+  smtp_secure boolean not null default false,
+  smtp_username text,
+  updated_by text,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.email_settings (id) values (1) on conflict (id) do nothing;
+
+drop trigger if exists handle_updated_at on public.email_settings;
+create trigger handle_updated_at
+before update on public.email_settings
+for each row
+execute procedure moddatetime(updated_at);
+
+create table if not exists public.dev_mailbox (
+  id uuid primary key default gen_random_uuid(),
+  from_address text not null,
+  to_addresses text[] not null,
+  reply_to text,
+  subject text not null,
+  text_body text,
+  html_body text,
+  -- Filename, content type and size of each attachment; the content itself is not kept.
+  attachments jsonb not null default '[]'::jsonb,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_dev_mailbox_created on public.dev_mailbox (created_at desc);
+
+alter table public.email_settings enable row level security;
+alter table public.dev_mailbox enable row level security;
+
+create policy "Authenticated users can read email settings"
+on public.email_settings for select
+to authenticated
+using (true);
+
+create policy "Authenticated users can update email settings"
+on public.email_settings for update
+to authenticated
+using (true);
+
+create policy "Authenticated users can read the local mailbox"
+on public.dev_mailbox for select
+to authenticated
+using (true);
+
+create policy "Authenticated users can clear the local mailbox"
+on public.dev_mailbox for delete
+to authenticated
+using (true);
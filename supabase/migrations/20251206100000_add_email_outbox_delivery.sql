@@ -0,0 +1,145 @@
+/*
+  # [Feature] Durable Email Outbox
+  [Every email is now written to `public.email_outbox` before it is sent, so a failed send is retried instead of lost. The `send-email` function claims due messages, sends them, and on failure schedules the next attempt with exponential backoff until `max_attempts` is reached. Vendor PAR packets are linked to their outbox message, so the Vendor Status page can show the delivery state, last error and payload, and retry or cancel a send.]
+
+  ## Query Description: [This operation renames `email_outbox.error` to `last_error`, adds retry columns and the `sending` status to `public.email_outbox`, creates `public.email_outbox_attachments` for attachment content, and links `public.vendor_log` rows to their outbox message. Existing queued emails become due immediately. A trigger mirrors the outbox status onto linked vendor log rows. No data is removed.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Medium"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.email_outbox
+    - Renamed Columns: error -> last_error
+    - Added Columns: reply_to, attempts, max_attempts, next_attempt_at, last_attempt_at, transport, provider_message_id
+    - Status check now allows 'sending'
+  - Table: public.email_outbox_attachments
+    - Columns: id, email_id, filename, content_type, size_bytes, content, created_at
+  - Table: public.vendor_log
+    - Added Columns: outbox_id
+  - Function: public.claim_outbox_emails(int, uuid[])
+  - Function: public.sync_vendor_log_status()
+  - Trigger: sync_vendor_log_status on public.email_outbox
+
+  ## Security Implications:
+  - RLS Status: Enabled on the new table.
+  - Policy Changes: Yes, authenticated users can read and insert outbox attachments. Claiming messages for sending is limited to the service role used by the `send-email` function.
+  - Auth Requirements: Authenticated user.
+
+  ## Performance Impact:
+  - Indexes: Due messages by next attempt, attachments by email, vendor log by outbox message.
+  - Triggers: Runs when an outbox message's status changes; touches only its vendor log rows.
+  - Estimated Impact: Low.
+*/
+
+alter table public.email_outbox rename column error to last_error;
+
+alter table public.email_outbox
+  add column if not exists reply_to text,
+  add column if not exists attempts int not null default 0,
+  add column if not exists max_attempts int not null default 5 check (max_attempts > 0),
+  -- When the message is next due to be sent; null once it is sent, failed for good or cancelled.
+  add column if not exists next_attempt_at timestamptz default now(),
+  add column if not exists last_attempt_at timestamptz,
+  add column if not exists transport text,
+  add column if not exists provider_message_id text;
+
+alter table public.email_outbox drop constraint if exists email_outbox_status_check;
+alter table public.email_outbox
+  add constraint email_outbox_status_check check (status in ('queued', 'sending', 'sent', 'failed', 'cancelled'));
+
+update public.email_outbox
+set next_attempt_at = null
+where status <> 'queued';
+
+create index if not exists idx_email_outbox_due
+  on public.email_outbox (next_attempt_at)
+  where status = 'queued';
+
+create table if not exists public.email_outbox_attachments (
+  id uuid primary key default gen_random_uuid(),
+  email_id uuid not null references public.email_outbox(id) on delete cascade,
+  filename text not null,
+  content_type text,
+  size_bytes int not null default 0,
+  -- Base64-encoded file content, kept so the message can be retried.
+  content text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_email_outbox_attachments_email on public.email_outbox_attachments (email_id);
+
+alter table public.email_outbox_attachments enable row level security;
+
+create policy "Authenticated users can read outbox attachments"
+on public.email_outbox_attachments for select
+to authenticated
+using (true);
+
+create policy "Authenticated users can add outbox attachments"
+on public.email_outbox_attachments for insert
+to authenticated
+with check (true);
+
+alter table public.vendor_log
+  add column if not exists outbox_id uuid references public.email_outbox(id) on delete set null;
+
+create index if not exists idx_vendor_log_outbox on public.vendor_log (outbox_id);
+
+-- Marks up to p_limit due messages as sending and returns them. With p_ids, only
+-- those messages are claimed, due or not (a manual retry). Messages stuck in
+-- `sending` for ten minutes (the function died mid-send) are claimed again.
+create or replace function public.claim_outbox_emails(p_limit int default 10, p_ids uuid[] default null)
+returns setof public.email_outbox
+language sql
+security invoker
+set search_path = public
+as $$
+  update public.email_outbox e
+  set status = 'sending',
+      attempts = e.attempts + 1,
+      last_attempt_at = now()
+  where e.id in (
+    select c.id
+    from public.email_outbox c
+    where (p_ids is null or c.id = any(p_ids))
+      and (
+        (c.status = 'queued' and (p_ids is not null or c.next_attempt_at <= now()))
+        or (c.status = 'sending' and c.last_attempt_at < now() - interval '10 minutes')
+      )
+    order by c.next_attempt_at nulls first
+    limit p_limit
+    for update skip locked
+  )
+  returning e.*;
+$$;
+
+revoke execute on function public.claim_outbox_emails(int, uuid[]) from public, anon, authenticated;
+
+create or replace function public.sync_vendor_log_status()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  update public.vendor_log
+  set status = case new.status
+    when 'sent' then 'sent'
+    when 'failed' then 'failed'
+    when 'cancelled' then 'cancelled'
+    else 'pending'
+  end
+  where outbox_id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists sync_vendor_log_status on public.email_outbox;
+create trigger sync_vendor_log_status
+after update of status on public.email_outbox
+for each row
+when (new.status is distinct from old.status)
+execute procedure public.sync_vendor_log_status();
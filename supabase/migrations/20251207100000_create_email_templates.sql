@@ -0,0 +1,49 @@
+/*
+  # [Feature] Email Templates
+  [Admins can edit the subject and body of the emails and letters the app produces (vendor PAR packets, the daily summary and documentation request letters) using merge fields such as `{{patient.name}}`. The built-in wording lives in the app; a row here overrides it, and deleting the row restores the default.]
+
+  ## Query Description: [This operation creates the `public.email_templates` table, keyed by template. No rows are seeded, so every template keeps its default wording until it is edited. No existing data is changed.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.email_templates
+    - Columns: key, subject, body, updated_by, updated_at
+
+  ## Security Implications:
+  - RLS Status: Enabled on the new table.
+  - Policy Changes: Yes, authenticated users can read, add, edit and reset templates.
+  - Auth Requirements: Authenticated user.
+
+  ## Performance Impact:
+  - Indexes: Primary key only.
+  - Triggers: Keeps email_templates.updated_at current.
+  - Estimated Impact: Low.
+*/
+
+create table if not exists public.email_templates (
+  -- One of the template keys defined in the app (src/lib/emailTemplates.ts).
+  key text primary key,
+  subject text not null,
+  body text not null,
+  updated_by text,
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists handle_updated_at on public.email_templates;
+create trigger handle_updated_at
+before update on public.email_templates
+for each row
+execute procedure moddatetime(updated_at);
+
+alter table public.email_templates enable row level security;
+
+create policy "Authenticated users can manage email templates"
+on public.email_templates for all
+to authenticated
+using (true)
+with check (true);
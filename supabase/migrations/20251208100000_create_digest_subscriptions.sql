@@ -0,0 +1,65 @@
+/*
+  # [Feature] Digest Subscriptions
+  [Replaces the single hard-coded daily summary with a digest each user subscribes to. A subscription sets how often the digest is sent (daily or weekly), which sections it includes (accounts, SLA breaches, new denials, tasks due, in-services this week), whether it covers the user's own book of business or every account, and optional payer and stage filters.]
+
+  ## Query Description: [This operation creates `public.digest_subscriptions`, one row per user. It also deletes any edited `daily_summary` email template, because that template is replaced by the `digest` template and its merge fields no longer exist. No other data is changed.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.digest_subscriptions
+    - Columns: id, user_id, email, frequency, send_day, sections, scope, filters, is_active, last_sent_at, created_at, updated_at
+
+  ## Security Implications:
+  - RLS Status: Enabled on the new table.
+  - Policy Changes: Yes, authenticated users can read subscriptions and manage only their own.
+  - Auth Requirements: Authenticated user.
+
+  ## Performance Impact:
+  - Indexes: Unique on user_id.
+  - Triggers: Keeps digest_subscriptions.updated_at current.
+  - Estimated Impact: Low.
+*/
+
+create table if not exists public.digest_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null unique references auth.users(id) on delete cascade,
+  email text not null,
+  frequency text not null default 'daily' check (frequency in ('daily', 'weekly')),
+  -- Day of the week a weekly digest goes out (0 = Sunday).
+  send_day int not null default 1 check (send_day between 0 and 6),
+  sections text[] not null default array['accounts', 'sla_breaches', 'new_denials', 'tasks_due', 'in_services'],
+  -- 'mine' covers orders where the user is the rep and tasks assigned to them; 'all' covers everything.
+  scope text not null default 'mine' check (scope in ('mine', 'all')),
+  -- Optional { "payers": [...], "stages": [...] } limits on the orders covered.
+  filters jsonb not null default '{}'::jsonb,
+  is_active boolean not null default true,
+  last_sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists handle_updated_at on public.digest_subscriptions;
+create trigger handle_updated_at
+before update on public.digest_subscriptions
+for each row
+execute procedure moddatetime(updated_at);
+
+alter table public.digest_subscriptions enable row level security;
+
+create policy "Authenticated users can read digest subscriptions"
+on public.digest_subscriptions for select
+to authenticated
+using (true);
+
+create policy "Users can manage their own digest subscription"
+on public.digest_subscriptions for all
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+delete from public.email_templates where key = 'daily_summary';
@@ -0,0 +1,94 @@
+/*
+  # [Feature] Inbound Referral Emails
+  [Referral emails saved as .eml files are uploaded (or picked up from a watched folder) and parsed into draft referrals. Each draft keeps the sender, subject, body and attachments, the referral details read from the email and the suggested patient and doctor matches, and waits in a triage queue until staff accept it as a new referral, merge it into an existing patient or discard it.]
+
+  ## Query Description: [This operation creates the `public.inbound_referrals` and `public.inbound_referral_attachments` tables. Attachment files are stored in the existing private `documents` bucket under `inbound/`. No existing data is changed.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Table: public.inbound_referrals
+    - Columns: id, source, file_name, dedupe_key, message_id, from_name, from_address, subject, body, received_at, draft, patient_matches, suggested_doctor_id, status, patient_id, order_id, resolved_by, resolved_at, created_by, created_at, updated_at
+  - Table: public.inbound_referral_attachments
+    - Columns: id, inbound_id, file_name, mime_type, size_bytes, file_path, doc_key, document_id, created_at
+
+  ## Security Implications:
+  - RLS Status: Enabled on the new tables.
+  - Policy Changes: Yes, authenticated users can manage inbound referrals and their attachments.
+  - Auth Requirements: Authenticated user.
+
+  ## Performance Impact:
+  - Indexes: Unique dedupe key; drafts by status; attachments by draft.
+  - Triggers: Keeps inbound_referrals.updated_at current.
+  - Estimated Impact: Low.
+*/
+
+create table if not exists public.inbound_referrals (
+  id uuid primary key default gen_random_uuid(),
+  source text not null default 'upload' check (source in ('upload', 'folder')),
+  file_name text not null,
+  -- The Message-ID header, or the file name and size when there is none; stops the same email being imported twice.
+  dedupe_key text not null unique,
+  message_id text,
+  from_name text,
+  from_address text,
+  subject text,
+  body text,
+  received_at timestamptz,
+  -- Referral fields read from the email: name, dob, phone_number, primary_insurance, referring_physician.
+  draft jsonb not null default '{}'::jsonb,
+  -- Best existing patients first: [{ patient_id, name, dob, score, reasons }].
+  patient_matches jsonb not null default '[]'::jsonb,
+  suggested_doctor_id uuid references public.doctors(id) on delete set null,
+  status text not null default 'pending' check (status in ('pending', 'accepted', 'merged', 'discarded')),
+  patient_id uuid references public.patients(id) on delete set null,
+  order_id uuid references public.orders(id) on delete set null,
+  resolved_by text,
+  resolved_at timestamptz,
+  created_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_inbound_referrals_status on public.inbound_referrals (status, created_at desc);
+
+drop trigger if exists handle_updated_at on public.inbound_referrals;
+create trigger handle_updated_at
+before update on public.inbound_referrals
+for each row
+execute procedure moddatetime(updated_at);
+
+create table if not exists public.inbound_referral_attachments (
+  id uuid primary key default gen_random_uuid(),
+  inbound_id uuid not null references public.inbound_referrals(id) on delete cascade,
+  file_name text not null,
+  mime_type text,
+  size_bytes bigint,
+  -- Object path inside the `documents` storage bucket.
+  file_path text not null,
+  -- The document the file is filed as when the draft is accepted or merged.
+  doc_key text not null default 'referral_form',
+  document_id uuid references public.documents(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_inbound_referral_attachments_inbound on public.inbound_referral_attachments (inbound_id);
+
+alter table public.inbound_referrals enable row level security;
+alter table public.inbound_referral_attachments enable row level security;
+
+create policy "Authenticated users can manage inbound referrals"
+on public.inbound_referrals for all
+to authenticated
+using (true)
+with check (true);
+
+create policy "Authenticated users can manage inbound referral attachments"
+on public.inbound_referral_attachments for all
+to authenticated
+using (true)
+with check (true);
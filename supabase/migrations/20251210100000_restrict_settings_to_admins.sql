@@ -0,0 +1,57 @@
+/*
+  # [Fix] Admin-Only Settings Writes
+  [The Settings tabs for email transport, email templates and stoplight criteria are admin-only in the app, but their tables let any authenticated user write to them. For email settings that leaks a secret: pointing the SMTP host and username at another server makes `send-email` log in to it with `SMTP_PASSWORD`.]
+
+  ## Query Description: [This operation replaces the write policies on `public.email_settings`, `public.email_templates` and `public.stoplight_criteria` so only admins (`public.is_admin()`) can change them. Everyone signed in can still read them, so templated emails and stoplight colours keep working for all users. No data is changed.]
+
+  ## Metadata:
+  - Schema-Category: "Security"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Policies on public.email_settings, public.email_templates, public.stoplight_criteria
+
+  ## Security Implications:
+  - RLS Status: Enabled.
+  - Policy Changes: Yes, writes to these tables now require the admin role.
+  - Auth Requirements: Admin role for writes; authenticated user for reads.
+
+  ## Performance Impact:
+  - Indexes: No change.
+  - Triggers: No change.
+  - Estimated Impact: Negligible.
+*/
+
+-- Email settings
+drop policy if exists "Authenticated users can update email settings" on public.email_settings;
+
+create policy "Admins can update email settings"
+on public.email_settings for update
+to authenticated
+using (public.is_admin())
+with check (public.is_admin());
+
+-- Email templates
+drop policy if exists "Authenticated users can manage email templates" on public.email_templates;
+
+create policy "Authenticated users can read email templates"
+on public.email_templates for select
+to authenticated
+using (true);
+
+create policy "Admins can manage email templates"
+on public.email_templates for all
+to authenticated
+using (public.is_admin())
+with check (public.is_admin());
+
+-- Stoplight criteria
+drop policy if exists "Authenticated users can update stoplight criteria" on public.stoplight_criteria;
+
+create policy "Admins can update stoplight criteria"
+on public.stoplight_criteria for update
+to authenticated
+using (public.is_admin())
+with check (public.is_admin());
@@ -0,0 +1,45 @@
+/*
+  # [Feature] Scheduled Digests
+  [Digests used to be built and queued by the subscriber's own browser tab, so a user who did not open the app that day or week never got the digest they subscribed to. The `send-digests` edge function now sends them; this schedules it every hour. The function queues each digest that is due in `email_outbox` and sends it with the transport from Email Settings.]
+
+  ## Query Description: [This operation enables `pg_cron` and `pg_net` and schedules the `send-digests` job. The job reads the project URL and service role key from Vault, so create both secrets before (or right after) running it: `select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');` and `select vault.create_secret('<service role key>', 'service_role_key');`. Digests go out from `DIGEST_SEND_HOUR` (default 7) in the `DIGEST_TIME_ZONE` function secret (default UTC). No existing data is changed.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Extensions: pg_cron, pg_net
+  - Cron job: send-digests (hourly)
+
+  ## Security Implications:
+  - RLS Status: Unchanged.
+  - Policy Changes: No.
+  - Auth Requirements: The job calls the function with the service role key kept in Vault; the function refuses `run` from anyone else.
+
+  ## Performance Impact:
+  - Indexes: None.
+  - Triggers: None.
+  - Estimated Impact: One short function call per hour.
+*/
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+-- Scheduling a job name that already exists replaces it, so this can be re-run.
+select cron.schedule(
+  'send-digests',
+  '5 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/send-digests',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{"action": "run"}'::jsonb
+  );
+  $$
+);
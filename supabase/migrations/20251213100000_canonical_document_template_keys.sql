@@ -0,0 +1,41 @@
+/*
+  # [Data Migration] Canonical Document Template Keys
+  [The canonical document key migration rewrote every stored document key except `document_templates.abbrev`, which still held the seeded spellings (`F2F`, `INS_CARD`, `DEL_TICKET`, `PHOTO_CONSENT`, `DRESS_LOG`, ...). The app canonicalised them on read in two places, but anything else reading the table saw the old keys.]
+
+  ## Query Description: [This operation rewrites `document_templates.abbrev` with `public.canonical_doc_key()`. `abbrev` is unique, so when several templates collapse to the same key one is kept: the one already spelled canonically, then an active one, then the oldest. The others are deleted; nothing references templates by id. Back up before running; the original spellings are not kept.]
+
+  ## Metadata:
+  - Schema-Category: "Data"
+  - Impact-Level: "Low"
+  - Requires-Backup: true
+  - Reversible: false
+
+  ## Structure Details:
+  - Tables updated: document_templates
+
+  ## Security Implications:
+  - RLS Status: Unchanged.
+  - Policy Changes: No.
+  - Auth Requirements: None.
+
+  ## Performance Impact:
+  - Indexes: None.
+  - Triggers: None.
+  - Estimated Impact: One pass over document_templates.
+*/
+
+delete from public.document_templates t
+using (
+  select id,
+    row_number() over (
+      partition by public.canonical_doc_key(abbrev)
+      order by (abbrev = public.canonical_doc_key(abbrev)) desc, coalesce(is_active, false) desc, created_at, id
+    ) as rank
+  from public.document_templates
+) ranked
+where t.id = ranked.id
+  and ranked.rank > 1;
+
+update public.document_templates
+set abbrev = public.canonical_doc_key(abbrev)
+where abbrev <> public.canonical_doc_key(abbrev);
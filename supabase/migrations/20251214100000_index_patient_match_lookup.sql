@@ -0,0 +1,46 @@
+/*
+  # [Fix] Indexed Patient Match Lookup
+  [`find_patient_match_candidates` filtered with `similarity(...) >= p_threshold`, which the trigram index on `patients.name` cannot serve, so every import and inbound email scanned the whole patients table.]
+
+  ## Query Description: [This operation replaces `find_patient_match_candidates` so it filters with the pg_trgm `%` operator after setting `pg_trgm.similarity_threshold` to `p_threshold` for the current transaction. Results are unchanged: trigram similarity already ignores case. No data is changed.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Function: public.find_patient_match_candidates(p_names text[], p_threshold real)
+
+  ## Security Implications:
+  - RLS Status: Unchanged.
+  - Policy Changes: No.
+  - Auth Requirements: Authenticated user. The function runs with the invoker's permissions.
+
+  ## Performance Impact:
+  - Indexes: The lookup now uses the existing `idx_patients_name_trgm` index.
+  - Triggers: None.
+  - Estimated Impact: Lower; an index scan per name instead of a full scan of patients.
+*/
+
+create or replace function public.find_patient_match_candidates(p_names text[], p_threshold real default 0.3)
+returns setof public.patients
+language plpgsql
+security invoker
+set search_path = public, extensions
+as $$
+begin
+  -- `%` compares against this setting; it only lasts until the end of the caller's transaction.
+  perform set_config('pg_trgm.similarity_threshold', p_threshold::text, true);
+
+  return query
+    select distinct p.*
+    from public.patients p
+    join unnest(p_names) as n(name)
+      on p.name % n.name
+    where coalesce(p.archived, false) = false;
+end;
+$$;
+
+grant execute on function public.find_patient_match_candidates(text[], real) to authenticated;
@@ -0,0 +1,39 @@
+/*
+  # [Fix] Admin-Only Workflow Definitions
+  [The Workflow Editor is admin-only in the app, but `public.workflow_definitions` let any authenticated user publish or edit a pipeline version, which changes the stages and gates every order is routed through.]
+
+  ## Query Description: [This operation replaces the insert and update policies on `public.workflow_definitions` so only admins (`public.is_admin()`) can publish or change versions. Everyone signed in can still read them, so the board and stage gates keep working for all users. No data is changed.]
+
+  ## Metadata:
+  - Schema-Category: "Security"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Policies on public.workflow_definitions
+
+  ## Security Implications:
+  - RLS Status: Enabled.
+  - Policy Changes: Yes, publishing and updating workflow definitions now require the admin role.
+  - Auth Requirements: Admin role for writes; authenticated user for reads.
+
+  ## Performance Impact:
+  - Indexes: No change.
+  - Triggers: No change.
+  - Estimated Impact: Negligible.
+*/
+
+drop policy if exists "Authenticated users can publish workflow definitions" on public.workflow_definitions;
+drop policy if exists "Authenticated users can update workflow definitions" on public.workflow_definitions;
+
+create policy "Admins can publish workflow definitions"
+on public.workflow_definitions for insert
+to authenticated
+with check (public.is_admin());
+
+create policy "Admins can update workflow definitions"
+on public.workflow_definitions for update
+to authenticated
+using (public.is_admin())
+with check (public.is_admin());
@@ -0,0 +1,38 @@
+/*
+  # [Fix] Admin-Only Automation Rules
+  [Automation rules are managed from an admin-only Settings tab, but `public.automation_rules` let any authenticated user create, change or delete a rule, including rules that send email or move orders between stages.]
+
+  ## Query Description: [This operation replaces the catch-all policy on `public.automation_rules` with a read policy for everyone signed in and a write policy for admins (`public.is_admin()`). Rules keep firing for every user's actions. No data is changed.]
+
+  ## Metadata:
+  - Schema-Category: "Security"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Policies on public.automation_rules
+
+  ## Security Implications:
+  - RLS Status: Enabled.
+  - Policy Changes: Yes, writes to automation rules now require the admin role.
+  - Auth Requirements: Admin role for writes; authenticated user for reads.
+
+  ## Performance Impact:
+  - Indexes: No change.
+  - Triggers: No change.
+  - Estimated Impact: Negligible.
+*/
+
+drop policy if exists "Authenticated users can manage automation rules" on public.automation_rules;
+
+create policy "Authenticated users can read automation rules"
+on public.automation_rules for select
+to authenticated
+using (true);
+
+create policy "Admins can manage automation rules"
+on public.automation_rules for all
+to authenticated
+using (public.is_admin())
+with check (public.is_admin());
@@ -0,0 +1,38 @@
+/*
+  # [Fix] Admin-Only Document Validity Rules
+  [Document validity windows are edited from an admin-only Settings tab, but `public.document_validity_rules` let any authenticated user change them. Shortening or lengthening a window changes when every patient's documents expire.]
+
+  ## Query Description: [This operation replaces the catch-all policy on `public.document_validity_rules` with a read policy for everyone signed in and a write policy for admins (`public.is_admin()`). Expiry dates keep being computed for every user's uploads. No data is changed.]
+
+  ## Metadata:
+  - Schema-Category: "Security"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Policies on public.document_validity_rules
+
+  ## Security Implications:
+  - RLS Status: Enabled.
+  - Policy Changes: Yes, writes to document validity rules now require the admin role.
+  - Auth Requirements: Admin role for writes; authenticated user for reads.
+
+  ## Performance Impact:
+  - Indexes: No change.
+  - Triggers: No change.
+  - Estimated Impact: Negligible.
+*/
+
+drop policy if exists "Authenticated users can manage document validity rules" on public.document_validity_rules;
+
+create policy "Authenticated users can read document validity rules"
+on public.document_validity_rules for select
+to authenticated
+using (true);
+
+create policy "Admins can manage document validity rules"
+on public.document_validity_rules for all
+to authenticated
+using (public.is_admin())
+with check (public.is_admin());
@@ -0,0 +1,41 @@
+/*
+  # [Feature] Scheduled Email Outbox
+  [Queued emails (automation emails, retries after a failed send) were only sent while someone had the app open, because the outbox was worked through by each tab. When nobody was signed in, queued emails and their retries waited until the next login. This schedules `send-email` to process the outbox every minute; open tabs still run it as a fast path.]
+
+  ## Query Description: [This operation schedules the `process-email-outbox` job, which calls `send-email` with `{"action": "process_outbox"}`. Like the `send-digests` job it reads the `project_url` and `service_role_key` secrets from Vault, so both must exist. `send-email` only accepts `process_outbox` when called with the service role key. No existing data is changed.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Cron job: process-email-outbox (every minute)
+
+  ## Security Implications:
+  - RLS Status: Unchanged.
+  - Policy Changes: No.
+  - Auth Requirements: The job calls the function with the service role key kept in Vault.
+
+  ## Performance Impact:
+  - Indexes: None.
+  - Triggers: None.
+  - Estimated Impact: One short function call per minute.
+*/
+
+-- Scheduling a job name that already exists replaces it, so this can be re-run.
+select cron.schedule(
+  'process-email-outbox',
+  '* * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/send-email',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{"action": "process_outbox"}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,41 @@
+/*
+  # [Feature] Scheduled Background Sweep
+  [Document expiry and the time-driven stoplight recompute (SLA and missing-document criteria) ran in the browser, so nothing expired or changed colour while nobody had the app open, and every open tab had to coordinate who ran it. The `background-sweep` edge function now does both; this schedules it every 15 minutes.]
+
+  ## Query Description: [This operation schedules the `background-sweep` job, which calls the `background-sweep` function with `{"action": "run"}`. Like the `send-digests` job it reads the `project_url` and `service_role_key` secrets from Vault, so both must exist. The function refuses calls without the service role key. No existing data is changed.]
+
+  ## Metadata:
+  - Schema-Category: "Structural"
+  - Impact-Level: "Low"
+  - Requires-Backup: false
+  - Reversible: true
+
+  ## Structure Details:
+  - Cron job: background-sweep (every 15 minutes)
+
+  ## Security Implications:
+  - RLS Status: Unchanged.
+  - Policy Changes: No.
+  - Auth Requirements: The job calls the function with the service role key kept in Vault.
+
+  ## Performance Impact:
+  - Indexes: None.
+  - Triggers: None.
+  - Estimated Impact: One pass over active orders every 15 minutes.
+*/
+
+-- Scheduling a job name that already exists replaces it, so this can be re-run.
+select cron.schedule(
+  'background-sweep',
+  '*/15 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/background-sweep',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{"action": "run"}'::jsonb
+  );
+  $$
+);